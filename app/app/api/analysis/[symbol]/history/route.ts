@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { getAnalysisHistory } from "@/lib/analysis-history"
+
+export const dynamic = "force-dynamic"
+
+// Past analyses of an asset, newest first, each diffed against the one before it and scored once due
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { symbol: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || '20')
+
+    const history = await getAnalysisHistory(params.symbol, isNaN(limit) ? undefined : limit)
+    if (!history) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(history)
+  } catch (error) {
+    console.error('Analysis history error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -2,6 +2,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/db"
 import { marketDataService, type AssetData, type NewsItem, type EnhancedAssetData } from "@/lib/market-data"
+import { generateValidatedAnalysis, AnalysisRejectedError } from "@/lib/llm/structured-analysis"
+import { latest, rsi, sma, supportResistance, volatility } from "@/lib/indicators"
 
 // Technical analysis helper functions
 function calculateTechnicalIndicators(
@@ -21,64 +23,36 @@ function calculateTechnicalIndicators(
   }
 
   const prices = priceHistory.map(p => p.price)
-  const recent20 = prices.slice(-20)
   
   // Calculate 20-day moving average
-  const ma20 = recent20.reduce((sum, price) => sum + price, 0) / recent20.length
+  const ma20 = latest(sma(prices, 20)) ?? assetData.price
   
   // Calculate RSI
-  const rsi = calculateRSI(prices.slice(-14))
+  const currentRsi = latest(rsi(prices)) ?? 50
   
-  // Calculate volatility (standard deviation)
-  const mean = recent20.reduce((sum, price) => sum + price, 0) / recent20.length
-  const variance = recent20.reduce((sum, price) => sum + Math.pow(price - mean, 2), 0) / recent20.length
-  const volatility = Math.sqrt(variance) / mean * 100
+  // Annualized volatility of returns
+  const currentVolatility = volatility(prices) ?? 15
   
   // Determine trend
   const trend = prices[prices.length - 1] > ma20 ? 
     (prices[prices.length - 5] > prices[prices.length - 10] ? 'BULLISH' : 'NEUTRAL') : 'BEARISH'
   
-  // Support and resistance levels
-  const recentMax = Math.max(...recent20)
-  const recentMin = Math.min(...recent20)
+  // Support and resistance levels; the history only has closes
+  const levels = supportResistance(prices.map(price => ({ high: price, low: price, close: price })), 20)
+  const support = levels.support ?? assetData.price * 0.95
+  const resistance = levels.resistance ?? assetData.price * 1.05
   
   return {
-    rsi: Math.round(rsi),
+    rsi: Math.round(currentRsi),
     ma20: Math.round(ma20 * 100) / 100,
     priceVsMA20: Math.round(((assetData.price - ma20) / ma20) * 100 * 100) / 100,
-    volatility: Math.round(volatility * 100) / 100,
+    volatility: Math.round(currentVolatility * 100) / 100,
     trend,
-    support: Math.round(recentMin * 100) / 100,
-    resistance: Math.round(recentMax * 100) / 100
+    support: Math.round(support * 100) / 100,
+    resistance: Math.round(resistance * 100) / 100
   }
 }
 
-function calculateRSI(prices: number[], period: number = 14): number {
-  if (prices.length < period + 1) return 50
-  
-  let gains = 0
-  let losses = 0
-  
-  for (let i = 1; i <= period; i++) {
-    const change = prices[i] - prices[i - 1]
-    if (change > 0) {
-      gains += change
-    } else {
-      losses -= change
-    }
-  }
-  
-  const avgGain = gains / period
-  const avgLoss = losses / period
-  
-  if (avgLoss === 0) return 100
-  
-  const rs = avgGain / avgLoss
-  const rsi = 100 - (100 / (1 + rs))
-  
-  return rsi
-}
-
 function analyzeNewsSentiment(news: NewsItem[]) {
   if (news.length === 0) {
     return {
@@ -211,20 +185,12 @@ export async function GET(
     const confidenceScore = calculateConfidenceScore(enhancedAssetData, technicalIndicators, newsSentiment)
 
     // Generate AI analysis using comprehensive data
-    const response = await fetch('https://apps.abacus.ai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.ABACUSAI_API_KEY}`
-      },
-      body: JSON.stringify({
-        model: 'gpt-4.1-mini',
-        messages: [{
-          role: 'system',
-          content: `You are AiiA, an expert financial analyst providing investment recommendations. Analyze the provided data comprehensively and respond with accurate JSON only.`
-        }, {
-          role: 'user',
-          content: `Analyze ${enhancedAssetData.name} (${symbol}) for investment decision using this comprehensive data:
+    const analysisData = await generateValidatedAnalysis([{
+      role: 'system',
+      content: `You are AiiA, an expert financial analyst providing investment recommendations. Analyze the provided data comprehensively and respond with accurate JSON only.`
+    }, {
+      role: 'user',
+      content: `Analyze ${enhancedAssetData.name} (${symbol}) for investment decision using this comprehensive data:
 
           CURRENT METRICS:
           - Price: $${enhancedAssetData.price}
@@ -281,18 +247,7 @@ export async function GET(
           }
           
           Respond with raw JSON only.`
-        }],
-        response_format: { type: "json_object" },
-        max_tokens: 3000
-      })
-    })
-
-    if (!response.ok) {
-      throw new Error('AI analysis failed')
-    }
-
-    const analysisResult = await response.json()
-    const analysisData = JSON.parse(analysisResult.choices[0].message.content)
+    }], { maxTokens: 3000, currentPrice: enhancedAssetData.price })
 
     // Save analysis to database
     const analysis = await prisma.analysis.create({
@@ -307,12 +262,16 @@ export async function GET(
         risks: analysisData.risks,
         opportunities: analysisData.opportunities,
         marketSentiment: analysisData.marketSentiment,
+        priceAtAnalysis: enhancedAssetData.price,
         expiresAt: new Date(Date.now() + 60 * 60 * 1000) // Expires in 1 hour
       }
     })
 
     return NextResponse.json({ analysis })
   } catch (error) {
+    if (error instanceof AnalysisRejectedError) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: 502 })
+    }
     console.error('AI analysis error:', error)
     return NextResponse.json({ error: 'Analysis generation failed' }, { status: 500 })
   }
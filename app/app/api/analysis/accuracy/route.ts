@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { analysisScorer } from "@/lib/analysis-scoring"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Hit rates and calibration of scored analyses across all assets, with a per-asset breakdown.
+ * With ?symbol= the asset's own stats are returned next to the overall ones.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const symbol = searchParams.get('symbol')?.toUpperCase()
+
+    const accuracy = await analysisScorer.getAccuracy()
+
+    if (!symbol) {
+      return NextResponse.json(accuracy)
+    }
+
+    const { overall: asset } = await analysisScorer.getAccuracy(symbol)
+    return NextResponse.json({ symbol, asset, overall: accuracy.overall })
+  } catch (error) {
+    console.error('Analysis accuracy error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { analysisValidationMetrics } from "@/lib/llm/structured-analysis"
+
+export const dynamic = "force-dynamic"
+
+// Validation outcomes for LLM analysis output since this server process started
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json({ analysisValidation: analysisValidationMetrics.getStats() })
+  } catch (error) {
+    console.error('Analysis metrics error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -2,6 +2,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/db"
 import { marketDataService } from "@/lib/market-data"
+import { getLLMProvider } from "@/lib/llm"
 
 export const dynamic = "force-dynamic"
 
@@ -27,18 +28,9 @@ export async function GET(
       return NextResponse.json({ error: 'Asset data not available' }, { status: 404 })
     }
 
-    // Create streaming response
-    const response = await fetch('https://apps.abacus.ai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.ABACUSAI_API_KEY}`
-      },
-      body: JSON.stringify({
-        model: 'gpt-4.1-mini',
-        messages: [{
-          role: 'user',
-          content: `Provide a comprehensive investment analysis for ${assetData.name} (${symbol}).
+    const completion = getLLMProvider('analysis').stream([{
+      role: 'user',
+      content: `Provide a comprehensive investment analysis for ${assetData.name} (${symbol}).
           
           Current Market Data:
           - Price: $${assetData.price}
@@ -58,26 +50,19 @@ export async function GET(
           7. Market sentiment assessment
           
           Format your response as a comprehensive analysis report.`
-        }],
-        stream: true,
-        max_tokens: 3000
-      })
-    })
+    }], { maxTokens: 3000 })
 
+    // Re-emitted as OpenAI-style SSE deltas, which is what the analysis card parses
     const stream = new ReadableStream({
       async start(controller) {
-        const reader = response.body?.getReader()
-        const decoder = new TextDecoder()
         const encoder = new TextEncoder()
+        const send = (data: string) => controller.enqueue(encoder.encode(`data: ${data}\n\n`))
 
         try {
-          while (true) {
-            const { done, value } = await reader?.read() || { done: true, value: undefined }
-            if (done) break
-
-            const chunk = decoder.decode(value)
-            controller.enqueue(encoder.encode(chunk))
+          for await (const content of completion) {
+            send(JSON.stringify({ choices: [{ delta: { content } }] }))
           }
+          send('[DONE]')
         } catch (error) {
           console.error('Stream error:', error)
           controller.error(error)
@@ -3,32 +3,86 @@
 // Task E-019: Chart Interval Selector Support
 
 import { NextRequest, NextResponse } from "next/server"
-import { enhancedMarketDataService } from "@/lib/enhanced-market-data"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { marketDataService } from "@/lib/market-data"
 import { auditLogger } from "@/lib/audit-logger"
+import {
+  candleStore,
+  CandleStoreError,
+  HISTORY_RANGES,
+  HISTORY_RESOLUTIONS,
+  type CandleHistory,
+  type HistoryRange,
+  type HistoryResolution
+} from "@/lib/candle-store"
 
 export const dynamic = "force-dynamic"
 
+/**
+ * OHLCV candles from the candle store.
+ * - range: 1D, 1W, 1M, 3M, YTD, 1Y or Max (`interval` is accepted for older clients)
+ * - resolution: 5m, 15m, 1h, 1d or 1w; defaults to one suited to the range
+ * - from / to: ISO dates overriding the range
+ * - fill: `false` leaves gaps between candles instead of carrying the last close forward
+ * Reading candles can create assets and start provider backfills, so anonymous callers only get priceHistory.
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: { symbol: string } }
 ) {
   try {
     const { searchParams } = new URL(request.url)
-    const interval = searchParams.get('interval') || '1D'
+    const range = searchParams.get('range') || searchParams.get('interval') || '1D'
+    const resolution = searchParams.get('resolution')
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
     const symbol = params.symbol.toUpperCase()
 
-    console.log(`Fetching price history for ${symbol} with interval ${interval}`)
+    if (!HISTORY_RANGES.includes(range as HistoryRange)) {
+      return NextResponse.json({ error: `Unsupported range ${range}` }, { status: 400 })
+    }
+    if (resolution && !HISTORY_RESOLUTIONS.includes(resolution as HistoryResolution)) {
+      return NextResponse.json({ error: `Unsupported resolution ${resolution}` }, { status: 400 })
+    }
 
-    // Get price history with the specified interval
-    const priceHistory = await enhancedMarketDataService.getPriceHistory(symbol, interval)
+    const session = await getServerSession(authOptions)
+
+    let history: CandleHistory | null = null
+    if (session?.user?.id) {
+      try {
+        history = await candleStore.getHistory(symbol, {
+          range: range as HistoryRange,
+          resolution: (resolution as HistoryResolution) || undefined,
+          from: from ? new Date(from) : undefined,
+          to: to ? new Date(to) : undefined,
+          fill: searchParams.get('fill') !== 'false'
+        })
+      } catch (error) {
+        // No quote provider knows the symbol, but a history provider still might
+        if (!(error instanceof CandleStoreError && error.status === 404)) throw error
+      }
+    }
+
+    // Line charts keep working from provider history when no candles could be stored yet
+    const priceHistory = history && history.candles.length > 0
+      ? history.candles.map(candle => ({ timestamp: candle.timestamp, price: candle.close }))
+      : await marketDataService.getPriceHistory(symbol, range)
 
     return NextResponse.json({
       symbol,
-      interval,
+      interval: range,
+      resolution: history?.resolution ?? null,
+      from: history?.from ?? null,
+      to: history?.to ?? null,
+      candles: history?.candles ?? [],
       priceHistory,
       lastUpdated: new Date().toISOString()
     })
   } catch (error) {
+    if (error instanceof CandleStoreError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error('Price history API error:', error)
     auditLogger.logApiCall('price-history', 'api', 'error', 0, false, error instanceof Error ? error.message : 'Unknown error')
     return NextResponse.json({ error: 'Failed to fetch price history' }, { status: 500 })
@@ -1,8 +1,9 @@
 
 import { NextRequest, NextResponse } from "next/server"
-import { enhancedMarketDataService } from "@/lib/enhanced-market-data"
+import { marketDataService } from "@/lib/market-data"
 import { auditLogger } from "@/lib/audit-logger"
 import { prisma } from "@/lib/db"
+import { candleStore } from "@/lib/candle-store"
 
 export const dynamic = "force-dynamic"
 
@@ -13,8 +14,8 @@ export async function GET(
   try {
     const symbol = params.symbol.toUpperCase()
 
-    // Get asset details from enhanced market data service - Task B-006
-    const assetData = await enhancedMarketDataService.getAssetDetails(symbol)
+    // Get asset details from the market data service
+    const assetData = await marketDataService.getAssetDetails(symbol)
     if (!assetData) {
       return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
     }
@@ -26,13 +27,17 @@ export async function GET(
         name: assetData.name,
         type: assetData.type,
         exchange: assetData.exchange,
+        sector: assetData.sector,
+        industry: assetData.industry,
         updatedAt: new Date()
       },
       create: {
         symbol,
         name: assetData.name,
         type: assetData.type,
-        exchange: assetData.exchange
+        exchange: assetData.exchange,
+        sector: assetData.sector,
+        industry: assetData.industry
       }
     })
 
@@ -49,7 +54,7 @@ export async function GET(
     })
 
     // Get price history - Task E-019
-    const priceHistory = await enhancedMarketDataService.getPriceHistory(symbol, '1D')
+    const priceHistory = await candleStore.getClosePoints(symbol, '1D')
 
     return NextResponse.json({
       asset: assetData,
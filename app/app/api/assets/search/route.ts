@@ -1,6 +1,6 @@
 
 import { NextRequest, NextResponse } from "next/server"
-import { enhancedMarketDataService } from "@/lib/enhanced-market-data"
+import { marketDataService } from "@/lib/market-data"
 import { auditLogger } from "@/lib/audit-logger"
 import { prisma } from "@/lib/db"
 
@@ -15,8 +15,8 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Query parameter is required' }, { status: 400 })
     }
 
-    // Search using enhanced market data service - Task B-006
-    const results = await enhancedMarketDataService.searchAssets(query)
+    // Search across the configured market data providers
+    const results = await marketDataService.searchAssets(query)
 
     // Update/create assets in database
     for (const asset of results) {
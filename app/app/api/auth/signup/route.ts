@@ -2,6 +2,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import bcrypt from "bcryptjs"
 import { prisma } from "@/lib/db"
+import { portfolioManager } from "@/lib/portfolio-manager"
 
 export async function POST(request: NextRequest) {
   try {
@@ -39,14 +40,7 @@ export async function POST(request: NextRequest) {
     })
 
     // Create default portfolio
-    await prisma.portfolio.create({
-      data: {
-        userId: user.id,
-        name: "Main Portfolio",
-        type: "SIMULATED",
-        balance: 100000
-      }
-    })
+    await portfolioManager.create(user.id, { name: "Main Portfolio" })
 
     // Create default watchlist
     await prisma.watchlist.create({
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/db"
+import { backtester, BacktestError } from "@/lib/backtester"
+
+export const dynamic = "force-dynamic"
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+
+    if (!body.symbol) {
+      return NextResponse.json({ error: 'Symbol is required' }, { status: 400 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: {
+        buyConfidenceThreshold: true,
+        sellConfidenceThreshold: true,
+        maxTradeAmountAuto: true,
+        maxTradesPerDay: true,
+        stopLossPercent: true,
+        takeProfitPercent: true,
+        riskTolerance: true
+      }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const startDate = body.startDate ? new Date(body.startDate) : undefined
+    const endDate = body.endDate ? new Date(body.endDate) : undefined
+
+    if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 })
+    }
+
+    // Unsaved values from the settings form override the stored profile, so users can tune before saving
+    const result = await backtester.run({
+      symbol: body.symbol,
+      startDate,
+      endDate,
+      initialCapital: body.initialCapital !== undefined ? parseFloat(body.initialCapital) : undefined,
+      buyConfidenceThreshold: body.buyConfidenceThreshold ?? user.buyConfidenceThreshold,
+      sellConfidenceThreshold: body.sellConfidenceThreshold ?? user.sellConfidenceThreshold,
+      maxTradeAmountAuto: body.maxTradeAmountAuto ?? user.maxTradeAmountAuto,
+      maxTradesPerDay: body.maxTradesPerDay ?? user.maxTradesPerDay,
+      stopLossPercent: body.stopLossPercent ?? user.stopLossPercent,
+      takeProfitPercent: body.takeProfitPercent ?? user.takeProfitPercent,
+      riskTolerance: body.riskTolerance ?? user.riskTolerance
+    })
+
+    return NextResponse.json({ result })
+  } catch (error) {
+    if (error instanceof BacktestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Backtest error:', error)
+    return NextResponse.json({ error: 'Backtest failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { confidenceCalibrator } from "@/lib/confidence-calibration"
+
+export const dynamic = "force-dynamic"
+
+// Reliability of stated analysis confidence and the calibrated mapping automation thresholds are checked against
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json(await confidenceCalibrator.getCalibration())
+  } catch (error) {
+    console.error('Confidence calibration error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
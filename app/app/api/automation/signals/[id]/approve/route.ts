@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { signalApprovalQueue, SignalApprovalError } from "@/lib/signal-approvals"
+import { TradeExecutionError } from "@/lib/trade-executor"
+
+export const dynamic = "force-dynamic"
+
+// Execute a pending signal, optionally for a different amount than suggested
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { amount } = await request.json().catch(() => ({}))
+
+    const signal = await signalApprovalQueue.approve(
+      session.user.id,
+      params.id,
+      amount !== undefined && amount !== null ? parseFloat(amount) : undefined
+    )
+
+    return NextResponse.json({ signal, success: true })
+  } catch (error) {
+    if (error instanceof SignalApprovalError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof TradeExecutionError) {
+      return NextResponse.json({ error: error.message, violations: error.violations }, { status: error.status })
+    }
+    console.error('Signal approval error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Signal approval failed' },
+      { status: 500 }
+    )
+  }
+}
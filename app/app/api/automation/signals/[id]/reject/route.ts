@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { signalApprovalQueue, SignalApprovalError } from "@/lib/signal-approvals"
+
+export const dynamic = "force-dynamic"
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { reason } = await request.json().catch(() => ({}))
+
+    const signal = await signalApprovalQueue.reject(session.user.id, params.id, reason)
+
+    return NextResponse.json({ signal, success: true })
+  } catch (error) {
+    if (error instanceof SignalApprovalError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Signal rejection error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { signalApprovalQueue, SignalApprovalError } from "@/lib/signal-approvals"
+
+export const dynamic = "force-dynamic"
+
+// Edit the dollar amount a pending signal will trade when approved
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { amount } = await request.json()
+
+    const signal = await signalApprovalQueue.updateAmount(session.user.id, params.id, parseFloat(amount))
+
+    return NextResponse.json({ signal, success: true })
+  } catch (error) {
+    if (error instanceof SignalApprovalError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Pending signal update error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { signalApprovalQueue, PENDING_SIGNAL_STATUSES, type PendingSignalStatus } from "@/lib/signal-approvals"
+
+export const dynamic = "force-dynamic"
+
+// Signals awaiting approval, or past decisions with ?status=EXECUTED|REJECTED|EXPIRED|FAILED
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = (searchParams.get('status') || 'PENDING').toUpperCase()
+
+    if (!PENDING_SIGNAL_STATUSES.includes(status as PendingSignalStatus)) {
+      return NextResponse.json({ error: `Unsupported status ${status}` }, { status: 400 })
+    }
+
+    const signals = await signalApprovalQueue.list(session.user.id, status as PendingSignalStatus)
+
+    return NextResponse.json({ signals })
+  } catch (error) {
+    console.error('Pending signals fetch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -3,6 +3,8 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/db"
+import { bracketOrderManager } from "@/lib/bracket-orders"
+import { getTradingDayStart } from "@/lib/market-hours"
 
 export const dynamic = "force-dynamic"
 
@@ -25,15 +27,16 @@ export async function GET(request: NextRequest) {
         takeProfitPercent: true,
         requireManualConfirm: true,
         tradingMode: true,
-        riskTolerance: true
+        riskTolerance: true,
+        scheduledAnalysisEnabled: true,
+        scheduledAnalysisInterval: true
       }
     })
 
-    // Get today's automated activities
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
+    // Get today's automated activities; the day is the New York trading day the daily limit counts
+    const today = getTradingDayStart()
 
-    const [todayTrades, todayAnalyses, activeAlerts, recentActivities] = await Promise.all([
+    const [todayTrades, todayAnalyses, activeAlerts, recentActivities, openBrackets, scheduledJobCounts, lastScheduledRun] = await Promise.all([
       prisma.trade.count({
         where: {
           userId: session.user.id,
@@ -63,12 +66,23 @@ export async function GET(request: NextRequest) {
         where: {
           userId: session.user.id,
           type: {
-            in: ['AUTO_TRADE_EXECUTED', 'ANALYSIS_GENERATED', 'AUTOMATION_ERROR', 'RISK_MANAGEMENT_TRIGGERED']
+            in: ['AUTO_TRADE_EXECUTED', 'ANALYSIS_GENERATED', 'AUTOMATION_ERROR', 'RISK_MANAGEMENT_TRIGGERED', 'SIGNAL_QUEUED', 'SIGNAL_APPROVED', 'SIGNAL_REJECTED']
           },
           createdAt: { gte: today }
         },
         orderBy: { createdAt: 'desc' },
         take: 10
+      }),
+      bracketOrderManager.getOpenBrackets(session.user.id),
+      prisma.scheduledJob.groupBy({
+        by: ['status'],
+        where: { userId: session.user.id, createdAt: { gte: today } },
+        _count: true
+      }),
+      prisma.scheduledJob.findFirst({
+        where: { userId: session.user.id, completedAt: { not: null } },
+        orderBy: { completedAt: 'desc' },
+        select: { symbol: true, status: true, completedAt: true, lastError: true }
       })
     ])
 
@@ -88,6 +102,13 @@ export async function GET(request: NextRequest) {
         activeAlerts,
         tradesRemaining: Math.max(0, (user?.maxTradesPerDay || 5) - todayTrades)
       },
+      openBrackets,
+      scheduledJobs: {
+        enabled: user?.scheduledAnalysisEnabled || false,
+        intervalMinutes: user?.scheduledAnalysisInterval || 60,
+        today: Object.fromEntries(scheduledJobCounts.map(group => [group.status, group._count])),
+        lastRun: lastScheduledRun
+      },
       automationHealth,
       recentActivities: recentActivities.map(activity => ({
         id: activity.id,
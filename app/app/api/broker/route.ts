@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/db"
+import { liveTrading } from "@/lib/live-trading"
+import { BrokerError } from "@/lib/brokers"
+
+export const dynamic = "force-dynamic"
+
+// Broker account, positions and recent fills next to the live orders still working there
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!liveTrading.isAvailable()) {
+      return NextResponse.json({ error: 'Live trading not configured' }, { status: 404 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { tradingMode: true }
+    })
+
+    // The brokerage account is only visible to users trading through it
+    if (user?.tradingMode !== 'LIVE') {
+      return NextResponse.json({ error: 'Live trading is not enabled for this account' }, { status: 403 })
+    }
+
+    const [overview, openOrders] = await Promise.all([
+      liveTrading.getAccountOverview(),
+      prisma.trade.findMany({
+        where: { userId: session.user.id, status: 'PENDING', brokerOrderId: { not: null } },
+        include: { asset: { select: { symbol: true, name: true } } },
+        orderBy: { createdAt: 'desc' }
+      })
+    ])
+
+    return NextResponse.json({ ...overview, openOrders })
+  } catch (error) {
+    if (error instanceof BrokerError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Broker account fetch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { chatAssistant, ChatError } from "@/lib/chat-assistant"
+
+export const dynamic = "force-dynamic"
+
+// Record the decision on a draft: { messageId, draftId, status: 'CONFIRMED' | 'DISMISSED' }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { messageId, draftId, status } = await request.json()
+
+    if (!messageId || !draftId) {
+      return NextResponse.json({ error: 'messageId and draftId are required' }, { status: 400 })
+    }
+    if (status !== 'CONFIRMED' && status !== 'DISMISSED') {
+      return NextResponse.json({ error: 'Status must be CONFIRMED or DISMISSED' }, { status: 400 })
+    }
+
+    const message = await chatAssistant.setDraftStatus(session.user.id, params.id, messageId, draftId, status)
+
+    return NextResponse.json({ message, success: true })
+  } catch (error) {
+    if (error instanceof ChatError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Chat draft update error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { chatAssistant, ChatError } from "@/lib/chat-assistant"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Send a message: { message }. Responds with a Server-Sent Events stream: `user` (the stored message),
+ * `tool` and `draft` as the assistant uses tools, `delta` text chunks, then `done` with the stored reply,
+ * possibly followed by a non-fatal `warning`.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { message } = await request.json()
+
+    const { userMessage, events } = await chatAssistant.sendMessage(session.user.id, params.id, message)
+
+    const encoder = new TextEncoder()
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        let closed = false
+        const write = (event: string, data: unknown) => {
+          if (closed) return
+          try {
+            controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+          } catch {
+            closed = true
+          }
+        }
+
+        write('user', userMessage)
+
+        // A disconnected client stops receiving, but the reply still runs to completion and is stored
+        try {
+          for await (const event of events) {
+            switch (event.type) {
+              case 'tool':
+                write('tool', event.call)
+                break
+              case 'draft':
+                write('draft', event.draft)
+                break
+              case 'delta':
+                write('delta', { content: event.content })
+                break
+              case 'done':
+                write('done', event.message)
+                break
+              case 'warning':
+                console.warn(`Chat conversation ${params.id}: ${event.message} (${event.detail})`)
+                write('warning', { message: event.message })
+                break
+            }
+          }
+        } catch (error) {
+          console.error('Chat stream error:', error)
+          write('error', { error: 'Failed to get AI response. Please try again.' })
+        } finally {
+          if (!closed) {
+            closed = true
+            controller.close()
+          }
+        }
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive'
+      }
+    })
+  } catch (error) {
+    if (error instanceof ChatError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Chat message error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
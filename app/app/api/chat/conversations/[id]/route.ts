@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { chatAssistant, ChatError } from "@/lib/chat-assistant"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const conversation = await chatAssistant.getConversation(session.user.id, params.id)
+
+    return NextResponse.json({ conversation })
+  } catch (error) {
+    if (error instanceof ChatError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Chat conversation fetch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Rename: { title }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { title } = await request.json()
+
+    const conversation = await chatAssistant.renameConversation(session.user.id, params.id, title)
+
+    return NextResponse.json({ conversation, success: true })
+  } catch (error) {
+    if (error instanceof ChatError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Chat conversation rename error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await chatAssistant.deleteConversation(session.user.id, params.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof ChatError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Chat conversation deletion error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
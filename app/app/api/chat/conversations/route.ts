@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { chatAssistant, ChatError } from "@/lib/chat-assistant"
+
+export const dynamic = "force-dynamic"
+
+// Conversations, most recently active first
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const conversations = await chatAssistant.listConversations(session.user.id)
+
+    return NextResponse.json({ conversations })
+  } catch (error) {
+    console.error('Chat conversations fetch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Start a conversation: { title? }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { title } = await request.json().catch(() => ({}))
+
+    const conversation = await chatAssistant.createConversation(session.user.id, title)
+
+    return NextResponse.json({ conversation, success: true })
+  } catch (error) {
+    if (error instanceof ChatError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Chat conversation creation error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
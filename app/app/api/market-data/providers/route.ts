@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { marketDataService } from "@/lib/market-data"
+
+export const dynamic = "force-dynamic"
+
+// Priority, configuration and health of each registered market data provider since this server process started
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json({ providers: marketDataService.getProviderHealth() })
+  } catch (error) {
+    console.error('Market data providers error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
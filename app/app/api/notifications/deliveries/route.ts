@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { notificationService } from "@/lib/notifications"
+
+export const dynamic = "force-dynamic"
+
+// Log of email and webhook deliveries with their attempts and last error
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 200)
+
+    const deliveries = await notificationService.listDeliveries(session.user.id, limit)
+
+    return NextResponse.json({ deliveries })
+  } catch (error) {
+    console.error('Notification deliveries fetch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
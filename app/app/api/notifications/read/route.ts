@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { notificationService } from "@/lib/notifications"
+
+export const dynamic = "force-dynamic"
+
+// Mark notifications read: { ids?: string[] }, all unread ones when ids is omitted
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { ids } = await request.json().catch(() => ({}))
+
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => typeof id !== 'string'))) {
+      return NextResponse.json({ error: 'ids must be an array of notification ids' }, { status: 400 })
+    }
+
+    const updated = await notificationService.markRead(session.user.id, ids)
+
+    return NextResponse.json({ updated, success: true })
+  } catch (error) {
+    console.error('Notification read error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
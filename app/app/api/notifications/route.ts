@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { notificationService } from "@/lib/notifications"
+
+export const dynamic = "force-dynamic"
+
+// Inbox, newest first; ?unread=true limits it to unread notifications
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 200)
+
+    const { notifications, unreadCount } = await notificationService.list(session.user.id, {
+      unreadOnly: searchParams.get('unread') === 'true',
+      limit
+    })
+
+    return NextResponse.json({ notifications, unreadCount })
+  } catch (error) {
+    console.error('Notifications fetch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { notificationService } from "@/lib/notifications"
+
+export const dynamic = "force-dynamic"
+
+// Sends a test notification through every configured channel and returns the delivery outcomes
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const notification = await notificationService.sendTest(session.user.id)
+
+    return NextResponse.json({ notification, success: true })
+  } catch (error) {
+    console.error('Test notification error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
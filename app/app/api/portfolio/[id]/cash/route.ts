@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { portfolioManager, PortfolioError } from "@/lib/portfolio-manager"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const transactions = await portfolioManager.getCashHistory(session.user.id, params.id)
+
+    return NextResponse.json({ transactions })
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Cash history fetch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Deposit or withdraw cash: { type: 'DEPOSIT' | 'WITHDRAWAL', amount, note? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { type, amount, note } = await request.json()
+
+    if (type !== 'DEPOSIT' && type !== 'WITHDRAWAL') {
+      return NextResponse.json({ error: 'Type must be DEPOSIT or WITHDRAWAL' }, { status: 400 })
+    }
+
+    const portfolio = type === 'DEPOSIT'
+      ? await portfolioManager.deposit(session.user.id, params.id, parseFloat(amount), note)
+      : await portfolioManager.withdraw(session.user.id, params.id, parseFloat(amount), note)
+
+    return NextResponse.json({ portfolio, success: true })
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Cash transaction error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
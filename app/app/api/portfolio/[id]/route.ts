@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { portfolioManager, PortfolioError } from "@/lib/portfolio-manager"
+
+export const dynamic = "force-dynamic"
+
+// Rename with { name }, or restore an archived portfolio with { isActive: true }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { name, isActive } = await request.json()
+
+    if (name === undefined && isActive === undefined) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 })
+    }
+
+    let portfolio
+    if (isActive === true) {
+      portfolio = await portfolioManager.restore(session.user.id, params.id)
+    } else if (isActive === false) {
+      portfolio = await portfolioManager.archive(session.user.id, params.id)
+    }
+    if (name !== undefined) {
+      portfolio = await portfolioManager.rename(session.user.id, params.id, name)
+    }
+
+    return NextResponse.json({ portfolio, success: true })
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Portfolio update error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Archives rather than deletes: trades, lots and snapshots stay for history and tax reporting
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const portfolio = await portfolioManager.archive(session.user.id, params.id)
+
+    return NextResponse.json({ portfolio, success: true })
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Portfolio archive error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/db"
+import { getHoldingTerm } from "@/lib/tax-lots"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const portfolioId = searchParams.get('portfolioId')
+    const symbol = searchParams.get('symbol')
+
+    const whereClause: any = {
+      closedAt: null,
+      portfolio: { userId: session.user.id }
+    }
+    if (portfolioId) {
+      whereClause.portfolioId = portfolioId
+    }
+    if (symbol) {
+      whereClause.asset = { symbol: symbol.toUpperCase() }
+    }
+
+    const lots = await prisma.taxLot.findMany({
+      where: whereClause,
+      include: { asset: true },
+      orderBy: { acquiredAt: 'asc' }
+    })
+
+    const now = new Date()
+
+    return NextResponse.json({
+      lots: lots.map(lot => {
+        const { term, holdingPeriodDays } = getHoldingTerm(lot.acquiredAt, now)
+
+        return {
+          id: lot.id,
+          portfolioId: lot.portfolioId,
+          symbol: lot.asset.symbol,
+          quantity: lot.quantity,
+          remainingQuantity: lot.remainingQuantity,
+          costPerShare: lot.costPerShare,
+          costBasis: lot.remainingQuantity * lot.costPerShare,
+          acquiredAt: lot.acquiredAt,
+          holdingPeriodDays,
+          term
+        }
+      })
+    })
+  } catch (error) {
+    console.error('Tax lots fetch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
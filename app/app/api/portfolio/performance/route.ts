@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/db"
+import { portfolioSnapshotter } from "@/lib/portfolio-snapshots"
+import { buildPerformanceSeries, calculateMetrics, getIntervalStart, PerformanceInterval } from "@/lib/portfolio-performance"
+
+export const dynamic = "force-dynamic"
+
+const INTERVALS: PerformanceInterval[] = ['1D', '1W', '1M', '3M', 'YTD', '1Y', 'Max']
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const portfolioId = searchParams.get('portfolioId')
+    const interval = (searchParams.get('interval') || '1M') as PerformanceInterval
+
+    if (!INTERVALS.includes(interval)) {
+      return NextResponse.json({ error: 'Invalid interval' }, { status: 400 })
+    }
+
+    const portfolio = await prisma.portfolio.findFirst({
+      where: {
+        userId: session.user.id,
+        isActive: true,
+        ...(portfolioId && { id: portfolioId })
+      },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    if (!portfolio) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 })
+    }
+
+    // Keep today's point current even when the background snapshotter is not running
+    await portfolioSnapshotter.captureSnapshot(portfolio.id)
+
+    // Include the day before the window so the first in-window day has a return
+    const start = getIntervalStart(interval)
+    const baseline = start
+      ? await prisma.portfolioSnapshot.findFirst({
+          where: { portfolioId: portfolio.id, date: { lt: start } },
+          orderBy: { date: 'desc' }
+        })
+      : null
+
+    const snapshots = await prisma.portfolioSnapshot.findMany({
+      where: {
+        portfolioId: portfolio.id,
+        ...(start && { date: { gte: baseline?.date ?? start } })
+      },
+      orderBy: { date: 'asc' }
+    })
+
+    const riskFreeRate = parseFloat(process.env.RISK_FREE_RATE || '0')
+    const series = buildPerformanceSeries(snapshots)
+
+    return NextResponse.json({
+      portfolioId: portfolio.id,
+      interval,
+      series: series.map((point, index) => ({
+        ...point,
+        cash: snapshots[index].cash,
+        marketValue: snapshots[index].marketValue,
+        netDeposits: snapshots[index].netDeposits
+      })),
+      metrics: calculateMetrics(series, riskFreeRate)
+    })
+  } catch (error) {
+    console.error('Portfolio performance error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/db"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const portfolioId = searchParams.get('portfolioId')
+    const year = searchParams.get('year')
+
+    const whereClause: any = { userId: session.user.id }
+    if (portfolioId) {
+      whereClause.portfolioId = portfolioId
+    }
+    if (year) {
+      const start = new Date(Date.UTC(parseInt(year), 0, 1))
+      const end = new Date(Date.UTC(parseInt(year) + 1, 0, 1))
+      whereClause.soldAt = { gte: start, lt: end }
+    }
+
+    const gains = await prisma.realizedGain.findMany({
+      where: whereClause,
+      include: { asset: true },
+      orderBy: { soldAt: 'desc' }
+    })
+
+    const summary = {
+      shortTerm: { proceeds: 0, costBasis: 0, gain: 0 },
+      longTerm: { proceeds: 0, costBasis: 0, gain: 0 },
+      total: { proceeds: 0, costBasis: 0, gain: 0 }
+    }
+
+    for (const record of gains) {
+      const bucket = record.term === 'LONG_TERM' ? summary.longTerm : summary.shortTerm
+      for (const target of [bucket, summary.total]) {
+        target.proceeds += record.proceeds
+        target.costBasis += record.costBasis
+        target.gain += record.gain
+      }
+    }
+
+    return NextResponse.json({
+      gains: gains.map(record => ({
+        id: record.id,
+        portfolioId: record.portfolioId,
+        symbol: record.asset.symbol,
+        lotId: record.lotId,
+        sellTradeId: record.sellTradeId,
+        quantity: record.quantity,
+        proceeds: record.proceeds,
+        costBasis: record.costBasis,
+        gain: record.gain,
+        acquiredAt: record.acquiredAt,
+        soldAt: record.soldAt,
+        holdingPeriodDays: record.holdingPeriodDays,
+        term: record.term,
+        costBasisMethod: record.costBasisMethod
+      })),
+      summary
+    })
+  } catch (error) {
+    console.error('Realized gains fetch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
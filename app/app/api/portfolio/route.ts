@@ -3,20 +3,25 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/db"
+import { portfolioManager, PortfolioError } from "@/lib/portfolio-manager"
 
 export const dynamic = "force-dynamic"
 
-export async function GET() {
+// Active portfolios, oldest first; ?includeArchived=true adds archived ones after them
+export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
     if (!session?.user?.id) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    const { searchParams } = new URL(request.url)
+    const includeArchived = searchParams.get('includeArchived') === 'true'
+
     const portfolios = await prisma.portfolio.findMany({
       where: { 
         userId: session.user.id,
-        isActive: true
+        ...(!includeArchived && { isActive: true })
       },
       include: {
         items: {
@@ -32,6 +37,7 @@ export async function GET() {
           }
         },
         trades: {
+          where: { status: 'COMPLETED' },
           orderBy: { executedAt: 'desc' },
           take: 10,
           include: {
@@ -39,7 +45,7 @@ export async function GET() {
           }
         }
       },
-      orderBy: { createdAt: 'asc' }
+      orderBy: [{ isActive: 'desc' }, { createdAt: 'asc' }]
     })
 
     // Calculate portfolio values and serialize BigInt
@@ -54,8 +60,9 @@ export async function GET() {
         totalCost += item.totalCost
       })
 
-      const totalReturn = totalValue - 100000 // Starting balance
-      const totalReturnPercent = totalReturn / 100000 * 100
+      // Measured against contributed capital so deposits are not reported as gains
+      const totalReturn = totalValue - portfolio.netDeposits
+      const totalReturnPercent = portfolio.netDeposits > 0 ? totalReturn / portfolio.netDeposits * 100 : 0
 
       return {
         ...portfolio,
@@ -85,3 +92,27 @@ export async function GET() {
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
 }
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { name, startingCapital } = await request.json()
+
+    const portfolio = await portfolioManager.create(session.user.id, {
+      name,
+      startingCapital: startingCapital !== undefined && startingCapital !== '' ? parseFloat(startingCapital) : undefined
+    })
+
+    return NextResponse.json({ portfolio, success: true }, { status: 201 })
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Portfolio create error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
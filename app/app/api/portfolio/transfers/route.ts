@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { portfolioManager, PortfolioError } from "@/lib/portfolio-manager"
+
+export const dynamic = "force-dynamic"
+
+// Moves cash between two of the user's simulated portfolios
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { fromPortfolioId, toPortfolioId, amount, note } = await request.json()
+
+    if (!fromPortfolioId || !toPortfolioId) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
+    }
+
+    const transfer = await portfolioManager.transfer(session.user.id, fromPortfolioId, toPortfolioId, parseFloat(amount), note)
+
+    return NextResponse.json({ ...transfer, success: true })
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Cash transfer error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { quoteHub, type QuoteTick } from "@/lib/quote-hub"
+
+export const dynamic = "force-dynamic"
+
+// The live quotes hook splits larger sets across streams of this size
+const MAX_SYMBOLS = 50
+// Keeps proxies from closing an idle stream between ticks
+const HEARTBEAT_INTERVAL_MS = 15000
+
+// Server-Sent Events stream of quote ticks: GET /api/quotes/stream?symbols=AAPL,BTC
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const symbols = [...new Set(
+      (searchParams.get('symbols') || '')
+        .split(',')
+        .map(symbol => symbol.trim().toUpperCase())
+        .filter(Boolean)
+    )]
+
+    if (symbols.length === 0) {
+      return NextResponse.json({ error: 'symbols parameter is required' }, { status: 400 })
+    }
+
+    if (symbols.length > MAX_SYMBOLS) {
+      return NextResponse.json({ error: `At most ${MAX_SYMBOLS} symbols can be streamed` }, { status: 400 })
+    }
+
+    const encoder = new TextEncoder()
+    let cleanup = () => {}
+
+    const stream = new ReadableStream({
+      start(controller) {
+        let closed = false
+        const write = (chunk: string) => {
+          if (closed) return
+          try {
+            controller.enqueue(encoder.encode(chunk))
+          } catch {
+            cleanup()
+          }
+        }
+
+        const unsubscribe = quoteHub.subscribe(symbols, (tick: QuoteTick) => {
+          write(`event: quote\ndata: ${JSON.stringify(tick)}\n\n`)
+        })
+        const heartbeat = setInterval(() => write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS)
+
+        cleanup = () => {
+          if (closed) return
+          closed = true
+          clearInterval(heartbeat)
+          unsubscribe()
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the runtime
+          }
+        }
+
+        write(`event: ready\ndata: ${JSON.stringify({ symbols })}\n\n`)
+        request.signal.addEventListener('abort', () => cleanup())
+      },
+      cancel() {
+        cleanup()
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive'
+      }
+    })
+  } catch (error) {
+    console.error('Quote stream error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
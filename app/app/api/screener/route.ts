@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { screener, normalizeScreenerFilters, ScreenerError, SCREENER_SORT_FIELDS, MA_PERIODS, type ScreenerSortField } from "@/lib/screener"
+
+export const dynamic = "force-dynamic"
+
+// Values the filter form offers
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const options = await screener.getFilterOptions()
+
+    return NextResponse.json({
+      ...options,
+      sortFields: SCREENER_SORT_FIELDS,
+      maPeriods: MA_PERIODS
+    })
+  } catch (error) {
+    console.error('Screener options error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { filters, sortBy, sortDirection, limit } = await request.json()
+
+    if (sortBy !== undefined && !SCREENER_SORT_FIELDS.includes(sortBy)) {
+      return NextResponse.json({ error: 'Invalid sort field' }, { status: 400 })
+    }
+
+    if (sortDirection !== undefined && sortDirection !== 'asc' && sortDirection !== 'desc') {
+      return NextResponse.json({ error: 'Sort direction must be asc or desc' }, { status: 400 })
+    }
+
+    const normalized = normalizeScreenerFilters(filters)
+    const { results, total } = await screener.run(normalized, {
+      sortBy: sortBy as ScreenerSortField | undefined,
+      sortDirection,
+      limit: limit !== undefined ? parseInt(limit) : undefined
+    })
+
+    return NextResponse.json({ filters: normalized, results, total })
+  } catch (error) {
+    if (error instanceof ScreenerError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Screener error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
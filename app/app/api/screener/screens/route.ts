@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { Prisma } from "@prisma/client"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/db"
+import { normalizeScreenerFilters, ScreenerError } from "@/lib/screener"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const screens = await prisma.savedScreen.findMany({
+      where: { userId: session.user.id },
+      orderBy: { name: 'asc' }
+    })
+
+    return NextResponse.json({ screens })
+  } catch (error) {
+    console.error('Saved screens fetch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Saving under an existing name replaces that screen's filters
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { name, filters } = await request.json()
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Screen name is required' }, { status: 400 })
+    }
+
+    const normalized = normalizeScreenerFilters(filters) as Prisma.InputJsonObject
+
+    const screen = await prisma.savedScreen.upsert({
+      where: { userId_name: { userId: session.user.id, name: name.trim() } },
+      update: { filters: normalized },
+      create: {
+        userId: session.user.id,
+        name: name.trim(),
+        filters: normalized
+      }
+    })
+
+    return NextResponse.json({ screen })
+  } catch (error) {
+    if (error instanceof ScreenerError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Saved screen create error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -20,7 +20,9 @@ export async function GET() {
         maxTradesPerDay: true,
         stopLossPercent: true,
         takeProfitPercent: true,
-        requireManualConfirm: true
+        requireManualConfirm: true,
+        scheduledAnalysisEnabled: true,
+        scheduledAnalysisInterval: true
       }
     })
 
@@ -36,6 +38,8 @@ export async function GET() {
       stopLossPercent: user.stopLossPercent || 5.0,
       takeProfitPercent: user.takeProfitPercent || 10.0,
       requireManualConfirm: user.requireManualConfirm !== false, // Default to true
+      scheduledAnalysisEnabled: user.scheduledAnalysisEnabled,
+      scheduledAnalysisInterval: user.scheduledAnalysisInterval || 60,
     })
   } catch (error) {
     console.error('Automation settings fetch error:', error)
@@ -57,7 +61,9 @@ export async function POST(request: NextRequest) {
       maxTradesPerDay, 
       stopLossPercent, 
       takeProfitPercent, 
-      requireManualConfirm 
+      requireManualConfirm,
+      scheduledAnalysisEnabled,
+      scheduledAnalysisInterval = 60
     } = await request.json()
 
     // Validation
@@ -85,6 +91,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Take profit must be between 0-100%' }, { status: 400 })
     }
 
+    if (scheduledAnalysisInterval < 15 || scheduledAnalysisInterval > 1440) {
+      return NextResponse.json({ error: 'Scheduled analysis interval must be between 15-1440 minutes' }, { status: 400 })
+    }
+
     const user = await prisma.user.update({
       where: { email: session.user.email },
       data: {
@@ -94,7 +104,9 @@ export async function POST(request: NextRequest) {
         maxTradesPerDay: parseInt(maxTradesPerDay),
         stopLossPercent: parseFloat(stopLossPercent),
         takeProfitPercent: parseFloat(takeProfitPercent),
-        requireManualConfirm: requireManualConfirm === true
+        requireManualConfirm: requireManualConfirm === true,
+        scheduledAnalysisEnabled: scheduledAnalysisEnabled === true,
+        scheduledAnalysisInterval: parseInt(scheduledAnalysisInterval)
       }
     })
 
@@ -106,6 +118,8 @@ export async function POST(request: NextRequest) {
       stopLossPercent: user.stopLossPercent,
       takeProfitPercent: user.takeProfitPercent,
       requireManualConfirm: user.requireManualConfirm,
+      scheduledAnalysisEnabled: user.scheduledAnalysisEnabled,
+      scheduledAnalysisInterval: user.scheduledAnalysisInterval,
       message: 'Automation settings updated successfully'
     })
   } catch (error) {
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { randomBytes } from "crypto"
+import { prisma } from "@/lib/db"
+import { notificationService } from "@/lib/notifications"
+import { normalizeNotificationPreferences } from "@/lib/notification-preferences"
+import { assertPublicWebhookUrl, WebhookUrlError } from "@/lib/webhook-url"
+import { readPreferenceNamespace, updatePreferenceNamespace } from "@/lib/user-preferences"
+
+const TOGGLES = ['priceAlerts', 'tradeExecutions', 'marketNews', 'emailAlerts'] as const
+
+function generateWebhookSecret() {
+  return `whsec_${randomBytes(24).toString('hex')}`
+}
+
+export async function GET() {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: { preferences: true }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      notifications: normalizeNotificationPreferences(readPreferenceNamespace(user.preferences, 'notifications')),
+      emailConfigured: notificationService.isEmailConfigured()
+    })
+  } catch (error) {
+    console.error('Notification settings fetch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Partial update of the toggles and webhook URL; { rotateWebhookSecret: true } issues a new signing secret
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+
+    for (const toggle of TOGGLES) {
+      if (body[toggle] !== undefined && typeof body[toggle] !== 'boolean') {
+        return NextResponse.json({ error: `${toggle} must be true or false` }, { status: 400 })
+      }
+    }
+
+    const webhookUrl = typeof body.webhookUrl === 'string' ? body.webhookUrl.trim() : body.webhookUrl
+    if (webhookUrl !== undefined && webhookUrl !== null && webhookUrl !== '') {
+      if (typeof webhookUrl !== 'string') {
+        return NextResponse.json({ error: 'Webhook URL must be an http or https URL' }, { status: 400 })
+      }
+      try {
+        await assertPublicWebhookUrl(webhookUrl)
+      } catch (error) {
+        if (error instanceof WebhookUrlError) {
+          return NextResponse.json({ error: error.message }, { status: error.status })
+        }
+        throw error
+      }
+    }
+
+    const notifications = await updatePreferenceNamespace(session.user.email, 'notifications', current => {
+      const updated = normalizeNotificationPreferences(current)
+
+      for (const toggle of TOGGLES) {
+        if (typeof body[toggle] === 'boolean') {
+          updated[toggle] = body[toggle]
+        }
+      }
+      if (webhookUrl !== undefined) {
+        updated.webhookUrl = webhookUrl || null
+      }
+      // The secret outlives URL changes so receivers need not be reconfigured; it only changes on request
+      if (updated.webhookUrl && (!updated.webhookSecret || body.rotateWebhookSecret === true)) {
+        updated.webhookSecret = generateWebhookSecret()
+      }
+      return updated
+    })
+
+    if (!notifications) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      notifications,
+      emailConfigured: notificationService.isEmailConfigured(),
+      message: 'Notification settings updated successfully'
+    })
+  } catch (error) {
+    console.error('Notification settings update error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { prisma } from "@/lib/db"
+import { normalizeChartPreferences } from "@/lib/chart-preferences"
+import { readPreferenceNamespace, updatePreferenceNamespace } from "@/lib/user-preferences"
+
+export async function GET() {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: { preferences: true }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      chart: normalizeChartPreferences(readPreferenceNamespace(user.preferences, 'chart'))
+    })
+  } catch (error) {
+    console.error('Preferences fetch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Merges the submitted chart settings into the stored ones, leaving other namespaces untouched
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { chart } = await request.json()
+
+    if (!chart || typeof chart !== 'object') {
+      return NextResponse.json({ error: 'Chart preferences are required' }, { status: 400 })
+    }
+
+    const updated = await updatePreferenceNamespace(session.user.email, 'chart', current =>
+      normalizeChartPreferences({ ...normalizeChartPreferences(current), ...chart })
+    )
+
+    if (!updated) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      chart: updated,
+      message: 'Preferences updated successfully'
+    })
+  } catch (error) {
+    console.error('Preferences update error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
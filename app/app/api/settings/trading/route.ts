@@ -2,6 +2,9 @@
 import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import { prisma } from "@/lib/db"
+import { COST_BASIS_METHODS } from "@/lib/tax-lots"
+import { liveTrading } from "@/lib/live-trading"
+import { BrokerError } from "@/lib/brokers"
 
 export async function GET() {
   try {
@@ -15,7 +18,8 @@ export async function GET() {
       select: {
         tradingMode: true,
         riskTolerance: true,
-        maxPositionSize: true
+        maxPositionSize: true,
+        costBasisMethod: true
       }
     })
 
@@ -27,7 +31,8 @@ export async function GET() {
       tradingMode: user.tradingMode || 'PAPER',
       riskTolerance: user.riskTolerance || 'MEDIUM',
       maxPositionSize: user.maxPositionSize || 1000,
-      alpacaConfigured: !!(process.env.ALPACA_API_KEY_ID && process.env.ALPACA_API_SECRET_KEY)
+      costBasisMethod: user.costBasisMethod,
+      alpacaConfigured: liveTrading.isAvailable()
     })
   } catch (error) {
     console.error('Trading settings fetch error:', error)
@@ -42,24 +47,38 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const { tradingMode, riskTolerance, maxPositionSize } = await request.json()
+    const { tradingMode, riskTolerance, maxPositionSize, costBasisMethod } = await request.json()
 
     // Validate trading mode
     if (!['PAPER', 'LIVE'].includes(tradingMode)) {
       return NextResponse.json({ error: 'Invalid trading mode' }, { status: 400 })
     }
 
+    if (costBasisMethod !== undefined && !COST_BASIS_METHODS.includes(costBasisMethod)) {
+      return NextResponse.json({ error: 'Invalid cost basis method' }, { status: 400 })
+    }
+
     // Check if live trading is available
-    if (tradingMode === 'LIVE' && (!process.env.ALPACA_API_KEY_ID || !process.env.ALPACA_API_SECRET_KEY)) {
+    if (tradingMode === 'LIVE' && !liveTrading.isAvailable()) {
       return NextResponse.json({ error: 'Live trading not configured' }, { status: 400 })
     }
 
+    // Live orders need a portfolio to book fills into, opened from the broker account's cash
+    if (tradingMode === 'LIVE') {
+      const existing = await prisma.user.findUnique({ where: { email: session.user.email }, select: { id: true } })
+      if (!existing) {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 })
+      }
+      await liveTrading.ensureLivePortfolio(existing.id)
+    }
+
     const user = await prisma.user.update({
       where: { email: session.user.email },
       data: {
         tradingMode,
         riskTolerance,
-        maxPositionSize: parseFloat(maxPositionSize)
+        maxPositionSize: parseFloat(maxPositionSize),
+        costBasisMethod
       }
     })
 
@@ -67,9 +86,13 @@ export async function POST(request: NextRequest) {
       tradingMode: user.tradingMode,
       riskTolerance: user.riskTolerance,
       maxPositionSize: user.maxPositionSize,
+      costBasisMethod: user.costBasisMethod,
       message: 'Trading settings updated successfully'
     })
   } catch (error) {
+    if (error instanceof BrokerError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error('Trading settings update error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { TradeExecutionError } from "@/lib/trade-executor"
+import { orderMatcher } from "@/lib/order-matcher"
+
+export const dynamic = "force-dynamic"
+
+// Modify a pending order
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { quantity, limitPrice, stopPrice, timeInForce } = await request.json()
+
+    const trade = await orderMatcher.modifyOrder(session.user.id, params.id, {
+      quantity: quantity !== undefined ? parseFloat(quantity) : undefined,
+      limitPrice: limitPrice !== undefined ? parseFloat(limitPrice) : undefined,
+      stopPrice: stopPrice !== undefined ? parseFloat(stopPrice) : undefined,
+      timeInForce
+    })
+
+    return NextResponse.json({ trade, success: true })
+  } catch (error) {
+    if (error instanceof TradeExecutionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Order modification error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Cancel a pending order
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const trade = await orderMatcher.cancelOrder(session.user.id, params.id)
+
+    return NextResponse.json({ trade, success: true })
+  } catch (error) {
+    if (error instanceof TradeExecutionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Order cancellation error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -6,6 +6,43 @@ import { prisma } from "@/lib/db"
 
 export const dynamic = "force-dynamic"
 
+// Bulk adds, e.g. from screener results
+const MAX_BULK_SYMBOLS = 200
+
+// Symbols already on the watchlist are skipped rather than failing the whole request
+async function addSymbols(watchlistId: string, symbols: string[]) {
+  const normalized = [...new Set(symbols.map(symbol => symbol.trim().toUpperCase()))]
+
+  const existing = await prisma.asset.findMany({
+    where: { symbol: { in: normalized } },
+    select: { symbol: true }
+  })
+  const known = new Set(existing.map(asset => asset.symbol))
+
+  // Create placeholder assets - will be updated when market data is fetched
+  await prisma.asset.createMany({
+    data: normalized
+      .filter(symbol => !known.has(symbol))
+      .map(symbol => ({ symbol, name: symbol, type: 'STOCK' })),
+    skipDuplicates: true
+  })
+
+  const assets = await prisma.asset.findMany({
+    where: { symbol: { in: normalized } },
+    select: { id: true }
+  })
+
+  const created = await prisma.watchlistItem.createMany({
+    data: assets.map(asset => ({ watchlistId, assetId: asset.id })),
+    skipDuplicates: true
+  })
+
+  return NextResponse.json({
+    added: created.count,
+    skipped: normalized.length - created.count
+  })
+}
+
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -16,12 +53,16 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const { symbol } = await request.json()
+    const { symbol, symbols } = await request.json()
 
-    if (!symbol) {
+    if (!symbol && !Array.isArray(symbols)) {
       return NextResponse.json({ error: 'Symbol is required' }, { status: 400 })
     }
 
+    if (Array.isArray(symbols) && (symbols.length === 0 || symbols.length > MAX_BULK_SYMBOLS || symbols.some(item => typeof item !== 'string' || !item.trim()))) {
+      return NextResponse.json({ error: `Symbols must be a list of 1-${MAX_BULK_SYMBOLS} symbols` }, { status: 400 })
+    }
+
     // Verify watchlist ownership
     const watchlist = await prisma.watchlist.findFirst({
       where: {
@@ -34,6 +75,10 @@ export async function POST(
       return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 })
     }
 
+    if (Array.isArray(symbols)) {
+      return addSymbols(params.id, symbols)
+    }
+
     // Find or create asset
     let asset = await prisma.asset.findUnique({
       where: { symbol: symbol.toUpperCase() }
@@ -0,0 +1,17 @@
+
+import { AuthWrapper } from '@/components/auth/auth-wrapper'
+import { MobileNav } from '@/components/layout/mobile-nav'
+import { ScreenerPage } from '@/components/screener/screener-page'
+
+export default function Screener() {
+  return (
+    <AuthWrapper>
+      <div className="min-h-screen bg-background">
+        <MobileNav />
+        <main className="pb-16 md:pb-0">
+          <ScreenerPage />
+        </main>
+      </div>
+    </AuthWrapper>
+  )
+}
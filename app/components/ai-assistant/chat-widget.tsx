@@ -14,17 +14,92 @@ import {
   User,
   Loader2,
   MinusCircle,
-  Sparkles
+  Sparkles,
+  Wrench,
+  Bell,
+  ArrowUpDown,
+  Plus,
+  History,
+  Pencil,
+  Trash2,
+  ArrowLeft
 } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
+import { formatDistanceToNow } from 'date-fns'
 import { toast } from '@/hooks/use-toast'
 import { safeFormatTime } from '@/lib/utils'
+import { formatCurrency } from '@/lib/utils/number-formatting'
+import type { ChatDraft, DraftStatus, StoredDraft, ToolTranscriptEntry } from '@/lib/chat-assistant'
 
 interface Message {
   id: string
   role: 'user' | 'assistant'
   content: string
   timestamp: Date
+  toolCalls?: ToolTranscriptEntry[]
+  drafts?: StoredDraft[]
+}
+
+interface StoredMessage {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  createdAt: string
+  toolCalls: ToolTranscriptEntry[] | null
+  drafts: StoredDraft[] | null
+}
+
+interface ConversationSummary {
+  id: string
+  title: string | null
+  updatedAt: string
+}
+
+const GREETING = "Hi! I'm AiiA, your AI investment assistant. I can look up quotes, your portfolios, alerts and the latest analysis, and draft trades or alerts for you to confirm. What would you like to know?"
+
+// The open conversation survives reloads
+const CONVERSATION_STORAGE_KEY = 'aiia-chat-conversation'
+
+const greetingMessage = (): Message => ({
+  id: 'greeting',
+  role: 'assistant',
+  content: GREETING,
+  timestamp: new Date()
+})
+
+const toMessage = (stored: StoredMessage): Message => ({
+  id: stored.id,
+  role: stored.role,
+  content: stored.content,
+  timestamp: new Date(stored.createdAt),
+  toolCalls: stored.toolCalls || undefined,
+  drafts: stored.drafts || undefined
+})
+
+// Splits a buffered SSE body into complete events, returning the unfinished remainder
+function parseEvents(buffer: string) {
+  const blocks = buffer.split('\n\n')
+  const rest = blocks.pop() || ''
+  const events = blocks.map(block => {
+    const event = block.match(/^event: (.*)$/m)?.[1] || 'message'
+    const data = block.match(/^data: (.*)$/m)?.[1]
+    return { event, data: data ? JSON.parse(data) : null }
+  })
+  return { events, rest }
+}
+
+const TOOL_LABELS: Record<string, string> = {
+  get_quote: 'Looked up quote',
+  get_portfolio: 'Read portfolio',
+  list_alerts: 'Listed alerts',
+  get_latest_analysis: 'Fetched latest analysis',
+  draft_trade: 'Drafted trade',
+  draft_alert: 'Drafted alert'
+}
+
+function describeToolCall(call: ToolTranscriptEntry) {
+  const label = TOOL_LABELS[call.name] || call.name
+  return typeof call.arguments.symbol === 'string' ? `${label} · ${call.arguments.symbol.toUpperCase()}` : label
 }
 
 interface ChatWidgetProps {
@@ -34,14 +109,13 @@ interface ChatWidgetProps {
 export function ChatWidget({ className = '' }: ChatWidgetProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [isMinimized, setIsMinimized] = useState(false)
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      role: 'assistant',
-      content: "Hi! I'm AiiA, your AI investment assistant. I can help you understand trading concepts, market trends, and financial strategies. What would you like to learn about today?",
-      timestamp: new Date()
-    }
-  ])
+  const [messages, setMessages] = useState<Message[]>([greetingMessage()])
+  const [conversationId, setConversationId] = useState<string | null>(null)
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  const [showHistory, setShowHistory] = useState(false)
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null)
+  // Drafts being submitted right now; decided drafts carry their status from the server
+  const [submittingDrafts, setSubmittingDrafts] = useState<Set<string>>(new Set())
   const [inputValue, setInputValue] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
@@ -54,48 +128,177 @@ export function ChatWidget({ className = '' }: ChatWidgetProps) {
     scrollToBottom()
   }, [messages])
 
+  useEffect(() => {
+    const stored = localStorage.getItem(CONVERSATION_STORAGE_KEY)
+    if (stored) openConversation(stored)
+  }, [])
+
+  const openConversation = async (id: string) => {
+    try {
+      const response = await fetch(`/api/chat/conversations/${id}`)
+      if (!response.ok) {
+        // Deleted elsewhere; start fresh
+        if (response.status === 404) startNewChat()
+        return
+      }
+
+      const data = await response.json()
+      const loaded = data.conversation.messages.map(toMessage)
+      setConversationId(id)
+      setMessages(loaded.length > 0 ? loaded : [greetingMessage()])
+      setShowHistory(false)
+      localStorage.setItem(CONVERSATION_STORAGE_KEY, id)
+    } catch (error) {
+      console.error('Failed to load conversation:', error)
+    }
+  }
+
+  const fetchConversations = async () => {
+    try {
+      const response = await fetch('/api/chat/conversations')
+      if (response.ok) {
+        const data = await response.json()
+        setConversations(data.conversations)
+      }
+    } catch (error) {
+      console.error('Failed to fetch conversations:', error)
+    }
+  }
+
+  const startNewChat = () => {
+    setConversationId(null)
+    setMessages([greetingMessage()])
+    setShowHistory(false)
+    localStorage.removeItem(CONVERSATION_STORAGE_KEY)
+  }
+
+  const renameConversation = async () => {
+    if (!renaming?.title.trim()) return
+
+    try {
+      const response = await fetch(`/api/chat/conversations/${renaming.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: renaming.title })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Rename failed')
+      }
+
+      setConversations(prev => prev.map(conversation =>
+        conversation.id === renaming.id ? { ...conversation, title: data.conversation.title } : conversation
+      ))
+      setRenaming(null)
+    } catch (error) {
+      toast({
+        title: "Rename Failed",
+        description: error instanceof Error ? error.message : 'An error occurred.',
+        variant: "destructive"
+      })
+    }
+  }
+
+  const deleteConversation = async (id: string) => {
+    try {
+      const response = await fetch(`/api/chat/conversations/${id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error('Delete failed')
+      }
+
+      setConversations(prev => prev.filter(conversation => conversation.id !== id))
+      if (id === conversationId) startNewChat()
+    } catch (error) {
+      toast({
+        title: "Delete Failed",
+        description: "Could not delete the conversation. Please try again.",
+        variant: "destructive"
+      })
+    }
+  }
+
   const sendMessage = async () => {
     if (!inputValue.trim() || isLoading) return
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
+    const content = inputValue.trim()
+    const pendingId = `pending-${Date.now()}`
+    const replyId = `reply-${Date.now()}`
+
+    setMessages(prev => [...prev.filter(message => message.id !== 'greeting'), {
+      id: pendingId,
       role: 'user',
-      content: inputValue.trim(),
+      content,
       timestamp: new Date()
-    }
-
-    setMessages(prev => [...prev, userMessage])
+    }])
     setInputValue('')
     setIsLoading(true)
 
+    const updateReply = (update: (reply: Message) => Message) => {
+      setMessages(prev => {
+        const existing = prev.find(message => message.id === replyId)
+        const reply = existing || { id: replyId, role: 'assistant' as const, content: '', timestamp: new Date() }
+        return existing
+          ? prev.map(message => message.id === replyId ? update(reply) : message)
+          : [...prev, update(reply)]
+      })
+    }
+
     try {
-      const response = await fetch('/api/ai-chat', {
+      let id = conversationId
+      if (!id) {
+        const created = await fetch('/api/chat/conversations', { method: 'POST' })
+        if (!created.ok) {
+          throw new Error(`HTTP error! status: ${created.status}`)
+        }
+        id = (await created.json()).conversation.id as string
+        setConversationId(id)
+        localStorage.setItem(CONVERSATION_STORAGE_KEY, id)
+      }
+
+      const response = await fetch(`/api/chat/conversations/${id}/messages`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          message: userMessage.content,
-          conversation: messages.slice(-5) // Keep last 5 messages for context
-        })
+        body: JSON.stringify({ message: content })
       })
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         throw new Error(`HTTP error! status: ${response.status}`)
       }
 
-      const data = await response.json()
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      let buffer = ''
 
-      if (data.error) {
-        throw new Error(data.error)
-      }
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
 
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: data.response,
-        timestamp: new Date()
-      }
+        buffer += decoder.decode(value, { stream: true })
+        const { events, rest } = parseEvents(buffer)
+        buffer = rest
 
-      setMessages(prev => [...prev, assistantMessage])
+        for (const { event, data } of events) {
+          switch (event) {
+            case 'user':
+              setMessages(prev => prev.map(message => message.id === pendingId ? toMessage(data) : message))
+              break
+            case 'tool':
+              updateReply(reply => ({ ...reply, toolCalls: [...(reply.toolCalls || []), data] }))
+              break
+            case 'draft':
+              updateReply(reply => ({ ...reply, drafts: [...(reply.drafts || []), data] }))
+              break
+            case 'delta':
+              updateReply(reply => ({ ...reply, content: reply.content + data.content }))
+              break
+            case 'done':
+              setMessages(prev => prev.map(message => message.id === replyId ? toMessage(data) : message))
+              break
+            case 'error':
+              throw new Error(data.error)
+          }
+        }
+      }
 
     } catch (error: any) {
       console.error('Chat error:', error)
@@ -109,6 +312,127 @@ export function ChatWidget({ className = '' }: ChatWidgetProps) {
     }
   }
 
+  // Drafts are only ever submitted here, through the same endpoints as the trade modal and alerts page
+  const confirmDraft = async (messageId: string, draft: ChatDraft) => {
+    setSubmittingDrafts(prev => new Set(prev).add(draft.id))
+
+    try {
+      const response = draft.kind === 'TRADE'
+        ? await fetch('/api/trades', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              symbol: draft.symbol,
+              type: draft.side,
+              quantity: draft.quantity,
+              portfolioId: draft.portfolioId,
+              orderType: draft.orderType,
+              ...(draft.limitPrice !== null && { limitPrice: draft.limitPrice })
+            })
+          })
+        : await fetch('/api/alerts', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              symbol: draft.symbol,
+              type: draft.type,
+              condition: { targetPrice: draft.targetPrice },
+              message: draft.message || undefined
+            })
+          })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed')
+      }
+
+      await recordDraftStatus(messageId, draft.id, 'CONFIRMED')
+      toast({
+        title: draft.kind === 'TRADE' ? "Order Placed" : "Alert Created",
+        description: draft.kind === 'TRADE'
+          ? `${draft.side} ${draft.quantity} ${draft.symbol} in ${draft.portfolioName}.`
+          : `${draft.symbol} ${draft.type === 'PRICE_ABOVE' ? 'above' : 'below'} ${formatCurrency(draft.targetPrice)}.`
+      })
+    } catch (error) {
+      toast({
+        title: draft.kind === 'TRADE' ? "Order Failed" : "Alert Failed",
+        description: error instanceof Error ? error.message : 'An error occurred.',
+        variant: "destructive"
+      })
+    } finally {
+      setSubmittingDrafts(prev => {
+        const next = new Set(prev)
+        next.delete(draft.id)
+        return next
+      })
+    }
+  }
+
+  // Shown immediately; stored so the draft is not offered again when the conversation is reopened
+  const recordDraftStatus = async (messageId: string, draftId: string, status: DraftStatus) => {
+    setMessages(prev => prev.map(message => message.id === messageId
+      ? { ...message, drafts: message.drafts?.map(draft => draft.id === draftId ? { ...draft, status } : draft) }
+      : message
+    ))
+
+    if (!conversationId) return
+    try {
+      await fetch(`/api/chat/conversations/${conversationId}/drafts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageId, draftId, status })
+      })
+    } catch (error) {
+      console.error('Failed to record draft status:', error)
+    }
+  }
+
+  const renderDraft = (messageId: string, draft: StoredDraft) => {
+    const status = draft.status
+    const submitting = submittingDrafts.has(draft.id)
+
+    return (
+      <div key={draft.id} className="rounded-lg border bg-background p-3 text-xs space-y-2 text-left">
+        <div className="flex items-center space-x-2 font-medium">
+          {draft.kind === 'TRADE' ? <ArrowUpDown className="h-3 w-3" /> : <Bell className="h-3 w-3" />}
+          <span>
+            {draft.kind === 'TRADE'
+              ? `${draft.side} ${draft.quantity} ${draft.symbol} · ${draft.orderType}${draft.limitPrice !== null ? ` @ ${formatCurrency(draft.limitPrice)}` : ''}`
+              : `Alert: ${draft.symbol} ${draft.type === 'PRICE_ABOVE' ? 'above' : 'below'} ${formatCurrency(draft.targetPrice)}`}
+          </span>
+        </div>
+        <p className="text-muted-foreground">
+          {draft.kind === 'TRADE'
+            ? `${draft.portfolioName} · est. ${formatCurrency(draft.estimatedValue)} at ${formatCurrency(draft.estimatedPrice)}`
+            : draft.currentPrice !== null ? `Currently ${formatCurrency(draft.currentPrice)}` : 'No current quote'}
+        </p>
+        {draft.kind === 'TRADE' && draft.warnings.map(warning => (
+          <p key={warning} className="text-amber-600">{warning}</p>
+        ))}
+        {status === 'CONFIRMED' || status === 'DISMISSED' ? (
+          <Badge variant={status === 'CONFIRMED' ? 'default' : 'secondary'} className="text-xs">
+            {status === 'CONFIRMED' ? 'Confirmed' : 'Dismissed'}
+          </Badge>
+        ) : (
+          <div className="flex space-x-2">
+            <Button size="sm" className="h-7 text-xs flex-1" disabled={submitting} onClick={() => confirmDraft(messageId, draft)}>
+              {submitting ? 'Submitting...' : 'Confirm'}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 text-xs flex-1"
+              disabled={submitting}
+              onClick={() => recordDraftStatus(messageId, draft.id, 'DISMISSED')}
+            >
+              Dismiss
+            </Button>
+          </div>
+        )}
+      </div>
+    )
+  }
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
@@ -116,17 +440,6 @@ export function ChatWidget({ className = '' }: ChatWidgetProps) {
     }
   }
 
-  const clearChat = () => {
-    setMessages([
-      {
-        id: '1',
-        role: 'assistant',
-        content: "Hi! I'm AiiA, your AI investment assistant. I can help you understand trading concepts, market trends, and financial strategies. What would you like to learn about today?",
-        timestamp: new Date()
-      }
-    ])
-  }
-
   return (
     <div className={`fixed bottom-4 right-4 z-50 ${className}`}>
       <AnimatePresence>
@@ -170,6 +483,29 @@ export function ChatWidget({ className = '' }: ChatWidgetProps) {
                     </div>
                   </div>
                   <div className="flex items-center space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title={showHistory ? 'Back to chat' : 'Past conversations'}
+                      onClick={() => {
+                        if (!showHistory) fetchConversations()
+                        setShowHistory(!showHistory)
+                        setIsMinimized(false)
+                      }}
+                    >
+                      {showHistory ? <ArrowLeft className="h-4 w-4" /> : <History className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="New conversation"
+                      onClick={startNewChat}
+                      disabled={isLoading}
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
                     <Button
                       variant="ghost"
                       size="icon"
@@ -190,7 +526,69 @@ export function ChatWidget({ className = '' }: ChatWidgetProps) {
                 </div>
               </CardHeader>
 
-              {!isMinimized && (
+              {!isMinimized && showHistory && (
+                <CardContent className="p-0">
+                  <div className="h-96 overflow-y-auto p-2 space-y-1">
+                    {conversations.length === 0 && (
+                      <p className="p-6 text-center text-sm text-muted-foreground">No past conversations</p>
+                    )}
+                    {conversations.map(conversation => (
+                      <div
+                        key={conversation.id}
+                        className={`group flex items-center space-x-2 rounded-lg px-3 py-2 hover:bg-muted/50 ${
+                          conversation.id === conversationId ? 'bg-muted/50' : ''
+                        }`}
+                      >
+                        {renaming?.id === conversation.id ? (
+                          <Input
+                            autoFocus
+                            value={renaming.title}
+                            maxLength={80}
+                            onChange={(e) => setRenaming({ id: conversation.id, title: e.target.value })}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') renameConversation()
+                              if (e.key === 'Escape') setRenaming(null)
+                            }}
+                            onBlur={() => setRenaming(null)}
+                            className="h-7 text-sm"
+                          />
+                        ) : (
+                          <button className="flex-1 min-w-0 text-left" onClick={() => openConversation(conversation.id)}>
+                            <p className="text-sm font-medium truncate">{conversation.title || 'New conversation'}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {formatDistanceToNow(new Date(conversation.updatedAt), { addSuffix: true })}
+                            </p>
+                          </button>
+                        )}
+                        {renaming?.id !== conversation.id && (
+                          <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              title="Rename"
+                              onClick={() => setRenaming({ id: conversation.id, title: conversation.title || '' })}
+                            >
+                              <Pencil className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7 text-red-500"
+                              title="Delete"
+                              onClick={() => deleteConversation(conversation.id)}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              )}
+
+              {!isMinimized && !showHistory && (
                 <CardContent className="p-0">
                   <div className="h-80 overflow-y-auto p-4 space-y-4">
                     {messages.map((message) => (
@@ -213,16 +611,35 @@ export function ChatWidget({ className = '' }: ChatWidgetProps) {
                             <Bot className="h-3 w-3" />
                           )}
                         </div>
-                        <div className={`max-w-[240px] ${
+                        <div className={`max-w-[240px] space-y-2 ${
                           message.role === 'user' ? 'text-right' : 'text-left'
                         }`}>
-                          <div className={`rounded-lg px-3 py-2 text-sm ${
-                            message.role === 'user'
-                              ? 'bg-primary text-primary-foreground'
-                              : 'bg-secondary text-secondary-foreground'
-                          }`}>
-                            {message.content}
-                          </div>
+                          {message.toolCalls && message.toolCalls.length > 0 && (
+                            <div className="space-y-1">
+                              {message.toolCalls.map(call => (
+                                <div
+                                  key={call.id}
+                                  className={`flex items-center space-x-1 text-xs ${call.error ? 'text-red-500' : 'text-muted-foreground'}`}
+                                  title={call.error || JSON.stringify(call.result)?.slice(0, 500)}
+                                >
+                                  <Wrench className="h-3 w-3 shrink-0" />
+                                  <span className="truncate">
+                                    {describeToolCall(call)}{call.error ? ` · ${call.error}` : ''}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                          {message.content && (
+                            <div className={`rounded-lg px-3 py-2 text-sm ${
+                              message.role === 'user'
+                                ? 'bg-primary text-primary-foreground'
+                                : 'bg-secondary text-secondary-foreground'
+                            }`}>
+                              {message.content}
+                            </div>
+                          )}
+                          {message.drafts?.map(draft => renderDraft(message.id, draft))}
                           <p className="text-xs text-muted-foreground mt-1">
                             {safeFormatTime(message.timestamp, { 
                               hour: '2-digit', 
@@ -233,7 +650,7 @@ export function ChatWidget({ className = '' }: ChatWidgetProps) {
                       </motion.div>
                     ))}
                     
-                    {isLoading && (
+                    {isLoading && messages[messages.length - 1]?.role === 'user' && (
                       <motion.div
                         initial={{ opacity: 0, y: 10 }}
                         animate={{ opacity: 1, y: 0 }}
@@ -257,7 +674,7 @@ export function ChatWidget({ className = '' }: ChatWidgetProps) {
                         value={inputValue}
                         onChange={(e) => setInputValue(e.target.value)}
                         onKeyPress={handleKeyPress}
-                        placeholder="Ask about trading concepts..."
+                        placeholder="Ask about a stock or your portfolio..."
                         disabled={isLoading}
                         className="flex-1"
                       />
@@ -275,10 +692,11 @@ export function ChatWidget({ className = '' }: ChatWidgetProps) {
                       </Badge>
                       <Button
                         variant="ghost"
-                        onClick={clearChat}
+                        onClick={startNewChat}
+                        disabled={isLoading}
                         className="text-xs h-6 px-2"
                       >
-                        Clear
+                        New chat
                       </Button>
                     </div>
                   </div>
@@ -176,7 +176,7 @@ export function AlertsPage() {
 
   const AlertCard = ({ alert, index }: { alert: Alert; index: number }) => {
     const currentPrice = alert.asset.prices?.[0]?.price || 0
-    const targetPrice = alert.condition?.targetPrice || 0
+    const targetPrice = alert.condition?.targetPrice ?? alert.condition?.price ?? 0
     const isPriceAbove = alert.type === 'PRICE_ABOVE'
     const isTriggered = alert.isTriggered
     const isActive = alert.isActive && !isTriggered
@@ -0,0 +1,233 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { History, RefreshCw, CheckCircle, XCircle, Clock, Plus, Minus } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { formatCurrency, formatPercent } from '@/lib/utils/number-formatting'
+
+interface AnalysisChange {
+  field: 'recommendation' | 'confidence' | 'priceTarget' | 'timeHorizon' | 'marketSentiment'
+  from: string | number | null
+  to: string | number | null
+  delta?: number
+  deltaPercent?: number
+}
+
+interface HistoryEntry {
+  id: string
+  generatedAt: string
+  recommendation: 'BUY' | 'SELL' | 'HOLD'
+  confidence: number
+  priceTarget: number | null
+  priceAtAnalysis: number | null
+  timeHorizon: string | null
+  score: {
+    status: 'SCORED' | 'NO_DATA'
+    horizonEndsAt: string
+    returnPercent: number | null
+    directionHit: boolean | null
+    targetHit: boolean | null
+  } | null
+  diff: {
+    changes: AnalysisChange[]
+    keyPointsAdded: string[]
+    keyPointsRemoved: string[]
+  } | null
+}
+
+interface AccuracySummary {
+  scored: number
+  directionHitRate: number | null
+  targetsScored: number
+  targetHitRate: number | null
+}
+
+interface AnalysisHistoryProps {
+  symbol: string
+}
+
+const recommendationClass: Record<string, string> = {
+  BUY: 'bg-green-500/10 text-green-500 border-green-500/20',
+  SELL: 'bg-red-500/10 text-red-500 border-red-500/20',
+  HOLD: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20'
+}
+
+const formatRate = (rate: number | null) => rate === null ? '—' : `${Math.round(rate * 100)}%`
+
+function describeChange(change: AnalysisChange): string {
+  switch (change.field) {
+    case 'recommendation':
+      return `${change.from} → ${change.to}`
+    case 'confidence':
+      return change.delta !== undefined
+        ? `Confidence ${change.delta > 0 ? '+' : ''}${change.delta}`
+        : `Confidence ${change.to ?? '—'}`
+    case 'priceTarget':
+      if (change.to === null) return 'Target dropped'
+      if (change.deltaPercent === undefined) return `Target ${formatCurrency(change.to as number)}`
+      return `Target ${formatPercent(change.deltaPercent)}`
+    case 'timeHorizon':
+      return `Horizon ${change.from ?? '—'} → ${change.to ?? '—'}`
+    case 'marketSentiment':
+      return `Sentiment ${change.from ?? '—'} → ${change.to ?? '—'}`
+  }
+}
+
+// Past analyses of one asset with what changed between them and how each call turned out
+export function AnalysisHistory({ symbol }: AnalysisHistoryProps) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [assetAccuracy, setAssetAccuracy] = useState<AccuracySummary | null>(null)
+  const [overallAccuracy, setOverallAccuracy] = useState<AccuracySummary | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (symbol) {
+      fetchHistory()
+    }
+  }, [symbol])
+
+  const fetchHistory = async () => {
+    setLoading(true)
+    try {
+      const [historyResponse, accuracyResponse] = await Promise.all([
+        fetch(`/api/analysis/${symbol}/history?limit=10`),
+        fetch(`/api/analysis/accuracy?symbol=${symbol}`)
+      ])
+
+      if (historyResponse.ok) {
+        const data = await historyResponse.json()
+        setEntries(data.analyses || [])
+      }
+      if (accuracyResponse.ok) {
+        const data = await accuracyResponse.json()
+        setAssetAccuracy(data.asset)
+        setOverallAccuracy(data.overall)
+      }
+    } catch (error) {
+      console.error('Failed to fetch analysis history:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const renderOutcome = (entry: HistoryEntry) => {
+    if (!entry.score) {
+      return (
+        <Badge variant="outline" className="text-xs text-muted-foreground">
+          <Clock className="w-3 h-3 mr-1" />
+          Pending
+        </Badge>
+      )
+    }
+
+    if (entry.score.status === 'NO_DATA' || entry.score.directionHit === null) {
+      return <Badge variant="outline" className="text-xs text-muted-foreground">No price data</Badge>
+    }
+
+    return (
+      <Badge
+        variant="outline"
+        className={`text-xs ${entry.score.directionHit ? 'text-green-500 border-green-500/20' : 'text-red-500 border-red-500/20'}`}
+      >
+        {entry.score.directionHit ? <CheckCircle className="w-3 h-3 mr-1" /> : <XCircle className="w-3 h-3 mr-1" />}
+        {entry.score.directionHit ? 'Called' : 'Missed'} {formatPercent(entry.score.returnPercent)}
+        {entry.score.targetHit && ' · target hit'}
+      </Badge>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <History className="w-5 h-5" />
+            <span>Analysis History</span>
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={fetchHistory} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Track record of this asset's calls next to all assets */}
+        <div className="grid grid-cols-2 gap-3">
+          <div className="rounded-lg bg-muted/50 p-3">
+            <p className="text-xs text-muted-foreground">Direction hit rate</p>
+            <p className="text-lg font-semibold">{formatRate(assetAccuracy?.directionHitRate ?? null)}</p>
+            <p className="text-xs text-muted-foreground">
+              {assetAccuracy?.scored ?? 0} scored · all assets {formatRate(overallAccuracy?.directionHitRate ?? null)}
+            </p>
+          </div>
+          <div className="rounded-lg bg-muted/50 p-3">
+            <p className="text-xs text-muted-foreground">Target hit rate</p>
+            <p className="text-lg font-semibold">{formatRate(assetAccuracy?.targetHitRate ?? null)}</p>
+            <p className="text-xs text-muted-foreground">
+              {assetAccuracy?.targetsScored ?? 0} scored · all assets {formatRate(overallAccuracy?.targetHitRate ?? null)}
+            </p>
+          </div>
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            {loading ? 'Loading analysis history...' : `No analyses of ${symbol} yet`}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {entries.map(entry => (
+              <div key={entry.id} className="border-b border-border pb-3 last:border-0 last:pb-0 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className={recommendationClass[entry.recommendation]}>
+                      {entry.recommendation}
+                    </Badge>
+                    <span className="text-sm">{entry.confidence}%</span>
+                    {entry.priceTarget !== null && (
+                      <span className="text-sm text-muted-foreground">→ {formatCurrency(entry.priceTarget)}</span>
+                    )}
+                  </div>
+                  {renderOutcome(entry)}
+                </div>
+
+                <div className="flex flex-wrap items-center gap-1">
+                  <span className="text-xs text-muted-foreground mr-1">
+                    {formatDistanceToNow(new Date(entry.generatedAt), { addSuffix: true })}
+                    {entry.priceAtAnalysis !== null && ` at ${formatCurrency(entry.priceAtAnalysis)}`}
+                  </span>
+                  {entry.diff?.changes.map(change => (
+                    <Badge key={change.field} variant="secondary" className="text-xs font-normal">
+                      {describeChange(change)}
+                    </Badge>
+                  ))}
+                  {entry.diff && entry.diff.changes.length === 0 && (
+                    <Badge variant="secondary" className="text-xs font-normal">Unchanged</Badge>
+                  )}
+                </div>
+
+                {entry.diff && (entry.diff.keyPointsAdded.length > 0 || entry.diff.keyPointsRemoved.length > 0) && (
+                  <ul className="text-xs text-muted-foreground space-y-0.5">
+                    {entry.diff.keyPointsAdded.slice(0, 2).map(point => (
+                      <li key={`added-${point}`} className="flex items-start gap-1">
+                        <Plus className="w-3 h-3 mt-0.5 text-green-500 flex-shrink-0" />
+                        <span>{point}</span>
+                      </li>
+                    ))}
+                    {entry.diff.keyPointsRemoved.slice(0, 2).map(point => (
+                      <li key={`removed-${point}`} className="flex items-start gap-1">
+                        <Minus className="w-3 h-3 mt-0.5 text-red-500 flex-shrink-0" />
+                        <span className="line-through">{point}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -240,7 +240,7 @@ export function AnalyzePage() {
                     ))
                   ) : (
                     <div className="text-center py-4 text-muted-foreground">
-                      No results found for "{query}"
+                      No results found for &quot;{query}&quot;
                     </div>
                   )}
                 </motion.div>
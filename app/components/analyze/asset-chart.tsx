@@ -1,46 +1,215 @@
-
 'use client'
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { BarChart3, Calendar, TrendingUp } from 'lucide-react'
-import { useState } from 'react'
-import { 
-  LineChart, 
-  Line, 
-  XAxis, 
-  YAxis, 
+import { BarChart3, CandlestickChart, LineChart as LineChartIcon, TrendingUp } from 'lucide-react'
+import { useEffect, useMemo, useState } from 'react'
+import {
+  Bar,
+  BarChart,
+  Cell,
+  ComposedChart,
+  LineChart,
+  Line,
+  ReferenceLine,
+  XAxis,
+  YAxis,
   ResponsiveContainer,
   Tooltip
 } from 'recharts'
 import { safeFormatTime, safeToDate } from '@/lib/utils'
+import { useLiveQuotes } from '@/hooks/use-live-quotes'
+import { useChartPreferences } from '@/hooks/use-chart-preferences'
+import { bollingerBands, ema, macd, rsi, sma } from '@/lib/indicators'
+import type { ChartPreferences } from '@/lib/chart-preferences'
+import type { ChartInterval } from '@/components/ui/chart-interval-selector'
+import { formatCurrency, formatNumber } from '@/lib/utils/number-formatting'
 
 interface AssetChartProps {
   symbol: string
   priceHistory: Array<{ timestamp: Date; price: number }>
   currentPrice: number
+  // Set when the page has its own interval selector; otherwise the chart's timeframe buttons choose the range
+  interval?: ChartInterval
+}
+
+interface ChartCandle {
+  timestamp: Date
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number | null
+}
+
+const SMA_PERIOD = 20
+const EMA_PERIOD = 50
+const UP_COLOR = '#22c55e'
+const DOWN_COLOR = '#ef4444'
+
+// Bucket sizes of the history endpoint's resolutions, used to fold live ticks into the last candle
+const BUCKET_MS: Record<string, number> = {
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000
+}
+
+const TOGGLES: Array<{ key: keyof Omit<ChartPreferences, 'mode'>; label: string }> = [
+  { key: 'volume', label: 'Volume' },
+  { key: 'sma', label: `SMA ${SMA_PERIOD}` },
+  { key: 'ema', label: `EMA ${EMA_PERIOD}` },
+  { key: 'bollinger', label: 'Bollinger' },
+  { key: 'rsi', label: 'RSI' },
+  { key: 'macd', label: 'MACD' }
+]
+
+const toFlatCandle = (timestamp: Date, price: number): ChartCandle => ({
+  timestamp,
+  open: price,
+  high: price,
+  low: price,
+  close: price,
+  volume: null
+})
+
+// Wick from high to low with the open/close body on top; Recharts hands over the high-low range as y/height
+function CandleShape(props: any) {
+  const { x, y, width, height, payload } = props
+  const color = payload.close >= payload.open ? UP_COLOR : DOWN_COLOR
+  const center = x + width / 2
+  const span = payload.high - payload.low
+  const ratio = span > 0 ? Math.abs(height) / span : 0
+  const bodyTop = y + (payload.high - Math.max(payload.open, payload.close)) * ratio
+  const bodyHeight = Math.max(Math.abs(payload.open - payload.close) * ratio, 1)
+
+  return (
+    <g stroke={color} fill={color}>
+      <line x1={center} x2={center} y1={y} y2={y + Math.abs(height)} />
+      <rect x={x + width * 0.15} y={bodyTop} width={Math.max(width * 0.7, 1)} height={bodyHeight} />
+    </g>
+  )
 }
 
-export function AssetChart({ symbol, priceHistory, currentPrice }: AssetChartProps) {
-  const [timeframe, setTimeframe] = useState('1D')
-
-  const formatChartData = () => {
-    return priceHistory?.map(point => {
-      const safeDate = safeToDate(point.timestamp)
-      return {
-        time: safeFormatTime(point.timestamp, { 
-          hour: '2-digit', 
-          minute: '2-digit' 
-        }, '--:--'),
-        price: point.price || 0,
-        timestamp: safeDate ? safeDate.getTime() : Date.now()
+export function AssetChart({ symbol, priceHistory, currentPrice, interval }: AssetChartProps) {
+  const [timeframe, setTimeframe] = useState<ChartInterval>('1D')
+  const [history, setHistory] = useState<{ candles: ChartCandle[]; resolution: string | null } | null>(null)
+  const [livePoints, setLivePoints] = useState<Array<{ timestamp: Date; price: number }>>([])
+  const { quotes, connected } = useLiveQuotes([symbol])
+  const { preferences, update: updatePreferences } = useChartPreferences()
+  const liveQuote = quotes[symbol.toUpperCase()]
+  const range = interval ?? timeframe
+
+  useEffect(() => {
+    let cancelled = false
+    setHistory(null)
+
+    const loadHistory = async () => {
+      try {
+        const response = await fetch(`/api/assets/${encodeURIComponent(symbol)}/history?range=${range}`)
+        if (!response.ok) return
+        const data = await response.json()
+        if (cancelled) return
+
+        const candles: ChartCandle[] = (data.candles || []).map((candle: any) => ({ ...candle, timestamp: new Date(candle.timestamp) }))
+        setHistory(candles.length > 0
+          ? { candles, resolution: data.resolution }
+          // No stored candles yet; the endpoint's close prices still draw a line
+          : { candles: (data.priceHistory || []).map((point: any) => toFlatCandle(new Date(point.timestamp), point.price)), resolution: null })
+      } catch (error) {
+        console.error('Failed to fetch candles:', error)
       }
-    }).filter(point => point.time !== '--:--') || []
-  }
+    }
+
+    loadHistory()
+    return () => {
+      cancelled = true
+    }
+  }, [symbol, range])
+
+  // Until the candles arrive the page's close prices are shown
+  const baseCandles = useMemo(() => history?.candles ?? (priceHistory || []).flatMap(point => {
+    const timestamp = safeToDate(point.timestamp)
+    return timestamp ? [toFlatCandle(timestamp, point.price || 0)] : []
+  }), [history, priceHistory])
+
+  useEffect(() => {
+    setLivePoints([])
+  }, [baseCandles])
+
+  // Streamed ticks extend the loaded history until the next reload
+  useEffect(() => {
+    if (!liveQuote) return
+    const timestamp = new Date(liveQuote.timestamp)
+    const lastLoaded = baseCandles[baseCandles.length - 1]?.timestamp
+    if (lastLoaded && timestamp <= lastLoaded) return
+
+    setLivePoints(points => [...points, { timestamp, price: liveQuote.price }])
+  }, [liveQuote?.timestamp])
+
+  const candles = useMemo(() => {
+    const bucketMs = history?.resolution ? BUCKET_MS[history.resolution] ?? 0 : 0
+    const merged = [...baseCandles]
 
-  const chartData = formatChartData()
-  const isPositiveChange = chartData.length > 1 && 
+    for (const point of livePoints) {
+      const last = merged[merged.length - 1]
+      if (last && bucketMs > 0 && point.timestamp.getTime() < last.timestamp.getTime() + bucketMs) {
+        merged[merged.length - 1] = {
+          ...last,
+          high: Math.max(last.high, point.price),
+          low: Math.min(last.low, point.price),
+          close: point.price
+        }
+      } else {
+        merged.push(toFlatCandle(point.timestamp, point.price))
+      }
+    }
+
+    return merged
+  }, [baseCandles, livePoints, history?.resolution])
+
+  const chartData = useMemo(() => {
+    const closes = candles.map(candle => candle.close)
+    const smaSeries = preferences.sma ? sma(closes, SMA_PERIOD) : null
+    const emaSeries = preferences.ema ? ema(closes, EMA_PERIOD) : null
+    const bands = preferences.bollinger ? bollingerBands(closes) : null
+    const rsiSeries = preferences.rsi ? rsi(closes) : null
+    const macdSeries = preferences.macd ? macd(closes) : null
+    const intraday = history?.resolution ? BUCKET_MS[history.resolution] < BUCKET_MS['1d'] : range === '1D'
+
+    return candles.map((candle, index) => ({
+      time: intraday
+        ? safeFormatTime(candle.timestamp, range === '1D'
+          ? { hour: '2-digit', minute: '2-digit' }
+          : { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }, '--:--')
+        // Daily candles are keyed by midnight UTC of their trading date
+        : candle.timestamp.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: range === 'Max' ? '2-digit' : undefined, timeZone: 'UTC' }),
+      timestamp: candle.timestamp.getTime(),
+      price: candle.close,
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      range: [candle.low, candle.high],
+      volume: candle.volume,
+      up: candle.close >= candle.open,
+      sma: smaSeries?.[index] ?? null,
+      ema: emaSeries?.[index] ?? null,
+      bollingerUpper: bands?.upper[index] ?? null,
+      bollingerLower: bands?.lower[index] ?? null,
+      rsi: rsiSeries?.[index] ?? null,
+      macd: macdSeries?.macd[index] ?? null,
+      macdSignal: macdSeries?.signal[index] ?? null,
+      macdHistogram: macdSeries?.histogram[index] ?? null
+    })).filter(point => point.time !== '--:--')
+  }, [candles, preferences, history?.resolution, range])
+
+  const isPositiveChange = chartData.length > 1 &&
     chartData[chartData.length - 1].price > chartData[0].price
+  const hasVolume = chartData.some(point => point.volume !== null && point.volume > 0)
+  const showVolume = preferences.volume && hasVolume
+  const subPanes = [showVolume, preferences.rsi, preferences.macd].filter(Boolean).length
+  const syncId = `asset-chart-${symbol}`
 
   return (
     <Card className="border-muted bg-card/50 backdrop-blur">
@@ -48,75 +217,194 @@ export function AssetChart({ symbol, priceHistory, currentPrice }: AssetChartPro
         <CardTitle className="flex items-center">
           <BarChart3 className="h-5 w-5 mr-2 text-primary" />
           {symbol} Price Chart
+          {connected && liveQuote && (
+            <span className="ml-2 text-xs font-normal text-green-500">
+              Live {formatCurrency(liveQuote.price)}
+            </span>
+          )}
         </CardTitle>
-        <div className="flex space-x-1">
-          {['1D', '1W', '1M'].map((period) => (
+        {!interval && (
+          <div className="flex space-x-1">
+            {(['1D', '1W', '1M'] as ChartInterval[]).map((period) => (
+              <Button
+                key={period}
+                variant={timeframe === period ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setTimeframe(period)}
+              >
+                {period}
+              </Button>
+            ))}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap gap-1 mb-3">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => updatePreferences({ mode: preferences.mode === 'line' ? 'candles' : 'line' })}
+          >
+            {preferences.mode === 'line' ? (
+              <><CandlestickChart className="h-3 w-3 mr-1" />Candles</>
+            ) : (
+              <><LineChartIcon className="h-3 w-3 mr-1" />Line</>
+            )}
+          </Button>
+          {TOGGLES.map(({ key, label }) => (
             <Button
-              key={period}
-              variant={timeframe === period ? 'default' : 'outline'}
+              key={key}
+              variant={preferences[key] ? 'default' : 'outline'}
               size="sm"
-              onClick={() => setTimeframe(period)}
+              className="h-7 px-2 text-xs"
+              onClick={() => updatePreferences({ [key]: !preferences[key] })}
             >
-              {period}
+              {label}
             </Button>
           ))}
         </div>
-      </CardHeader>
-      <CardContent>
-        <div className="h-80 w-full">
-          {chartData.length > 0 ? (
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart
-                data={chartData}
-                margin={{ top: 5, right: 5, left: 5, bottom: 5 }}
-              >
-                <XAxis 
-                  dataKey="time" 
-                  axisLine={false}
-                  tickLine={false}
-                  tick={{ fontSize: 10 }}
-                  interval="preserveStartEnd"
-                />
-                <YAxis 
-                  domain={['dataMin - 1', 'dataMax + 1']}
-                  axisLine={false}
-                  tickLine={false}
-                  tick={{ fontSize: 10 }}
-                />
-                <Tooltip
-                  content={({ active, payload, label }) => {
-                    if (active && payload && payload.length) {
-                      return (
-                        <div className="bg-background border rounded-lg p-3 shadow-lg">
-                          <p className="text-sm text-muted-foreground">{label}</p>
-                          <p className="text-sm font-semibold">
-                            ${typeof payload[0].value === 'number' ? payload[0].value.toFixed(2) : payload[0].value}
-                          </p>
-                        </div>
-                      )
-                    }
-                    return null
-                  }}
-                />
-                <Line
-                  type="monotone"
-                  dataKey="price"
-                  stroke={isPositiveChange ? "#22c55e" : "#ef4444"}
-                  strokeWidth={2}
-                  dot={false}
-                  activeDot={{ r: 4 }}
-                />
-              </LineChart>
-            </ResponsiveContainer>
-          ) : (
-            <div className="flex items-center justify-center h-full text-muted-foreground">
-              <div className="text-center">
-                <TrendingUp className="h-12 w-12 mx-auto mb-2 opacity-50" />
-                <p>Chart data loading...</p>
+
+        {chartData.length > 0 ? (
+          <div className="w-full space-y-2">
+            <div className={subPanes > 0 ? 'h-64 w-full' : 'h-80 w-full'}>
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart
+                  data={chartData}
+                  syncId={syncId}
+                  margin={{ top: 5, right: 5, left: 5, bottom: 5 }}
+                >
+                  <XAxis
+                    dataKey="time"
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 10 }}
+                    interval="preserveStartEnd"
+                  />
+                  <YAxis
+                    domain={['dataMin - 1', 'dataMax + 1']}
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 10 }}
+                  />
+                  <Tooltip
+                    content={({ active, payload, label }) => {
+                      if (active && payload && payload.length) {
+                        const point = payload[0].payload
+                        return (
+                          <div className="bg-background border rounded-lg p-3 shadow-lg space-y-1">
+                            <p className="text-sm text-muted-foreground">{label}</p>
+                            {preferences.mode === 'candles' ? (
+                              <p className="text-xs font-semibold">
+                                O {formatCurrency(point.open)} H {formatCurrency(point.high)} L {formatCurrency(point.low)} C {formatCurrency(point.price)}
+                              </p>
+                            ) : (
+                              <p className="text-sm font-semibold">{formatCurrency(point.price)}</p>
+                            )}
+                            {point.volume !== null && (
+                              <p className="text-xs text-muted-foreground">Vol {formatNumber(point.volume)}</p>
+                            )}
+                            {point.sma !== null && <p className="text-xs text-amber-500">SMA {formatCurrency(point.sma)}</p>}
+                            {point.ema !== null && <p className="text-xs text-violet-500">EMA {formatCurrency(point.ema)}</p>}
+                          </div>
+                        )
+                      }
+                      return null
+                    }}
+                  />
+                  {currentPrice > 0 && (
+                    <ReferenceLine y={currentPrice} stroke="#94a3b8" strokeDasharray="3 3" />
+                  )}
+                  {preferences.bollinger && (
+                    <>
+                      <Line type="monotone" dataKey="bollingerUpper" stroke="#38bdf8" strokeWidth={1} strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+                      <Line type="monotone" dataKey="bollingerLower" stroke="#38bdf8" strokeWidth={1} strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+                    </>
+                  )}
+                  {preferences.mode === 'candles' ? (
+                    <Bar dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+                  ) : (
+                    <Line
+                      type="monotone"
+                      dataKey="price"
+                      stroke={isPositiveChange ? UP_COLOR : DOWN_COLOR}
+                      strokeWidth={2}
+                      dot={false}
+                      activeDot={{ r: 4 }}
+                    />
+                  )}
+                  {preferences.sma && (
+                    <Line type="monotone" dataKey="sma" stroke="#f59e0b" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                  )}
+                  {preferences.ema && (
+                    <Line type="monotone" dataKey="ema" stroke="#8b5cf6" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                  )}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+
+            {showVolume && (
+              <div className="h-16 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={chartData} syncId={syncId} margin={{ top: 0, right: 5, left: 5, bottom: 0 }}>
+                    <XAxis dataKey="time" hide />
+                    <YAxis hide />
+                    <Tooltip content={() => null} />
+                    <Bar dataKey="volume" isAnimationActive={false}>
+                      {chartData.map((point, index) => (
+                        <Cell key={index} fill={point.up ? UP_COLOR : DOWN_COLOR} fillOpacity={0.5} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+
+            {preferences.rsi && (
+              <div className="h-24 w-full">
+                <p className="text-xs text-muted-foreground">RSI 14</p>
+                <ResponsiveContainer width="100%" height="85%">
+                  <LineChart data={chartData} syncId={syncId} margin={{ top: 0, right: 5, left: 5, bottom: 0 }}>
+                    <XAxis dataKey="time" hide />
+                    <YAxis domain={[0, 100]} ticks={[30, 70]} axisLine={false} tickLine={false} tick={{ fontSize: 10 }} />
+                    <Tooltip content={() => null} />
+                    <ReferenceLine y={70} stroke={DOWN_COLOR} strokeDasharray="3 3" />
+                    <ReferenceLine y={30} stroke={UP_COLOR} strokeDasharray="3 3" />
+                    <Line type="monotone" dataKey="rsi" stroke="#0ea5e9" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+
+            {preferences.macd && (
+              <div className="h-24 w-full">
+                <p className="text-xs text-muted-foreground">MACD 12, 26, 9</p>
+                <ResponsiveContainer width="100%" height="85%">
+                  <ComposedChart data={chartData} syncId={syncId} margin={{ top: 0, right: 5, left: 5, bottom: 0 }}>
+                    <XAxis dataKey="time" hide />
+                    <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 10 }} />
+                    <Tooltip content={() => null} />
+                    <ReferenceLine y={0} stroke="#94a3b8" />
+                    <Bar dataKey="macdHistogram" isAnimationActive={false}>
+                      {chartData.map((point, index) => (
+                        <Cell key={index} fill={(point.macdHistogram ?? 0) >= 0 ? UP_COLOR : DOWN_COLOR} fillOpacity={0.6} />
+                      ))}
+                    </Bar>
+                    <Line type="monotone" dataKey="macd" stroke="#0ea5e9" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                    <Line type="monotone" dataKey="macdSignal" stroke="#f97316" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                  </ComposedChart>
+                </ResponsiveContainer>
               </div>
+            )}
+          </div>
+        ) : (
+          <div className="h-80 w-full flex items-center justify-center text-muted-foreground">
+            <div className="text-center">
+              <TrendingUp className="h-12 w-12 mx-auto mb-2 opacity-50" />
+              <p>Chart data loading...</p>
             </div>
-          )}
-        </div>
+          </div>
+        )}
       </CardContent>
     </Card>
   )
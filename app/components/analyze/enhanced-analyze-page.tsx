@@ -30,6 +30,7 @@ import { motion, AnimatePresence } from 'framer-motion'
 import { useSearchParams, useRouter } from 'next/navigation'
 import { AssetChart } from './asset-chart'
 import { AIAnalysisCard } from './ai-analysis-card'
+import { AnalysisHistory } from './analysis-history'
 import { TradeButtons } from '@/components/trading/trade-buttons'
 import { TradeModal } from '@/components/trading/trade-modal'
 import { WatchlistToggle } from '@/components/ui/watchlist-toggle'
@@ -417,12 +418,16 @@ export function EnhancedAnalyzePage() {
                   priceHistory={priceHistory}
                   symbol={selectedAsset.symbol}
                   currentPrice={selectedAsset.price}
+                  interval={chartInterval}
                 />
               </CardContent>
             </Card>
 
             {/* AI Analysis */}
             <AIAnalysisCard symbol={selectedAsset.symbol} />
+
+            {/* Past analyses and how they played out */}
+            <AnalysisHistory symbol={selectedAsset.symbol} />
           </div>
 
           {/* Right Column - Extended Data and Trading */}
@@ -16,10 +16,12 @@ import {
   Settings,
   RefreshCw,
   Clock,
-  Target
+  Target,
+  Shield
 } from 'lucide-react'
 import { motion } from 'framer-motion'
 import { safeFormatTime } from '@/lib/utils'
+import { useLiveQuotes } from '@/hooks/use-live-quotes'
 
 interface AutomationStatus {
   settings?: {
@@ -37,6 +39,17 @@ interface AutomationStatus {
     activeAlerts: number
     tradesRemaining: number
   } | null
+  openBrackets?: Array<{
+    id: string
+    symbol: string
+    quantity: number
+    entryPrice: number
+    currentPrice: number | null
+    stopLossPrice: number
+    takeProfitPrice: number
+    stopLossDistancePercent: number | null
+    takeProfitDistancePercent: number | null
+  }> | null
   automationHealth?: {
     score: number
     status: 'EXCELLENT' | 'GOOD' | 'WARNING' | 'ERROR'
@@ -55,13 +68,22 @@ export function AutomationStatusCard() {
   const [status, setStatus] = useState<AutomationStatus | null>(null)
   const [loading, setLoading] = useState(true)
 
+  const { quotes } = useLiveQuotes(status?.openBrackets?.map(bracket => bracket.symbol) || [])
+
   useEffect(() => {
     fetchAutomationStatus()
-    // Refresh every 30 seconds
-    const interval = setInterval(fetchAutomationStatus, 30000)
-    return () => clearInterval(interval)
   }, [])
 
+  // Brackets track the quote stream; a price through either leg means the monitor is about to fill it
+  const crossedBracket = status?.openBrackets?.some(bracket => {
+    const price = quotes[bracket.symbol]?.price
+    return price !== undefined && (price <= bracket.stopLossPrice || price >= bracket.takeProfitPrice)
+  })
+
+  useEffect(() => {
+    if (crossedBracket) fetchAutomationStatus()
+  }, [crossedBracket])
+
   const fetchAutomationStatus = async () => {
     try {
       const response = await fetch('/api/automation/status')
@@ -160,6 +182,15 @@ export function AutomationStatusCard() {
   }
 
   const recentActivities = status.recentActivities || []
+  const openBrackets = (status.openBrackets || []).map(bracket => {
+    const currentPrice = quotes[bracket.symbol]?.price ?? bracket.currentPrice
+    return {
+      ...bracket,
+      currentPrice,
+      stopLossDistancePercent: currentPrice ? ((currentPrice - bracket.stopLossPrice) / currentPrice) * 100 : null,
+      takeProfitDistancePercent: currentPrice ? ((bracket.takeProfitPrice - currentPrice) / currentPrice) * 100 : null
+    }
+  })
 
   // Log warnings for missing data
   if (!status.settings) {
@@ -294,6 +325,38 @@ export function AutomationStatusCard() {
           </div>
         </div>
 
+        {/* Open Bracket Orders */}
+        {openBrackets.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="font-medium text-sm flex items-center">
+              <Shield className="h-4 w-4 mr-2 text-primary" />
+              Open Brackets ({openBrackets.length})
+            </h4>
+            <div className="space-y-2 max-h-40 overflow-y-auto">
+              {openBrackets.map((bracket) => (
+                <div key={bracket.id} className="bg-muted/30 rounded-lg p-2 text-xs space-y-1">
+                  <div className="flex justify-between items-center">
+                    <span className="font-semibold">{bracket.symbol}</span>
+                    <span className="text-muted-foreground">
+                      {bracket.quantity.toFixed(4)} @ ${bracket.entryPrice.toFixed(2)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-red-500">
+                      SL ${bracket.stopLossPrice.toFixed(2)}
+                      {bracket.stopLossDistancePercent !== null && ` (${bracket.stopLossDistancePercent.toFixed(1)}% away)`}
+                    </span>
+                    <span className="text-green-500">
+                      TP ${bracket.takeProfitPrice.toFixed(2)}
+                      {bracket.takeProfitDistancePercent !== null && ` (${bracket.takeProfitDistancePercent.toFixed(1)}% away)`}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Recent Activities */}
         {recentActivities.length > 0 && (
           <div className="space-y-3">
@@ -24,6 +24,7 @@ import { WatchlistCard } from './watchlist-card'
 import { PortfolioSummaryCard } from './portfolio-summary-card'
 import { QuickSearchCard } from './quick-search-card'
 import { AutomationStatusCard } from './automation-status-card'
+import { SignalInboxCard } from './signal-inbox-card'
 
 export function Dashboard() {
   const { data: session } = useSession()
@@ -135,6 +136,15 @@ export function Dashboard() {
             <QuickSearchCard />
           </motion.div>
 
+          {/* Signals Awaiting Approval */}
+          <motion.div
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: 0.25 }}
+          >
+            <SignalInboxCard />
+          </motion.div>
+
           {/* Automation Status */}
           <motion.div
             initial={{ opacity: 0, x: 20 }}
@@ -25,6 +25,8 @@ import { RefreshButton } from '@/components/ui/refresh-button'
 import { LastUpdated } from '@/components/ui/last-updated'
 import { LoadingSpinner } from '@/components/ui/loading-spinner'
 import { formatCurrency, formatNumber } from '@/lib/utils/number-formatting'
+import { usePortfolio } from '@/hooks/use-portfolio'
+import { useLiveQuotes } from '@/hooks/use-live-quotes'
 
 interface AssetData {
   symbol: string
@@ -49,12 +51,19 @@ export function EnhancedMarketMoversCard() {
   const [selectedAsset, setSelectedAsset] = useState<AssetData | null>(null)
   const [tradeModalOpen, setTradeModalOpen] = useState(false)
   const [defaultAction, setDefaultAction] = useState<'BUY' | 'SELL'>('BUY')
-  const [userPositions, setUserPositions] = useState<Record<string, number>>({})
   const [progress, setProgress] = useState(0)
+  const { portfolio, refresh: refreshPortfolio } = usePortfolio()
+  // Only the rows on screen are streamed
+  const visibleAssets = [...(marketData?.gainers.slice(0, 8) || []), ...(marketData?.losers.slice(0, 8) || [])]
+  const { quotes } = useLiveQuotes(visibleAssets.map(asset => asset.symbol))
+
+  const userPositions: Record<string, number> = {}
+  portfolio?.items.forEach(item => {
+    userPositions[item.asset.symbol] = item.quantity
+  })
 
   useEffect(() => {
     fetchMarketMovers()
-    fetchUserPositions()
   }, [])
 
   const fetchMarketMovers = async (isRefresh = false) => {
@@ -98,22 +107,6 @@ export function EnhancedMarketMoversCard() {
     }
   }
 
-  const fetchUserPositions = async () => {
-    try {
-      const response = await fetch('/api/portfolio')
-      if (response.ok) {
-        const data = await response.json()
-        const positions: Record<string, number> = {}
-        data.positions?.forEach((position: any) => {
-          positions[position.symbol] = position.quantity
-        })
-        setUserPositions(positions)
-      }
-    } catch (error) {
-      console.error('Error fetching user positions:', error)
-    }
-  }
-
   const handleTradeClick = (asset: AssetData, action: 'BUY' | 'SELL') => {
     setSelectedAsset(asset)
     setDefaultAction(action)
@@ -122,10 +115,12 @@ export function EnhancedMarketMoversCard() {
 
   const handleRefresh = async () => {
     await fetchMarketMovers(true)
-    await fetchUserPositions()
+    await refreshPortfolio()
   }
 
-  const renderAssetRow = (asset: AssetData, index: number) => {
+  const renderAssetRow = (listed: AssetData, index: number) => {
+    const live = quotes[listed.symbol]
+    const asset = live ? { ...listed, price: live.price, change: live.change, changePercent: live.changePercent } : listed
     const hasPosition = userPositions[asset.symbol] > 0
     const isPositive = asset.changePercent > 0
 
@@ -317,7 +312,7 @@ export function EnhancedMarketMoversCard() {
         <TradeModal
           isOpen={tradeModalOpen}
           onClose={() => {
-            fetchUserPositions()
+            refreshPortfolio()
             setTradeModalOpen(false)
           }}
           asset={selectedAsset}
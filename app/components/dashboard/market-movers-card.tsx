@@ -17,6 +17,8 @@ import { motion } from 'framer-motion'
 import Link from 'next/link'
 import { TradeModal } from '@/components/trading/trade-modal'
 import { formatCurrency, formatNumber } from '@/lib/utils/number-formatting'
+import { usePortfolio } from '@/hooks/use-portfolio'
+import { useLiveQuotes } from '@/hooks/use-live-quotes'
 
 interface AssetData {
   symbol: string
@@ -38,11 +40,17 @@ export function MarketMoversCard() {
   const [selectedAsset, setSelectedAsset] = useState<AssetData | null>(null)
   const [tradeModalOpen, setTradeModalOpen] = useState(false)
   const [defaultAction, setDefaultAction] = useState<'BUY' | 'SELL'>('BUY')
-  const [userPositions, setUserPositions] = useState<Record<string, number>>({})
+  const { portfolio, refresh: refreshPortfolio } = usePortfolio()
+  const visibleAssets = [...(marketData?.gainers.slice(0, 4) || []), ...(marketData?.losers.slice(0, 4) || [])]
+  const { quotes } = useLiveQuotes(visibleAssets.map(asset => asset.symbol))
+
+  const userPositions: Record<string, number> = {}
+  portfolio?.items.forEach(item => {
+    userPositions[item.asset.symbol] = item.quantity
+  })
 
   useEffect(() => {
     fetchMarketMovers()
-    fetchUserPositions()
   }, [])
 
   const fetchMarketMovers = async () => {
@@ -59,25 +67,6 @@ export function MarketMoversCard() {
     }
   }
 
-  const fetchUserPositions = async () => {
-    try {
-      const response = await fetch('/api/portfolio')
-      if (response.ok) {
-        const data = await response.json()
-        const portfolio = data.portfolios?.[0]
-        if (portfolio) {
-          const positions: Record<string, number> = {}
-          portfolio.items.forEach((item: any) => {
-            positions[item.asset.symbol] = item.quantity
-          })
-          setUserPositions(positions)
-        }
-      }
-    } catch (error) {
-      console.error('Failed to fetch user positions:', error)
-    }
-  }
-
   const handleTrade = (asset: AssetData, action: 'BUY' | 'SELL') => {
     setSelectedAsset(asset)
     setDefaultAction(action)
@@ -88,10 +77,12 @@ export function MarketMoversCard() {
     setTradeModalOpen(false)
     setSelectedAsset(null)
     // Refresh positions after trade
-    fetchUserPositions()
+    refreshPortfolio()
   }
 
-  const AssetRow = ({ asset, index }: { asset: AssetData; index: number }) => {
+  const AssetRow = ({ asset: listed, index }: { asset: AssetData; index: number }) => {
+    const live = quotes[listed.symbol]
+    const asset = live ? { ...listed, price: live.price, change: live.change, changePercent: live.changePercent } : listed
     const isPositive = asset.changePercent > 0
     const ChangeIcon = isPositive ? ArrowUpRight : ArrowDownRight
     const hasPosition = userPositions[asset.symbol] > 0
@@ -1,7 +1,6 @@
 
 'use client'
 
-import { useState, useEffect } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
@@ -16,6 +15,8 @@ import {
 import { motion } from 'framer-motion'
 import Link from 'next/link'
 import { formatCurrency, formatNumber } from '@/lib/utils/number-formatting'
+import { usePortfolio, getLivePortfolioValue } from '@/hooks/use-portfolio'
+import { useLiveQuotes } from '@/hooks/use-live-quotes'
 
 interface PortfolioData {
   totalValue: number
@@ -26,43 +27,21 @@ interface PortfolioData {
 }
 
 export function PortfolioSummaryCard() {
-  const [portfolioData, setPortfolioData] = useState<PortfolioData | null>(null)
-  const [loading, setLoading] = useState(true)
+  const { portfolio, loading, error } = usePortfolio()
+  const { quotes, connected } = useLiveQuotes(portfolio?.items.map(item => item.asset.symbol) || [])
 
-  useEffect(() => {
-    fetchPortfolioData()
-  }, [])
-
-  const fetchPortfolioData = async () => {
-    try {
-      const response = await fetch('/api/portfolio')
-      if (response.ok) {
-        const data = await response.json()
-        if (data.portfolios?.length > 0) {
-          const portfolio = data.portfolios[0] // Main portfolio
-          setPortfolioData({
-            totalValue: portfolio.totalValue || 100000,
-            totalReturn: portfolio.totalReturn || 0,
-            totalReturnPercent: portfolio.totalReturnPercent || 0,
-            balance: portfolio.balance || 100000,
-            positions: portfolio.items?.length || 0
-          })
-        }
-      }
-    } catch (error) {
-      console.error('Failed to fetch portfolio data:', error)
-      // Set default values
-      setPortfolioData({
-        totalValue: 100000,
-        totalReturn: 0,
-        totalReturnPercent: 0,
-        balance: 100000,
-        positions: 0
-      })
-    } finally {
-      setLoading(false)
-    }
-  }
+  // Positions are marked to the streamed quotes, so the return moves with the market
+  const portfolioData: PortfolioData | null = portfolio ? {
+    ...getLivePortfolioValue(portfolio, quotes),
+    balance: portfolio.balance,
+    positions: portfolio.items.length
+  } : error ? {
+    totalValue: 100000,
+    totalReturn: 0,
+    totalReturnPercent: 0,
+    balance: 100000,
+    positions: 0
+  } : null
 
   if (loading || !portfolioData) {
     return (
@@ -97,6 +76,11 @@ export function PortfolioSummaryCard() {
         <CardTitle className="flex items-center">
           <BarChart3 className="h-5 w-5 mr-2 text-primary" />
           Portfolio Summary
+          {connected && portfolioData.positions > 0 && (
+            <Badge variant="outline" className="ml-2 text-xs text-green-500 border-green-500">
+              Live
+            </Badge>
+          )}
         </CardTitle>
         <Link href="/portfolio">
           <Button variant="outline" size="sm">
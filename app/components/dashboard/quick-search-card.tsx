@@ -153,7 +153,7 @@ export function QuickSearchCard() {
                 ))
               ) : (
                 <div className="text-center py-4 text-muted-foreground text-sm">
-                  No results found for "{query}"
+                  No results found for &quot;{query}&quot;
                 </div>
               )}
             </motion.div>
@@ -0,0 +1,190 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Inbox, Check, X, Clock } from 'lucide-react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useToast } from '@/hooks/use-toast'
+import { safeFormatTime } from '@/lib/utils'
+import { formatCurrency } from '@/lib/utils/number-formatting'
+
+interface PendingSignal {
+  id: string
+  symbol: string
+  action: 'BUY' | 'SELL'
+  confidence: number
+  signalPrice: number
+  priceTarget: number | null
+  suggestedAmount: number
+  approvedAmount: number | null
+  analysisSnapshot: {
+    analysis?: string
+    keyPoints?: string[]
+  } | null
+  expiresAt: string
+  createdAt: string
+}
+
+// Signals held for approval while manual confirmation is on; hidden when there is nothing to decide
+export function SignalInboxCard() {
+  const { toast } = useToast()
+  const [signals, setSignals] = useState<PendingSignal[]>([])
+  const [amounts, setAmounts] = useState<Record<string, string>>({})
+  const [deciding, setDeciding] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchSignals()
+  }, [])
+
+  const fetchSignals = async () => {
+    try {
+      const response = await fetch('/api/automation/signals')
+      if (response.ok) {
+        const data = await response.json()
+        setSignals(data.signals || [])
+      }
+    } catch (error) {
+      console.error('Failed to fetch pending signals:', error)
+    }
+  }
+
+  // Persist an edited size so it survives a reload of the inbox
+  const saveAmount = async (signal: PendingSignal) => {
+    const amount = amounts[signal.id]
+    if (!amount || parseFloat(amount) === (signal.approvedAmount ?? signal.suggestedAmount)) return
+
+    try {
+      const response = await fetch(`/api/automation/signals/${signal.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ amount })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update amount')
+      }
+
+      setSignals(current => current.map(item => item.id === signal.id ? { ...item, approvedAmount: data.signal.approvedAmount } : item))
+    } catch (error) {
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : 'An error occurred while updating the amount.',
+        variant: "destructive"
+      })
+    }
+  }
+
+  const decide = async (signal: PendingSignal, decision: 'approve' | 'reject') => {
+    setDeciding(signal.id)
+    try {
+      const amount = amounts[signal.id]
+      const response = await fetch(`/api/automation/signals/${signal.id}/${decision}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(decision === 'approve' && amount ? { amount } : {})
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${decision} signal`)
+      }
+
+      toast({
+        title: decision === 'approve' ? "Signal Approved" : "Signal Rejected",
+        description: decision === 'approve'
+          ? `${signal.action} order for ${signal.symbol} has been executed.`
+          : `${signal.action} signal for ${signal.symbol} was dismissed.`,
+      })
+    } catch (error) {
+      toast({
+        title: decision === 'approve' ? "Approval Failed" : "Rejection Failed",
+        description: error instanceof Error ? error.message : 'An error occurred while deciding the signal.',
+        variant: "destructive"
+      })
+    } finally {
+      setDeciding(null)
+      fetchSignals()
+    }
+  }
+
+  if (signals.length === 0) return null
+
+  return (
+    <Card className="border-primary/30 bg-card/50 backdrop-blur">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center">
+          <Inbox className="h-5 w-5 mr-2 text-primary" />
+          Awaiting Approval
+          <Badge variant="secondary" className="ml-2">{signals.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <AnimatePresence initial={false}>
+          {signals.map(signal => (
+            <motion.div
+              key={signal.id}
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              className="bg-muted/30 rounded-lg p-3 space-y-2"
+            >
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <Badge variant={signal.action === 'BUY' ? 'default' : 'destructive'}>{signal.action}</Badge>
+                  <span className="font-semibold">{signal.symbol}</span>
+                  <span className="text-xs text-muted-foreground">{signal.confidence}% confidence</span>
+                </div>
+                <span className="text-xs text-muted-foreground flex items-center">
+                  <Clock className="h-3 w-3 mr-1" />
+                  until {safeFormatTime(signal.expiresAt)}
+                </span>
+              </div>
+
+              <div className="text-xs text-muted-foreground">
+                Signaled at {formatCurrency(signal.signalPrice)}
+                {signal.priceTarget !== null && ` · target ${formatCurrency(signal.priceTarget)}`}
+              </div>
+
+              {signal.analysisSnapshot?.analysis && (
+                <p className="text-xs text-muted-foreground line-clamp-2">{signal.analysisSnapshot.analysis}</p>
+              )}
+
+              <div className="flex items-center space-x-2">
+                <div className="relative flex-1">
+                  <span className="absolute left-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">$</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    className="h-8 pl-5 text-sm"
+                    value={amounts[signal.id] ?? (signal.approvedAmount ?? signal.suggestedAmount).toFixed(2)}
+                    onChange={(e) => setAmounts({ ...amounts, [signal.id]: e.target.value })}
+                    onBlur={() => saveAmount(signal)}
+                  />
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => decide(signal, 'approve')}
+                  disabled={deciding === signal.id}
+                >
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => decide(signal, 'reject')}
+                  disabled={deciding === signal.id}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </CardContent>
+    </Card>
+  )
+}
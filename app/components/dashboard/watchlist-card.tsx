@@ -17,6 +17,8 @@ import {
 import { motion, AnimatePresence } from 'framer-motion'
 import Link from 'next/link'
 import { TradeModal } from '@/components/trading/trade-modal'
+import { usePortfolio } from '@/hooks/use-portfolio'
+import { useLiveQuotes } from '@/hooks/use-live-quotes'
 
 interface WatchlistAsset {
   symbol: string
@@ -48,32 +50,18 @@ export function WatchlistCard() {
   const [selectedAsset, setSelectedAsset] = useState<WatchlistAsset | null>(null)
   const [tradeModalOpen, setTradeModalOpen] = useState(false)
   const [defaultAction, setDefaultAction] = useState<'BUY' | 'SELL'>('BUY')
-  const [userPositions, setUserPositions] = useState<Record<string, number>>({})
+  const { portfolio, refresh: refreshPortfolio } = usePortfolio()
+  const { quotes } = useLiveQuotes(watchlistData?.items.map(item => item.asset.symbol) || [])
+
+  const userPositions: Record<string, number> = {}
+  portfolio?.items.forEach(item => {
+    userPositions[item.asset.symbol] = item.quantity
+  })
 
   useEffect(() => {
     fetchWatchlist()
-    fetchUserPositions()
   }, [])
 
-  const fetchUserPositions = async () => {
-    try {
-      const response = await fetch('/api/portfolio')
-      if (response.ok) {
-        const data = await response.json()
-        const portfolio = data.portfolios?.[0]
-        if (portfolio) {
-          const positions: Record<string, number> = {}
-          portfolio.items.forEach((item: any) => {
-            positions[item.asset.symbol] = item.quantity
-          })
-          setUserPositions(positions)
-        }
-      }
-    } catch (error) {
-      console.error('Failed to fetch user positions:', error)
-    }
-  }
-
   const handleTrade = (asset: WatchlistAsset, action: 'BUY' | 'SELL') => {
     setSelectedAsset(asset)
     setDefaultAction(action)
@@ -84,7 +72,7 @@ export function WatchlistCard() {
     setTradeModalOpen(false)
     setSelectedAsset(null)
     // Refresh positions after trade
-    fetchUserPositions()
+    refreshPortfolio()
   }
 
   const fetchWatchlist = async () => {
@@ -177,11 +165,12 @@ export function WatchlistCard() {
   const formatWatchlistData = (): WatchlistAsset[] => {
     if (!watchlistData?.items) return []
     
+    // Streamed quotes take over from the stored price once the first tick arrives
     return watchlistData.items.map(item => ({
       symbol: item.asset.symbol,
       name: item.asset.name,
-      price: item.asset.prices?.[0]?.price || 0,
-      changePercent: item.asset.prices?.[0]?.changePercent || 0,
+      price: quotes[item.asset.symbol]?.price ?? item.asset.prices?.[0]?.price ?? 0,
+      changePercent: quotes[item.asset.symbol]?.changePercent ?? item.asset.prices?.[0]?.changePercent ?? 0,
       type: item.asset.type
     }))
   }
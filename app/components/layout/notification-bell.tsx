@@ -0,0 +1,133 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { formatDistanceToNow } from 'date-fns'
+import { Bell, CheckCheck } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+
+interface Notification {
+  id: string
+  category: string
+  title: string
+  body: string
+  readAt: string | null
+  createdAt: string
+}
+
+const POLL_INTERVAL = 60 * 1000
+
+const CATEGORY_COLORS: Record<string, string> = {
+  PRICE_ALERT: 'bg-blue-500',
+  TRADE_EXECUTION: 'bg-green-500',
+  AUTOMATION_ERROR: 'bg-red-500',
+  TEST: 'bg-muted-foreground'
+}
+
+export function NotificationBell() {
+  const { status } = useSession()
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [isOpen, setIsOpen] = useState(false)
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications?limit=20')
+      if (response.ok) {
+        const data = await response.json()
+        setNotifications(data.notifications)
+        setUnreadCount(data.unreadCount)
+      }
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (status !== 'authenticated') return
+
+    fetchNotifications()
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL)
+    return () => clearInterval(interval)
+  }, [status, fetchNotifications])
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      const response = await fetch('/api/notifications/read', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids ? { ids } : {})
+      })
+      if (response.ok) {
+        fetchNotifications()
+      }
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error)
+    }
+  }
+
+  if (status !== 'authenticated') return null
+
+  return (
+    <Popover open={isOpen} onOpenChange={(open) => {
+      setIsOpen(open)
+      if (open) fetchNotifications()
+    }}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1 right-1 min-w-4 h-4 px-1 rounded-full bg-red-500 text-[10px] leading-4 text-white text-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <p className="font-medium text-sm">Notifications</p>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => markRead()}>
+              <CheckCheck className="h-3 w-3 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="p-6 text-center text-sm text-muted-foreground">No notifications yet</p>
+          ) : (
+            notifications.map(notification => (
+              <button
+                key={notification.id}
+                onClick={() => !notification.readAt && markRead([notification.id])}
+                className={cn(
+                  "w-full text-left px-4 py-3 border-b last:border-b-0 hover:bg-muted/50 transition-colors",
+                  !notification.readAt && "bg-primary/5"
+                )}
+              >
+                <div className="flex items-start space-x-2">
+                  <span className={cn(
+                    "mt-1.5 h-2 w-2 rounded-full shrink-0",
+                    CATEGORY_COLORS[notification.category] || 'bg-muted-foreground',
+                    notification.readAt && "opacity-30"
+                  )} />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{notification.title}</p>
+                    <p className="text-xs text-muted-foreground line-clamp-2">{notification.body}</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
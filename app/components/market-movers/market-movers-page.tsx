@@ -12,7 +12,8 @@ import {
   ArrowDownRight,
   RefreshCw,
   BarChart3,
-  ShoppingCart
+  ShoppingCart,
+  Filter
 } from 'lucide-react'
 import { motion } from 'framer-motion'
 import { Button } from '@/components/ui/button'
@@ -219,14 +220,22 @@ export function MarketMoversPage() {
             Top gaining and losing assets in the market
           </p>
         </div>
-        <Button 
-          onClick={fetchMarketMovers} 
-          disabled={loading}
-          variant="outline"
-        >
-          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
-          Refresh
-        </Button>
+        <div className="flex items-center space-x-2">
+          <Link href="/screener">
+            <Button variant="outline">
+              <Filter className="h-4 w-4 mr-2" />
+              Screener
+            </Button>
+          </Link>
+          <Button 
+            onClick={fetchMarketMovers} 
+            disabled={loading}
+            variant="outline"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
       </motion.div>
 
       {/* Market Movers Content */}
@@ -0,0 +1,162 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { LineChart as LineChartIcon } from 'lucide-react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  ResponsiveContainer,
+  Tooltip
+} from 'recharts'
+import { ChartIntervalSelector, ChartInterval } from '@/components/ui/chart-interval-selector'
+import { formatCurrency, formatNumber, formatPercent } from '@/lib/utils/number-formatting'
+
+interface PerformancePoint {
+  date: string
+  totalValue: number
+  cumulativeReturn: number
+  drawdown: number
+}
+
+interface PerformanceMetrics {
+  timeWeightedReturn: number
+  maxDrawdown: number
+  volatility: number
+  sharpeRatio: number | null
+  days: number
+}
+
+interface EquityCurveCardProps {
+  portfolioId: string
+}
+
+export function EquityCurveCard({ portfolioId }: EquityCurveCardProps) {
+  const [chartInterval, setChartInterval] = useState<ChartInterval>('1M')
+  const [series, setSeries] = useState<PerformancePoint[]>([])
+  const [metrics, setMetrics] = useState<PerformanceMetrics | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchPerformance()
+  }, [portfolioId, chartInterval])
+
+  const fetchPerformance = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/portfolio/performance?portfolioId=${portfolioId}&interval=${chartInterval}`)
+      if (response.ok) {
+        const data = await response.json()
+        setSeries(data.series || [])
+        setMetrics(data.metrics || null)
+      }
+    } catch (error) {
+      console.error('Failed to fetch portfolio performance:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const chartData = series.map(point => ({
+    date: new Date(point.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }),
+    value: point.totalValue,
+    returnPercent: point.cumulativeReturn * 100
+  }))
+
+  const isPositive = (metrics?.timeWeightedReturn ?? 0) >= 0
+
+  const stats = metrics ? [
+    { label: 'Time-Weighted Return', value: formatPercent(metrics.timeWeightedReturn * 100) },
+    { label: 'Max Drawdown', value: formatPercent(metrics.maxDrawdown * 100) },
+    { label: 'Volatility (ann.)', value: formatPercent(metrics.volatility * 100, false) },
+    { label: 'Sharpe Ratio', value: metrics.sharpeRatio !== null ? formatNumber(metrics.sharpeRatio) : '—' }
+  ] : []
+
+  return (
+    <Card className="border-muted bg-card/50 backdrop-blur">
+      <CardHeader className="flex flex-row items-center justify-between pb-3">
+        <CardTitle className="flex items-center">
+          <LineChartIcon className="h-5 w-5 mr-2 text-primary" />
+          Equity Curve
+        </CardTitle>
+        <ChartIntervalSelector
+          selectedInterval={chartInterval}
+          onIntervalChange={setChartInterval}
+          size="sm"
+          disabled={loading}
+        />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="h-64 w-full">
+          {chartData.length > 1 ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart
+                data={chartData}
+                margin={{ top: 5, right: 5, left: 5, bottom: 5 }}
+              >
+                <XAxis
+                  dataKey="date"
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fontSize: 10 }}
+                  interval="preserveStartEnd"
+                />
+                <YAxis
+                  domain={['dataMin', 'dataMax']}
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fontSize: 10 }}
+                  tickFormatter={(value: number) => formatCurrency(value, '$', 0)}
+                  width={80}
+                />
+                <Tooltip
+                  content={({ active, payload, label }) => {
+                    if (active && payload && payload.length) {
+                      const point = payload[0].payload
+                      return (
+                        <div className="bg-background border rounded-lg p-3 shadow-lg">
+                          <p className="text-sm text-muted-foreground">{label}</p>
+                          <p className="text-sm font-semibold">{formatCurrency(point.value)}</p>
+                          <p className="text-xs text-muted-foreground">{formatPercent(point.returnPercent)}</p>
+                        </div>
+                      )
+                    }
+                    return null
+                  }}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="value"
+                  stroke={isPositive ? "#22c55e" : "#ef4444"}
+                  strokeWidth={2}
+                  dot={false}
+                  activeDot={{ r: 4 }}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="flex items-center justify-center h-full text-muted-foreground">
+              <div className="text-center">
+                <LineChartIcon className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                <p>{loading ? 'Loading performance...' : 'Not enough history yet. Snapshots are taken daily.'}</p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {stats.length > 0 && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {stats.map(stat => (
+              <div key={stat.label} className="bg-muted/30 rounded-lg p-3 text-center">
+                <p className="text-xs text-muted-foreground">{stat.label}</p>
+                <p className="text-lg font-semibold">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,321 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Briefcase, DollarSign, Pencil, Wallet } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { formatCurrency } from '@/lib/utils/number-formatting'
+
+interface PortfolioSummary {
+  id: string
+  name: string
+  type: string
+  balance: number
+  isActive: boolean
+}
+
+interface DialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onSaved: (portfolioId: string) => void
+}
+
+// Shared submit handling: JSON request, error toast, then hand the affected portfolio id back
+function useSubmit(onSaved: (portfolioId: string) => void) {
+  const { toast } = useToast()
+  const [saving, setSaving] = useState(false)
+
+  const submit = async (url: string, method: string, body: unknown, success: { title: string; description: string }, portfolioId?: string) => {
+    setSaving(true)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed')
+      }
+
+      toast(success)
+      onSaved(portfolioId || data.portfolio?.id)
+      return true
+    } catch (error) {
+      toast({
+        title: "Request Failed",
+        description: error instanceof Error ? error.message : 'An error occurred.',
+        variant: "destructive"
+      })
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return { saving, submit }
+}
+
+export function CreatePortfolioDialog({ isOpen, onClose, onSaved }: DialogProps) {
+  const [name, setName] = useState('')
+  const [startingCapital, setStartingCapital] = useState('100000')
+  const { saving, submit } = useSubmit(onSaved)
+
+  useEffect(() => {
+    if (isOpen) {
+      setName('')
+      setStartingCapital('100000')
+    }
+  }, [isOpen])
+
+  const handleCreate = async () => {
+    const created = await submit('/api/portfolio', 'POST', { name, startingCapital }, {
+      title: "Portfolio Created",
+      description: `${name.trim()} is ready with ${formatCurrency(parseFloat(startingCapital) || 0)} in cash.`
+    })
+    if (created) onClose()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Briefcase className="h-5 w-5 mr-2 text-primary" />
+            New Portfolio
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="portfolioName">Name</Label>
+            <Input
+              id="portfolioName"
+              placeholder="e.g. Growth, Dividends"
+              value={name}
+              maxLength={50}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="startingCapital">Starting Capital</Label>
+            <div className="relative">
+              <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="startingCapital"
+                type="number"
+                min="1"
+                step="1000"
+                value={startingCapital}
+                onChange={(e) => setStartingCapital(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Simulated cash the portfolio opens with. Returns are measured against it.
+            </p>
+          </div>
+
+          <div className="flex space-x-3 pt-2">
+            <Button variant="outline" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreate}
+              disabled={saving || !name.trim() || !(parseFloat(startingCapital) > 0)}
+              className="flex-1"
+            >
+              {saving ? 'Creating...' : 'Create Portfolio'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export function RenamePortfolioDialog({ isOpen, onClose, onSaved, portfolio }: DialogProps & { portfolio: PortfolioSummary | null }) {
+  const [name, setName] = useState('')
+  const { saving, submit } = useSubmit(onSaved)
+
+  useEffect(() => {
+    if (isOpen && portfolio) setName(portfolio.name)
+  }, [isOpen, portfolio])
+
+  if (!portfolio) return null
+
+  const handleRename = async () => {
+    const renamed = await submit(`/api/portfolio/${portfolio.id}`, 'PATCH', { name }, {
+      title: "Portfolio Renamed",
+      description: `${portfolio.name} is now ${name.trim()}.`
+    })
+    if (renamed) onClose()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Pencil className="h-5 w-5 mr-2 text-primary" />
+            Rename Portfolio
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="renamePortfolio">Name</Label>
+            <Input
+              id="renamePortfolio"
+              value={name}
+              maxLength={50}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="flex space-x-3 pt-2">
+            <Button variant="outline" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRename}
+              disabled={saving || !name.trim() || name.trim() === portfolio.name}
+              className="flex-1"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+type CashAction = 'DEPOSIT' | 'WITHDRAWAL' | 'TRANSFER'
+
+export function CashDialog({ isOpen, onClose, onSaved, portfolio, portfolios }: DialogProps & {
+  portfolio: PortfolioSummary | null
+  portfolios: PortfolioSummary[]
+}) {
+  const [action, setAction] = useState<CashAction>('DEPOSIT')
+  const [amount, setAmount] = useState('')
+  const [targetId, setTargetId] = useState('')
+  const { saving, submit } = useSubmit(onSaved)
+
+  // Transfers only go to other active simulated portfolios
+  const targets = portfolios.filter(option => option.id !== portfolio?.id && option.isActive && option.type !== 'LIVE')
+
+  useEffect(() => {
+    if (isOpen) {
+      setAction('DEPOSIT')
+      setAmount('')
+      setTargetId(targets[0]?.id || '')
+    }
+  }, [isOpen])
+
+  if (!portfolio) return null
+
+  const value = parseFloat(amount) || 0
+  const exceedsBalance = action !== 'DEPOSIT' && value > portfolio.balance
+
+  const handleSubmit = async () => {
+    const target = targets.find(option => option.id === targetId)
+    const done = action === 'TRANSFER'
+      ? await submit('/api/portfolio/transfers', 'POST', { fromPortfolioId: portfolio.id, toPortfolioId: targetId, amount }, {
+          title: "Transfer Complete",
+          description: `Moved ${formatCurrency(value)} from ${portfolio.name} to ${target?.name}.`
+        }, portfolio.id)
+      : await submit(`/api/portfolio/${portfolio.id}/cash`, 'POST', { type: action, amount }, {
+          title: action === 'DEPOSIT' ? "Deposit Complete" : "Withdrawal Complete",
+          description: `${action === 'DEPOSIT' ? 'Added' : 'Withdrew'} ${formatCurrency(value)} ${action === 'DEPOSIT' ? 'to' : 'from'} ${portfolio.name}.`
+        })
+    if (done) onClose()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Wallet className="h-5 w-5 mr-2 text-primary" />
+            Manage Cash · {portfolio.name}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            {(['DEPOSIT', 'WITHDRAWAL', 'TRANSFER'] as CashAction[]).map(option => (
+              <Button
+                key={option}
+                variant={action === option ? 'default' : 'outline'}
+                onClick={() => setAction(option)}
+                disabled={option === 'TRANSFER' && targets.length === 0}
+                size="sm"
+              >
+                {option === 'DEPOSIT' ? 'Deposit' : option === 'WITHDRAWAL' ? 'Withdraw' : 'Transfer'}
+              </Button>
+            ))}
+          </div>
+
+          {action === 'TRANSFER' && (
+            <div className="space-y-2">
+              <Label>To Portfolio</Label>
+              <Select value={targetId} onValueChange={setTargetId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select portfolio" />
+                </SelectTrigger>
+                <SelectContent>
+                  {targets.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="cashAmount">Amount</Label>
+              <span className="text-xs text-muted-foreground">Available {formatCurrency(portfolio.balance)}</span>
+            </div>
+            <div className="relative">
+              <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="cashAmount"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Enter amount"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            {exceedsBalance && (
+              <p className="text-xs text-red-500">Amount exceeds the available cash.</p>
+            )}
+          </div>
+
+          <div className="flex space-x-3 pt-2">
+            <Button variant="outline" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={saving || value <= 0 || exceedsBalance || (action === 'TRANSFER' && !targetId)}
+              className="flex-1"
+            >
+              {saving ? 'Processing...' : 'Confirm'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
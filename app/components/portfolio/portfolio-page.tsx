@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { 
   Briefcase, 
   TrendingUp, 
@@ -15,12 +16,21 @@ import {
   Activity,
   ArrowUpRight,
   ArrowDownRight,
-  ShoppingCart
+  ShoppingCart,
+  X,
+  Plus,
+  Pencil,
+  Wallet,
+  Archive,
+  ArchiveRestore
 } from 'lucide-react'
 import { motion } from 'framer-motion'
 import Link from 'next/link'
 import { TradeModal } from '@/components/trading/trade-modal'
+import { EquityCurveCard } from './equity-curve-card'
+import { CreatePortfolioDialog, RenamePortfolioDialog, CashDialog } from './portfolio-dialogs'
 import { formatCurrency, formatNumber } from '@/lib/utils/number-formatting'
+import { useToast } from '@/hooks/use-toast'
 
 interface PortfolioItem {
   id: string
@@ -46,6 +56,7 @@ interface Trade {
   quantity: number
   price: number
   totalAmount: number
+  realizedPnL?: number | null
   executedAt: string
   asset: {
     symbol: string
@@ -53,9 +64,31 @@ interface Trade {
   }
 }
 
+interface OpenOrder {
+  id: string
+  portfolioId: string | null
+  type: string
+  quantity: number
+  orderType: string
+  timeInForce: string
+  limitPrice: number | null
+  stopPrice: number | null
+  stopTriggeredAt: string | null
+  expiresAt: string | null
+  createdAt: string
+  asset: {
+    symbol: string
+    name: string
+  }
+}
+
 interface Portfolio {
   id: string
   name: string
+  type: string
+  isActive: boolean
+  startingCapital: number
+  netDeposits: number
   balance: number
   totalValue: number
   totalReturn: number
@@ -70,6 +103,10 @@ export function PortfolioPage() {
   const [selectedAsset, setSelectedAsset] = useState<any>(null)
   const [tradeModalOpen, setTradeModalOpen] = useState(false)
   const [defaultAction, setDefaultAction] = useState<'BUY' | 'SELL'>('BUY')
+  const [openOrders, setOpenOrders] = useState<OpenOrder[]>([])
+  const [selectedPortfolioId, setSelectedPortfolioId] = useState<string>('')
+  const [dialog, setDialog] = useState<'create' | 'rename' | 'cash' | null>(null)
+  const { toast } = useToast()
 
   useEffect(() => {
     fetchPortfolio()
@@ -98,11 +135,18 @@ export function PortfolioPage() {
   const fetchPortfolio = async () => {
     setLoading(true)
     try {
-      const response = await fetch('/api/portfolio')
+      const [response, ordersResponse] = await Promise.all([
+        fetch('/api/portfolio?includeArchived=true'),
+        fetch('/api/trades?status=PENDING')
+      ])
       if (response.ok) {
         const data = await response.json()
         setPortfolios(data.portfolios || [])
       }
+      if (ordersResponse.ok) {
+        const data = await ordersResponse.json()
+        setOpenOrders(data.trades || [])
+      }
     } catch (error) {
       console.error('Failed to fetch portfolio:', error)
     } finally {
@@ -110,7 +154,66 @@ export function PortfolioPage() {
     }
   }
 
-  const portfolio = portfolios[0] // Main portfolio
+  const cancelOrder = async (orderId: string) => {
+    try {
+      const response = await fetch(`/api/trades/${orderId}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel order')
+      }
+
+      setOpenOrders(orders => orders.filter(order => order.id !== orderId))
+      toast({
+        title: "Order Cancelled",
+        description: "The pending order has been cancelled.",
+      })
+    } catch (error) {
+      toast({
+        title: "Cancel Failed",
+        description: error instanceof Error ? error.message : 'An error occurred while cancelling the order.',
+        variant: "destructive"
+      })
+    }
+  }
+
+  const setArchived = async (target: Portfolio, archived: boolean) => {
+    try {
+      const response = await fetch(`/api/portfolio/${target.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !archived })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${archived ? 'archive' : 'restore'} portfolio`)
+      }
+
+      toast({
+        title: archived ? "Portfolio Archived" : "Portfolio Restored",
+        description: archived
+          ? `${target.name} is hidden from trading and automation.`
+          : `${target.name} is active again.`,
+      })
+      fetchPortfolio()
+    } catch (error) {
+      toast({
+        title: archived ? "Archive Failed" : "Restore Failed",
+        description: error instanceof Error ? error.message : 'An error occurred while updating the portfolio.',
+        variant: "destructive"
+      })
+    }
+  }
+
+  const handleSaved = (portfolioId: string) => {
+    if (portfolioId) setSelectedPortfolioId(portfolioId)
+    fetchPortfolio()
+  }
+
+  // Active portfolios come first, so the fallback is the oldest active one
+  const portfolio = portfolios.find(item => item.id === selectedPortfolioId) || portfolios[0]
+  const portfolioOrders = openOrders.filter(order => order.portfolioId === portfolio?.id)
   const isPositiveReturn = portfolio?.totalReturn ? portfolio.totalReturn >= 0 : true
 
   const PositionCard = ({ item, index }: { item: PortfolioItem; index: number }) => {
@@ -251,6 +354,54 @@ export function PortfolioPage() {
           <p className="text-xs text-muted-foreground">
             {formatCurrency(trade.totalAmount)}
           </p>
+          {trade.realizedPnL !== null && trade.realizedPnL !== undefined && (
+            <p className={`text-xs ${trade.realizedPnL >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+              {trade.realizedPnL >= 0 ? '+' : ''}{formatCurrency(trade.realizedPnL)} realized
+            </p>
+          )}
+        </div>
+      </motion.div>
+    )
+  }
+
+  const OrderRow = ({ order, index }: { order: OpenOrder; index: number }) => {
+    const isBuy = order.type === 'BUY'
+
+    return (
+      <motion.div
+        initial={{ opacity: 0, x: -20 }}
+        animate={{ opacity: 1, x: 0 }}
+        transition={{ delay: index * 0.05 }}
+        className="flex items-center justify-between py-3 px-4 rounded-lg hover:bg-muted/50 transition-colors"
+      >
+        <div className="flex items-center space-x-3">
+          <div>
+            <div className="flex items-center space-x-2">
+              <span className="font-medium">{order.asset.symbol}</span>
+              <Badge variant={isBuy ? 'default' : 'destructive'} className="text-xs">
+                {order.type}
+              </Badge>
+              <Badge variant="outline" className="text-xs">
+                {order.orderType.replace('_', ' ')} · {order.timeInForce}
+              </Badge>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {order.stopPrice !== null && `Stop ${formatCurrency(order.stopPrice)}${order.stopTriggeredAt ? ' (triggered)' : ''} `}
+              {order.limitPrice !== null && `Limit ${formatCurrency(order.limitPrice)}`}
+              {order.expiresAt && ` · Expires ${new Date(order.expiresAt).toLocaleString()}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          <p className="text-sm font-medium">{order.quantity} shares</p>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => cancelOrder(order.id)}
+            className="text-red-500 hover:text-red-700"
+          >
+            <X className="h-4 w-4" />
+          </Button>
         </div>
       </motion.div>
     )
@@ -273,14 +424,34 @@ export function PortfolioPage() {
             Track your investments and performance
           </p>
         </div>
-        <Button 
-          onClick={fetchPortfolio} 
-          disabled={loading}
-          variant="outline"
-        >
-          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
-          Refresh
-        </Button>
+        <div className="flex items-center space-x-2">
+          {portfolios.length > 1 && (
+            <Select value={portfolio?.id || ''} onValueChange={setSelectedPortfolioId}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Select portfolio" />
+              </SelectTrigger>
+              <SelectContent>
+                {portfolios.map(item => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.name}{item.isActive ? '' : ' (archived)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="outline" onClick={() => setDialog('create')}>
+            <Plus className="h-4 w-4 mr-2" />
+            New
+          </Button>
+          <Button 
+            onClick={fetchPortfolio} 
+            disabled={loading}
+            variant="outline"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
       </motion.div>
 
       {loading ? (
@@ -309,8 +480,31 @@ export function PortfolioPage() {
             <Card className="border-muted bg-card/50 backdrop-blur">
               <CardHeader>
                 <CardTitle className="flex items-center justify-between">
-                  <span>{portfolio.name}</span>
-                  <Badge variant="outline">Simulated</Badge>
+                  <div className="flex items-center space-x-2">
+                    <span>{portfolio.name}</span>
+                    <Badge variant="outline">{portfolio.type === 'LIVE' ? 'Live' : 'Simulated'}</Badge>
+                    {!portfolio.isActive && <Badge variant="secondary">Archived</Badge>}
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    {portfolio.type !== 'LIVE' && portfolio.isActive && (
+                      <Button variant="ghost" size="sm" onClick={() => setDialog('cash')}>
+                        <Wallet className="h-4 w-4 mr-1" />
+                        Cash
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => setDialog('rename')}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    {portfolio.isActive ? (
+                      <Button variant="ghost" size="sm" onClick={() => setArchived(portfolio, true)}>
+                        <Archive className="h-4 w-4" />
+                      </Button>
+                    ) : (
+                      <Button variant="ghost" size="sm" onClick={() => setArchived(portfolio, false)}>
+                        <ArchiveRestore className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-6">
@@ -324,6 +518,10 @@ export function PortfolioPage() {
                       {isPositiveReturn ? '+' : ''}{formatCurrency(portfolio.totalReturn)} ({formatNumber(portfolio.totalReturnPercent)}%)
                     </span>
                   </div>
+                  <p className="text-xs text-muted-foreground">
+                    Started with {formatCurrency(portfolio.startingCapital)}
+                    {portfolio.netDeposits !== portfolio.startingCapital && ` · ${formatCurrency(portfolio.netDeposits)} net deposits`}
+                  </p>
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -349,6 +547,15 @@ export function PortfolioPage() {
             </Card>
           </motion.div>
 
+          {/* Equity Curve */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.15 }}
+          >
+            <EquityCurveCard portfolioId={portfolio.id} />
+          </motion.div>
+
           {/* Positions and Trades */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -356,8 +563,9 @@ export function PortfolioPage() {
             transition={{ delay: 0.2 }}
           >
             <Tabs defaultValue="positions" className="w-full">
-              <TabsList className="grid w-full grid-cols-2 max-w-md">
+              <TabsList className="grid w-full grid-cols-3 max-w-md">
                 <TabsTrigger value="positions">Positions</TabsTrigger>
+                <TabsTrigger value="orders">Open Orders</TabsTrigger>
                 <TabsTrigger value="trades">Trade History</TabsTrigger>
               </TabsList>
 
@@ -384,6 +592,28 @@ export function PortfolioPage() {
                 )}
               </TabsContent>
 
+              <TabsContent value="orders" className="mt-6">
+                <Card className="border-muted bg-card/50 backdrop-blur">
+                  <CardHeader>
+                    <CardTitle>Open Orders</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {portfolioOrders.length > 0 ? (
+                      <div className="space-y-1">
+                        {portfolioOrders.map((order, index) => (
+                          <OrderRow key={order.id} order={order} index={index} />
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="text-center py-8">
+                        <Activity className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+                        <p className="text-muted-foreground">No open orders</p>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
               <TabsContent value="trades" className="mt-6">
                 <Card className="border-muted bg-card/50 backdrop-blur">
                   <CardHeader>
@@ -421,6 +651,26 @@ export function PortfolioPage() {
         isOpen={tradeModalOpen}
         onClose={closeTradeModal}
         defaultAction={defaultAction}
+        portfolioId={portfolio?.id}
+      />
+
+      <CreatePortfolioDialog
+        isOpen={dialog === 'create'}
+        onClose={() => setDialog(null)}
+        onSaved={handleSaved}
+      />
+      <RenamePortfolioDialog
+        isOpen={dialog === 'rename'}
+        onClose={() => setDialog(null)}
+        onSaved={handleSaved}
+        portfolio={portfolio || null}
+      />
+      <CashDialog
+        isOpen={dialog === 'cash'}
+        onClose={() => setDialog(null)}
+        onSaved={handleSaved}
+        portfolio={portfolio || null}
+        portfolios={portfolios}
       />
     </div>
   )
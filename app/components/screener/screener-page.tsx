@@ -0,0 +1,541 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { motion } from 'framer-motion'
+import { Filter, ListPlus, Play, Save, Trash2 } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useToast } from '@/hooks/use-toast'
+import { formatCurrency, formatMarketCap, formatPercent, formatVolume } from '@/lib/utils/number-formatting'
+
+interface ScreenerResult {
+  symbol: string
+  name: string
+  type: string
+  sector: string | null
+  price: number | null
+  changePercent: number | null
+  volume: number | null
+  marketCap: number | null
+  rsi: number | null
+  maDistancePercent: number | null
+  recommendation: string | null
+  confidence: number | null
+}
+
+interface SavedScreen {
+  id: string
+  name: string
+  filters: Record<string, unknown>
+}
+
+interface WatchlistSummary {
+  id: string
+  name: string
+}
+
+// Every filter is edited as text and converted by the server, so empty inputs simply drop out
+type FilterForm = Record<string, string>
+
+const ANY = 'ANY'
+
+const NUMBER_FIELDS: Array<{ key: string; label: string; placeholder?: string }> = [
+  { key: 'minPrice', label: 'Min price' },
+  { key: 'maxPrice', label: 'Max price' },
+  { key: 'minChangePercent', label: 'Min change %' },
+  { key: 'maxChangePercent', label: 'Max change %' },
+  { key: 'minVolume', label: 'Min volume' },
+  { key: 'minMarketCap', label: 'Min market cap' },
+  { key: 'maxMarketCap', label: 'Max market cap' },
+  { key: 'minRsi', label: 'Min RSI', placeholder: '0-100' },
+  { key: 'maxRsi', label: 'Max RSI', placeholder: '0-100' },
+  { key: 'minMaDistancePercent', label: 'Min % from MA' },
+  { key: 'maxMaDistancePercent', label: 'Max % from MA' },
+  { key: 'minConfidence', label: 'Min AI confidence' }
+]
+
+function toFilters(form: FilterForm) {
+  const filters: Record<string, unknown> = {}
+
+  for (const { key } of NUMBER_FIELDS) {
+    if (form[key]?.trim()) filters[key] = form[key].trim()
+  }
+  if (form.type && form.type !== ANY) filters.type = form.type
+  if (form.sector && form.sector !== ANY) filters.sectors = [form.sector]
+  if (form.industry && form.industry !== ANY) filters.industries = [form.industry]
+  if (form.recommendation && form.recommendation !== ANY) filters.recommendations = [form.recommendation]
+  if (form.maPeriod) filters.maPeriod = form.maPeriod
+
+  return filters
+}
+
+function toForm(filters: Record<string, unknown>): FilterForm {
+  const form: FilterForm = {}
+
+  for (const { key } of NUMBER_FIELDS) {
+    if (filters[key] !== undefined) form[key] = String(filters[key])
+  }
+  form.type = (filters.type as string) || ANY
+  form.sector = (filters.sectors as string[] | undefined)?.[0] || ANY
+  form.industry = (filters.industries as string[] | undefined)?.[0] || ANY
+  form.recommendation = (filters.recommendations as string[] | undefined)?.[0] || ANY
+  if (filters.maPeriod !== undefined) form.maPeriod = String(filters.maPeriod)
+
+  return form
+}
+
+export function ScreenerPage() {
+  const { toast } = useToast()
+  const [form, setForm] = useState<FilterForm>({ type: ANY, sector: ANY, industry: ANY, recommendation: ANY, maPeriod: '50' })
+  const [options, setOptions] = useState<{ sectors: string[]; industries: string[]; maPeriods: number[] }>({ sectors: [], industries: [], maPeriods: [20, 50, 200] })
+  const [results, setResults] = useState<ScreenerResult[]>([])
+  const [total, setTotal] = useState(0)
+  const [running, setRunning] = useState(false)
+  const [hasRun, setHasRun] = useState(false)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [screens, setScreens] = useState<SavedScreen[]>([])
+  const [screenName, setScreenName] = useState('')
+  const [activeScreenId, setActiveScreenId] = useState<string | null>(null)
+  const [watchlists, setWatchlists] = useState<WatchlistSummary[]>([])
+  const [watchlistId, setWatchlistId] = useState<string>('')
+
+  useEffect(() => {
+    fetchOptions()
+    fetchScreens()
+    fetchWatchlists()
+  }, [])
+
+  const fetchOptions = async () => {
+    try {
+      const response = await fetch('/api/screener')
+      if (response.ok) {
+        const data = await response.json()
+        setOptions({ sectors: data.sectors || [], industries: data.industries || [], maPeriods: data.maPeriods || [20, 50, 200] })
+      }
+    } catch (error) {
+      console.error('Failed to fetch screener options:', error)
+    }
+  }
+
+  const fetchScreens = async () => {
+    try {
+      const response = await fetch('/api/screener/screens')
+      if (response.ok) {
+        const data = await response.json()
+        setScreens(data.screens || [])
+      }
+    } catch (error) {
+      console.error('Failed to fetch saved screens:', error)
+    }
+  }
+
+  const fetchWatchlists = async () => {
+    try {
+      const response = await fetch('/api/watchlist')
+      if (response.ok) {
+        const data = await response.json()
+        const lists: WatchlistSummary[] = (data.watchlists || []).map((watchlist: any) => ({ id: watchlist.id, name: watchlist.name }))
+        setWatchlists(lists)
+        if (lists.length > 0) setWatchlistId(current => current || lists[0].id)
+      }
+    } catch (error) {
+      console.error('Failed to fetch watchlists:', error)
+    }
+  }
+
+  const updateField = (key: string, value: string) => {
+    setForm(current => ({ ...current, [key]: value }))
+  }
+
+  const runScreen = async (filters: Record<string, unknown> = toFilters(form)) => {
+    setRunning(true)
+    try {
+      const response = await fetch('/api/screener', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ filters })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Screen failed')
+      }
+
+      setResults(data.results || [])
+      setTotal(data.total || 0)
+      setSelected(new Set())
+      setHasRun(true)
+    } catch (error) {
+      toast({
+        title: "Screen Failed",
+        description: error instanceof Error ? error.message : 'An error occurred while running the screen.',
+        variant: "destructive"
+      })
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const saveScreen = async () => {
+    if (!screenName.trim()) return
+
+    try {
+      const response = await fetch('/api/screener/screens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: screenName, filters: toFilters(form) })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save screen')
+      }
+
+      setActiveScreenId(data.screen.id)
+      await fetchScreens()
+      toast({
+        title: "Screen Saved",
+        description: `"${data.screen.name}" has been saved.`,
+      })
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : 'An error occurred while saving the screen.',
+        variant: "destructive"
+      })
+    }
+  }
+
+  const loadScreen = (id: string) => {
+    const screen = screens.find(item => item.id === id)
+    if (!screen) return
+
+    setActiveScreenId(id)
+    setScreenName(screen.name)
+    setForm(toForm(screen.filters))
+    runScreen(screen.filters)
+  }
+
+  const deleteScreen = async () => {
+    if (!activeScreenId) return
+
+    try {
+      const response = await fetch(`/api/screener/screens/${activeScreenId}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to delete screen')
+      }
+
+      setActiveScreenId(null)
+      setScreenName('')
+      setScreens(current => current.filter(screen => screen.id !== activeScreenId))
+    } catch (error) {
+      toast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : 'An error occurred while deleting the screen.',
+        variant: "destructive"
+      })
+    }
+  }
+
+  const addToWatchlist = async () => {
+    if (!watchlistId || selected.size === 0) return
+
+    try {
+      const response = await fetch(`/api/watchlist/${watchlistId}/items`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ symbols: [...selected] })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add to watchlist')
+      }
+
+      setSelected(new Set())
+      toast({
+        title: "Added to Watchlist",
+        description: `${data.added} added${data.skipped > 0 ? `, ${data.skipped} already listed` : ''}.`,
+      })
+    } catch (error) {
+      toast({
+        title: "Add Failed",
+        description: error instanceof Error ? error.message : 'An error occurred while updating the watchlist.',
+        variant: "destructive"
+      })
+    }
+  }
+
+  const toggleSelected = (symbol: string) => {
+    setSelected(current => {
+      const next = new Set(current)
+      if (next.has(symbol)) next.delete(symbol)
+      else next.add(symbol)
+      return next
+    })
+  }
+
+  const allSelected = results.length > 0 && results.every(result => selected.has(result.symbol))
+
+  return (
+    <div className="container mx-auto p-4 max-w-6xl space-y-6">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="space-y-2"
+      >
+        <h1 className="text-3xl font-bold flex items-center">
+          <Filter className="h-8 w-8 mr-3 text-primary" />
+          Screener
+        </h1>
+        <p className="text-muted-foreground">
+          Filter tracked stocks and crypto by quote, technicals and AI analysis
+        </p>
+      </motion.div>
+
+      {/* Filters */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+      >
+        <Card className="border-muted bg-card/50 backdrop-blur">
+          <CardHeader className="flex flex-row items-center justify-between pb-3">
+            <CardTitle className="text-lg">Filters</CardTitle>
+            <div className="flex items-center space-x-2">
+              <Select value={activeScreenId || ''} onValueChange={loadScreen}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Saved screens" />
+                </SelectTrigger>
+                <SelectContent>
+                  {screens.map(screen => (
+                    <SelectItem key={screen.id} value={screen.id}>{screen.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {activeScreenId && (
+                <Button variant="outline" size="icon" onClick={deleteScreen}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-1">
+                <Label>Type</Label>
+                <Select value={form.type} onValueChange={value => updateField('type', value)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any</SelectItem>
+                    <SelectItem value="STOCK">Stocks</SelectItem>
+                    <SelectItem value="CRYPTO">Crypto</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Sector</Label>
+                <Select value={form.sector} onValueChange={value => updateField('sector', value)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any</SelectItem>
+                    {options.sectors.map(sector => (
+                      <SelectItem key={sector} value={sector}>{sector}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Industry</Label>
+                <Select value={form.industry} onValueChange={value => updateField('industry', value)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any</SelectItem>
+                    {options.industries.map(industry => (
+                      <SelectItem key={industry} value={industry}>{industry}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>AI recommendation</Label>
+                <Select value={form.recommendation} onValueChange={value => updateField('recommendation', value)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any</SelectItem>
+                    <SelectItem value="BUY">Buy</SelectItem>
+                    <SelectItem value="HOLD">Hold</SelectItem>
+                    <SelectItem value="SELL">Sell</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Moving average</Label>
+                <Select value={form.maPeriod} onValueChange={value => updateField('maPeriod', value)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {options.maPeriods.map(period => (
+                      <SelectItem key={period} value={String(period)}>{period}-day</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {NUMBER_FIELDS.map(field => (
+                <div key={field.key} className="space-y-1">
+                  <Label htmlFor={field.key}>{field.label}</Label>
+                  <Input
+                    id={field.key}
+                    type="number"
+                    placeholder={field.placeholder}
+                    value={form[field.key] || ''}
+                    onChange={event => updateField(field.key, event.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 pt-2 border-t">
+              <Button onClick={() => runScreen()} disabled={running}>
+                <Play className="h-4 w-4 mr-2" />
+                {running ? 'Screening...' : 'Run Screen'}
+              </Button>
+              <Input
+                className="w-48"
+                placeholder="Screen name"
+                value={screenName}
+                onChange={event => setScreenName(event.target.value)}
+              />
+              <Button variant="outline" onClick={saveScreen} disabled={!screenName.trim()}>
+                <Save className="h-4 w-4 mr-2" />
+                Save Screen
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      {/* Results */}
+      {hasRun && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+        >
+          <Card className="border-muted bg-card/50 backdrop-blur">
+            <CardHeader className="flex flex-row items-center justify-between pb-3">
+              <CardTitle className="text-lg">
+                {total} {total === 1 ? 'Match' : 'Matches'}
+                {total > results.length && (
+                  <span className="text-sm font-normal text-muted-foreground ml-2">showing {results.length}</span>
+                )}
+              </CardTitle>
+              <div className="flex items-center space-x-2">
+                <Select value={watchlistId} onValueChange={setWatchlistId}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="Watchlist" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {watchlists.map(watchlist => (
+                      <SelectItem key={watchlist.id} value={watchlist.id}>{watchlist.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={addToWatchlist} disabled={!watchlistId || selected.size === 0}>
+                  <ListPlus className="h-4 w-4 mr-2" />
+                  Add {selected.size > 0 ? selected.size : ''} to Watchlist
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {results.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No assets match these filters</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-8">
+                        <Checkbox
+                          checked={allSelected}
+                          onCheckedChange={checked => setSelected(checked ? new Set(results.map(result => result.symbol)) : new Set())}
+                        />
+                      </TableHead>
+                      <TableHead>Symbol</TableHead>
+                      <TableHead className="text-right">Price</TableHead>
+                      <TableHead className="text-right">Change</TableHead>
+                      <TableHead className="text-right">Volume</TableHead>
+                      <TableHead className="text-right">Market Cap</TableHead>
+                      <TableHead className="text-right">RSI</TableHead>
+                      <TableHead className="text-right">vs MA</TableHead>
+                      <TableHead>AI</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results.map(result => (
+                      <TableRow key={result.symbol}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selected.has(result.symbol)}
+                            onCheckedChange={() => toggleSelected(result.symbol)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Link href={`/analyze?symbol=${result.symbol}`} className="font-medium hover:underline">
+                            {result.symbol}
+                          </Link>
+                          <div className="text-xs text-muted-foreground truncate max-w-[180px]">
+                            {result.sector || result.name}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{result.price !== null ? formatCurrency(result.price) : '—'}</TableCell>
+                        <TableCell className={`text-right ${(result.changePercent ?? 0) >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                          {result.changePercent !== null ? formatPercent(result.changePercent) : '—'}
+                        </TableCell>
+                        <TableCell className="text-right">{result.volume !== null ? formatVolume(result.volume) : '—'}</TableCell>
+                        <TableCell className="text-right">{result.marketCap !== null ? formatMarketCap(result.marketCap) : '—'}</TableCell>
+                        <TableCell className="text-right">{result.rsi !== null ? result.rsi.toFixed(0) : '—'}</TableCell>
+                        <TableCell className="text-right">
+                          {result.maDistancePercent !== null ? formatPercent(result.maDistancePercent) : '—'}
+                        </TableCell>
+                        <TableCell>
+                          {result.recommendation ? (
+                            <Badge variant={result.recommendation === 'BUY' ? 'default' : result.recommendation === 'SELL' ? 'destructive' : 'secondary'}>
+                              {result.recommendation} {result.confidence}%
+                            </Badge>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      )}
+    </div>
+  )
+}
@@ -11,9 +11,11 @@ import { Switch } from '@/components/ui/switch'
 import { Slider } from '@/components/ui/slider'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
-import { AlertTriangle, Bot, TrendingUp, TrendingDown, Shield, Settings2 } from 'lucide-react'
+import { AlertTriangle, Bot, Clock, TrendingUp, TrendingDown, Shield, Settings2 } from 'lucide-react'
 import { toast } from 'react-hot-toast'
 import { motion } from 'framer-motion'
+import { BacktestPanel } from './backtest-panel'
+import { CalibrationPanel } from './calibration-panel'
 
 interface AutomationSettings {
   buyConfidenceThreshold: number
@@ -23,6 +25,8 @@ interface AutomationSettings {
   stopLossPercent: number
   takeProfitPercent: number
   requireManualConfirm: boolean
+  scheduledAnalysisEnabled: boolean
+  scheduledAnalysisInterval: number
 }
 
 export function AutomationSettings() {
@@ -136,6 +140,47 @@ export function AutomationSettings() {
             />
           </div>
 
+          {/* Scheduled Analysis */}
+          <div className="space-y-4 p-4 rounded-lg border">
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <Label htmlFor="scheduled-analysis" className="text-base font-medium flex items-center">
+                  <Clock className="h-4 w-4 mr-2" />
+                  Scheduled Analysis
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Periodically analyze your default watchlist and open positions. Stocks are only analyzed during market hours
+                </p>
+              </div>
+              <Switch
+                id="scheduled-analysis"
+                checked={settings.scheduledAnalysisEnabled}
+                onCheckedChange={(checked) =>
+                  setSettings({...settings, scheduledAnalysisEnabled: checked})
+                }
+              />
+            </div>
+            {settings.scheduledAnalysisEnabled && (
+              <div className="space-y-2 max-w-xs">
+                <Label htmlFor="scheduled-interval" className="font-medium">
+                  Run Every (Minutes)
+                </Label>
+                <Input
+                  id="scheduled-interval"
+                  type="number"
+                  value={settings.scheduledAnalysisInterval}
+                  onChange={(e) => setSettings({
+                    ...settings,
+                    scheduledAnalysisInterval: parseInt(e.target.value) || 0
+                  })}
+                  placeholder="60"
+                  min="15"
+                  max="1440"
+                />
+              </div>
+            )}
+          </div>
+
           {/* Confidence Thresholds */}
           <div className="space-y-6">
             <div className="flex items-center space-x-2">
@@ -165,7 +210,7 @@ export function AutomationSettings() {
                 className="w-full"
               />
               <p className="text-sm text-muted-foreground">
-                Minimum AI confidence required to trigger automated buy orders
+                Minimum calibrated AI confidence required to trigger automated buy orders
               </p>
             </div>
 
@@ -191,13 +236,21 @@ export function AutomationSettings() {
                 className="w-full"
               />
               <p className="text-sm text-muted-foreground">
-                Minimum AI confidence required to trigger automated sell orders
+                Minimum calibrated AI confidence required to trigger automated sell orders
               </p>
             </div>
           </div>
 
           <Separator />
 
+          {/* Reliability of the confidence the thresholds are checked against */}
+          <CalibrationPanel
+            buyThreshold={settings.buyConfidenceThreshold}
+            sellThreshold={settings.sellConfidenceThreshold}
+          />
+
+          <Separator />
+
           {/* Trade Limits */}
           <div className="space-y-6">
             <div className="flex items-center space-x-2">
@@ -372,6 +425,11 @@ export function AutomationSettings() {
             </div>
           </div>
 
+          <Separator />
+
+          {/* Backtest */}
+          <BacktestPanel settings={settings} />
+
           {/* Warning Notice */}
           <div className="p-4 bg-amber-50 dark:bg-amber-950/20 border border-amber-200 dark:border-amber-800 rounded-lg">
             <div className="flex items-start space-x-3">
@@ -383,7 +441,7 @@ export function AutomationSettings() {
                 <p className="text-sm text-amber-600 dark:text-amber-400">
                   Automated trading involves risk. Always monitor your positions and ensure your 
                   risk management settings align with your investment strategy. Consider starting 
-                  with manual confirmation enabled until you're comfortable with the automation behavior.
+                  with manual confirmation enabled until you&apos;re comfortable with the automation behavior.
                 </p>
               </div>
             </div>
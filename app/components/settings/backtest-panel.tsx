@@ -0,0 +1,244 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { FlaskConical, Play } from 'lucide-react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  ResponsiveContainer,
+  Tooltip
+} from 'recharts'
+import { toast } from 'react-hot-toast'
+import { formatCurrency, formatNumber, formatPercent } from '@/lib/utils/number-formatting'
+
+interface BacktestSettings {
+  buyConfidenceThreshold: number
+  sellConfidenceThreshold: number
+  maxTradeAmountAuto: number
+  maxTradesPerDay: number
+  stopLossPercent: number
+  takeProfitPercent: number
+}
+
+interface BacktestTrade {
+  timestamp: string
+  type: 'BUY' | 'SELL'
+  reason: 'SIGNAL' | 'STOP_LOSS' | 'TAKE_PROFIT'
+  price: number
+  quantity: number
+  confidence: number | null
+  realizedPnL: number | null
+}
+
+interface BacktestResult {
+  symbol: string
+  source: 'STORED' | 'PROVIDER'
+  bars: number
+  trades: BacktestTrade[]
+  equityCurve: { timestamp: string; equity: number }[]
+  summary: {
+    initialCapital: number
+    finalEquity: number
+    totalReturn: number
+    buyAndHoldReturn: number
+    maxDrawdown: number
+    volatility: number
+    sharpeRatio: number | null
+    tradeCount: number
+    winRate: number | null
+    profitFactor: number | null
+  }
+}
+
+interface BacktestPanelProps {
+  settings: BacktestSettings
+}
+
+const REASON_LABELS: Record<BacktestTrade['reason'], string> = {
+  SIGNAL: 'Signal',
+  STOP_LOSS: 'Stop loss',
+  TAKE_PROFIT: 'Take profit'
+}
+
+export function BacktestPanel({ settings }: BacktestPanelProps) {
+  const [symbol, setSymbol] = useState('AAPL')
+  const [initialCapital, setInitialCapital] = useState(100000)
+  const [running, setRunning] = useState(false)
+  const [result, setResult] = useState<BacktestResult | null>(null)
+
+  const runBacktest = async () => {
+    if (!symbol) return
+
+    setRunning(true)
+    try {
+      const response = await fetch('/api/automation/backtest', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...settings, symbol, initialCapital })
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        setResult(data.result)
+      } else {
+        toast.error(data.error || 'Backtest failed')
+      }
+    } catch (error) {
+      toast.error('Backtest failed')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const chartData = result?.equityCurve.map(point => ({
+    date: new Date(point.timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+    equity: point.equity
+  })) || []
+
+  const stats = result ? [
+    { label: 'Total Return', value: formatPercent(result.summary.totalReturn * 100) },
+    { label: 'Buy & Hold', value: formatPercent(result.summary.buyAndHoldReturn * 100) },
+    { label: 'Max Drawdown', value: formatPercent(result.summary.maxDrawdown * 100) },
+    { label: 'Sharpe Ratio', value: result.summary.sharpeRatio !== null ? formatNumber(result.summary.sharpeRatio) : '—' },
+    { label: 'Trades', value: String(result.summary.tradeCount) },
+    { label: 'Win Rate', value: result.summary.winRate !== null ? formatPercent(result.summary.winRate * 100, false) : '—' },
+    { label: 'Profit Factor', value: result.summary.profitFactor !== null ? formatNumber(result.summary.profitFactor) : '—' },
+    { label: 'Final Equity', value: formatCurrency(result.summary.finalEquity) }
+  ] : []
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-2">
+        <FlaskConical className="h-4 w-4 text-purple-500" />
+        <h3 className="text-lg font-medium">Backtest These Settings</h3>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Replays price history through the automation rules above, using technical indicators in place of AI analysis.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="backtest-symbol">Symbol</Label>
+          <Input
+            id="backtest-symbol"
+            value={symbol}
+            onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+            placeholder="AAPL"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="backtest-capital">Starting Capital</Label>
+          <Input
+            id="backtest-capital"
+            type="number"
+            value={initialCapital}
+            onChange={(e) => setInitialCapital(parseFloat(e.target.value) || 0)}
+            min="0"
+          />
+        </div>
+        <Button onClick={runBacktest} disabled={running || !symbol || initialCapital <= 0}>
+          <Play className="h-4 w-4 mr-2" />
+          {running ? 'Running...' : 'Run Backtest'}
+        </Button>
+      </div>
+
+      {result && (
+        <div className="space-y-4">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <span>{result.bars} bars of {result.symbol}</span>
+            <Badge variant="outline">{result.source === 'STORED' ? 'Stored prices' : 'Provider history'}</Badge>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {stats.map(stat => (
+              <div key={stat.label} className="bg-muted/30 rounded-lg p-3 text-center">
+                <p className="text-xs text-muted-foreground">{stat.label}</p>
+                <p className="text-lg font-semibold">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {chartData.length > 1 && (
+            <div className="h-56 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+                  <XAxis
+                    dataKey="date"
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 10 }}
+                    interval="preserveStartEnd"
+                  />
+                  <YAxis
+                    domain={['dataMin', 'dataMax']}
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 10 }}
+                    tickFormatter={(value: number) => formatCurrency(value, '$', 0)}
+                    width={80}
+                  />
+                  <Tooltip
+                    content={({ active, payload, label }) => {
+                      if (active && payload && payload.length) {
+                        return (
+                          <div className="bg-background border rounded-lg p-3 shadow-lg">
+                            <p className="text-sm text-muted-foreground">{label}</p>
+                            <p className="text-sm font-semibold">{formatCurrency(payload[0].value as number)}</p>
+                          </div>
+                        )
+                      }
+                      return null
+                    }}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="equity"
+                    stroke={result.summary.totalReturn >= 0 ? "#22c55e" : "#ef4444"}
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {result.trades.length > 0 ? (
+            <div className="max-h-64 overflow-y-auto space-y-1">
+              {result.trades.slice().reverse().map((trade, index) => (
+                <div key={index} className="flex items-center justify-between p-2 rounded border border-muted text-sm">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={trade.type === 'BUY' ? 'default' : 'destructive'} className="text-xs">
+                      {trade.type}
+                    </Badge>
+                    <span>{formatNumber(trade.quantity, 4)} @ {formatCurrency(trade.price)}</span>
+                    <span className="text-xs text-muted-foreground">{REASON_LABELS[trade.reason]}</span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {trade.realizedPnL !== null && (
+                      <span className={trade.realizedPnL >= 0 ? 'text-green-500' : 'text-red-500'}>
+                        {trade.realizedPnL >= 0 ? '+' : ''}{formatCurrency(trade.realizedPnL)}
+                      </span>
+                    )}
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(trade.timestamp).toLocaleDateString()}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No trades were triggered with these thresholds.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
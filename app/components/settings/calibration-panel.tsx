@@ -0,0 +1,195 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Gauge } from 'lucide-react'
+import {
+  ComposedChart,
+  Line,
+  Scatter,
+  XAxis,
+  YAxis,
+  ResponsiveContainer,
+  Tooltip
+} from 'recharts'
+import { formatNumber } from '@/lib/utils/number-formatting'
+
+interface CalibrationCurve {
+  group: 'BUY' | 'SELL' | 'ALL'
+  samples: number
+  calibrated: boolean
+  baseRate: number | null
+  mapping: number[]
+  reliability: {
+    from: number
+    to: number
+    count: number
+    averageConfidence: number
+    hitRate: number
+  }[]
+  brierScore: number | null
+  calibratedBrierScore: number | null
+}
+
+interface Calibration {
+  fittedAt: string
+  minSamples: number
+  curves: Record<'BUY' | 'SELL' | 'ALL', CalibrationCurve>
+}
+
+interface CalibrationPanelProps {
+  buyThreshold: number
+  sellThreshold: number
+}
+
+// Lowest stated confidence whose calibrated probability clears the threshold
+function requiredStatedConfidence(curve: CalibrationCurve, threshold: number): number | null {
+  const index = curve.mapping.findIndex(probability => probability >= threshold)
+  return index === -1 ? null : index
+}
+
+export function CalibrationPanel({ buyThreshold, sellThreshold }: CalibrationPanelProps) {
+  const [calibration, setCalibration] = useState<Calibration | null>(null)
+
+  useEffect(() => {
+    fetchCalibration()
+  }, [])
+
+  const fetchCalibration = async () => {
+    try {
+      const response = await fetch('/api/automation/calibration')
+      if (response.ok) {
+        setCalibration(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to fetch confidence calibration:', error)
+    }
+  }
+
+  const renderCurve = (label: string, curve: CalibrationCurve, threshold: number) => {
+    // The pooled curve stands in for a side that has too few calls of its own
+    const effective = curve.calibrated ? curve : calibration!.curves.ALL
+    const required = effective.calibrated ? requiredStatedConfidence(effective, threshold) : threshold
+
+    const lineData = effective.mapping
+      .map((probability, confidence) => ({ confidence, calibrated: probability, perfect: confidence }))
+      .filter(point => point.confidence % 5 === 0)
+    const observed = curve.reliability.map(bucket => ({
+      confidence: bucket.averageConfidence,
+      observed: bucket.hitRate * 100,
+      count: bucket.count
+    }))
+
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="font-medium">{label}</span>
+          <Badge variant="outline" className="text-xs">
+            {curve.samples} scored {curve.samples === 1 ? 'call' : 'calls'}
+          </Badge>
+        </div>
+
+        <div className="h-48 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={lineData} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+              <XAxis
+                type="number"
+                dataKey="confidence"
+                domain={[0, 100]}
+                ticks={[0, 25, 50, 75, 100]}
+                axisLine={false}
+                tickLine={false}
+                tick={{ fontSize: 10 }}
+                tickFormatter={(value: number) => `${value}%`}
+              />
+              <YAxis
+                domain={[0, 100]}
+                ticks={[0, 25, 50, 75, 100]}
+                axisLine={false}
+                tickLine={false}
+                tick={{ fontSize: 10 }}
+                tickFormatter={(value: number) => `${value}%`}
+                width={40}
+              />
+              <Tooltip
+                content={({ active, payload }) => {
+                  if (active && payload && payload.length) {
+                    const point = payload[0].payload
+                    return (
+                      <div className="bg-background border rounded-lg p-3 shadow-lg text-sm">
+                        <p className="text-muted-foreground">Stated {formatNumber(point.confidence, 0)}%</p>
+                        {point.observed !== undefined ? (
+                          <p className="font-semibold">Observed {formatNumber(point.observed, 0)}% of {point.count}</p>
+                        ) : (
+                          <p className="font-semibold">Calibrated {point.calibrated}%</p>
+                        )}
+                      </div>
+                    )
+                  }
+                  return null
+                }}
+              />
+              <Line
+                type="linear"
+                dataKey="perfect"
+                stroke="#94a3b8"
+                strokeDasharray="4 4"
+                strokeWidth={1}
+                dot={false}
+                isAnimationActive={false}
+              />
+              <Line
+                type="linear"
+                dataKey="calibrated"
+                stroke="#8b5cf6"
+                strokeWidth={2}
+                dot={false}
+              />
+              <Scatter data={observed} dataKey="observed" fill="#f59e0b" />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          {!effective.calibrated
+            ? `Not calibrated yet: thresholds apply to the stated confidence until ${calibration!.minSamples} calls have been scored.`
+            : required === null
+              ? `No stated confidence has reached a ${threshold}% hit rate, so this threshold currently never triggers.`
+              : `A ${threshold}% threshold currently needs a stated confidence of ${required}% or more.`}
+          {effective.calibrated && !curve.calibrated && ' Using the combined buy and sell curve.'}
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-2">
+        <Gauge className="h-4 w-4 text-purple-500" />
+        <h3 className="text-lg font-medium">Confidence Calibration</h3>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        How often past AI calls were right at each stated confidence once their time horizon passed. Automation
+        thresholds are compared against the calibrated probability (purple) rather than the stated confidence;
+        the dashed line is perfect calibration and the dots are observed hit rates.
+      </p>
+
+      {calibration ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {renderCurve('Buy calls', calibration.curves.BUY, buyThreshold)}
+          {renderCurve('Sell calls', calibration.curves.SELL, sellThreshold)}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground text-center py-4">Loading calibration...</p>
+      )}
+
+      {calibration && calibration.curves.ALL.brierScore !== null && (
+        <p className="text-xs text-muted-foreground">
+          Brier score {formatNumber(calibration.curves.ALL.brierScore, 3)} stated
+          {calibration.curves.ALL.calibrated && calibration.curves.ALL.calibratedBrierScore !== null &&
+            `, ${formatNumber(calibration.curves.ALL.calibratedBrierScore, 3)} calibrated`} (lower is better).
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,268 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Badge } from '@/components/ui/badge'
+import { Separator } from '@/components/ui/separator'
+import { AlertTriangle, Bell, Copy, RefreshCw, Send } from 'lucide-react'
+import { toast } from 'react-hot-toast'
+import type { NotificationPreferences } from '@/lib/notification-preferences'
+
+interface Delivery {
+  id: string
+  channel: 'EMAIL' | 'WEBHOOK'
+  target: string
+  status: 'PENDING' | 'SENT' | 'FAILED'
+  attempts: number
+  lastError: string | null
+  responseStatus: number | null
+  createdAt: string
+  notification: { title: string; category: string }
+}
+
+const TOGGLES: Array<{ key: 'priceAlerts' | 'tradeExecutions' | 'marketNews' | 'emailAlerts'; label: string; description: string }> = [
+  { key: 'priceAlerts', label: 'Price Alerts', description: 'Get notified when price targets are reached' },
+  { key: 'tradeExecutions', label: 'Trade Executions', description: 'Automated trades, filled orders and stop-loss or take-profit exits' },
+  { key: 'marketNews', label: 'Market News', description: 'Important market updates and news' },
+  { key: 'emailAlerts', label: 'Email Alerts', description: 'Also deliver notifications by email' }
+]
+
+const STATUS_VARIANTS: Record<Delivery['status'], 'default' | 'secondary' | 'destructive'> = {
+  SENT: 'default',
+  PENDING: 'secondary',
+  FAILED: 'destructive'
+}
+
+export function NotificationSettings() {
+  const [settings, setSettings] = useState<NotificationPreferences | null>(null)
+  const [webhookUrl, setWebhookUrl] = useState('')
+  const [emailConfigured, setEmailConfigured] = useState(false)
+  const [deliveries, setDeliveries] = useState<Delivery[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [testing, setTesting] = useState(false)
+
+  useEffect(() => {
+    fetchSettings()
+    fetchDeliveries()
+  }, [])
+
+  const applySettings = (data: { notifications: NotificationPreferences; emailConfigured: boolean }) => {
+    setSettings(data.notifications)
+    setWebhookUrl(data.notifications.webhookUrl || '')
+    setEmailConfigured(data.emailConfigured)
+  }
+
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch('/api/settings/notifications')
+      if (response.ok) {
+        applySettings(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to fetch notification settings:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchDeliveries = async () => {
+    try {
+      const response = await fetch('/api/notifications/deliveries?limit=10')
+      if (response.ok) {
+        const data = await response.json()
+        setDeliveries(data.deliveries)
+      }
+    } catch (error) {
+      console.error('Failed to fetch notification deliveries:', error)
+    }
+  }
+
+  const saveSettings = async (extra: Record<string, unknown> = {}) => {
+    if (!settings) return
+
+    setSaving(true)
+    try {
+      const response = await fetch('/api/settings/notifications', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          priceAlerts: settings.priceAlerts,
+          tradeExecutions: settings.tradeExecutions,
+          marketNews: settings.marketNews,
+          emailAlerts: settings.emailAlerts,
+          webhookUrl: webhookUrl.trim() || null,
+          ...extra
+        })
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        applySettings(data)
+        toast.success('Notification settings updated successfully')
+      } else {
+        toast.error(data.error || 'Failed to update settings')
+      }
+    } catch (error) {
+      toast.error('Failed to update settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const sendTest = async () => {
+    setTesting(true)
+    try {
+      const response = await fetch('/api/notifications/test', { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to send test notification')
+        return
+      }
+
+      const failed = data.notification.deliveries.filter((delivery: Pick<Delivery, 'channel' | 'status'>) => delivery.status !== 'SENT')
+      if (failed.length > 0) {
+        toast.error(`${failed[0].channel === 'EMAIL' ? 'Email' : 'Webhook'} delivery ${failed[0].status === 'FAILED' ? 'failed' : 'will be retried'}`)
+      } else {
+        toast.success('Test notification sent')
+      }
+      fetchDeliveries()
+    } catch (error) {
+      toast.error('Failed to send test notification')
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  const copySecret = async () => {
+    if (!settings?.webhookSecret) return
+    await navigator.clipboard.writeText(settings.webhookSecret)
+    toast.success('Signing secret copied')
+  }
+
+  if (loading) {
+    return <div className="animate-pulse p-6">Loading notification settings...</div>
+  }
+
+  if (!settings) {
+    return <div className="p-6 text-center">Failed to load notification settings</div>
+  }
+
+  return (
+    <Card className="border-muted bg-card/50 backdrop-blur">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center space-x-3">
+          <Bell className="h-5 w-5 text-primary" />
+          <span>Notifications</span>
+        </CardTitle>
+        <CardDescription>
+          Alerts, trade executions and automation errors arrive in your inbox, and optionally by email or webhook
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {TOGGLES.map(toggle => (
+          <div key={toggle.key} className="flex items-center justify-between">
+            <div>
+              <Label htmlFor={toggle.key}>{toggle.label}</Label>
+              <p className="text-sm text-muted-foreground">{toggle.description}</p>
+            </div>
+            <Switch
+              id={toggle.key}
+              checked={settings[toggle.key]}
+              disabled={toggle.key === 'emailAlerts' && !emailConfigured}
+              onCheckedChange={(checked) => setSettings({ ...settings, [toggle.key]: checked })}
+            />
+          </div>
+        ))}
+
+        {!emailConfigured && (
+          <div className="p-3 bg-amber-50 dark:bg-amber-950/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+            <div className="flex items-center gap-2 text-amber-800 dark:text-amber-200">
+              <AlertTriangle className="h-4 w-4" />
+              <span className="text-sm font-medium">
+                Email alerts require SMTP configuration on the server
+              </span>
+            </div>
+          </div>
+        )}
+
+        <Separator />
+
+        <div className="space-y-3">
+          <Label htmlFor="webhook-url" className="text-base font-medium">
+            Webhook
+          </Label>
+          <Input
+            id="webhook-url"
+            type="url"
+            placeholder="https://example.com/hooks/trading"
+            value={webhookUrl}
+            onChange={(e) => setWebhookUrl(e.target.value)}
+          />
+          <p className="text-sm text-muted-foreground">
+            Each notification is POSTed as JSON. Verify the X-Webhook-Signature header (t=timestamp,v1=HMAC-SHA256 of
+            &quot;timestamp.body&quot;) with the signing secret below.
+          </p>
+
+          {settings.webhookSecret && (
+            <div className="flex items-center gap-2">
+              <Input readOnly value={settings.webhookSecret} className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={copySecret} title="Copy secret">
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => saveSettings({ rotateWebhookSecret: true })}
+                disabled={saving}
+                title="Rotate secret"
+              >
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3">
+          <Button onClick={() => saveSettings()} disabled={saving} className="flex-1">
+            {saving ? 'Saving...' : 'Save Settings'}
+          </Button>
+          <Button variant="outline" onClick={sendTest} disabled={testing}>
+            <Send className="h-4 w-4 mr-2" />
+            {testing ? 'Sending...' : 'Send Test'}
+          </Button>
+        </div>
+
+        {deliveries.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              <Label className="text-base font-medium">Recent Deliveries</Label>
+              {deliveries.map(delivery => (
+                <div key={delivery.id} className="flex items-start justify-between gap-3 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{delivery.notification.title}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {delivery.channel === 'EMAIL' ? 'Email' : 'Webhook'} · {delivery.target} · {new Date(delivery.createdAt).toLocaleString()}
+                    </p>
+                    {delivery.lastError && delivery.status !== 'SENT' && (
+                      <p className="text-xs text-red-500 truncate">{delivery.lastError}</p>
+                    )}
+                  </div>
+                  <Badge variant={STATUS_VARIANTS[delivery.status]}>
+                    {delivery.status}{delivery.attempts > 1 ? ` · ${delivery.attempts} attempts` : ''}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,16 +1,13 @@
 
 'use client'
 
-import { useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { Switch } from '@/components/ui/switch'
 import { Label } from '@/components/ui/label'
 import { 
   Settings, 
   User, 
-  Bell, 
   Shield, 
   Palette, 
   LogOut,
@@ -25,16 +22,12 @@ import { useSession, signOut } from 'next-auth/react'
 import { useTheme } from 'next-themes'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { AutomationSettings } from './automation-settings'
+import { NotificationSettings } from './notification-settings'
+import { TradingSettings } from '@/components/trading/trading-settings'
 
 export function SettingsPage() {
   const { data: session } = useSession()
   const { theme, setTheme } = useTheme()
-  const [notifications, setNotifications] = useState({
-    priceAlerts: true,
-    tradeExecutions: true,
-    marketNews: false,
-    emailAlerts: false
-  })
 
   const handleLogout = async () => {
     await signOut({ callbackUrl: '/' })
@@ -157,69 +150,7 @@ export function SettingsPage() {
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.3 }}
         >
-          <SettingCard
-            icon={Bell}
-            title="Notifications"
-            description="Configure how you want to be notified"
-          >
-            <div className="space-y-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <Label htmlFor="price-alerts">Price Alerts</Label>
-                  <p className="text-sm text-muted-foreground">Get notified when price targets are reached</p>
-                </div>
-                <Switch
-                  id="price-alerts"
-                  checked={notifications.priceAlerts}
-                  onCheckedChange={(checked) => 
-                    setNotifications(prev => ({ ...prev, priceAlerts: checked }))
-                  }
-                />
-              </div>
-
-              <div className="flex items-center justify-between">
-                <div>
-                  <Label htmlFor="trade-executions">Trade Executions</Label>
-                  <p className="text-sm text-muted-foreground">Notifications for completed trades</p>
-                </div>
-                <Switch
-                  id="trade-executions"
-                  checked={notifications.tradeExecutions}
-                  onCheckedChange={(checked) => 
-                    setNotifications(prev => ({ ...prev, tradeExecutions: checked }))
-                  }
-                />
-              </div>
-
-              <div className="flex items-center justify-between">
-                <div>
-                  <Label htmlFor="market-news">Market News</Label>
-                  <p className="text-sm text-muted-foreground">Important market updates and news</p>
-                </div>
-                <Switch
-                  id="market-news"
-                  checked={notifications.marketNews}
-                  onCheckedChange={(checked) => 
-                    setNotifications(prev => ({ ...prev, marketNews: checked }))
-                  }
-                />
-              </div>
-
-              <div className="flex items-center justify-between">
-                <div>
-                  <Label htmlFor="email-alerts">Email Alerts</Label>
-                  <p className="text-sm text-muted-foreground">Receive notifications via email</p>
-                </div>
-                <Switch
-                  id="email-alerts"
-                  checked={notifications.emailAlerts}
-                  onCheckedChange={(checked) => 
-                    setNotifications(prev => ({ ...prev, emailAlerts: checked }))
-                  }
-                />
-              </div>
-            </div>
-          </SettingCard>
+          <NotificationSettings />
         </motion.div>
 
         {/* Automation Settings */}
@@ -231,6 +162,15 @@ export function SettingsPage() {
           <AutomationSettings />
         </motion.div>
 
+        {/* Trading Settings */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.45 }}
+        >
+          <TradingSettings />
+        </motion.div>
+
         {/* Privacy & Security */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
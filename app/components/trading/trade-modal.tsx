@@ -29,9 +29,31 @@ interface AssetData {
   changePercent?: number
 }
 
-interface Position {
-  quantity: number
-  avgPrice: number
+interface PortfolioOption {
+  id: string
+  name: string
+  type: string
+  balance: number
+  items: Array<{
+    quantity: number
+    avgPrice: number
+    asset: { symbol: string }
+  }>
+}
+
+interface TaxLot {
+  id: string
+  remainingQuantity: number
+  costPerShare: number
+  acquiredAt: string
+  term: 'SHORT_TERM' | 'LONG_TERM'
+}
+
+interface RiskViolation {
+  code: string
+  message: string
+  limit: number
+  actual: number
 }
 
 interface TradeModalProps {
@@ -39,57 +61,83 @@ interface TradeModalProps {
   isOpen: boolean
   onClose: () => void
   defaultAction?: 'BUY' | 'SELL'
+  // Preselects the portfolio to trade in; defaults to the user's first portfolio
+  portfolioId?: string
 }
 
-export function TradeModal({ asset, isOpen, onClose, defaultAction = 'BUY' }: TradeModalProps) {
+export function TradeModal({ asset, isOpen, onClose, defaultAction = 'BUY', portfolioId: initialPortfolioId }: TradeModalProps) {
   const [action, setAction] = useState<'BUY' | 'SELL'>(defaultAction)
   const [quantity, setQuantity] = useState('')
   const [orderType, setOrderType] = useState('MARKET')
   const [timeInForce, setTimeInForce] = useState('DAY')
   const [limitPrice, setLimitPrice] = useState('')
+  const [stopPrice, setStopPrice] = useState('')
   const [loading, setLoading] = useState(false)
-  const [position, setPosition] = useState<Position | null>(null)
+  const [portfolios, setPortfolios] = useState<PortfolioOption[]>([])
+  const [portfolioId, setPortfolioId] = useState<string>('')
+  const [lots, setLots] = useState<TaxLot[]>([])
+  const [selectedLotIds, setSelectedLotIds] = useState<string[]>([])
   const [aiRecommendation, setAiRecommendation] = useState<string | null>(null)
+  const [riskViolations, setRiskViolations] = useState<RiskViolation[]>([])
   const { toast } = useToast()
 
   useEffect(() => {
     if (isOpen && asset) {
-      fetchPosition()
+      setRiskViolations([])
+      fetchPortfolios()
       fetchAIRecommendation()
     }
   }, [isOpen, asset])
 
+  useEffect(() => {
+    if (isOpen && asset && portfolioId) {
+      fetchLots()
+    }
+  }, [isOpen, asset, portfolioId])
+
   useEffect(() => {
     setAction(defaultAction)
   }, [defaultAction])
 
-  const fetchPosition = async () => {
-    if (!asset) return
-    
+  const fetchPortfolios = async () => {
     try {
       const response = await fetch('/api/portfolio')
       if (response.ok) {
         const data = await response.json()
-        const portfolio = data.portfolios?.[0]
-        if (portfolio) {
-          const positionItem = portfolio.items.find((item: any) => 
-            item.asset.symbol === asset.symbol
-          )
-          if (positionItem) {
-            setPosition({
-              quantity: positionItem.quantity,
-              avgPrice: positionItem.avgPrice
-            })
-          } else {
-            setPosition(null)
-          }
-        }
+        const options: PortfolioOption[] = data.portfolios || []
+        setPortfolios(options)
+        // Keep the current choice across reopenings unless the caller asked for a specific portfolio
+        setPortfolioId(current => {
+          const preferred = initialPortfolioId || current
+          return options.some(option => option.id === preferred) ? preferred : options[0]?.id || ''
+        })
       }
     } catch (error) {
-      console.error('Failed to fetch position:', error)
+      console.error('Failed to fetch portfolios:', error)
     }
   }
 
+  const fetchLots = async () => {
+    if (!asset) return
+
+    try {
+      const response = await fetch(`/api/portfolio/lots?symbol=${asset.symbol}&portfolioId=${portfolioId}`)
+      if (response.ok) {
+        const data = await response.json()
+        setLots(data.lots || [])
+        setSelectedLotIds([])
+      }
+    } catch (error) {
+      console.error('Failed to fetch tax lots:', error)
+    }
+  }
+
+  const toggleLot = (lotId: string) => {
+    setSelectedLotIds(prev =>
+      prev.includes(lotId) ? prev.filter(id => id !== lotId) : [...prev, lotId]
+    )
+  }
+
   const fetchAIRecommendation = async () => {
     if (!asset) return
     
@@ -108,8 +156,15 @@ export function TradeModal({ asset, isOpen, onClose, defaultAction = 'BUY' }: Tr
 
   if (!asset) return null
 
+  const selectedPortfolio = portfolios.find(portfolio => portfolio.id === portfolioId) || null
+  const positionItem = selectedPortfolio?.items.find(item => item.asset.symbol === asset.symbol)
+  const position = positionItem ? { quantity: positionItem.quantity, avgPrice: positionItem.avgPrice } : null
   const totalValue = parseFloat(quantity) * asset.price || 0
   const canSell = position && position.quantity > 0
+  const canPickLots = action === 'SELL' && orderType === 'MARKET' && lots.length > 0
+  const selectedQuantity = lots
+    .filter(lot => selectedLotIds.includes(lot.id))
+    .reduce((sum, lot) => sum + lot.remainingQuantity, 0)
   const recommendedQuantity = position ? Math.min(100, Math.floor(position.quantity / 2)) : 10
 
   const handleTrade = async () => {
@@ -131,17 +186,18 @@ export function TradeModal({ asset, isOpen, onClose, defaultAction = 'BUY' }: Tr
       return
     }
 
+    if (!portfolioId) {
+      toast({
+        title: "No Portfolio",
+        description: "Create a portfolio before placing trades.",
+        variant: "destructive"
+      })
+      return
+    }
+
     setLoading(true)
+    setRiskViolations([])
     try {
-      // Get user's default portfolio first
-      const portfolioResponse = await fetch('/api/portfolio')
-      if (!portfolioResponse.ok) throw new Error('Failed to fetch portfolio')
-      
-      const portfolioData = await portfolioResponse.json()
-      if (!portfolioData.portfolios?.length) throw new Error('No portfolio found')
-
-      const portfolioId = portfolioData.portfolios[0].id
-
       const response = await fetch('/api/trades', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -152,24 +208,48 @@ export function TradeModal({ asset, isOpen, onClose, defaultAction = 'BUY' }: Tr
           portfolioId,
           orderType,
           timeInForce,
-          limitPrice: orderType === 'LIMIT' ? parseFloat(limitPrice) : undefined
+          limitPrice: orderType === 'LIMIT' || orderType === 'STOP_LIMIT' ? parseFloat(limitPrice) : undefined,
+          stopPrice: orderType === 'STOP' || orderType === 'STOP_LIMIT' ? parseFloat(stopPrice) : undefined,
+          lotIds: canPickLots && selectedLotIds.length > 0 ? selectedLotIds : undefined
         })
       })
 
       const data = await response.json()
 
+      // Risk rejections are listed in the modal so the order can be adjusted
+      if (!response.ok && data.violations?.length) {
+        setRiskViolations(data.violations)
+        return
+      }
+
       if (!response.ok) {
         throw new Error(data.error || 'Trade failed')
       }
 
-      toast({
-        title: `${action} Order Submitted`,
-        description: `${orderType} order for ${quantity} shares of ${asset.symbol} has been submitted.`,
-      })
+      const orderStatus = data.trade?.status
+
+      if (orderStatus === 'CANCELLED') {
+        toast({
+          title: `${action} Order Cancelled`,
+          description: `${orderType} order for ${asset.symbol} could not be filled immediately.`,
+          variant: "destructive"
+        })
+      } else if (orderStatus === 'PENDING') {
+        toast({
+          title: `${action} Order Placed`,
+          description: `${orderType} order for ${quantity} shares of ${asset.symbol} will fill when its price is reached.`,
+        })
+      } else {
+        toast({
+          title: `${action} Order Filled`,
+          description: `${orderType} order for ${quantity} shares of ${asset.symbol} has been filled.`,
+        })
+      }
 
       onClose()
       setQuantity('')
       setLimitPrice('')
+      setStopPrice('')
     } catch (error) {
       toast({
         title: "Trade Failed",
@@ -196,6 +276,25 @@ export function TradeModal({ asset, isOpen, onClose, defaultAction = 'BUY' }: Tr
         </DialogHeader>
 
         <div className="space-y-6">
+          {/* Portfolio Switcher */}
+          {portfolios.length > 1 && (
+            <div className="space-y-2">
+              <Label>Portfolio</Label>
+              <Select value={portfolioId} onValueChange={setPortfolioId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select portfolio" />
+                </SelectTrigger>
+                <SelectContent>
+                  {portfolios.map(portfolio => (
+                    <SelectItem key={portfolio.id} value={portfolio.id}>
+                      {portfolio.name} · ${portfolio.balance.toLocaleString('en-US', { maximumFractionDigits: 2 })} cash
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Asset Info */}
           <div className="bg-muted/30 rounded-lg p-4">
             <div className="flex items-center justify-between mb-2">
@@ -303,6 +402,26 @@ export function TradeModal({ asset, isOpen, onClose, defaultAction = 'BUY' }: Tr
             </Select>
           </div>
 
+          {/* Stop Price (if applicable) */}
+          {(orderType === 'STOP' || orderType === 'STOP_LIMIT') && (
+            <div className="space-y-2">
+              <Label htmlFor="stopPrice">Stop Price</Label>
+              <div className="relative">
+                <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="stopPrice"
+                  type="number"
+                  placeholder="Enter stop price"
+                  value={stopPrice}
+                  onChange={(e) => setStopPrice(e.target.value)}
+                  className="pl-10"
+                  min="0"
+                  step="0.01"
+                />
+              </div>
+            </div>
+          )}
+
           {/* Limit Price (if applicable) */}
           {(orderType === 'LIMIT' || orderType === 'STOP_LIMIT') && (
             <div className="space-y-2">
@@ -323,6 +442,46 @@ export function TradeModal({ asset, isOpen, onClose, defaultAction = 'BUY' }: Tr
             </div>
           )}
 
+          {/* Tax Lots (market sells only) */}
+          {canPickLots && (
+            <div className="space-y-2">
+              <Label>Tax Lots</Label>
+              <p className="text-xs text-muted-foreground">
+                Select lots to sell in order, or leave empty to use your cost basis method.
+              </p>
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {lots.map(lot => {
+                  const selectedIndex = selectedLotIds.indexOf(lot.id)
+                  return (
+                    <div
+                      key={lot.id}
+                      onClick={() => toggleLot(lot.id)}
+                      className={`flex items-center justify-between p-2 rounded border cursor-pointer text-sm transition-all ${
+                        selectedIndex >= 0 ? 'border-primary bg-primary/5' : 'border-muted hover:border-primary/50'
+                      }`}
+                    >
+                      <div className="flex items-center space-x-2">
+                        {selectedIndex >= 0 && (
+                          <Badge variant="secondary">{selectedIndex + 1}</Badge>
+                        )}
+                        <span>{lot.remainingQuantity} @ ${lot.costPerShare.toFixed(2)}</span>
+                      </div>
+                      <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+                        <span>{new Date(lot.acquiredAt).toLocaleDateString()}</span>
+                        <Badge variant="outline">{lot.term === 'LONG_TERM' ? 'Long' : 'Short'}</Badge>
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+              {selectedLotIds.length > 0 && selectedQuantity < (parseFloat(quantity) || 0) && (
+                <p className="text-xs text-red-500">
+                  Selected lots cover {selectedQuantity} of {quantity} shares.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Time in Force */}
           <div className="space-y-2">
             <Label>Time in Force</Label>
@@ -354,7 +513,7 @@ export function TradeModal({ asset, isOpen, onClose, defaultAction = 'BUY' }: Tr
                 </div>
                 <div className="flex justify-between">
                   <span>Price:</span>
-                  <span>${orderType === 'LIMIT' ? limitPrice || asset.price.toFixed(2) : asset.price.toFixed(2)}</span>
+                  <span>${(orderType === 'LIMIT' || orderType === 'STOP_LIMIT') && limitPrice ? limitPrice : orderType === 'STOP' && stopPrice ? stopPrice : asset.price.toFixed(2)}</span>
                 </div>
                 <div className="flex justify-between font-semibold border-t pt-1">
                   <span>Total:</span>
@@ -370,7 +529,24 @@ export function TradeModal({ asset, isOpen, onClose, defaultAction = 'BUY' }: Tr
               <div className="flex items-start space-x-2">
                 <AlertCircle className="h-4 w-4 text-red-500 mt-0.5 flex-shrink-0" />
                 <div className="text-xs text-red-700 dark:text-red-300">
-                  You don't own any shares of {asset.symbol} to sell.
+                  You don&apos;t own any shares of {asset.symbol} to sell.
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Pre-trade Risk Rejections */}
+          {riskViolations.length > 0 && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3">
+              <div className="flex items-start space-x-2">
+                <AlertCircle className="h-4 w-4 text-red-500 mt-0.5 flex-shrink-0" />
+                <div className="text-xs text-red-700 dark:text-red-300 space-y-1">
+                  <p className="font-medium">Order blocked by your risk limits</p>
+                  <ul className="list-disc pl-4 space-y-0.5">
+                    {riskViolations.map(violation => (
+                      <li key={violation.code}>{violation.message}</li>
+                    ))}
+                  </ul>
                 </div>
               </div>
             </div>
@@ -380,10 +556,17 @@ export function TradeModal({ asset, isOpen, onClose, defaultAction = 'BUY' }: Tr
           <div className="bg-orange-500/10 border border-orange-500/20 rounded-lg p-3">
             <div className="flex items-start space-x-2">
               <Info className="h-4 w-4 text-orange-500 mt-0.5 flex-shrink-0" />
-              <div className="text-xs text-orange-700 dark:text-orange-300">
-                <p className="font-medium mb-1">Paper Trading Environment</p>
-                <p>This is a simulated trading environment for educational purposes. No real money is involved.</p>
-              </div>
+              {selectedPortfolio?.type === 'LIVE' ? (
+                <div className="text-xs text-orange-700 dark:text-orange-300">
+                  <p className="font-medium mb-1">Live Trading</p>
+                  <p>This order is sent to your broker and trades real money.</p>
+                </div>
+              ) : (
+                <div className="text-xs text-orange-700 dark:text-orange-300">
+                  <p className="font-medium mb-1">Paper Trading Environment</p>
+                  <p>This is a simulated trading environment for educational purposes. No real money is involved.</p>
+                </div>
+              )}
             </div>
           </div>
 
@@ -394,7 +577,15 @@ export function TradeModal({ asset, isOpen, onClose, defaultAction = 'BUY' }: Tr
             </Button>
             <Button
               onClick={handleTrade}
-              disabled={loading || !quantity || (action === 'SELL' && !canSell)}
+              disabled={
+                loading ||
+                !quantity ||
+                !portfolioId ||
+                (action === 'SELL' && !canSell) ||
+                (canPickLots && selectedLotIds.length > 0 && selectedQuantity < parseFloat(quantity)) ||
+                ((orderType === 'LIMIT' || orderType === 'STOP_LIMIT') && !limitPrice) ||
+                ((orderType === 'STOP' || orderType === 'STOP_LIMIT') && !stopPrice)
+              }
               className={`flex-1 ${action === 'BUY' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'}`}
             >
               {loading ? 'Processing...' : `${action} ${asset.symbol}`}
@@ -15,6 +15,7 @@ interface TradingSettings {
   tradingMode: 'PAPER' | 'LIVE'
   riskTolerance: 'LOW' | 'MEDIUM' | 'HIGH'
   maxPositionSize: number
+  costBasisMethod: 'FIFO' | 'LIFO' | 'HIFO' | 'SPECIFIC_LOT'
   alpacaConfigured: boolean
 }
 
@@ -56,7 +57,7 @@ export function TradingSettings() {
         toast.success('Trading settings updated successfully')
       } else {
         const error = await response.json()
-        toast.error(error.message || 'Failed to update settings')
+        toast.error(error.error || error.message || 'Failed to update settings')
       }
     } catch (error) {
       toast.error('Failed to update settings')
@@ -213,6 +214,52 @@ export function TradingSettings() {
           </p>
         </div>
 
+        {/* Cost Basis Method */}
+        <div className="space-y-3">
+          <Label htmlFor="cost-basis-method" className="text-base font-medium">
+            Cost Basis Method
+          </Label>
+          <Select
+            value={settings.costBasisMethod}
+            onValueChange={(value: TradingSettings['costBasisMethod']) =>
+              setSettings({...settings, costBasisMethod: value})
+            }
+          >
+            <SelectTrigger id="cost-basis-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="FIFO">
+                <div className="flex flex-col">
+                  <span>FIFO</span>
+                  <span className="text-xs text-muted-foreground">Sell oldest shares first</span>
+                </div>
+              </SelectItem>
+              <SelectItem value="LIFO">
+                <div className="flex flex-col">
+                  <span>LIFO</span>
+                  <span className="text-xs text-muted-foreground">Sell newest shares first</span>
+                </div>
+              </SelectItem>
+              <SelectItem value="HIFO">
+                <div className="flex flex-col">
+                  <span>HIFO</span>
+                  <span className="text-xs text-muted-foreground">Sell highest-cost shares first</span>
+                </div>
+              </SelectItem>
+              <SelectItem value="SPECIFIC_LOT">
+                <div className="flex flex-col">
+                  <span>Specific Lot</span>
+                  <span className="text-xs text-muted-foreground">Choose lots when selling</span>
+                </div>
+              </SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            Determines which tax lots are relieved when you sell
+          </p>
+        </div>
+
         {/* Save Button */}
         <div className="flex justify-end pt-4 border-t">
           <Button 
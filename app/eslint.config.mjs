@@ -0,0 +1,19 @@
+import { dirname } from 'path'
+import { createRequire } from 'module'
+import { fileURLToPath } from 'url'
+import { FlatCompat } from '@eslint/eslintrc'
+
+// eslint-config-next still ships an eslintrc-style config, so it is loaded through the compatibility layer.
+// Its plugins resolve from its own directory, which carries the ESLint 9 compatible react-hooks plugin.
+const require = createRequire(import.meta.url)
+const compat = new FlatCompat({
+  baseDirectory: dirname(fileURLToPath(import.meta.url)),
+  resolvePluginsRelativeTo: dirname(require.resolve('eslint-config-next/package.json'))
+})
+
+const config = [
+  { ignores: ['.next/', 'node_modules/', 'next-env.d.ts'] },
+  ...compat.extends('next/core-web-vitals')
+]
+
+export default config
@@ -0,0 +1,66 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { DEFAULT_CHART_PREFERENCES, type ChartPreferences } from '@/lib/chart-preferences'
+
+// Loaded once per tab and shared by every chart on the page
+let preferences: ChartPreferences = DEFAULT_CHART_PREFERENCES
+let loaded = false
+let request: Promise<void> | null = null
+const listeners = new Set<(preferences: ChartPreferences) => void>()
+
+function setPreferences(next: ChartPreferences) {
+  preferences = next
+  listeners.forEach(listener => listener(preferences))
+}
+
+function loadPreferences(): Promise<void> {
+  if (request) return request
+
+  request = (async () => {
+    try {
+      const response = await fetch('/api/settings/preferences')
+      if (!response.ok) throw new Error(`Preferences request failed with ${response.status}`)
+      const data = await response.json()
+      loaded = true
+      setPreferences({ ...DEFAULT_CHART_PREFERENCES, ...data.chart })
+    } catch (error) {
+      console.error('Failed to load chart preferences:', error)
+    } finally {
+      request = null
+    }
+  })()
+
+  return request
+}
+
+export function useChartPreferences() {
+  const [current, setCurrent] = useState(preferences)
+
+  useEffect(() => {
+    listeners.add(setCurrent)
+    setCurrent(preferences)
+    if (!loaded) loadPreferences()
+    return () => {
+      listeners.delete(setCurrent)
+    }
+  }, [])
+
+  // Applied immediately; a failed save only costs persistence, not the current view
+  const update = useCallback(async (changes: Partial<ChartPreferences>) => {
+    setPreferences({ ...preferences, ...changes })
+
+    try {
+      const response = await fetch('/api/settings/preferences', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chart: changes })
+      })
+      if (!response.ok) throw new Error(`Preferences update failed with ${response.status}`)
+    } catch (error) {
+      console.error('Failed to save chart preferences:', error)
+    }
+  }, [])
+
+  return { preferences: current, update }
+}
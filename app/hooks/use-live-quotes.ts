@@ -0,0 +1,129 @@
+'use client'
+
+import { useEffect, useReducer } from 'react'
+
+export interface LiveQuote {
+  symbol: string
+  price: number
+  change: number
+  changePercent: number
+  volume: number | null
+  timestamp: string
+}
+
+type Listener = (symbol: string | null) => void
+
+// Per-connection limit of /api/quotes/stream; larger sets are split across several streams
+const MAX_SYMBOLS_PER_STREAM = 50
+
+// EventSources shared by the whole browser tab, carrying the union of every mounted component's symbols
+const symbolCounts = new Map<string, number>()
+const quotes = new Map<string, LiveQuote>()
+const listeners = new Set<Listener>()
+let sources: EventSource[] = []
+const readySources = new Set<EventSource>()
+let streamedSymbols = ''
+let connected = false
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+
+function notify(symbol: string | null) {
+  listeners.forEach(listener => listener(symbol))
+}
+
+function setConnected(value: boolean) {
+  if (connected === value) return
+  connected = value
+  notify(null)
+}
+
+function openStream(symbols: string[]): EventSource {
+  const next = new EventSource(`/api/quotes/stream?symbols=${encodeURIComponent(symbols.join(','))}`)
+  next.addEventListener('ready', () => {
+    readySources.add(next)
+    setConnected(readySources.size === sources.length)
+  })
+  next.addEventListener('quote', (event) => {
+    const tick = JSON.parse((event as MessageEvent).data) as LiveQuote
+    quotes.set(tick.symbol, tick)
+    notify(tick.symbol)
+  })
+  // EventSource retries on its own; only the indicator needs updating
+  next.onerror = () => {
+    readySources.delete(next)
+    setConnected(false)
+  }
+  return next
+}
+
+function connect() {
+  reconnectTimer = null
+  const symbols = [...symbolCounts.keys()].sort()
+  const key = symbols.join(',')
+  if (key === streamedSymbols && sources.length > 0) return
+
+  sources.forEach(source => source.close())
+  sources = []
+  readySources.clear()
+  streamedSymbols = key
+  setConnected(false)
+
+  for (let i = 0; i < symbols.length; i += MAX_SYMBOLS_PER_STREAM) {
+    sources.push(openStream(symbols.slice(i, i + MAX_SYMBOLS_PER_STREAM)))
+  }
+}
+
+// Components mounting together share a single reconnect
+function scheduleConnect() {
+  if (reconnectTimer) return
+  reconnectTimer = setTimeout(connect, 50)
+}
+
+function retain(symbols: string[]) {
+  symbols.forEach(symbol => symbolCounts.set(symbol, (symbolCounts.get(symbol) || 0) + 1))
+  scheduleConnect()
+}
+
+function release(symbols: string[]) {
+  symbols.forEach(symbol => {
+    const count = (symbolCounts.get(symbol) || 0) - 1
+    if (count > 0) {
+      symbolCounts.set(symbol, count)
+    } else {
+      symbolCounts.delete(symbol)
+      quotes.delete(symbol)
+    }
+  })
+  scheduleConnect()
+}
+
+// Subscribes to streamed quotes for the given symbols; re-renders only when one of them ticks
+export function useLiveQuotes(symbols: string[]) {
+  const key = [...new Set(symbols.filter(Boolean).map(symbol => symbol.toUpperCase()))].sort().join(',')
+  const [, rerender] = useReducer((count: number) => count + 1, 0)
+
+  useEffect(() => {
+    const subscribed = key ? key.split(',') : []
+    if (subscribed.length === 0) return
+
+    const listener: Listener = (symbol) => {
+      if (symbol === null || subscribed.includes(symbol)) rerender()
+    }
+
+    listeners.add(listener)
+    retain(subscribed)
+    return () => {
+      listeners.delete(listener)
+      release(subscribed)
+    }
+  }, [key])
+
+  const result: Record<string, LiveQuote> = {}
+  if (key) {
+    key.split(',').forEach(symbol => {
+      const quote = quotes.get(symbol)
+      if (quote) result[symbol] = quote
+    })
+  }
+
+  return { quotes: result, connected }
+}
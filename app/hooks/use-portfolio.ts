@@ -0,0 +1,108 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+
+export interface PortfolioPosition {
+  id: string
+  quantity: number
+  avgPrice: number
+  totalCost: number
+  asset: {
+    symbol: string
+    name: string
+    type: string
+    prices: Array<{ price: number; changePercent?: number | null }>
+  }
+}
+
+export interface PortfolioSummary {
+  id: string
+  name: string
+  type: string
+  balance: number
+  netDeposits: number
+  totalValue: number
+  totalReturn: number
+  totalReturnPercent: number
+  items: PortfolioPosition[]
+}
+
+interface PortfolioState {
+  portfolios: PortfolioSummary[]
+  loading: boolean
+  error: boolean
+}
+
+// Shared across every mounted card so the dashboard loads /api/portfolio once instead of once per card
+let state: PortfolioState = { portfolios: [], loading: true, error: false }
+let loaded = false
+let request: Promise<void> | null = null
+const listeners = new Set<(state: PortfolioState) => void>()
+
+function setState(next: Partial<PortfolioState>) {
+  state = { ...state, ...next }
+  listeners.forEach(listener => listener(state))
+}
+
+function loadPortfolios(): Promise<void> {
+  if (request) return request
+
+  request = (async () => {
+    try {
+      const response = await fetch('/api/portfolio')
+      if (!response.ok) throw new Error(`Portfolio request failed with ${response.status}`)
+      const data = await response.json()
+      loaded = true
+      setState({ portfolios: data.portfolios || [], loading: false, error: false })
+    } catch (error) {
+      console.error('Failed to fetch portfolio data:', error)
+      setState({ loading: false, error: true })
+    } finally {
+      request = null
+    }
+  })()
+
+  return request
+}
+
+export function usePortfolio() {
+  const [current, setCurrent] = useState(state)
+
+  useEffect(() => {
+    listeners.add(setCurrent)
+    setCurrent(state)
+    if (!loaded) loadPortfolios()
+    return () => {
+      listeners.delete(setCurrent)
+    }
+  }, [])
+
+  // After a trade every subscriber sees the new positions
+  const refresh = useCallback(() => loadPortfolios(), [])
+
+  return {
+    portfolios: current.portfolios,
+    // The first active portfolio is the main one
+    portfolio: current.portfolios[0] || null,
+    loading: current.loading,
+    error: current.error,
+    refresh
+  }
+}
+
+// Cash plus positions marked at live prices where available, falling back to the last stored price
+export function getLivePortfolioValue(portfolio: PortfolioSummary, livePrices: Record<string, { price: number }>) {
+  const marketValue = portfolio.items.reduce((sum, item) => {
+    const price = livePrices[item.asset.symbol]?.price ?? item.asset.prices[0]?.price ?? 0
+    return sum + item.quantity * price
+  }, 0)
+  const totalValue = portfolio.balance + marketValue
+  const totalReturn = totalValue - portfolio.netDeposits
+
+  return {
+    marketValue,
+    totalValue,
+    totalReturn,
+    totalReturnPercent: portfolio.netDeposits > 0 ? totalReturn / portfolio.netDeposits * 100 : 0
+  }
+}
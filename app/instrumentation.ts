@@ -0,0 +1,31 @@
+// Background jobs are started once per server process, never in the edge runtime
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  const { alertEvaluator } = await import('@/lib/alert-evaluator')
+  alertEvaluator.start(parseInt(process.env.ALERT_EVALUATION_INTERVAL_MS || '60000'))
+
+  const { bracketOrderManager } = await import('@/lib/bracket-orders')
+  bracketOrderManager.start(parseInt(process.env.BRACKET_EVALUATION_INTERVAL_MS || '60000'))
+
+  const { orderMatcher } = await import('@/lib/order-matcher')
+  orderMatcher.start(parseInt(process.env.ORDER_MATCHING_INTERVAL_MS || '30000'))
+
+  const { portfolioSnapshotter } = await import('@/lib/portfolio-snapshots')
+  portfolioSnapshotter.start(parseInt(process.env.PORTFOLIO_SNAPSHOT_INTERVAL_MS || '3600000'))
+
+  const { automationScheduler } = await import('@/lib/automation-scheduler')
+  automationScheduler.start(parseInt(process.env.AUTOMATION_SCHEDULER_INTERVAL_MS || '60000'))
+
+  const { notificationService } = await import('@/lib/notifications')
+  notificationService.start(parseInt(process.env.NOTIFICATION_INTERVAL_MS || '30000'))
+
+  const { analysisScorer } = await import('@/lib/analysis-scoring')
+  analysisScorer.start(parseInt(process.env.ANALYSIS_SCORING_INTERVAL_MS || '3600000'))
+
+  // Live orders are only reconciled when a broker is configured
+  const { liveTrading } = await import('@/lib/live-trading')
+  if (liveTrading.isAvailable()) {
+    liveTrading.start(parseInt(process.env.BROKER_RECONCILE_INTERVAL_MS || '15000'))
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { validateAnalysisPayload } from '@/lib/llm/analysis-schema'
+
+const payload = (confidence: unknown) => ({
+  recommendation: 'BUY',
+  confidence,
+  analysis: 'Earnings beat and guidance raised.'
+})
+
+describe('validateAnalysisPayload confidence', () => {
+  it('keeps an in-range percentage', () => {
+    const result = validateAnalysisPayload(payload('72%'))
+    assert.ok(result.success)
+    assert.equal(result.data.confidence, 72)
+    assert.deepEqual(result.clamped, [])
+  })
+
+  it('rescales a 0-1 probability', () => {
+    const result = validateAnalysisPayload(payload(0.85))
+    assert.ok(result.success)
+    assert.equal(result.data.confidence, 85)
+    assert.deepEqual(result.clamped, ['confidence'])
+  })
+
+  it('clamps values just outside the range', () => {
+    const high = validateAnalysisPayload(payload(103))
+    const low = validateAnalysisPayload(payload(-2))
+    assert.ok(high.success && low.success)
+    assert.equal(high.data.confidence, 100)
+    assert.equal(low.data.confidence, 0)
+  })
+
+  it('rejects values that are not percentages', () => {
+    assert.equal(validateAnalysisPayload(payload(850)).success, false)
+    assert.equal(validateAnalysisPayload(payload(-40)).success, false)
+  })
+})
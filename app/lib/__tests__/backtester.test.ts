@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { backtester, type BacktestBar, type BacktestParams } from '@/lib/backtester'
+
+// Hourly bars over three days, trending up with a wobble so the indicators keep signalling
+const bars: BacktestBar[] = Array.from({ length: 72 }, (_, index) => ({
+  timestamp: new Date(Date.UTC(2024, 0, 2, index)),
+  price: 100 + index * 0.5 + Math.sin(index) * 2
+}))
+
+const params = (maxTradesPerDay: number): BacktestParams => ({
+  symbol: 'TEST',
+  buyConfidenceThreshold: 0,
+  sellConfidenceThreshold: 0,
+  stopLossPercent: 50,
+  takeProfitPercent: 50,
+  maxTradeAmountAuto: 1000,
+  maxTradesPerDay,
+  riskTolerance: 'MEDIUM'
+})
+
+const signalTradesPerDay = (maxTradesPerDay: number) => {
+  const result = backtester.simulate('TEST', 'STORED', bars, params(maxTradesPerDay))
+  const perDay = new Map<string, number>()
+  for (const trade of result.trades.filter(trade => trade.reason === 'SIGNAL')) {
+    const day = trade.timestamp.toISOString().slice(0, 10)
+    perDay.set(day, (perDay.get(day) || 0) + 1)
+  }
+  return perDay
+}
+
+describe('Backtester daily trade limit', () => {
+  it('caps signal trades per day', () => {
+    const perDay = signalTradesPerDay(1)
+    assert.ok(perDay.size > 0)
+    assert.ok([...perDay.values()].every(count => count === 1))
+  })
+
+  it('treats zero as unlimited', () => {
+    const perDay = signalTradesPerDay(0)
+    assert.ok([...perDay.values()].some(count => count > 1))
+  })
+})
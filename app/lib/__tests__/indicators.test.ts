@@ -0,0 +1,246 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  adx,
+  atr,
+  bollingerBands,
+  ema,
+  latest,
+  macd,
+  obv,
+  rsi,
+  sma,
+  stochastic,
+  vwap,
+  type IndicatorSeries,
+  type OHLCV
+} from '@/lib/indicators'
+
+function assertSeries(actual: IndicatorSeries, expected: IndicatorSeries, tolerance: number = 1e-9) {
+  assert.equal(actual.length, expected.length, 'series length')
+  expected.forEach((value, index) => {
+    const got = actual[index]
+    if (value === null) {
+      assert.equal(got, null, `index ${index} should be null`)
+    } else {
+      assert.ok(got !== null && Math.abs(got - value) <= tolerance, `index ${index}: expected ${value}, got ${got}`)
+    }
+  })
+}
+
+const bar = (high: number, low: number, close: number, volume?: number): OHLCV => ({ high, low, close, volume })
+
+// StockCharts' published RSI worked example (14 periods)
+const RSI_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28,
+  46.00, 46.03, 46.41, 46.22, 45.64, 46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57,
+  43.42, 42.66, 43.13
+]
+const RSI_REFERENCE = [
+  70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38, 54.71, 50.42, 39.99, 41.46, 41.87,
+  45.46, 37.30, 33.08, 37.77
+]
+
+// StockCharts' published 10-day EMA worked example
+const EMA_CLOSES = [
+  22.27, 22.19, 22.08, 22.17, 22.18, 22.13, 22.23, 22.43, 22.24, 22.29, 22.15, 22.39, 22.38, 22.61, 23.36,
+  24.05, 23.75, 23.83, 23.95, 23.63, 23.82, 23.87, 23.65, 23.19, 23.10, 23.33, 22.68, 23.10, 22.40, 22.17
+]
+const EMA_REFERENCE = [
+  22.22, 22.21, 22.24, 22.27, 22.33, 22.52, 22.80, 22.97, 23.13, 23.28, 23.34, 23.43, 23.51, 23.54, 23.47,
+  23.40, 23.39, 23.26, 23.23, 23.08, 22.92
+]
+
+describe('sma', () => {
+  it('averages each full window', () => {
+    assertSeries(sma([1, 2, 3, 4, 5], 3), [null, null, 2, 3, 4])
+  })
+
+  it('is all null when the input is shorter than the period', () => {
+    assertSeries(sma([1, 2], 3), [null, null])
+  })
+})
+
+describe('ema', () => {
+  it('matches the reference 10-day EMA', () => {
+    // The reference rounds every step to cents
+    assertSeries(ema(EMA_CLOSES, 10), [...Array(9).fill(null), ...EMA_REFERENCE], 0.015)
+  })
+
+  it('is seeded with the simple average of the first period', () => {
+    assertSeries(ema([1, 2, 3, 4, 5, 6], 3), [null, null, 2, 3, 4, 5])
+  })
+
+  it('is all null when the input is shorter than the period', () => {
+    assertSeries(ema([1, 2], 3), [null, null])
+  })
+})
+
+describe('bollingerBands', () => {
+  it('spans two population standard deviations around the mean', () => {
+    const { middle, upper, lower } = bollingerBands([1, 2, 3, 4, 5], 5, 2)
+    assertSeries(middle, [null, null, null, null, 3])
+    assertSeries(upper, [null, null, null, null, 3 + 2 * Math.SQRT2])
+    assertSeries(lower, [null, null, null, null, 3 - 2 * Math.SQRT2])
+  })
+})
+
+describe('rsi', () => {
+  it('matches the reference Wilder RSI', () => {
+    // The reference rounds the average gain and loss, which moves the result by up to 0.07
+    assertSeries(rsi(RSI_CLOSES), [...Array(14).fill(null), ...RSI_REFERENCE], 0.1)
+  })
+
+  it('is all null until there are more values than the period', () => {
+    assertSeries(rsi(RSI_CLOSES.slice(0, 14)), Array(14).fill(null))
+    assertSeries(rsi([]), [])
+  })
+
+  it('is 50 for a flat series instead of dividing by zero', () => {
+    assertSeries(rsi(Array(20).fill(100)), [...Array(14).fill(null), ...Array(6).fill(50)])
+  })
+
+  it('is 100 when prices only rise', () => {
+    assertSeries(rsi([1, 2, 3, 4, 5, 6], 3), [null, null, null, 100, 100, 100])
+  })
+})
+
+describe('macd', () => {
+  // On a straight line every EMA lags by (period - 1) / 2, so the MACD line is exactly (26 - 1) / 2 - (12 - 1) / 2
+  const line = Array.from({ length: 40 }, (_, index) => index + 1)
+
+  it('starts the MACD line with the slow EMA', () => {
+    const result = macd(line)
+    assertSeries(result.macd, [...Array(25).fill(null), ...Array(15).fill(7)])
+  })
+
+  it('starts the signal line once it has a full period of MACD values', () => {
+    const result = macd(line)
+    assertSeries(result.signal, [...Array(33).fill(null), ...Array(7).fill(7)])
+    assertSeries(result.histogram, [...Array(33).fill(null), ...Array(7).fill(0)])
+  })
+
+  it('matches the difference of the fast and slow EMAs', () => {
+    const result = macd(EMA_CLOSES, 3, 6, 4)
+    const fast = ema(EMA_CLOSES, 3)
+    const slow = ema(EMA_CLOSES, 6)
+    assertSeries(result.macd, slow.map((value, index) => value === null ? null : fast[index]! - value))
+
+    const signal = ema(result.macd.slice(5) as number[], 4)
+    assertSeries(result.signal, [...Array(5).fill(null), ...signal])
+    assertSeries(result.histogram, result.macd.map((value, index) =>
+      result.signal[index] === null ? null : value! - result.signal[index]!
+    ))
+  })
+
+  it('is all null when the input is shorter than the slow period', () => {
+    const result = macd(line.slice(0, 20))
+    assertSeries(result.macd, Array(20).fill(null))
+    assertSeries(result.signal, Array(20).fill(null))
+    assertSeries(result.histogram, Array(20).fill(null))
+  })
+})
+
+describe('atr', () => {
+  it('uses gaps from the previous close in the true range and Wilder smoothing', () => {
+    const candles = [bar(10, 8, 9), bar(11, 9, 10), bar(12, 10, 11), bar(15, 14, 14.5), bar(14, 13, 13.5)]
+    // True ranges: 2, 2, 2, 4 (gap up from 11), 1.5 (down to 13 from 14.5)
+    assertSeries(atr(candles, 3), [null, null, 2, 8 / 3, (8 / 3 * 2 + 1.5) / 3])
+  })
+
+  it('is all null when there are fewer bars than the period', () => {
+    assertSeries(atr([bar(10, 8, 9), bar(11, 9, 10)], 3), [null, null])
+  })
+
+  it('is zero for a flat series', () => {
+    assertSeries(atr(Array(5).fill(bar(10, 10, 10)), 3), [null, null, 0, 0, 0])
+  })
+})
+
+describe('stochastic', () => {
+  const candles = [bar(10, 8, 9), bar(11, 9, 10), bar(12, 10, 11), bar(11, 7, 8), bar(13, 9, 12)]
+
+  it('places the close within the period range and averages it into %D', () => {
+    const { k, d } = stochastic(candles, 3, 2)
+    assertSeries(k, [null, null, 75, 20, 500 / 6])
+    assertSeries(d, [null, null, null, 47.5, (20 + 500 / 6) / 2])
+  })
+
+  it('is 50 when the range is flat', () => {
+    const { k } = stochastic(Array(4).fill(bar(10, 10, 10)), 3, 2)
+    assertSeries(k, [null, null, 50, 50])
+  })
+
+  it('is all null when there are fewer bars than the period', () => {
+    const { k, d } = stochastic(candles.slice(0, 2), 3, 2)
+    assertSeries(k, [null, null])
+    assertSeries(d, [null, null])
+  })
+})
+
+describe('obv', () => {
+  it('adds volume on up closes, subtracts it on down closes and ignores unchanged ones', () => {
+    const candles = [bar(10, 10, 10, 500), bar(11, 11, 11, 100), bar(10.5, 10.5, 10.5, 50), bar(10.5, 10.5, 10.5, 70), bar(12, 12, 12, 30)]
+    assertSeries(obv(candles), [0, 100, 50, 50, 80])
+  })
+
+  it('treats missing volume as zero', () => {
+    assertSeries(obv([bar(10, 10, 10), bar(11, 11, 11), bar(12, 12, 12, 40)]), [0, 0, 40])
+  })
+})
+
+describe('vwap', () => {
+  it('weights the typical price by volume cumulatively', () => {
+    const candles = [bar(12, 8, 10, 100), bar(14, 10, 12, 300)]
+    assertSeries(vwap(candles), [10, (10 * 100 + 12 * 300) / 400])
+  })
+
+  it('is null until some volume has traded and unchanged by zero-volume bars', () => {
+    const candles = [bar(9, 9, 9, 0), bar(12, 8, 10, 100), bar(20, 20, 20, 0), bar(30, 30, 30)]
+    assertSeries(vwap(candles), [null, 10, 10, 10])
+  })
+
+  it('is all null when no volume traded', () => {
+    assertSeries(vwap([bar(10, 9, 9.5, 0), bar(11, 10, 10.5, 0)]), [null, null])
+  })
+})
+
+describe('adx', () => {
+  it('follows Wilder smoothing of the directional movement', () => {
+    const candles = [bar(10, 8, 9), bar(12, 9, 11), bar(11, 7, 8), bar(13, 8, 12)]
+    const result = adx(candles, 2)
+
+    // Bar 2 sums the first two periods: TR 3 + 4, +DM 2, -DM 2
+    assertSeries(result.plusDI, [null, null, 200 / 7, 300 / 8.5])
+    assertSeries(result.minusDI, [null, null, 200 / 7, 100 / 8.5])
+    // DX is 0 then 50; ADX starts as their mean
+    assertSeries(result.adx, [null, null, null, 25])
+  })
+
+  it('reads 100 for a steady uptrend', () => {
+    const candles = Array.from({ length: 10 }, (_, index) => bar(11 + index, 9 + index, 10 + index))
+    const result = adx(candles, 3)
+    assertSeries(result.minusDI, [null, null, null, ...Array(7).fill(0)])
+    assertSeries(result.adx, [null, null, null, null, null, ...Array(5).fill(100)])
+  })
+
+  it('is zero for a flat series instead of dividing by zero', () => {
+    const result = adx(Array(10).fill(bar(10, 10, 10)), 3)
+    assertSeries(result.plusDI, [null, null, null, ...Array(7).fill(0)])
+    assertSeries(result.minusDI, [null, null, null, ...Array(7).fill(0)])
+    assertSeries(result.adx, [null, null, null, null, null, ...Array(5).fill(0)])
+  })
+
+  it('is all null until there are more bars than the period', () => {
+    const result = adx(Array(3).fill(bar(10, 9, 9.5)), 3)
+    assertSeries(result.adx, [null, null, null])
+    assertSeries(result.plusDI, [null, null, null])
+  })
+})
+
+describe('latest', () => {
+  it('returns the last computed value', () => {
+    assert.equal(latest([null, 1, 2, null]), 2)
+    assert.equal(latest([null, null]), null)
+  })
+})
@@ -0,0 +1,22 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { getTradingDay, getTradingDayStart } from '@/lib/market-hours'
+
+describe('getTradingDayStart', () => {
+  it('is midnight in New York, not on the server clock', () => {
+    assert.equal(getTradingDayStart(new Date('2026-10-19T03:30:00Z')).toISOString(), '2026-10-18T04:00:00.000Z')
+    assert.equal(getTradingDayStart(new Date('2026-10-19T04:30:00Z')).toISOString(), '2026-10-19T04:00:00.000Z')
+    assert.equal(getTradingDayStart(new Date('2026-01-15T05:01:00Z')).toISOString(), '2026-01-15T05:00:00.000Z')
+  })
+
+  it('uses the offset in force at midnight on daylight saving changeovers', () => {
+    assert.equal(getTradingDayStart(new Date('2026-03-08T12:00:00Z')).toISOString(), '2026-03-08T05:00:00.000Z')
+    assert.equal(getTradingDayStart(new Date('2026-11-01T12:00:00Z')).toISOString(), '2026-11-01T04:00:00.000Z')
+  })
+
+  it('starts the same trading day that getTradingDay keys', () => {
+    const now = new Date('2026-07-02T02:00:00Z')
+    assert.equal(getTradingDay(now).toISOString(), '2026-07-01T00:00:00.000Z')
+    assert.equal(getTradingDayStart(now).toISOString(), '2026-07-01T04:00:00.000Z')
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { allocateLots, getHoldingTerm, orderLotsForSale, LotSelectionError, type OpenLot } from '@/lib/tax-lots'
+
+const lots: OpenLot[] = [
+  { id: 'a', remainingQuantity: 10, costPerShare: 100, acquiredAt: new Date('2024-01-02') },
+  { id: 'b', remainingQuantity: 5, costPerShare: 150, acquiredAt: new Date('2024-03-01') },
+  { id: 'c', remainingQuantity: 8, costPerShare: 120, acquiredAt: new Date('2024-02-01') }
+]
+
+const ids = (ordered: OpenLot[]) => ordered.map(lot => lot.id)
+
+describe('orderLotsForSale', () => {
+  it('orders by acquisition date for FIFO and LIFO', () => {
+    assert.deepEqual(ids(orderLotsForSale(lots, 'FIFO')), ['a', 'c', 'b'])
+    assert.deepEqual(ids(orderLotsForSale(lots, 'LIFO')), ['b', 'c', 'a'])
+  })
+
+  it('relieves the most expensive lots first for HIFO', () => {
+    assert.deepEqual(ids(orderLotsForSale(lots, 'HIFO')), ['b', 'c', 'a'])
+  })
+
+  it('keeps the requested order for specific lots', () => {
+    assert.deepEqual(ids(orderLotsForSale(lots, 'SPECIFIC_LOT', ['c', 'a'])), ['c', 'a'])
+  })
+
+  it('falls back to FIFO when no lots are selected', () => {
+    assert.deepEqual(ids(orderLotsForSale(lots, 'SPECIFIC_LOT', [])), ['a', 'c', 'b'])
+  })
+
+  it('rejects a lot selected twice', () => {
+    assert.throws(() => orderLotsForSale(lots, 'SPECIFIC_LOT', ['a', 'a']), LotSelectionError)
+    assert.throws(() => orderLotsForSale(lots, 'SPECIFIC_LOT', ['a', 'b', 'a']), LotSelectionError)
+  })
+
+  it('rejects a lot that is not open', () => {
+    assert.throws(() => orderLotsForSale(lots, 'SPECIFIC_LOT', ['a', 'missing']), LotSelectionError)
+  })
+})
+
+describe('allocateLots', () => {
+  it('walks the ordered lots until the quantity is covered', () => {
+    const allocations = allocateLots(orderLotsForSale(lots, 'SPECIFIC_LOT', ['b', 'a']), 12)
+    assert.deepEqual(allocations?.map(({ lot, quantity }) => [lot.id, quantity]), [['b', 5], ['a', 7]])
+  })
+
+  it('returns null when the selected lots fall short', () => {
+    assert.equal(allocateLots(orderLotsForSale(lots, 'SPECIFIC_LOT', ['b']), 6), null)
+  })
+})
+
+describe('getHoldingTerm', () => {
+  it('is long term only after more than one year', () => {
+    const acquiredAt = new Date('2023-05-10T00:00:00Z')
+    assert.equal(getHoldingTerm(acquiredAt, new Date('2024-05-10T00:00:00Z')).term, 'SHORT_TERM')
+    assert.equal(getHoldingTerm(acquiredAt, new Date('2024-05-11T00:00:00Z')).term, 'LONG_TERM')
+  })
+})
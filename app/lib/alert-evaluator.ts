@@ -0,0 +1,155 @@
+import { prisma } from '@/lib/db'
+import { marketDataService } from '@/lib/market-data'
+
+export interface AlertEvaluationResult {
+  evaluated: number
+  triggered: number
+  skippedSymbols: string[]
+}
+
+// Periodically checks active alerts against live quotes and marks the ones whose condition is met
+export class AlertEvaluator {
+  private static instance: AlertEvaluator
+  private timer: NodeJS.Timeout | null = null
+  private isEvaluating = false
+
+  private readonly DEFAULT_INTERVAL = 60 * 1000 // 1 minute
+
+  static getInstance(): AlertEvaluator {
+    if (!AlertEvaluator.instance) {
+      AlertEvaluator.instance = new AlertEvaluator()
+    }
+    return AlertEvaluator.instance
+  }
+
+  start(intervalMs: number = this.DEFAULT_INTERVAL) {
+    if (this.timer) return
+
+    console.log(`Alert evaluator started with ${intervalMs}ms interval`)
+    this.timer = setInterval(() => {
+      this.evaluateActiveAlerts().catch(error => {
+        console.error('Scheduled alert evaluation failed:', error)
+      })
+    }, intervalMs)
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  async evaluateActiveAlerts(): Promise<AlertEvaluationResult> {
+    // Skip overlapping runs when a previous pass is still waiting on quotes
+    if (this.isEvaluating) {
+      return { evaluated: 0, triggered: 0, skippedSymbols: [] }
+    }
+
+    this.isEvaluating = true
+
+    try {
+      const alerts = await prisma.alert.findMany({
+        where: {
+          isActive: true,
+          isTriggered: false
+        },
+        include: { asset: true }
+      })
+
+      // Group by symbol so each quote is fetched once per pass
+      const alertsBySymbol = new Map<string, typeof alerts>()
+      for (const alert of alerts) {
+        const symbolAlerts = alertsBySymbol.get(alert.asset.symbol) || []
+        symbolAlerts.push(alert)
+        alertsBySymbol.set(alert.asset.symbol, symbolAlerts)
+      }
+
+      let triggered = 0
+      const skippedSymbols: string[] = []
+
+      for (const [symbol, symbolAlerts] of alertsBySymbol) {
+        const assetData = await marketDataService.getAssetDetails(symbol)
+        if (!assetData || !assetData.price) {
+          skippedSymbols.push(symbol)
+          continue
+        }
+
+        for (const alert of symbolAlerts) {
+          const targetPrice = this.getTargetPrice(alert.condition)
+          if (targetPrice === null) continue
+
+          if (this.isConditionMet(alert.type, targetPrice, assetData.price)) {
+            const wasTriggered = await this.triggerAlert(alert, symbol, targetPrice, assetData.price)
+            if (wasTriggered) triggered++
+          }
+        }
+      }
+
+      return { evaluated: alerts.length, triggered, skippedSymbols }
+    } finally {
+      this.isEvaluating = false
+    }
+  }
+
+  // Manual alerts store `targetPrice`, automation risk-management alerts store `price`
+  private getTargetPrice(condition: any): number | null {
+    const value = condition?.targetPrice ?? condition?.price
+    const targetPrice = typeof value === 'string' ? parseFloat(value) : value
+    return typeof targetPrice === 'number' && isFinite(targetPrice) ? targetPrice : null
+  }
+
+  private isConditionMet(type: string, targetPrice: number, currentPrice: number): boolean {
+    switch (type) {
+      case 'PRICE_ABOVE':
+        return currentPrice >= targetPrice
+      case 'PRICE_BELOW':
+        return currentPrice <= targetPrice
+      default:
+        return false
+    }
+  }
+
+  private async triggerAlert(alert: any, symbol: string, targetPrice: number, currentPrice: number): Promise<boolean> {
+    const triggeredAt = new Date()
+
+    // Conditional update guards against another evaluator pass marking the same alert
+    const updated = await prisma.alert.updateMany({
+      where: {
+        id: alert.id,
+        isTriggered: false
+      },
+      data: {
+        isTriggered: true,
+        isActive: false,
+        triggeredAt
+      }
+    })
+
+    if (updated.count === 0) return false
+
+    const riskType = alert.condition?.type
+    const isRiskManagement = riskType === 'STOP_LOSS' || riskType === 'TAKE_PROFIT'
+
+    await prisma.activity.create({
+      data: {
+        userId: alert.userId,
+        type: isRiskManagement ? 'RISK_MANAGEMENT_TRIGGERED' : 'ALERT_TRIGGERED',
+        description: alert.message || `${symbol} ${alert.type === 'PRICE_ABOVE' ? 'rose above' : 'fell below'} $${targetPrice.toFixed(2)}`,
+        metadata: {
+          alertId: alert.id,
+          symbol,
+          alertType: alert.type,
+          conditionType: riskType || null,
+          targetPrice,
+          triggerPrice: currentPrice,
+          triggeredAt: triggeredAt.toISOString()
+        }
+      }
+    })
+
+    return true
+  }
+}
+
+export const alertEvaluator = AlertEvaluator.getInstance()
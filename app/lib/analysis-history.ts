@@ -0,0 +1,136 @@
+import type { AnalysisScore, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+
+export type AnalysisChangeField = 'recommendation' | 'confidence' | 'priceTarget' | 'timeHorizon' | 'marketSentiment'
+
+export interface AnalysisChange {
+  field: AnalysisChangeField
+  from: string | number | null
+  to: string | number | null
+  // Numeric fields only
+  delta?: number
+  deltaPercent?: number
+}
+
+export interface AnalysisDiff {
+  changes: AnalysisChange[]
+  keyPointsAdded: string[]
+  keyPointsRemoved: string[]
+}
+
+interface ComparableAnalysis {
+  recommendation: string
+  confidence: number
+  priceTarget: number | null
+  timeHorizon: string | null
+  marketSentiment: string | null
+  keyPoints: string[]
+}
+
+const DEFAULT_HISTORY_LIMIT = 20
+const MAX_HISTORY_LIMIT = 100
+
+// keyPoints is stored as JSON; older rows may hold anything
+const toStringList = (value: Prisma.JsonValue): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+
+const normalizePoint = (point: string) => point.trim().toLowerCase().replace(/\s+/g, ' ')
+
+function numericChange(field: AnalysisChangeField, from: number | null, to: number | null): AnalysisChange | null {
+  if (from === to) return null
+  if (from === null || to === null) return { field, from, to }
+  return {
+    field,
+    from,
+    to,
+    delta: to - from,
+    deltaPercent: from !== 0 ? (to - from) / Math.abs(from) * 100 : undefined
+  }
+}
+
+// What changed from one analysis of an asset to the next
+export function diffAnalyses(previous: ComparableAnalysis, current: ComparableAnalysis): AnalysisDiff {
+  const changes: AnalysisChange[] = []
+
+  for (const field of ['recommendation', 'timeHorizon', 'marketSentiment'] as const) {
+    if (previous[field] !== current[field]) {
+      changes.push({ field, from: previous[field], to: current[field] })
+    }
+  }
+
+  for (const field of ['confidence', 'priceTarget'] as const) {
+    const change = numericChange(field, previous[field], current[field])
+    if (change) changes.push(change)
+  }
+
+  // Key points are free text from the model, so compare them loosely
+  const previousPoints = new Set(previous.keyPoints.map(normalizePoint))
+  const currentPoints = new Set(current.keyPoints.map(normalizePoint))
+
+  return {
+    changes,
+    keyPointsAdded: current.keyPoints.filter(point => !previousPoints.has(normalizePoint(point))),
+    keyPointsRemoved: previous.keyPoints.filter(point => !currentPoints.has(normalizePoint(point)))
+  }
+}
+
+export interface AnalysisHistoryEntry {
+  id: string
+  generatedAt: Date
+  recommendation: string
+  confidence: number
+  priceTarget: number | null
+  priceAtAnalysis: number | null
+  timeHorizon: string | null
+  marketSentiment: string | null
+  keyPoints: string[]
+  score: AnalysisScore | null
+  // Compared with the analysis before it; null for the oldest one on record
+  diff: AnalysisDiff | null
+}
+
+// Newest first. Returns null when the asset is unknown.
+export async function getAnalysisHistory(symbol: string, limit: number = DEFAULT_HISTORY_LIMIT) {
+  const asset = await prisma.asset.findUnique({
+    where: { symbol: symbol.toUpperCase() },
+    select: { id: true, symbol: true, name: true }
+  })
+
+  if (!asset) return null
+
+  const take = Math.min(Math.max(1, limit), MAX_HISTORY_LIMIT)
+
+  // One extra row so the oldest entry on the page can still be diffed
+  const analyses = await prisma.analysis.findMany({
+    where: { assetId: asset.id },
+    include: { score: true },
+    orderBy: { generatedAt: 'desc' },
+    take: take + 1
+  })
+
+  const comparable = analyses.map(analysis => ({ ...analysis, keyPoints: toStringList(analysis.keyPoints) }))
+
+  const entries: AnalysisHistoryEntry[] = comparable.slice(0, take).map((analysis, index) => {
+    const previous = comparable[index + 1]
+    return {
+      id: analysis.id,
+      generatedAt: analysis.generatedAt,
+      recommendation: analysis.recommendation,
+      confidence: analysis.confidence,
+      priceTarget: analysis.priceTarget,
+      priceAtAnalysis: analysis.priceAtAnalysis,
+      timeHorizon: analysis.timeHorizon,
+      marketSentiment: analysis.marketSentiment,
+      keyPoints: analysis.keyPoints,
+      score: analysis.score,
+      diff: previous ? diffAnalyses(previous, analysis) : null
+    }
+  })
+
+  return {
+    symbol: asset.symbol,
+    name: asset.name,
+    analyses: entries,
+    hasMore: analyses.length > take
+  }
+}
@@ -0,0 +1,322 @@
+import type { Analysis } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { candleStore, type HistoryCandle } from '@/lib/candle-store'
+
+export type AnalysisHorizon = 'SHORT' | 'MEDIUM' | 'LONG'
+
+// How long each stated horizon is given to play out, and how far a HOLD may drift and still count as right
+export const ANALYSIS_HORIZONS: Record<AnalysisHorizon, { days: number; holdBandPercent: number }> = {
+  SHORT: { days: 7, holdBandPercent: 3 },
+  MEDIUM: { days: 30, holdBandPercent: 5 },
+  LONG: { days: 90, holdBandPercent: 10 }
+}
+const DEFAULT_HORIZON: AnalysisHorizon = 'MEDIUM'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_PER_HORIZON_PER_RUN = 100
+// The last daily close must fall this close to the horizon end (weekends, holidays) to score against it
+const MAX_EXIT_GAP_DAYS = 5
+// NO_DATA usually means a provider outage, so it is retried daily and only final this long after the horizon ends
+const NO_DATA_RETRY_MS = DAY_MS
+const NO_DATA_MAX_AGE_DAYS = 14
+const CALIBRATION_BUCKET_SIZE = 10
+
+export interface CalibrationBucket {
+  from: number
+  to: number
+  count: number
+  averageConfidence: number
+  hitRate: number
+}
+
+export interface AccuracyStats {
+  scored: number
+  directionHitRate: number | null
+  targetsScored: number
+  targetHitRate: number | null
+  // Return in the direction of the call: BUY gains and SELL declines are positive; HOLDs are left out
+  averageCalledReturnPercent: number | null
+  meanAbsoluteTargetErrorPercent: number | null
+  // Mean squared gap between stated confidence and the direction outcome; 0 is perfect, 0.25 is a coin flip at 50%
+  brierScore: number | null
+  byRecommendation: Record<string, { scored: number; directionHitRate: number | null }>
+  calibration: CalibrationBucket[]
+}
+
+interface ScoredOutcome {
+  recommendation: string
+  confidence: number
+  returnPercent: number | null
+  directionHit: boolean | null
+  targetHit: boolean | null
+  targetErrorPercent: number | null
+}
+
+export function getHorizon(value: string | null): AnalysisHorizon {
+  return value && value in ANALYSIS_HORIZONS ? value as AnalysisHorizon : DEFAULT_HORIZON
+}
+
+const rate = (hits: number, total: number) => total > 0 ? hits / total : null
+const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+
+export function summarizeOutcomes(outcomes: ScoredOutcome[]): AccuracyStats {
+  const directional = outcomes.filter(outcome => outcome.directionHit !== null)
+  const withTarget = outcomes.filter(outcome => outcome.targetHit !== null)
+
+  const byRecommendation: AccuracyStats['byRecommendation'] = {}
+  for (const recommendation of ['BUY', 'SELL', 'HOLD']) {
+    const group = directional.filter(outcome => outcome.recommendation === recommendation)
+    byRecommendation[recommendation] = {
+      scored: group.length,
+      directionHitRate: rate(group.filter(outcome => outcome.directionHit).length, group.length)
+    }
+  }
+
+  const buckets = new Map<number, ScoredOutcome[]>()
+  for (const outcome of directional) {
+    // 100 joins the 90-100 bucket
+    const from = Math.min(90, Math.floor(outcome.confidence / CALIBRATION_BUCKET_SIZE) * CALIBRATION_BUCKET_SIZE)
+    buckets.set(from, [...(buckets.get(from) || []), outcome])
+  }
+
+  return {
+    scored: directional.length,
+    directionHitRate: rate(directional.filter(outcome => outcome.directionHit).length, directional.length),
+    targetsScored: withTarget.length,
+    targetHitRate: rate(withTarget.filter(outcome => outcome.targetHit).length, withTarget.length),
+    averageCalledReturnPercent: mean(directional
+      .filter(outcome => outcome.recommendation !== 'HOLD' && outcome.returnPercent !== null)
+      .map(outcome => outcome.recommendation === 'SELL' ? -outcome.returnPercent! : outcome.returnPercent!)),
+    meanAbsoluteTargetErrorPercent: mean(withTarget
+      .filter(outcome => outcome.targetErrorPercent !== null)
+      .map(outcome => Math.abs(outcome.targetErrorPercent!))),
+    brierScore: mean(directional.map(outcome => Math.pow(outcome.confidence / 100 - (outcome.directionHit ? 1 : 0), 2))),
+    byRecommendation,
+    calibration: [...buckets.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([from, group]) => ({
+        from,
+        to: from === 90 ? 100 : from + CALIBRATION_BUCKET_SIZE - 1,
+        count: group.length,
+        averageConfidence: mean(group.map(outcome => outcome.confidence))!,
+        hitRate: rate(group.filter(outcome => outcome.directionHit).length, group.length)!
+      }))
+  }
+}
+
+/**
+ * Scores each analysis once its horizon has elapsed: did the price move the way the recommendation
+ * said, and was the price target reached. Prices come from stored daily candles, so the analysis day's
+ * own range counts toward the target even for moves earlier that day.
+ */
+export class AnalysisScorer {
+  private static instance: AnalysisScorer
+  private timer: NodeJS.Timeout | null = null
+  private isRunning = false
+  private scoredListeners = new Set<() => void>()
+
+  private readonly DEFAULT_INTERVAL = 60 * 60 * 1000 // 1 hour
+
+  static getInstance(): AnalysisScorer {
+    if (!AnalysisScorer.instance) {
+      AnalysisScorer.instance = new AnalysisScorer()
+    }
+    return AnalysisScorer.instance
+  }
+
+  start(intervalMs: number = this.DEFAULT_INTERVAL) {
+    if (this.timer) return
+
+    console.log(`Analysis scorer started with ${intervalMs}ms interval`)
+    this.timer = setInterval(() => {
+      this.scorePending().catch(error => {
+        console.error('Analysis scoring run failed:', error)
+      })
+    }, intervalMs)
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  // Called after a run that scored anything, for caches derived from the scores; returns an unsubscribe function
+  onScored(listener: () => void): () => void {
+    this.scoredListeners.add(listener)
+    return () => this.scoredListeners.delete(listener)
+  }
+
+  async scorePending(): Promise<number> {
+    if (this.isRunning) return 0
+
+    this.isRunning = true
+
+    try {
+      const due = await this.findDue()
+      const bySymbol = new Map<string, Array<Analysis & { asset: { symbol: string } }>>()
+      for (const analysis of due) {
+        bySymbol.set(analysis.asset.symbol, [...(bySymbol.get(analysis.asset.symbol) || []), analysis])
+      }
+
+      let scored = 0
+      for (const [symbol, analyses] of bySymbol) {
+        try {
+          scored += await this.scoreAsset(symbol, analyses)
+        } catch (error) {
+          console.error(`Failed to score analyses for ${symbol}:`, error)
+        }
+      }
+
+      if (scored > 0) {
+        this.scoredListeners.forEach(listener => listener())
+      }
+      return scored
+    } finally {
+      this.isRunning = false
+    }
+  }
+
+  async getAccuracy(symbol?: string) {
+    const scores = await prisma.analysisScore.findMany({
+      where: { status: 'SCORED', ...(symbol && { asset: { symbol: symbol.toUpperCase() } }) },
+      select: {
+        recommendation: true,
+        confidence: true,
+        returnPercent: true,
+        directionHit: true,
+        targetHit: true,
+        targetErrorPercent: true,
+        asset: { select: { symbol: true } }
+      }
+    })
+
+    const bySymbol = new Map<string, typeof scores>()
+    for (const score of scores) {
+      bySymbol.set(score.asset.symbol, [...(bySymbol.get(score.asset.symbol) || []), score])
+    }
+
+    return {
+      overall: summarizeOutcomes(scores),
+      bySymbol: [...bySymbol.entries()]
+        .map(([assetSymbol, group]) => {
+          const stats = summarizeOutcomes(group)
+          return {
+            symbol: assetSymbol,
+            scored: stats.scored,
+            directionHitRate: stats.directionHitRate,
+            targetHitRate: stats.targetHitRate,
+            averageCalledReturnPercent: stats.averageCalledReturnPercent
+          }
+        })
+        .sort((a, b) => b.scored - a.scored)
+    }
+  }
+
+  // Due analyses per horizon, so long-horizon rows that are not due yet never crowd out the rest
+  private async findDue() {
+    const now = Date.now()
+    const batches = await Promise.all((Object.keys(ANALYSIS_HORIZONS) as AnalysisHorizon[]).map(horizon => prisma.analysis.findMany({
+      where: {
+        generatedAt: { lte: new Date(now - ANALYSIS_HORIZONS[horizon].days * DAY_MS) },
+        // Unscored, or NO_DATA and due another attempt; nested since the horizon filter below sets OR
+        AND: [
+          {
+            OR: [
+              { score: null },
+              {
+                score: {
+                  status: 'NO_DATA',
+                  scoredAt: { lte: new Date(now - NO_DATA_RETRY_MS) },
+                  horizonEndsAt: { gte: new Date(now - NO_DATA_MAX_AGE_DAYS * DAY_MS) }
+                }
+              }
+            ]
+          }
+        ],
+        ...(horizon === DEFAULT_HORIZON
+          ? { OR: [{ timeHorizon: null }, { timeHorizon: { notIn: ['SHORT', 'LONG'] } }] }
+          : { timeHorizon: horizon })
+      },
+      include: { asset: { select: { symbol: true } } },
+      orderBy: { generatedAt: 'asc' },
+      take: MAX_PER_HORIZON_PER_RUN
+    })))
+    return batches.flat()
+  }
+
+  private async scoreAsset(symbol: string, analyses: Analysis[]): Promise<number> {
+    const windows = analyses.map(analysis => {
+      const horizon = ANALYSIS_HORIZONS[getHorizon(analysis.timeHorizon)]
+      return { analysis, horizon, endsAt: new Date(analysis.generatedAt.getTime() + horizon.days * DAY_MS) }
+    })
+
+    const from = new Date(Math.min(...analyses.map(analysis => analysis.generatedAt.getTime())) - 3 * DAY_MS)
+    const to = new Date(Math.max(...windows.map(window => window.endsAt.getTime())))
+    const { candles } = await candleStore.getHistory(symbol, { from, to, resolution: '1d', fill: false })
+
+    const rows = windows.map(({ analysis, horizon, endsAt }) => {
+      const base = {
+        analysisId: analysis.id,
+        assetId: analysis.assetId,
+        recommendation: analysis.recommendation,
+        confidence: analysis.confidence,
+        horizonEndsAt: endsAt,
+        priceTarget: analysis.priceTarget
+      }
+      const outcome = this.measure(analysis, horizon.holdBandPercent, endsAt, candles)
+      return outcome ? { ...base, status: 'SCORED', ...outcome } : { ...base, status: 'NO_DATA' }
+    })
+
+    const [, { count }] = await prisma.$transaction([
+      // A retried NO_DATA row is replaced by this attempt, which restarts its backoff if it is NO_DATA again
+      prisma.analysisScore.deleteMany({
+        where: { analysisId: { in: analyses.map(analysis => analysis.id) }, status: 'NO_DATA' }
+      }),
+      prisma.analysisScore.createMany({ data: rows, skipDuplicates: true })
+    ])
+    return count
+  }
+
+  private measure(analysis: Analysis, holdBandPercent: number, endsAt: Date, candles: HistoryCandle[]) {
+    const generatedAt = analysis.generatedAt.getTime()
+    // Daily candles are stamped at the start of the day, so the analysis day's candle is included
+    const during = candles.filter(candle =>
+      candle.timestamp.getTime() > generatedAt - DAY_MS && candle.timestamp.getTime() <= endsAt.getTime()
+    )
+    const before = candles.filter(candle => candle.timestamp.getTime() <= generatedAt)
+
+    const entryPrice = analysis.priceAtAnalysis ?? before[before.length - 1]?.close
+    const last = during[during.length - 1]
+    if (!entryPrice || !last || endsAt.getTime() - last.timestamp.getTime() > MAX_EXIT_GAP_DAYS * DAY_MS) {
+      return null
+    }
+
+    const exitPrice = last.close
+    const highPrice = Math.max(...during.map(candle => candle.high))
+    const lowPrice = Math.min(...during.map(candle => candle.low))
+    const returnPercent = (exitPrice - entryPrice) / entryPrice * 100
+
+    const directionHit = analysis.recommendation === 'BUY' ? returnPercent > 0
+      : analysis.recommendation === 'SELL' ? returnPercent < 0
+      : analysis.recommendation === 'HOLD' ? Math.abs(returnPercent) <= holdBandPercent
+      : null
+
+    const target = analysis.priceTarget
+    const targetHit = target ? (target >= entryPrice ? highPrice >= target : lowPrice <= target) : null
+
+    return {
+      entryPrice,
+      exitPrice,
+      highPrice,
+      lowPrice,
+      returnPercent,
+      directionHit,
+      targetHit,
+      targetErrorPercent: target ? (exitPrice - target) / target * 100 : null
+    }
+  }
+}
+
+export const analysisScorer = AnalysisScorer.getInstance()
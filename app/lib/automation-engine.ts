@@ -1,19 +1,32 @@
 
 import { prisma } from '@/lib/db'
 import { marketDataService } from '@/lib/market-data'
+import { liveTrading } from '@/lib/live-trading'
+import { tradeExecutor } from '@/lib/trade-executor'
+import { bracketOrderManager } from '@/lib/bracket-orders'
+import { generateValidatedAnalysis, AnalysisRejectedError } from '@/lib/llm/structured-analysis'
+import { bollingerBands, latest, macd, rsi, sma, volatility } from '@/lib/indicators'
+import { riskEngine } from '@/lib/risk-engine'
+import { confidenceCalibrator } from '@/lib/confidence-calibration'
 
 export interface AutomationSignal {
   assetId: string
   symbol: string
   action: 'BUY' | 'SELL'
+  // Calibrated probability (0-100) that the call is right; the analysis' own figure is statedConfidence
   confidence: number
+  statedConfidence?: number
   priceTarget?: number
   currentPrice: number
+  // Shares a SELL signal can close, held in the portfolio automation trades in
+  heldQuantity?: number
   recommendation: string
   analysis: any
   userId: string
 }
 
+type TradeExecution = Awaited<ReturnType<typeof tradeExecutor.executeTrade>>
+
 export interface RiskManagementParams {
   stopLossPercent: number
   takeProfitPercent: number
@@ -51,6 +64,7 @@ export class AutomationEngine {
       const user = await prisma.user.findUnique({
         where: { id: userId },
         select: {
+          id: true,
           buyConfidenceThreshold: true,
           sellConfidenceThreshold: true,
           maxTradeAmountAuto: true,
@@ -93,13 +107,26 @@ export class AutomationEngine {
       }
 
       // Enhanced AI analysis with automation context
-      const analysisResult = await this.generateEnhancedAnalysis(
-        symbol, 
-        enhancedAssetData, 
-        priceHistory, 
-        user,
-        trigger
-      )
+      let analysisResult
+      try {
+        analysisResult = await this.generateEnhancedAnalysis(
+          symbol, 
+          enhancedAssetData, 
+          priceHistory, 
+          user,
+          trigger
+        )
+      } catch (error) {
+        // Output that fails validation is never stored or traded on
+        if (error instanceof AnalysisRejectedError) {
+          await this.logAutomationActivity(userId, {
+            type: 'ANALYSIS_REJECTED',
+            description: `AI analysis for ${symbol} failed validation and was discarded`,
+            metadata: { symbol, trigger, issues: error.issues }
+          })
+        }
+        throw error
+      }
 
       // Check if analysis meets automation criteria
       const automationSignal = await this.evaluateAutomationSignal(
@@ -122,15 +149,21 @@ export class AutomationEngine {
           risks: analysisResult.risks,
           opportunities: analysisResult.opportunities,
           marketSentiment: analysisResult.marketSentiment,
+          priceAtAnalysis: enhancedAssetData.price,
           technicalData: analysisResult.technicalSignals,
           fundamentalData: analysisResult.fundamentalData || {},
           expiresAt: new Date(Date.now() + 60 * 60 * 1000)
         }
       })
 
-      // Process automation signal if applicable
-      if (automationSignal && !user.requireManualConfirm) {
-        await this.processAutomationSignal(automationSignal, user)
+      // Execute the signal, or hold it for the user's decision when manual confirmation is on
+      let pendingSignalId: string | null = null
+      if (automationSignal) {
+        if (user.requireManualConfirm) {
+          pendingSignalId = await this.queueSignalForApproval(automationSignal, user, analysis.id, analysis.expiresAt!)
+        } else {
+          await this.processAutomationSignal(automationSignal, user)
+        }
       }
 
       // Log automation activity
@@ -143,14 +176,16 @@ export class AutomationEngine {
           confidence: analysisResult.confidence,
           recommendation: analysisResult.recommendation,
           automationTriggered: !!automationSignal,
-          analysisId: analysis.id
+          analysisId: analysis.id,
+          pendingSignalId
         }
       })
 
       return {
         analysis: analysisResult,
         automationSignal,
-        analysisId: analysis.id
+        analysisId: analysis.id,
+        pendingSignalId
       }
 
     } finally {
@@ -181,20 +216,12 @@ export class AutomationEngine {
     )
 
     // Generate AI analysis with automation context
-    const response = await fetch('https://apps.abacus.ai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.ABACUSAI_API_KEY}`
-      },
-      body: JSON.stringify({
-        model: 'gpt-4.1-mini',
-        messages: [{
-          role: 'system',
-          content: `You are AiiA's advanced AI trading engine. You're analyzing for automated trading decisions with strict risk management. Consider user's risk tolerance: ${userSettings.riskTolerance}. Analysis triggered by: ${trigger}.`
-        }, {
-          role: 'user',
-          content: `ENHANCED ANALYSIS REQUEST for ${symbol}:
+    return generateValidatedAnalysis([{
+      role: 'system',
+      content: `You are AiiA's advanced AI trading engine. You're analyzing for automated trading decisions with strict risk management. Consider user's risk tolerance: ${userSettings.riskTolerance}. Analysis triggered by: ${trigger}.`
+    }, {
+      role: 'user',
+      content: `ENHANCED ANALYSIS REQUEST for ${symbol}:
 
           USER AUTOMATION SETTINGS:
           - Risk Tolerance: ${userSettings.riskTolerance}
@@ -261,26 +288,17 @@ export class AutomationEngine {
           }
 
           Respond with raw JSON only.`
-        }],
-        response_format: { type: "json_object" },
-        max_tokens: 4000
-      })
-    })
-
-    if (!response.ok) {
-      throw new Error('Enhanced AI analysis failed')
-    }
-
-    const result = await response.json()
-    return JSON.parse(result.choices[0].message.content)
+    }], { maxTokens: 4000, currentPrice: assetData.price })
   }
 
-  // Advanced Technical Indicators
-  private calculateAdvancedTechnicalIndicators(priceHistory: any[], assetData: any) {
+  // Advanced Technical Indicators (shared with the backtester)
+  calculateAdvancedTechnicalIndicators(priceHistory: any[], assetData: any) {
     if (priceHistory.length < 50) {
       return {
         rsi: 50,
         macd: 0,
+        macdSignal: 0,
+        macdHistogram: 0,
         movingAverages: { ma20: assetData.price, ma50: assetData.price },
         bollingerBands: { upper: assetData.price * 1.02, lower: assetData.price * 0.98 },
         volumeAnalysis: 'NEUTRAL',
@@ -290,19 +308,29 @@ export class AutomationEngine {
 
     const prices = priceHistory.map(p => p.price)
     const volumes = priceHistory.map(p => p.volume || 0)
+    const macdSeries = macd(prices)
+    const bands = bollingerBands(prices)
 
     return {
-      rsi: this.calculateRSI(prices),
-      macd: this.calculateMACD(prices),
-      movingAverages: this.calculateMovingAverages(prices),
-      bollingerBands: this.calculateBollingerBands(prices),
+      rsi: latest(rsi(prices)) ?? 50,
+      macd: latest(macdSeries.macd) ?? 0,
+      macdSignal: latest(macdSeries.signal) ?? 0,
+      macdHistogram: latest(macdSeries.histogram) ?? 0,
+      movingAverages: {
+        ma20: latest(sma(prices, 20)) ?? assetData.price,
+        ma50: latest(sma(prices, 50)) ?? assetData.price
+      },
+      bollingerBands: {
+        upper: latest(bands.upper) ?? assetData.price * 1.02,
+        lower: latest(bands.lower) ?? assetData.price * 0.98
+      },
       volumeAnalysis: this.analyzeVolume(volumes, prices),
-      volatility: this.calculateVolatility(prices)
+      volatility: volatility(prices) ?? 15
     }
   }
 
   // Risk-Adjusted Confidence Calculation
-  private calculateRiskAdjustedConfidence(
+  calculateRiskAdjustedConfidence(
     assetData: any,
     technicalIndicators: any,
     marketSentiment: any,
@@ -339,67 +367,68 @@ export class AutomationEngine {
     asset: any,
     assetData: any
   ): Promise<AutomationSignal | null> {
-    // Check confidence thresholds
-    const isBuySignal = analysis.recommendation === 'BUY' && 
-                       analysis.confidence >= userSettings.buyConfidenceThreshold
-
-    const isSellSignal = analysis.recommendation === 'SELL' && 
-                        analysis.confidence >= userSettings.sellConfidenceThreshold
-
-    if (!isBuySignal && !isSellSignal) {
+    // Thresholds are compared against the calibrated probability, not the confidence the model states
+    const { confidence } = await confidenceCalibrator.calibrate(analysis.recommendation, analysis.confidence)
+    const action = this.getSignalAction({ recommendation: analysis.recommendation, confidence }, userSettings)
+    if (!action) {
       return null
     }
 
-    // Check daily trade limit
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-    
-    const todayTrades = await prisma.trade.count({
-      where: {
-        userId: userSettings.id,
-        executedAt: {
-          gte: today
-        }
-      }
+    // Check daily trade limit in the mode automation trades in; 0 means unlimited
+    const todayTrades = await riskEngine.countTradesToday(userSettings.id, {
+      isSimulated: userSettings.tradingMode === 'PAPER'
     })
 
-    if (todayTrades >= userSettings.maxTradesPerDay) {
+    if (userSettings.maxTradesPerDay > 0 && todayTrades >= userSettings.maxTradesPerDay) {
       return null
     }
 
+    // A SELL call on something not held has nothing to act on
+    let heldQuantity: number | undefined
+    if (action === 'SELL') {
+      const portfolio = await this.findAutomationPortfolio(userSettings.id, userSettings.tradingMode)
+      heldQuantity = portfolio ? await this.getHeldQuantity(portfolio.id, asset.id) : 0
+      if (heldQuantity <= 0) {
+        return null
+      }
+    }
+
     return {
       assetId: asset.id,
       symbol: asset.symbol,
-      action: isBuySignal ? 'BUY' : 'SELL',
-      confidence: analysis.confidence,
+      action,
+      confidence,
+      statedConfidence: analysis.confidence,
       priceTarget: analysis.priceTarget,
       currentPrice: assetData.price,
+      heldQuantity,
       recommendation: analysis.recommendation,
       analysis: analysis,
       userId: userSettings.id
     }
   }
 
+  // Confidence threshold check, independent of any account state
+  getSignalAction(
+    analysis: { recommendation: string; confidence: number },
+    userSettings: { buyConfidenceThreshold: number; sellConfidenceThreshold: number }
+  ): 'BUY' | 'SELL' | null {
+    if (analysis.recommendation === 'BUY' && analysis.confidence >= userSettings.buyConfidenceThreshold) {
+      return 'BUY'
+    }
+    if (analysis.recommendation === 'SELL' && analysis.confidence >= userSettings.sellConfidenceThreshold) {
+      return 'SELL'
+    }
+    return null
+  }
+
   // Process Automation Signal
   private async processAutomationSignal(signal: AutomationSignal, userSettings: any) {
     try {
       // Calculate position size based on automation settings
-      const positionSize = this.calculatePositionSize(
-        userSettings.maxTradeAmountAuto,
-        signal.confidence,
-        userSettings.riskTolerance
-      )
+      const positionSize = this.getSignalAmount(signal, userSettings)
 
-      // Execute simulated trade
-      if (userSettings.tradingMode === 'PAPER') {
-        await this.executeSimulatedTrade(signal, positionSize, userSettings)
-      } else {
-        // For live trading, add additional safety checks
-        await this.executeLiveTrade(signal, positionSize, userSettings)
-      }
-
-      // Set up automated risk management
-      await this.setupRiskManagement(signal, userSettings)
+      await this.executeSignal(signal, positionSize, userSettings)
 
     } catch (error) {
       console.error('Automation signal processing failed:', error)
@@ -416,53 +445,63 @@ export class AutomationEngine {
     }
   }
 
-  // Risk Management Helper Functions
-  private calculateRSI(prices: number[]): number {
-    if (prices.length < 14) return 50
-    // RSI calculation logic
-    let gains = 0, losses = 0
-    for (let i = 1; i < 15; i++) {
-      const change = prices[i] - prices[i - 1]
-      if (change > 0) gains += change
-      else losses -= change
-    }
-    const rs = (gains / 14) / (losses / 14)
-    return 100 - (100 / (1 + rs))
+  // Trades a signal for a dollar amount and attaches the automated stop-loss/take-profit bracket
+  async executeSignal(signal: AutomationSignal, amount: number, userSettings: any, activityMetadata: Record<string, any> = {}) {
+    const execution = await this.tradeSignal(signal, amount, userSettings, activityMetadata)
+    await this.protectExecution(signal, userSettings, execution)
+    return execution
   }
 
-  private calculateMACD(prices: number[]): number {
-    if (prices.length < 26) return 0
-    // Simplified MACD calculation
-    const ema12 = this.calculateEMA(prices.slice(-12), 12)
-    const ema26 = this.calculateEMA(prices.slice(-26), 26)
-    return ema12 - ema26
+  async tradeSignal(signal: AutomationSignal, amount: number, userSettings: any, activityMetadata: Record<string, any> = {}): Promise<TradeExecution> {
+    return userSettings.tradingMode === 'PAPER'
+      ? this.executeSimulatedTrade(signal, amount, userSettings, activityMetadata)
+      : this.executeLiveTrade(signal, amount, activityMetadata)
   }
 
-  private calculateEMA(prices: number[], period: number): number {
-    const multiplier = 2 / (period + 1)
-    let ema = prices[0]
-    for (let i = 1; i < prices.length; i++) {
-      ema = (prices[i] * multiplier) + (ema * (1 - multiplier))
+  // The trade is booked by now, so a bracket that cannot be placed is reported on its own; returns its error
+  async protectExecution(signal: AutomationSignal, userSettings: any, execution: TradeExecution): Promise<string | null> {
+    try {
+      await this.setupRiskManagement(signal, userSettings, execution)
+      return null
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      await this.logAutomationActivity(signal.userId, {
+        type: 'AUTOMATION_ERROR',
+        description: `Stop-loss and take-profit for ${signal.symbol} could not be placed`,
+        metadata: { symbol: signal.symbol, tradeId: execution.trade.id, error: message }
+      })
+      return message
     }
-    return ema
   }
 
-  private calculateMovingAverages(prices: number[]) {
-    const ma20 = prices.slice(-20).reduce((a, b) => a + b, 0) / 20
-    const ma50 = prices.slice(-50).reduce((a, b) => a + b, 0) / 50
-    return { ma20, ma50 }
-  }
+  // Persists the signal with its suggested size; it can only be executed until the analysis behind it expires
+  private async queueSignalForApproval(signal: AutomationSignal, userSettings: any, analysisId: string, expiresAt: Date): Promise<string> {
+    const pendingSignal = await prisma.pendingSignal.create({
+      data: {
+        userId: signal.userId,
+        assetId: signal.assetId,
+        analysisId,
+        symbol: signal.symbol,
+        action: signal.action,
+        confidence: signal.confidence,
+        signalPrice: signal.currentPrice,
+        priceTarget: signal.priceTarget,
+        suggestedAmount: this.getSignalAmount(signal, userSettings),
+        analysisSnapshot: signal.analysis,
+        expiresAt
+      }
+    })
 
-  private calculateBollingerBands(prices: number[]) {
-    const ma20 = prices.slice(-20).reduce((a, b) => a + b, 0) / 20
-    const variance = prices.slice(-20).reduce((sum, price) => sum + Math.pow(price - ma20, 2), 0) / 20
-    const stdDev = Math.sqrt(variance)
-    return {
-      upper: ma20 + (2 * stdDev),
-      lower: ma20 - (2 * stdDev)
-    }
+    await this.logAutomationActivity(signal.userId, {
+      type: 'SIGNAL_QUEUED',
+      description: `${signal.action} signal for ${signal.symbol} is awaiting your approval`,
+      metadata: { symbol: signal.symbol, action: signal.action, confidence: signal.confidence, statedConfidence: signal.statedConfidence, pendingSignalId: pendingSignal.id }
+    })
+
+    return pendingSignal.id
   }
 
+  // Risk Management Helper Functions
   private analyzeVolume(volumes: number[], prices: number[]): string {
     if (volumes.length < 10) return 'NEUTRAL'
     const avgVolume = volumes.slice(-10).reduce((a, b) => a + b, 0) / 10
@@ -473,15 +512,7 @@ export class AutomationEngine {
     return 'NORMAL'
   }
 
-  private calculateVolatility(prices: number[]): number {
-    if (prices.length < 20) return 15
-    const returns = prices.slice(1).map((price, i) => Math.log(price / prices[i]))
-    const mean = returns.reduce((a, b) => a + b, 0) / returns.length
-    const variance = returns.reduce((sum, ret) => sum + Math.pow(ret - mean, 2), 0) / returns.length
-    return Math.sqrt(variance * 252) * 100 // Annualized volatility
-  }
-
-  private analyzeAdvancedMarketSentiment(news: any[], priceHistory: any[]) {
+  analyzeAdvancedMarketSentiment(news: any[], priceHistory: any[]) {
     // Advanced sentiment analysis logic
     return {
       overall: 'NEUTRAL',
@@ -491,7 +522,15 @@ export class AutomationEngine {
     }
   }
 
-  private calculatePositionSize(maxAmount: number, confidence: number, riskTolerance: string): number {
+  // Buys are sized by confidence and risk tolerance; sells close the position the signal was raised against
+  private getSignalAmount(signal: AutomationSignal, userSettings: any): number {
+    if (signal.action === 'SELL' && signal.heldQuantity !== undefined) {
+      return signal.heldQuantity * signal.currentPrice
+    }
+    return this.calculatePositionSize(userSettings.maxTradeAmountAuto, signal.confidence, userSettings.riskTolerance)
+  }
+
+  calculatePositionSize(maxAmount: number, confidence: number, riskTolerance: string): number {
     const baseSize = maxAmount * 0.1 // Start with 10% of max
     const confidenceMultiplier = confidence / 100
     const riskMultiplier = {
@@ -503,77 +542,113 @@ export class AutomationEngine {
     return Math.min(maxAmount, baseSize * confidenceMultiplier * riskMultiplier)
   }
 
-  private async executeSimulatedTrade(signal: AutomationSignal, amount: number, userSettings: any) {
-    // Execute paper trade
-    const quantity = amount / signal.currentPrice
+  private async executeSimulatedTrade(signal: AutomationSignal, amount: number, userSettings: any, activityMetadata: Record<string, any> = {}) {
+    // Paper trades fill against the user's primary simulated portfolio
+    const portfolio = await this.findAutomationPortfolio(signal.userId, 'PAPER')
 
-    await prisma.trade.create({
-      data: {
-        userId: signal.userId,
-        assetId: signal.assetId,
-        type: signal.action,
-        quantity,
-        price: signal.currentPrice,
-        totalAmount: amount,
-        fees: 0,
-        status: 'COMPLETED',
-        isSimulated: true
+    if (!portfolio) {
+      throw new Error('No simulated portfolio available for automated trading')
+    }
+
+    const quantity = await this.getSignalQuantity(portfolio.id, signal, amount)
+
+    const execution = await tradeExecutor.executeTrade({
+      userId: signal.userId,
+      portfolioId: portfolio.id,
+      symbol: signal.symbol,
+      type: signal.action,
+      quantity,
+      source: 'AUTOMATED',
+      activityType: 'AUTO_TRADE_EXECUTED',
+      activityDescription: `Automated ${signal.action} trade executed for ${signal.symbol}`,
+      activityMetadata: {
+        action: signal.action,
+        amount,
+        confidence: signal.confidence,
+        statedConfidence: signal.statedConfidence,
+        ...activityMetadata
       }
     })
 
-    await this.logAutomationActivity(signal.userId, {
-      type: 'AUTO_TRADE_EXECUTED',
-      description: `Automated ${signal.action} trade executed for ${signal.symbol}`,
-      metadata: {
-        symbol: signal.symbol,
+    return execution
+  }
+
+  private async executeLiveTrade(signal: AutomationSignal, amount: number, activityMetadata: Record<string, any> = {}): Promise<TradeExecution> {
+    if (!liveTrading.isAvailable()) {
+      throw new Error('Live trading is not configured')
+    }
+
+    const portfolio = await liveTrading.ensureLivePortfolio(signal.userId)
+
+    // Same risk checks as paper trades; the broker fill is booked when it arrives
+    return tradeExecutor.executeTrade({
+      userId: signal.userId,
+      portfolioId: portfolio.id,
+      symbol: signal.symbol,
+      type: signal.action,
+      quantity: await this.getSignalQuantity(portfolio.id, signal, amount),
+      source: 'AUTOMATED',
+      activityType: 'AUTO_TRADE_EXECUTED',
+      activityDescription: `Automated live ${signal.action} trade executed for ${signal.symbol}`,
+      activityMetadata: {
         action: signal.action,
         amount,
-        quantity,
-        price: signal.currentPrice,
-        confidence: signal.confidence
+        confidence: signal.confidence,
+        statedConfidence: signal.statedConfidence,
+        ...activityMetadata
       }
     })
   }
 
-  private async executeLiveTrade(signal: AutomationSignal, amount: number, userSettings: any) {
-    // For live trading, integrate with actual broker API (Alpaca, etc.)
-    // This would require additional safety checks and real API calls
-    throw new Error('Live trading not implemented yet')
+  // Paper automation trades in the primary simulated portfolio, live automation in the live one
+  private async findAutomationPortfolio(userId: string, tradingMode: string) {
+    return prisma.portfolio.findFirst({
+      where: {
+        userId,
+        type: tradingMode === 'PAPER' ? 'SIMULATED' : 'LIVE',
+        isActive: true
+      },
+      orderBy: { createdAt: 'asc' }
+    })
   }
 
-  private async setupRiskManagement(signal: AutomationSignal, userSettings: any) {
-    // Set up automated stop-loss and take-profit orders
-    const stopLossPrice = signal.action === 'BUY' ? 
-      signal.currentPrice * (1 - userSettings.stopLossPercent / 100) :
-      signal.currentPrice * (1 + userSettings.stopLossPercent / 100)
+  private async getHeldQuantity(portfolioId: string, assetId: string): Promise<number> {
+    const item = await prisma.portfolioItem.findUnique({
+      where: { portfolioId_assetId: { portfolioId, assetId } },
+      select: { quantity: true }
+    })
+    return item?.quantity ?? 0
+  }
 
-    const takeProfitPrice = signal.action === 'BUY' ?
-      signal.currentPrice * (1 + userSettings.takeProfitPercent / 100) :
-      signal.currentPrice * (1 - userSettings.takeProfitPercent / 100)
+  // Sells never ask for more shares than are held, whatever dollar amount they were sized at
+  private async getSignalQuantity(portfolioId: string, signal: AutomationSignal, amount: number): Promise<number> {
+    const quantity = amount / signal.currentPrice
+    if (signal.action === 'BUY') return quantity
 
-    // Create alerts for stop-loss and take-profit
-    await Promise.all([
-      prisma.alert.create({
-        data: {
-          userId: signal.userId,
-          assetId: signal.assetId,
-          type: signal.action === 'BUY' ? 'PRICE_BELOW' : 'PRICE_ABOVE',
-          condition: { price: stopLossPrice, type: 'STOP_LOSS' },
-          message: `Stop-loss triggered for ${signal.symbol}`,
-          isActive: true
-        }
-      }),
-      prisma.alert.create({
-        data: {
-          userId: signal.userId,
-          assetId: signal.assetId,
-          type: signal.action === 'BUY' ? 'PRICE_ABOVE' : 'PRICE_BELOW',
-          condition: { price: takeProfitPrice, type: 'TAKE_PROFIT' },
-          message: `Take-profit triggered for ${signal.symbol}`,
-          isActive: true
-        }
-      })
-    ])
+    const held = await this.getHeldQuantity(portfolioId, signal.assetId)
+    if (held <= 0) {
+      throw new Error(`No ${signal.symbol} shares held to sell`)
+    }
+    return Math.min(held, quantity)
+  }
+
+  private async setupRiskManagement(signal: AutomationSignal, userSettings: any, execution: TradeExecution) {
+    // Brackets protect long positions; automated sells only reduce existing holdings
+    if (signal.action !== 'BUY' || !execution.trade.portfolioId) return
+
+    // A live order still working at the broker gets its bracket opened when reconciliation books the fill
+    await bracketOrderManager.createBracket({
+      userId: signal.userId,
+      portfolioId: execution.trade.portfolioId,
+      portfolioItemId: execution.portfolioItem?.id,
+      assetId: execution.asset.id,
+      entryTradeId: execution.trade.id,
+      quantity: execution.trade.quantity,
+      entryPrice: execution.trade.price,
+      stopLossPercent: userSettings.stopLossPercent,
+      takeProfitPercent: userSettings.takeProfitPercent,
+      awaitingFill: execution.trade.status === 'PENDING'
+    })
   }
 
   private async logAutomationActivity(userId: string, activity: any) {
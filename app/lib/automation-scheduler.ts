@@ -0,0 +1,277 @@
+import { hostname } from 'os'
+import { randomUUID } from 'crypto'
+import { prisma } from '@/lib/db'
+import { automationEngine } from '@/lib/automation-engine'
+import { marketDataService } from '@/lib/market-data'
+import { isMarketOpen } from '@/lib/market-hours'
+import { riskEngine } from '@/lib/risk-engine'
+
+const MAX_ATTEMPTS = 3
+const RETRY_BASE_MS = 60 * 1000
+// A claimed job is considered abandoned, and can be taken over, once its lock expires
+const LOCK_MS = 5 * 60 * 1000
+// Each analysis costs a quote, a history and an LLM call; keep a tick well inside provider limits
+const MAX_JOBS_PER_TICK = 10
+const JOB_SPACING_MS = 2000
+const EXPIRE_PENDING_MS = 24 * 60 * 60 * 1000
+const RETAIN_FINISHED_MS = 7 * 24 * 60 * 60 * 1000
+
+class JobSkippedError extends Error {}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Runs automated analysis for opted-in users over their default watchlist and open positions.
+ * Jobs are persisted in ScheduledJob: every instance enqueues the same slot-keyed jobs idempotently,
+ * and a job only runs on the instance whose conditional update claimed it.
+ */
+export class AutomationScheduler {
+  private static instance: AutomationScheduler
+  private timer: NodeJS.Timeout | null = null
+  private isRunning = false
+  private readonly workerId = `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`
+
+  private readonly DEFAULT_INTERVAL = 60 * 1000 // 1 minute
+
+  static getInstance(): AutomationScheduler {
+    if (!AutomationScheduler.instance) {
+      AutomationScheduler.instance = new AutomationScheduler()
+    }
+    return AutomationScheduler.instance
+  }
+
+  start(intervalMs: number = this.DEFAULT_INTERVAL) {
+    if (this.timer) return
+
+    console.log(`Automation scheduler started with ${intervalMs}ms interval`)
+    this.timer = setInterval(() => {
+      this.tick().catch(error => {
+        console.error('Scheduled automation run failed:', error)
+      })
+    }, intervalMs)
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  async tick(): Promise<{ enqueued: number; completed: number; skipped: number; failed: number }> {
+    if (this.isRunning) {
+      return { enqueued: 0, completed: 0, skipped: 0, failed: 0 }
+    }
+
+    this.isRunning = true
+
+    try {
+      await this.cleanup()
+      const enqueued = await this.enqueueDueJobs()
+      const outcome = await this.runDueJobs()
+      return { enqueued, ...outcome }
+    } finally {
+      this.isRunning = false
+    }
+  }
+
+  // Creates one job per symbol for the current interval slot of each opted-in user
+  async enqueueDueJobs(now: Date = new Date()): Promise<number> {
+    const users = await prisma.user.findMany({
+      where: { isActive: true, scheduledAnalysisEnabled: true },
+      select: { id: true, scheduledAnalysisInterval: true }
+    })
+
+    const marketOpen = isMarketOpen(now)
+    let enqueued = 0
+
+    for (const user of users) {
+      const intervalMs = Math.max(user.scheduledAnalysisInterval, 1) * 60 * 1000
+      const slot = new Date(Math.floor(now.getTime() / intervalMs) * intervalMs)
+      const symbols = (await this.getUserSymbols(user.id))
+        .filter(asset => marketOpen || asset.type === 'CRYPTO')
+        .map(asset => asset.symbol)
+
+      if (symbols.length === 0) continue
+
+      const { count } = await prisma.scheduledJob.createMany({
+        data: symbols.map(symbol => ({
+          userId: user.id,
+          symbol,
+          dedupeKey: `${user.id}:${symbol}:${slot.toISOString()}`,
+          runAt: slot
+        })),
+        skipDuplicates: true
+      })
+      enqueued += count
+    }
+
+    return enqueued
+  }
+
+  private async getUserSymbols(userId: string): Promise<Array<{ symbol: string; type: string }>> {
+    const [watchlistItems, positions] = await Promise.all([
+      prisma.watchlistItem.findMany({
+        where: { watchlist: { userId, isDefault: true } },
+        select: { asset: { select: { symbol: true, type: true } } }
+      }),
+      prisma.portfolioItem.findMany({
+        where: { quantity: { gt: 0 }, portfolio: { userId, isActive: true } },
+        select: { asset: { select: { symbol: true, type: true } } }
+      })
+    ])
+
+    const assets = new Map<string, { symbol: string; type: string }>()
+    for (const { asset } of [...watchlistItems, ...positions]) {
+      assets.set(asset.symbol, asset)
+    }
+    return [...assets.values()]
+  }
+
+  private async runDueJobs() {
+    const outcome = { completed: 0, skipped: 0, failed: 0 }
+    const now = new Date()
+
+    const jobs = await prisma.scheduledJob.findMany({
+      where: {
+        OR: [
+          { status: 'PENDING', runAt: { lte: now } },
+          { status: 'RUNNING', lockedUntil: { lt: now } }
+        ]
+      },
+      orderBy: { runAt: 'asc' },
+      take: MAX_JOBS_PER_TICK
+    })
+
+    for (const [index, job] of jobs.entries()) {
+      // Pause the queue rather than burn attempts while every quote provider is benched
+      if (!this.hasQuoteProvider()) {
+        console.warn('Automation scheduler paused: no quote provider available')
+        break
+      }
+      if (index > 0) await sleep(JOB_SPACING_MS)
+
+      if (!(await this.claim(job.id, job.status))) continue
+
+      try {
+        const result = await this.runJob(job.userId, job.symbol)
+        await prisma.scheduledJob.update({
+          where: { id: job.id },
+          data: { status: 'COMPLETED', result, completedAt: new Date(), lockedBy: null, lockedUntil: null }
+        })
+        outcome.completed++
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+
+        if (error instanceof JobSkippedError) {
+          await prisma.scheduledJob.update({
+            where: { id: job.id },
+            data: { status: 'SKIPPED', lastError: message, completedAt: new Date(), lockedBy: null, lockedUntil: null }
+          })
+          outcome.skipped++
+          continue
+        }
+
+        console.error(`Scheduled analysis for ${job.symbol} failed:`, error)
+        const attempts = job.attempts + 1
+        const exhausted = attempts >= MAX_ATTEMPTS
+
+        await prisma.scheduledJob.update({
+          where: { id: job.id },
+          data: exhausted
+            ? { status: 'FAILED', lastError: message, completedAt: new Date(), lockedBy: null, lockedUntil: null }
+            : { status: 'PENDING', lastError: message, runAt: new Date(Date.now() + RETRY_BASE_MS * Math.pow(2, attempts - 1)), lockedBy: null, lockedUntil: null }
+        })
+
+        if (exhausted) {
+          await prisma.activity.create({
+            data: {
+              userId: job.userId,
+              type: 'AUTOMATION_ERROR',
+              description: `Scheduled analysis for ${job.symbol} failed after ${attempts} attempts`,
+              metadata: { symbol: job.symbol, jobId: job.id, error: message }
+            }
+          })
+        }
+        outcome.failed++
+      }
+    }
+
+    return outcome
+  }
+
+  // Conditional update: only one instance can move a job out of the state it was read in
+  private async claim(jobId: string, status: string): Promise<boolean> {
+    const now = new Date()
+    const { count } = await prisma.scheduledJob.updateMany({
+      where: status === 'RUNNING'
+        ? { id: jobId, status: 'RUNNING', lockedUntil: { lt: now } }
+        : { id: jobId, status: 'PENDING' },
+      data: {
+        status: 'RUNNING',
+        // Counted on claim, so a run lost to a crashed instance still uses up an attempt
+        attempts: { increment: 1 },
+        lockedBy: this.workerId,
+        lockedUntil: new Date(now.getTime() + LOCK_MS)
+      }
+    })
+    return count === 1
+  }
+
+  private async runJob(userId: string, symbol: string) {
+    const [user, asset] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { scheduledAnalysisEnabled: true, maxTradesPerDay: true, tradingMode: true }
+      }),
+      prisma.asset.findUnique({ where: { symbol }, select: { type: true } })
+    ])
+
+    if (!user?.scheduledAnalysisEnabled) {
+      throw new JobSkippedError('Scheduled analysis disabled')
+    }
+    if (asset?.type !== 'CRYPTO' && !isMarketOpen()) {
+      throw new JobSkippedError('Market closed')
+    }
+
+    // Counted the same way the automation engine gates its signals; 0 means unlimited
+    const todayTrades = await riskEngine.countTradesToday(userId, { isSimulated: user.tradingMode === 'PAPER' })
+    if (user.maxTradesPerDay > 0 && todayTrades >= user.maxTradesPerDay) {
+      throw new JobSkippedError('Daily trade limit reached')
+    }
+
+    const result = await automationEngine.generateAutomatedAnalysis(symbol, userId, 'SCHEDULED')
+
+    return {
+      analysisId: result.analysisId,
+      recommendation: result.analysis.recommendation,
+      confidence: result.analysis.confidence,
+      automationTriggered: !!result.automationSignal
+    }
+  }
+
+  private hasQuoteProvider(): boolean {
+    return marketDataService.getProviderHealth().some(provider =>
+      provider.capabilities.includes('quote') && provider.configured && provider.status !== 'COOLING_DOWN'
+    )
+  }
+
+  // Expires work that can no longer run meaningfully, fails jobs abandoned past their last attempt, and prunes history
+  private async cleanup() {
+    const now = Date.now()
+
+    await prisma.scheduledJob.updateMany({
+      where: { status: 'PENDING', runAt: { lt: new Date(now - EXPIRE_PENDING_MS) } },
+      data: { status: 'SKIPPED', lastError: 'Expired before it could run', completedAt: new Date() }
+    })
+    await prisma.scheduledJob.updateMany({
+      where: { status: 'RUNNING', lockedUntil: { lt: new Date() }, attempts: { gte: MAX_ATTEMPTS } },
+      data: { status: 'FAILED', lastError: 'Lock expired on the final attempt', completedAt: new Date(), lockedBy: null, lockedUntil: null }
+    })
+    await prisma.scheduledJob.deleteMany({
+      where: { status: { in: ['COMPLETED', 'SKIPPED', 'FAILED'] }, completedAt: { lt: new Date(now - RETAIN_FINISHED_MS) } }
+    })
+  }
+}
+
+export const automationScheduler = AutomationScheduler.getInstance()
@@ -0,0 +1,319 @@
+import { prisma } from '@/lib/db'
+import { marketDataService } from '@/lib/market-data'
+import { automationEngine } from '@/lib/automation-engine'
+import { buildPerformanceSeries, calculateMetrics } from '@/lib/portfolio-performance'
+
+export interface BacktestParams {
+  symbol: string
+  startDate?: Date
+  endDate?: Date
+  initialCapital?: number
+  buyConfidenceThreshold: number
+  sellConfidenceThreshold: number
+  stopLossPercent: number
+  takeProfitPercent: number
+  maxTradeAmountAuto: number
+  maxTradesPerDay: number
+  riskTolerance: string
+}
+
+export interface BacktestBar {
+  timestamp: Date
+  price: number
+  volume?: number
+}
+
+export interface BacktestTrade {
+  timestamp: Date
+  type: 'BUY' | 'SELL'
+  reason: 'SIGNAL' | 'STOP_LOSS' | 'TAKE_PROFIT'
+  price: number
+  quantity: number
+  amount: number
+  fees: number
+  confidence: number | null
+  realizedPnL: number | null
+}
+
+export interface BacktestEquityPoint {
+  timestamp: Date
+  equity: number
+  cash: number
+  positionValue: number
+}
+
+export interface BacktestSummary {
+  initialCapital: number
+  finalEquity: number
+  totalReturn: number
+  buyAndHoldReturn: number
+  maxDrawdown: number
+  volatility: number
+  sharpeRatio: number | null
+  tradeCount: number
+  closedTrades: number
+  winRate: number | null
+  averageWin: number | null
+  averageLoss: number | null
+  profitFactor: number | null
+  openQuantity: number
+}
+
+export interface BacktestResult {
+  symbol: string
+  source: 'STORED' | 'PROVIDER'
+  bars: number
+  startDate: Date
+  endDate: Date
+  trades: BacktestTrade[]
+  equityCurve: BacktestEquityPoint[]
+  summary: BacktestSummary
+}
+
+export class BacktestError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'BacktestError'
+  }
+}
+
+// Matches the paper-trading fee charged by the trade executor
+const FEE_RATE = 0.001
+// Bars fed to the indicators at each step, enough for the 50-period moving average
+const LOOKBACK_BARS = 60
+const MIN_BARS = 2
+const QUANTITY_EPSILON = 1e-9
+
+interface OpenEntry {
+  quantity: number
+  costPerShare: number
+  stopLossPrice: number
+  takeProfitPrice: number
+}
+
+// Replays price history through the automation signal rules, with technical indicators standing in for the LLM
+export class Backtester {
+  private static instance: Backtester
+
+  static getInstance(): Backtester {
+    if (!Backtester.instance) {
+      Backtester.instance = new Backtester()
+    }
+    return Backtester.instance
+  }
+
+  async run(params: BacktestParams): Promise<BacktestResult> {
+    const symbol = params.symbol.toUpperCase()
+    const { bars, source } = await this.loadBars(symbol, params.startDate, params.endDate)
+
+    if (bars.length < MIN_BARS) {
+      throw new BacktestError(`Not enough price history for ${symbol}`)
+    }
+
+    return this.simulate(symbol, source, bars, params)
+  }
+
+  simulate(symbol: string, source: BacktestResult['source'], bars: BacktestBar[], params: BacktestParams): BacktestResult {
+    const initialCapital = params.initialCapital ?? 100000
+    const trades: BacktestTrade[] = []
+    const equityCurve: BacktestEquityPoint[] = []
+    // Every automated buy gets its own bracket, as in live automation
+    let entries: OpenEntry[] = []
+    let cash = initialCapital
+    const tradesPerDay = new Map<string, number>()
+
+    const sell = (bar: BacktestBar, quantity: number, reason: BacktestTrade['reason'], confidence: number | null, from: OpenEntry[]) => {
+      const amount = quantity * bar.price
+      const fees = amount * FEE_RATE
+      let remaining = quantity
+      let costOfSold = 0
+
+      for (const entry of from) {
+        if (remaining <= QUANTITY_EPSILON) break
+        const take = Math.min(entry.quantity, remaining)
+        costOfSold += take * entry.costPerShare
+        entry.quantity -= take
+        remaining -= take
+      }
+
+      entries = entries.filter(entry => entry.quantity > QUANTITY_EPSILON)
+      cash += amount - fees
+      trades.push({
+        timestamp: bar.timestamp,
+        type: 'SELL',
+        reason,
+        price: bar.price,
+        quantity,
+        amount,
+        fees,
+        confidence,
+        realizedPnL: amount - fees - costOfSold
+      })
+    }
+
+    bars.forEach((bar, index) => {
+      // Brackets are checked before new signals, as the bracket monitor runs independently of analysis
+      for (const entry of [...entries]) {
+        if (bar.price <= entry.stopLossPrice) {
+          sell(bar, entry.quantity, 'STOP_LOSS', null, [entry])
+        } else if (bar.price >= entry.takeProfitPrice) {
+          sell(bar, entry.quantity, 'TAKE_PROFIT', null, [entry])
+        }
+      }
+
+      const history = bars.slice(Math.max(0, index - LOOKBACK_BARS + 1), index + 1)
+      const analysis = this.generateTechnicalAnalysis(history, bar.price, params.riskTolerance)
+      const action = automationEngine.getSignalAction(analysis, params)
+      const day = bar.timestamp.toISOString().slice(0, 10)
+      const tradesToday = tradesPerDay.get(day) || 0
+
+      // Zero means unlimited, as in live automation
+      const atDailyLimit = params.maxTradesPerDay > 0 && tradesToday >= params.maxTradesPerDay
+
+      if (action && !atDailyLimit) {
+        const amount = automationEngine.calculatePositionSize(params.maxTradeAmountAuto, analysis.confidence, params.riskTolerance)
+        const heldQuantity = entries.reduce((sum, entry) => sum + entry.quantity, 0)
+
+        if (action === 'BUY' && amount > 0 && cash >= amount * (1 + FEE_RATE)) {
+          const quantity = amount / bar.price
+          const fees = amount * FEE_RATE
+          cash -= amount + fees
+          entries.push({
+            quantity,
+            costPerShare: (amount + fees) / quantity,
+            stopLossPrice: bar.price * (1 - params.stopLossPercent / 100),
+            takeProfitPrice: bar.price * (1 + params.takeProfitPercent / 100)
+          })
+          trades.push({
+            timestamp: bar.timestamp,
+            type: 'BUY',
+            reason: 'SIGNAL',
+            price: bar.price,
+            quantity,
+            amount,
+            fees,
+            confidence: analysis.confidence,
+            realizedPnL: null
+          })
+          tradesPerDay.set(day, tradesToday + 1)
+        } else if (action === 'SELL' && heldQuantity > QUANTITY_EPSILON) {
+          // Automated sells only reduce existing holdings, oldest entries first
+          sell(bar, Math.min(amount / bar.price, heldQuantity), 'SIGNAL', analysis.confidence, entries)
+          tradesPerDay.set(day, tradesToday + 1)
+        }
+      }
+
+      const positionValue = entries.reduce((sum, entry) => sum + entry.quantity * bar.price, 0)
+      equityCurve.push({
+        timestamp: bar.timestamp,
+        equity: cash + positionValue,
+        cash,
+        positionValue
+      })
+    })
+
+    return {
+      symbol,
+      source,
+      bars: bars.length,
+      startDate: bars[0].timestamp,
+      endDate: bars[bars.length - 1].timestamp,
+      trades,
+      equityCurve,
+      summary: this.summarize(initialCapital, bars, trades, equityCurve, entries)
+    }
+  }
+
+  // Deterministic stand-in for the LLM recommendation, built from the engine's own indicator and confidence logic
+  private generateTechnicalAnalysis(history: BacktestBar[], price: number, riskTolerance: string) {
+    const indicators = automationEngine.calculateAdvancedTechnicalIndicators(history, { price })
+    const sentiment = automationEngine.analyzeAdvancedMarketSentiment([], history)
+    const baseConfidence = automationEngine.calculateRiskAdjustedConfidence({ price }, indicators, sentiment, riskTolerance)
+
+    let score = 0
+    score += price > indicators.movingAverages.ma20 ? 1 : -1
+    score += indicators.movingAverages.ma20 > indicators.movingAverages.ma50 ? 1 : -1
+    score += indicators.macd > 0 ? 1 : indicators.macd < 0 ? -1 : 0
+    if (indicators.rsi < 30) score += 1
+    if (indicators.rsi > 70) score -= 1
+
+    const recommendation = score >= 2 ? 'BUY' : score <= -2 ? 'SELL' : 'HOLD'
+    // The analysis prompt bounds confidence below by the risk-adjusted figure; stronger agreement adds to it
+    const confidence = Math.min(100, baseConfidence + Math.max(0, Math.abs(score) - 2) * 5)
+
+    return { recommendation, confidence, indicators }
+  }
+
+  private summarize(
+    initialCapital: number,
+    bars: BacktestBar[],
+    trades: BacktestTrade[],
+    equityCurve: BacktestEquityPoint[],
+    entries: OpenEntry[]
+  ): BacktestSummary {
+    const series = buildPerformanceSeries(equityCurve.map(point => ({
+      date: point.timestamp,
+      totalValue: point.equity,
+      cashFlow: 0
+    })))
+    const metrics = calculateMetrics(series)
+
+    const closed = trades.filter(trade => trade.realizedPnL !== null)
+    const wins = closed.filter(trade => trade.realizedPnL! > 0)
+    const losses = closed.filter(trade => trade.realizedPnL! <= 0)
+    const grossProfit = wins.reduce((sum, trade) => sum + trade.realizedPnL!, 0)
+    const grossLoss = Math.abs(losses.reduce((sum, trade) => sum + trade.realizedPnL!, 0))
+    const finalEquity = equityCurve[equityCurve.length - 1]?.equity ?? initialCapital
+
+    return {
+      initialCapital,
+      finalEquity,
+      totalReturn: finalEquity / initialCapital - 1,
+      buyAndHoldReturn: bars[bars.length - 1].price / bars[0].price - 1,
+      maxDrawdown: metrics.maxDrawdown,
+      volatility: metrics.volatility,
+      sharpeRatio: metrics.sharpeRatio,
+      tradeCount: trades.length,
+      closedTrades: closed.length,
+      winRate: closed.length > 0 ? wins.length / closed.length : null,
+      averageWin: wins.length > 0 ? grossProfit / wins.length : null,
+      averageLoss: losses.length > 0 ? -grossLoss / losses.length : null,
+      profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+      openQuantity: entries.reduce((sum, entry) => sum + entry.quantity, 0)
+    }
+  }
+
+  // Stored prices are preferred; the market data provider fills in when too little has been recorded
+  private async loadBars(symbol: string, startDate?: Date, endDate?: Date): Promise<{ bars: BacktestBar[]; source: BacktestResult['source'] }> {
+    const stored = await prisma.assetPrice.findMany({
+      where: {
+        asset: { symbol },
+        timestamp: {
+          ...(startDate && { gte: startDate }),
+          ...(endDate && { lte: endDate })
+        }
+      },
+      orderBy: { timestamp: 'asc' }
+    })
+
+    if (stored.length >= LOOKBACK_BARS) {
+      return {
+        source: 'STORED',
+        bars: stored.map(price => ({
+          timestamp: price.timestamp,
+          price: price.price,
+          volume: price.volume !== null ? Number(price.volume) : undefined
+        }))
+      }
+    }
+
+    const history = await marketDataService.getPriceHistory(symbol, '1M')
+    const bars = history
+      .filter(point => (!startDate || point.timestamp >= startDate) && (!endDate || point.timestamp <= endDate))
+      .map(point => ({ timestamp: point.timestamp, price: point.price }))
+
+    return { source: 'PROVIDER', bars }
+  }
+}
+
+export const backtester = Backtester.getInstance()
@@ -0,0 +1,377 @@
+import type { Trade } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { marketDataService } from '@/lib/market-data'
+import { liveTrading } from '@/lib/live-trading'
+import { tradeExecutor, TradeExecutionError } from '@/lib/trade-executor'
+
+export interface CreateBracketParams {
+  userId: string
+  portfolioId: string
+  portfolioItemId?: string | null
+  assetId: string
+  entryTradeId: string
+  quantity: number
+  entryPrice: number
+  stopLossPercent: number
+  takeProfitPercent: number
+  // The entry is still working at the broker; the bracket opens at its fill price once booked
+  awaitingFill?: boolean
+}
+
+export interface OpenBracketSummary {
+  id: string
+  symbol: string
+  quantity: number
+  entryPrice: number
+  currentPrice: number | null
+  stopLossPrice: number
+  takeProfitPrice: number
+  stopLossDistancePercent: number | null
+  takeProfitDistancePercent: number | null
+  createdAt: Date
+}
+
+type BracketLeg = 'STOP_LOSS' | 'TAKE_PROFIT'
+
+// Stop-loss / take-profit bracket orders for long positions, filled one-cancels-other
+export class BracketOrderManager {
+  private static instance: BracketOrderManager
+  private timer: NodeJS.Timeout | null = null
+  private isEvaluating = false
+
+  private readonly DEFAULT_INTERVAL = 60 * 1000 // 1 minute
+
+  private constructor() {
+    // Live entries and exits fill asynchronously; the reconciler reports them as they settle
+    liveTrading.onOrderSettled(trade => this.handleSettledTrade(trade))
+  }
+
+  static getInstance(): BracketOrderManager {
+    if (!BracketOrderManager.instance) {
+      BracketOrderManager.instance = new BracketOrderManager()
+    }
+    return BracketOrderManager.instance
+  }
+
+  start(intervalMs: number = this.DEFAULT_INTERVAL) {
+    if (this.timer) return
+
+    console.log(`Bracket order monitor started with ${intervalMs}ms interval`)
+    this.timer = setInterval(() => {
+      this.evaluateOpenBrackets().catch(error => {
+        console.error('Scheduled bracket evaluation failed:', error)
+      })
+    }, intervalMs)
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  async createBracket(params: CreateBracketParams) {
+    const bracket = await prisma.bracketOrder.create({
+      data: {
+        userId: params.userId,
+        portfolioId: params.portfolioId,
+        portfolioItemId: params.portfolioItemId || null,
+        assetId: params.assetId,
+        entryTradeId: params.entryTradeId,
+        quantity: params.quantity,
+        entryPrice: params.entryPrice,
+        stopLossPrice: params.entryPrice * (1 - params.stopLossPercent / 100),
+        takeProfitPrice: params.entryPrice * (1 + params.takeProfitPercent / 100),
+        status: params.awaitingFill ? 'PENDING' : 'OPEN'
+      }
+    })
+    if (!params.awaitingFill) return bracket
+
+    // The entry may have been booked while the bracket was being written
+    const entry = await prisma.trade.findUniqueOrThrow({ where: { id: params.entryTradeId } })
+    if (entry.status === 'PENDING') return bracket
+
+    await this.handleSettledTrade(entry)
+    return prisma.bracketOrder.findUniqueOrThrow({ where: { id: bracket.id } })
+  }
+
+  // Opens a bracket once its live entry is booked and closes one once its live exit is
+  async handleSettledTrade(trade: Trade) {
+    if (trade.status === 'PENDING') return
+    const filled = trade.status === 'COMPLETED'
+
+    const entering = await prisma.bracketOrder.findFirst({ where: { entryTradeId: trade.id, status: 'PENDING' } })
+    if (entering) {
+      if (filled) {
+        // Stop and target keep their distance from the entry, measured from the fill rather than the quote
+        const scale = trade.price / entering.entryPrice
+        const position = await prisma.portfolioItem.findUnique({
+          where: { portfolioId_assetId: { portfolioId: entering.portfolioId, assetId: entering.assetId } }
+        })
+        await prisma.bracketOrder.updateMany({
+          where: { id: entering.id, status: 'PENDING' },
+          data: {
+            status: 'OPEN',
+            portfolioItemId: position?.id ?? null,
+            quantity: trade.quantity,
+            entryPrice: trade.price,
+            stopLossPrice: entering.stopLossPrice * scale,
+            takeProfitPrice: entering.takeProfitPrice * scale
+          }
+        })
+      } else {
+        await prisma.bracketOrder.updateMany({
+          where: { id: entering.id, status: 'PENDING' },
+          data: {
+            status: 'CANCELLED',
+            stopLossStatus: 'CANCELLED',
+            takeProfitStatus: 'CANCELLED',
+            closeReason: 'ENTRY_CANCELLED',
+            closedAt: new Date()
+          }
+        })
+      }
+    }
+
+    const exiting = await prisma.bracketOrder.findFirst({ where: { exitTradeId: trade.id, status: 'TRIGGERED' } })
+    if (exiting) {
+      if (filled) {
+        await prisma.bracketOrder.updateMany({
+          where: { id: exiting.id, status: 'TRIGGERED' },
+          data: {
+            status: 'CLOSED',
+            stopLossStatus: exiting.closeReason === 'STOP_LOSS' ? 'FILLED' : 'CANCELLED',
+            takeProfitStatus: exiting.closeReason === 'TAKE_PROFIT' ? 'FILLED' : 'CANCELLED',
+            closedAt: new Date()
+          }
+        })
+      } else {
+        // The broker dropped the exit unfilled, so the bracket goes back to watching the price
+        await prisma.bracketOrder.updateMany({
+          where: { id: exiting.id, status: 'TRIGGERED' },
+          data: { status: 'OPEN', exitTradeId: null, closeReason: null }
+        })
+      }
+    }
+  }
+
+  async evaluateOpenBrackets(): Promise<{ evaluated: number; filled: number }> {
+    if (this.isEvaluating) {
+      return { evaluated: 0, filled: 0 }
+    }
+
+    this.isEvaluating = true
+
+    try {
+      await this.settleAwaitingBrackets()
+
+      const brackets = await prisma.bracketOrder.findMany({
+        where: { status: 'OPEN' },
+        include: { asset: true }
+      })
+
+      const prices = await this.getCurrentPrices(brackets.map(b => b.asset.symbol))
+      let filled = 0
+
+      for (const bracket of brackets) {
+        const currentPrice = prices.get(bracket.asset.symbol)
+        if (currentPrice === undefined) continue
+
+        const leg = this.getTriggeredLeg(bracket, currentPrice)
+        if (leg && await this.fillLeg(bracket, leg, currentPrice)) {
+          filled++
+        }
+      }
+
+      return { evaluated: brackets.length, filled }
+    } finally {
+      this.isEvaluating = false
+    }
+  }
+
+  async getOpenBrackets(userId: string): Promise<OpenBracketSummary[]> {
+    const brackets = await prisma.bracketOrder.findMany({
+      where: { userId, status: 'OPEN' },
+      include: { asset: true },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    const prices = await this.getCurrentPrices(brackets.map(b => b.asset.symbol))
+
+    return brackets.map(bracket => {
+      const currentPrice = prices.get(bracket.asset.symbol) ?? null
+
+      return {
+        id: bracket.id,
+        symbol: bracket.asset.symbol,
+        quantity: bracket.quantity,
+        entryPrice: bracket.entryPrice,
+        currentPrice,
+        stopLossPrice: bracket.stopLossPrice,
+        takeProfitPrice: bracket.takeProfitPrice,
+        // Percentage move still required before each leg fires
+        stopLossDistancePercent: currentPrice ? ((currentPrice - bracket.stopLossPrice) / currentPrice) * 100 : null,
+        takeProfitDistancePercent: currentPrice ? ((bracket.takeProfitPrice - currentPrice) / currentPrice) * 100 : null,
+        createdAt: bracket.createdAt
+      }
+    })
+  }
+
+  // Catches settlements made by a process in which this module never registered with the reconciler
+  private async settleAwaitingBrackets() {
+    const waiting = await prisma.bracketOrder.findMany({
+      where: {
+        OR: [
+          { status: 'PENDING', entryTrade: { status: { not: 'PENDING' } } },
+          { status: 'TRIGGERED', exitTrade: { status: { not: 'PENDING' } } }
+        ]
+      },
+      include: { entryTrade: true, exitTrade: true }
+    })
+
+    for (const bracket of waiting) {
+      await this.handleSettledTrade(bracket.status === 'PENDING' ? bracket.entryTrade : bracket.exitTrade!)
+    }
+  }
+
+  private async getCurrentPrices(symbols: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>()
+
+    for (const symbol of [...new Set(symbols)]) {
+      const assetData = await marketDataService.getAssetDetails(symbol)
+      if (assetData?.price) {
+        prices.set(symbol, assetData.price)
+      }
+    }
+
+    return prices
+  }
+
+  private getTriggeredLeg(bracket: { stopLossPrice: number; takeProfitPrice: number }, currentPrice: number): BracketLeg | null {
+    if (currentPrice <= bracket.stopLossPrice) return 'STOP_LOSS'
+    if (currentPrice >= bracket.takeProfitPrice) return 'TAKE_PROFIT'
+    return null
+  }
+
+  private async fillLeg(bracket: any, leg: BracketLeg, triggerPrice: number): Promise<boolean> {
+    // Claim the bracket first so a concurrent pass cannot fill the sibling leg
+    const claimed = await prisma.bracketOrder.updateMany({
+      where: { id: bracket.id, status: 'OPEN' },
+      data: { status: 'TRIGGERED' }
+    })
+
+    if (claimed.count === 0) return false
+
+    const symbol = bracket.asset.symbol
+    const legLabel = leg === 'STOP_LOSS' ? 'Stop-loss' : 'Take-profit'
+    let trade: Trade
+
+    try {
+      const position = bracket.portfolioItemId
+        ? await prisma.portfolioItem.findUnique({ where: { id: bracket.portfolioItemId } })
+        : null
+
+      // Manual sells may have shrunk the position since the bracket was placed
+      const quantity = Math.min(bracket.quantity, position?.quantity ?? 0)
+      if (quantity <= 0) {
+        await this.closeBracket(bracket.id, {
+          status: 'CANCELLED',
+          stopLossStatus: 'CANCELLED',
+          takeProfitStatus: 'CANCELLED',
+          closeReason: 'POSITION_CLOSED'
+        })
+        return false
+      }
+
+      const execution = await tradeExecutor.executeTrade({
+        userId: bracket.userId,
+        portfolioId: bracket.portfolioId,
+        symbol,
+        type: 'SELL',
+        quantity,
+        activityType: 'RISK_MANAGEMENT_TRIGGERED',
+        activityDescription: `${legLabel} filled for ${symbol}: sold ${quantity} shares`,
+        activityMetadata: {
+          bracketOrderId: bracket.id,
+          leg,
+          triggerPrice,
+          stopLossPrice: bracket.stopLossPrice,
+          takeProfitPrice: bracket.takeProfitPrice
+        }
+      })
+      trade = execution.trade
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+
+      // Rejections such as an archived portfolio or too few shares would fail the same way every pass
+      if (error instanceof TradeExecutionError && error.status >= 400 && error.status < 500) {
+        await this.closeBracket(bracket.id, {
+          status: 'CANCELLED',
+          stopLossStatus: 'CANCELLED',
+          takeProfitStatus: 'CANCELLED',
+          closeReason: 'FILL_REJECTED'
+        })
+        await prisma.activity.create({
+          data: {
+            userId: bracket.userId,
+            type: 'AUTOMATION_ERROR',
+            description: `${legLabel} order failed for ${symbol}; its bracket was cancelled`,
+            metadata: { bracketOrderId: bracket.id, leg, triggerPrice, error: message }
+          }
+        })
+        return false
+      }
+
+      console.error(`Bracket ${bracket.id} ${leg} fill failed:`, error)
+
+      // Release the claim so the next pass can retry
+      await prisma.bracketOrder.update({
+        where: { id: bracket.id },
+        data: { status: 'OPEN' }
+      })
+      return false
+    }
+
+    // A live exit still working at the broker is closed once its fill is booked
+    if (trade.status === 'PENDING') {
+      await prisma.bracketOrder.update({
+        where: { id: bracket.id },
+        data: { exitTradeId: trade.id, closeReason: leg }
+      })
+      const exit = await prisma.trade.findUniqueOrThrow({ where: { id: trade.id } })
+      if (exit.status !== 'PENDING') {
+        await this.handleSettledTrade(exit)
+      }
+      return false
+    }
+
+    await this.closeBracket(bracket.id, {
+      status: 'CLOSED',
+      stopLossStatus: leg === 'STOP_LOSS' ? 'FILLED' : 'CANCELLED',
+      takeProfitStatus: leg === 'TAKE_PROFIT' ? 'FILLED' : 'CANCELLED',
+      closeReason: leg,
+      exitTradeId: trade.id
+    })
+
+    return true
+  }
+
+  private async closeBracket(id: string, data: {
+    status: string
+    stopLossStatus: string
+    takeProfitStatus: string
+    closeReason: string
+    exitTradeId?: string
+  }) {
+    await prisma.bracketOrder.update({
+      where: { id },
+      data: {
+        ...data,
+        closedAt: new Date()
+      }
+    })
+  }
+}
+
+export const bracketOrderManager = BracketOrderManager.getInstance()
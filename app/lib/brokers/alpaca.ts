@@ -0,0 +1,178 @@
+import axios, { type Method } from 'axios'
+import { isCryptoSymbol } from '@/lib/market-providers'
+import {
+  BrokerError,
+  type BrokerAccount,
+  type BrokerAdapter,
+  type BrokerFill,
+  type BrokerOrder,
+  type BrokerOrderRequest,
+  type BrokerOrderStatus,
+  type BrokerOrderType,
+  type BrokerPosition,
+  type BrokerTimeInForce
+} from './types'
+
+// Paper endpoint by default; live trading is an explicit ALPACA_TRADE_BASE_URL opt-in
+const DEFAULT_BASE_URL = 'https://paper-api.alpaca.markets'
+
+const ORDER_STATUSES: Record<string, BrokerOrderStatus> = {
+  partially_filled: 'PARTIALLY_FILLED',
+  filled: 'FILLED',
+  canceled: 'CANCELLED',
+  expired: 'EXPIRED',
+  rejected: 'REJECTED',
+  suspended: 'REJECTED'
+}
+
+const toNumber = (value: unknown): number => parseFloat(String(value ?? 0)) || 0
+const toNullableNumber = (value: unknown): number | null => value === null || value === undefined ? null : toNumber(value)
+const toDate = (value: unknown): Date | null => value ? new Date(String(value)) : null
+
+// Orders, positions, account and fill activities over the Alpaca trading REST API
+export class AlpacaBroker implements BrokerAdapter {
+  name = 'alpaca'
+
+  isConfigured(): boolean {
+    return !!process.env.ALPACA_API_KEY_ID && !!process.env.ALPACA_API_SECRET_KEY
+  }
+
+  async getAccount(): Promise<BrokerAccount> {
+    const account = await this.request('GET', '/v2/account')
+    return {
+      id: account.id,
+      status: account.status,
+      currency: account.currency,
+      cash: toNumber(account.cash),
+      buyingPower: toNumber(account.buying_power),
+      equity: toNumber(account.equity)
+    }
+  }
+
+  async getPositions(): Promise<BrokerPosition[]> {
+    const positions = await this.request('GET', '/v2/positions')
+    return positions.map((position: any) => ({
+      symbol: this.fromBrokerSymbol(position.symbol, position.asset_class),
+      quantity: toNumber(position.qty),
+      avgEntryPrice: toNumber(position.avg_entry_price),
+      marketValue: toNumber(position.market_value),
+      unrealizedPnL: toNumber(position.unrealized_pl)
+    }))
+  }
+
+  async submitOrder(order: BrokerOrderRequest): Promise<BrokerOrder> {
+    const crypto = isCryptoSymbol(order.symbol)
+    const body: Record<string, any> = {
+      symbol: this.toBrokerSymbol(order.symbol),
+      qty: String(order.quantity),
+      side: order.side.toLowerCase(),
+      type: order.orderType.toLowerCase(),
+      // Crypto trades around the clock, so Alpaca only accepts GTC and IOC for it
+      time_in_force: crypto && (order.timeInForce === 'DAY' || order.timeInForce === 'FOK') ? 'gtc' : order.timeInForce.toLowerCase(),
+      client_order_id: order.clientOrderId
+    }
+    if (order.limitPrice !== undefined) body.limit_price = String(order.limitPrice)
+    if (order.stopPrice !== undefined) body.stop_price = String(order.stopPrice)
+
+    return this.toOrder(await this.request('POST', '/v2/orders', { data: body }))
+  }
+
+  async getOrder(orderId: string): Promise<BrokerOrder> {
+    return this.toOrder(await this.request('GET', `/v2/orders/${encodeURIComponent(orderId)}`))
+  }
+
+  async cancelOrder(orderId: string): Promise<void> {
+    await this.request('DELETE', `/v2/orders/${encodeURIComponent(orderId)}`)
+  }
+
+  async listOrders(params: { status?: 'open' | 'closed' | 'all'; after?: Date; limit?: number } = {}): Promise<BrokerOrder[]> {
+    const orders = await this.request('GET', '/v2/orders', {
+      params: {
+        status: params.status || 'all',
+        limit: params.limit || 100,
+        direction: 'desc',
+        ...(params.after && { after: params.after.toISOString() })
+      }
+    })
+    return orders.map((order: any) => this.toOrder(order))
+  }
+
+  async getFills(params: { after?: Date } = {}): Promise<BrokerFill[]> {
+    const activities = await this.request('GET', '/v2/account/activities/FILL', {
+      params: params.after ? { after: params.after.toISOString() } : {}
+    })
+    return activities.map((activity: any) => ({
+      id: activity.id,
+      orderId: activity.order_id,
+      symbol: this.fromBrokerSymbol(activity.symbol),
+      side: activity.side === 'sell' ? 'SELL' : 'BUY',
+      quantity: toNumber(activity.qty),
+      price: toNumber(activity.price),
+      partial: activity.type === 'partial_fill',
+      executedAt: new Date(activity.transaction_time)
+    }))
+  }
+
+  private toOrder(order: any): BrokerOrder {
+    return {
+      id: order.id,
+      clientOrderId: order.client_order_id,
+      symbol: this.fromBrokerSymbol(order.symbol, order.asset_class),
+      side: order.side === 'sell' ? 'SELL' : 'BUY',
+      quantity: toNumber(order.qty),
+      orderType: String(order.type || order.order_type).toUpperCase() as BrokerOrderType,
+      timeInForce: String(order.time_in_force).toUpperCase() as BrokerTimeInForce,
+      limitPrice: toNullableNumber(order.limit_price),
+      stopPrice: toNullableNumber(order.stop_price),
+      status: ORDER_STATUSES[order.status] || 'OPEN',
+      brokerStatus: order.status,
+      filledQuantity: toNumber(order.filled_qty),
+      filledAvgPrice: toNullableNumber(order.filled_avg_price),
+      submittedAt: toDate(order.submitted_at),
+      filledAt: toDate(order.filled_at)
+    }
+  }
+
+  // Alpaca quotes crypto as pairs against USD; the app keys assets by the bare coin symbol
+  private toBrokerSymbol(symbol: string): string {
+    const upper = symbol.toUpperCase()
+    if (!isCryptoSymbol(upper) || upper.includes('/')) return upper
+    return `${upper.replace(/USDT?$/, '')}/USD`
+  }
+
+  private fromBrokerSymbol(symbol: string, assetClass?: string): string {
+    const upper = String(symbol).toUpperCase()
+    if (upper.includes('/')) return upper.split('/')[0]
+    if (assetClass === 'crypto') return upper.replace(/USDT?$/, '')
+    return upper
+  }
+
+  private async request(method: Method, path: string, options: { params?: Record<string, any>; data?: any } = {}) {
+    if (!this.isConfigured()) {
+      throw new BrokerError('Alpaca API credentials are not configured', 503)
+    }
+
+    try {
+      const response = await axios.request({
+        method,
+        url: `${process.env.ALPACA_TRADE_BASE_URL || DEFAULT_BASE_URL}${path}`,
+        headers: {
+          'APCA-API-KEY-ID': process.env.ALPACA_API_KEY_ID,
+          'APCA-API-SECRET-KEY': process.env.ALPACA_API_SECRET_KEY
+        },
+        params: options.params,
+        data: options.data,
+        timeout: 10000
+      })
+      return response.data
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        const status = error.response.status
+        const message = error.response.data?.message || `Alpaca request failed with status ${status}`
+        // Client errors (rejected orders, unknown ids) pass through; anything else is the broker's fault
+        throw new BrokerError(message, status >= 400 && status < 500 ? status : 502)
+      }
+      throw new BrokerError(error instanceof Error ? `Alpaca request failed: ${error.message}` : 'Alpaca request failed')
+    }
+  }
+}
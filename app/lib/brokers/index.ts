@@ -0,0 +1,29 @@
+import { AlpacaBroker } from './alpaca'
+import type { BrokerAdapter } from './types'
+
+export * from './types'
+export { AlpacaBroker } from './alpaca'
+
+let broker: BrokerAdapter | null | undefined
+
+/**
+ * Returns the broker live portfolios trade through, or null when none is configured.
+ * BROKER selects the adapter (only `alpaca` today); point ALPACA_TRADE_BASE_URL at
+ * scripts/mock-broker.ts to exercise live trading without network access.
+ */
+export function getBroker(): BrokerAdapter | null {
+  if (broker === undefined) {
+    broker = createBroker((process.env.BROKER || 'alpaca').trim().toLowerCase())
+  }
+  return broker?.isConfigured() ? broker : null
+}
+
+function createBroker(name: string): BrokerAdapter | null {
+  switch (name) {
+    case 'alpaca':
+      return new AlpacaBroker()
+    default:
+      console.warn(`Unknown broker: ${name}`)
+      return null
+  }
+}
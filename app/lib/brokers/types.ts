@@ -0,0 +1,87 @@
+export type BrokerOrderSide = 'BUY' | 'SELL'
+export type BrokerOrderType = 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT'
+export type BrokerTimeInForce = 'DAY' | 'GTC' | 'IOC' | 'FOK'
+
+// OPEN covers every state in which the order can still fill; the rest are final
+export type BrokerOrderStatus = 'OPEN' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELLED' | 'EXPIRED' | 'REJECTED'
+
+export const FINAL_ORDER_STATUSES: BrokerOrderStatus[] = ['FILLED', 'CANCELLED', 'EXPIRED', 'REJECTED']
+
+export interface BrokerOrderRequest {
+  symbol: string
+  side: BrokerOrderSide
+  quantity: number
+  orderType: BrokerOrderType
+  timeInForce: BrokerTimeInForce
+  limitPrice?: number
+  stopPrice?: number
+  // Our Trade id, so a retried submit cannot place the order twice
+  clientOrderId: string
+}
+
+export interface BrokerOrder {
+  id: string
+  clientOrderId: string
+  symbol: string
+  side: BrokerOrderSide
+  quantity: number
+  orderType: BrokerOrderType
+  timeInForce: BrokerTimeInForce
+  limitPrice: number | null
+  stopPrice: number | null
+  status: BrokerOrderStatus
+  // Raw status as reported by the broker, kept for diagnostics
+  brokerStatus: string
+  filledQuantity: number
+  filledAvgPrice: number | null
+  submittedAt: Date | null
+  filledAt: Date | null
+}
+
+export interface BrokerPosition {
+  symbol: string
+  quantity: number
+  avgEntryPrice: number
+  marketValue: number
+  unrealizedPnL: number
+}
+
+export interface BrokerAccount {
+  id: string
+  status: string
+  currency: string
+  cash: number
+  buyingPower: number
+  equity: number
+}
+
+export interface BrokerFill {
+  id: string
+  orderId: string
+  symbol: string
+  side: BrokerOrderSide
+  quantity: number
+  price: number
+  // True for a fill that left part of the order open
+  partial: boolean
+  executedAt: Date
+}
+
+export interface BrokerAdapter {
+  name: string
+  isConfigured(): boolean
+  getAccount(): Promise<BrokerAccount>
+  getPositions(): Promise<BrokerPosition[]>
+  submitOrder(order: BrokerOrderRequest): Promise<BrokerOrder>
+  getOrder(orderId: string): Promise<BrokerOrder>
+  cancelOrder(orderId: string): Promise<void>
+  listOrders(params?: { status?: 'open' | 'closed' | 'all'; after?: Date; limit?: number }): Promise<BrokerOrder[]>
+  getFills(params?: { after?: Date }): Promise<BrokerFill[]>
+}
+
+export class BrokerError extends Error {
+  constructor(message: string, public status: number = 502) {
+    super(message)
+    this.name = 'BrokerError'
+  }
+}
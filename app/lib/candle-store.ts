@@ -0,0 +1,403 @@
+import { prisma } from '@/lib/db'
+import { isMarketOpen, getTradingDay } from '@/lib/market-hours'
+import { marketDataService, type CandleData, type CandleResolution, type PricePoint } from '@/lib/market-data'
+import { isCryptoSymbol } from '@/lib/market-providers'
+
+export type HistoryRange = '1D' | '1W' | '1M' | '3M' | 'YTD' | '1Y' | 'Max'
+// Weekly candles are aggregated from the stored daily ones
+export type HistoryResolution = CandleResolution | '1w'
+
+export interface HistoryCandle extends CandleData {
+  // provider: fetched and stored; snapshot: built from recorded quotes; filled: carried across a gap
+  source: 'provider' | 'snapshot' | 'filled'
+}
+
+export interface CandleHistoryRequest {
+  range?: HistoryRange
+  resolution?: HistoryResolution
+  // Explicit bounds override the range
+  from?: Date
+  to?: Date
+  fill?: boolean
+}
+
+export interface CandleHistory {
+  symbol: string
+  resolution: HistoryResolution
+  from: Date
+  to: Date
+  candles: HistoryCandle[]
+}
+
+export class CandleStoreError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'CandleStoreError'
+  }
+}
+
+export const HISTORY_RANGES: HistoryRange[] = ['1D', '1W', '1M', '3M', 'YTD', '1Y', 'Max']
+export const HISTORY_RESOLUTIONS: HistoryResolution[] = ['5m', '15m', '1h', '1d', '1w']
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+const RESOLUTION_MS: Record<HistoryResolution, number> = {
+  '5m': 5 * MINUTE_MS,
+  '15m': 15 * MINUTE_MS,
+  '1h': 60 * MINUTE_MS,
+  '1d': DAY_MS,
+  '1w': 7 * DAY_MS
+}
+
+const DEFAULT_RESOLUTIONS: Record<HistoryRange, HistoryResolution> = {
+  '1D': '5m',
+  '1W': '1h',
+  '1M': '1h',
+  '3M': '1d',
+  'YTD': '1d',
+  '1Y': '1d',
+  'Max': '1w'
+}
+
+// Caps a single response, and so a single provider backfill
+const MAX_BUCKETS = 2000
+// Explicit bounds without a resolution get the finest one that stays under this many buckets
+const TARGET_BUCKETS = 500
+const MAX_HISTORY_YEARS = 20
+// The newest stored bucket may still have been forming when fetched, so it is refetched at most this often
+const MAX_REFRESH_MS = 60 * MINUTE_MS
+
+// Daily buckets are keyed by midnight UTC of the trading date and weeks start on Monday
+function floorBucket(date: Date, resolution: HistoryResolution): Date {
+  if (resolution === '1w') {
+    const day = Math.floor(date.getTime() / DAY_MS)
+    const weekday = (new Date(day * DAY_MS).getUTCDay() + 6) % 7
+    return new Date((day - weekday) * DAY_MS)
+  }
+
+  const step = RESOLUTION_MS[resolution]
+  return new Date(Math.floor(date.getTime() / step) * step)
+}
+
+function rangeStart(range: HistoryRange, to: Date, crypto: boolean): Date {
+  const start = new Date(to)
+
+  switch (range) {
+    case '1D': {
+      if (crypto) return new Date(to.getTime() - DAY_MS)
+      // Stocks show the latest session, which on weekends is Friday's
+      const day = getTradingDay(to)
+      while (day.getUTCDay() === 0 || day.getUTCDay() === 6) {
+        day.setUTCDate(day.getUTCDate() - 1)
+      }
+      return day
+    }
+    case '1W':
+      return new Date(to.getTime() - 7 * DAY_MS)
+    case '1M':
+      start.setUTCMonth(start.getUTCMonth() - 1)
+      return start
+    case '3M':
+      start.setUTCMonth(start.getUTCMonth() - 3)
+      return start
+    case 'YTD':
+      return new Date(Date.UTC(to.getUTCFullYear(), 0, 1))
+    case '1Y':
+      start.setUTCFullYear(start.getUTCFullYear() - 1)
+      return start
+    case 'Max':
+      start.setUTCFullYear(start.getUTCFullYear() - MAX_HISTORY_YEARS)
+      return start
+  }
+}
+
+// Stocks have no bars outside the regular session or at weekends, so those are not gaps
+function isTradingBucket(bucket: Date, resolution: HistoryResolution): boolean {
+  if (resolution === '1w') return true
+  if (resolution === '1d') {
+    const day = bucket.getUTCDay()
+    return day >= 1 && day <= 5
+  }
+
+  const lastMinute = new Date(bucket.getTime() + RESOLUTION_MS[resolution] - MINUTE_MS)
+  return isMarketOpen(bucket) || isMarketOpen(lastMinute)
+}
+
+function aggregate(candles: HistoryCandle[], resolution: HistoryResolution): HistoryCandle[] {
+  const buckets = new Map<number, HistoryCandle>()
+
+  for (const candle of candles) {
+    const key = floorBucket(candle.timestamp, resolution).getTime()
+    const bucket = buckets.get(key)
+
+    if (!bucket) {
+      buckets.set(key, { ...candle, timestamp: new Date(key) })
+      continue
+    }
+
+    bucket.high = Math.max(bucket.high, candle.high)
+    bucket.low = Math.min(bucket.low, candle.low)
+    bucket.close = candle.close
+    bucket.volume = bucket.volume === null || candle.volume === null ? bucket.volume ?? candle.volume : bucket.volume + candle.volume
+    if (candle.source === 'provider') bucket.source = 'provider'
+  }
+
+  return [...buckets.values()].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+}
+
+function fillGaps(candles: HistoryCandle[], resolution: HistoryResolution, crypto: boolean): HistoryCandle[] {
+  const step = RESOLUTION_MS[resolution]
+  const filled: HistoryCandle[] = []
+
+  candles.forEach((candle, index) => {
+    filled.push(candle)
+    const next = candles[index + 1]
+    if (!next) return
+
+    // Carry the last close forward until the next real bar
+    for (let time = candle.timestamp.getTime() + step; time < next.timestamp.getTime(); time += step) {
+      const bucket = floorBucket(new Date(time), resolution)
+      if (!crypto && !isTradingBucket(bucket, resolution)) continue
+
+      filled.push({
+        timestamp: bucket,
+        open: candle.close,
+        high: candle.close,
+        low: candle.close,
+        close: candle.close,
+        volume: 0,
+        source: 'filled'
+      })
+    }
+  })
+
+  return filled
+}
+
+/**
+ * OHLCV history backed by the Candle table. Each request first backfills only the part of the window
+ * the asset's CandleSeries does not cover yet, plus a throttled refresh of the newest bucket,
+ * then serves stored candles with recorded quote snapshots filling buckets providers had nothing for.
+ */
+export class CandleStore {
+  private static instance: CandleStore
+
+  static getInstance(): CandleStore {
+    if (!CandleStore.instance) {
+      CandleStore.instance = new CandleStore()
+    }
+    return CandleStore.instance
+  }
+
+  async getHistory(symbol: string, request: CandleHistoryRequest = {}): Promise<CandleHistory> {
+    const upper = symbol.toUpperCase()
+    const asset = await this.findOrCreateAsset(upper)
+
+    const crypto = asset.type === 'CRYPTO' || isCryptoSymbol(upper)
+    const { resolution, from, to } = this.resolveWindow(request, crypto)
+    const baseResolution: CandleResolution = resolution === '1w' ? '1d' : resolution
+    const bucketFrom = floorBucket(from, baseResolution)
+
+    await this.backfill(asset.id, upper, baseResolution, bucketFrom, to)
+
+    const [stored, snapshots] = await Promise.all([
+      prisma.candle.findMany({
+        where: { assetId: asset.id, resolution: baseResolution, timestamp: { gte: bucketFrom, lte: to } },
+        orderBy: { timestamp: 'asc' }
+      }),
+      prisma.assetPrice.findMany({
+        where: { assetId: asset.id, timestamp: { gte: bucketFrom, lte: to } },
+        select: { price: true, timestamp: true },
+        orderBy: { timestamp: 'asc' }
+      })
+    ])
+
+    const buckets = new Map<number, HistoryCandle>()
+    for (const candle of stored) {
+      buckets.set(candle.timestamp.getTime(), {
+        timestamp: candle.timestamp,
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        volume: candle.volume,
+        source: 'provider'
+      })
+    }
+
+    // Quotes the app recorded cover buckets no provider returned; their volume is a daily total so it is dropped
+    const snapshotCandles = aggregate(snapshots.map(snapshot => ({
+      timestamp: snapshot.timestamp,
+      open: snapshot.price,
+      high: snapshot.price,
+      low: snapshot.price,
+      close: snapshot.price,
+      volume: null,
+      source: 'snapshot' as const
+    })), baseResolution)
+    for (const candle of snapshotCandles) {
+      if (!buckets.has(candle.timestamp.getTime())) {
+        buckets.set(candle.timestamp.getTime(), candle)
+      }
+    }
+
+    let candles = [...buckets.values()].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    if (resolution !== baseResolution) {
+      candles = aggregate(candles, resolution)
+    }
+    if (request.fill ?? true) {
+      candles = fillGaps(candles, resolution, crypto)
+    }
+
+    return { symbol: upper, resolution, from, to, candles }
+  }
+
+  // Close prices for line charts, falling back to the provider's own history when nothing is stored or fetchable
+  async getClosePoints(symbol: string, range: HistoryRange): Promise<PricePoint[]> {
+    try {
+      const { candles } = await this.getHistory(symbol, { range })
+      if (candles.length > 0) {
+        return candles.map(candle => ({ timestamp: candle.timestamp, price: candle.close }))
+      }
+    } catch (error) {
+      if (!(error instanceof CandleStoreError)) {
+        console.error(`Candle history error for ${symbol}:`, error)
+      }
+    }
+
+    return marketDataService.getPriceHistory(symbol, range)
+  }
+
+  private resolveWindow(request: CandleHistoryRequest, crypto: boolean) {
+    const to = request.to ?? new Date()
+    const from = request.from ?? rangeStart(request.range ?? '1M', to, crypto)
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      throw new CandleStoreError('Invalid date range')
+    }
+    if (from >= to) {
+      throw new CandleStoreError('Range start must be before its end')
+    }
+
+    const span = to.getTime() - from.getTime()
+    let resolution = request.resolution
+    if (!resolution) {
+      resolution = request.from
+        ? HISTORY_RESOLUTIONS.find(candidate => span / RESOLUTION_MS[candidate] <= TARGET_BUCKETS) ?? '1w'
+        : DEFAULT_RESOLUTIONS[request.range ?? '1M']
+    }
+
+    if (span / RESOLUTION_MS[resolution] > MAX_BUCKETS) {
+      throw new CandleStoreError(`${resolution} candles over this range exceed ${MAX_BUCKETS} buckets, use a coarser resolution`)
+    }
+
+    return { resolution, from, to }
+  }
+
+  // Symbols nobody has searched for or traded yet get their Asset row from the quote providers
+  private async findOrCreateAsset(symbol: string) {
+    const existing = await prisma.asset.findUnique({
+      where: { symbol },
+      select: { id: true, type: true }
+    })
+    if (existing) return existing
+
+    const assetData = await marketDataService.getAssetDetails(symbol)
+    if (!assetData) {
+      throw new CandleStoreError(`Unknown asset ${symbol}`, 404)
+    }
+
+    return prisma.asset.upsert({
+      where: { symbol },
+      update: {},
+      create: {
+        symbol,
+        name: assetData.name,
+        type: assetData.type,
+        exchange: assetData.exchange
+      },
+      select: { id: true, type: true }
+    })
+  }
+
+  private async backfill(assetId: string, symbol: string, resolution: CandleResolution, from: Date, to: Date) {
+    const series = await prisma.candleSeries.findUnique({
+      where: { assetId_resolution: { assetId, resolution } }
+    })
+
+    const windows: Array<{ from: Date; to: Date }> = []
+    if (!series) {
+      windows.push({ from, to })
+    } else {
+      if (from < series.coveredFrom) {
+        windows.push({ from, to: series.coveredFrom })
+      }
+      const refreshDue = Date.now() - series.lastFetchedAt.getTime() >= Math.min(RESOLUTION_MS[resolution], MAX_REFRESH_MS)
+      if (to > series.coveredTo && refreshDue) {
+        windows.push({ from: series.coveredTo, to })
+      }
+    }
+
+    if (windows.length === 0) return
+
+    let coveredFrom = series?.coveredFrom ?? null
+    let coveredTo = series?.coveredTo ?? null
+
+    for (const window of windows) {
+      const candles = await marketDataService.getCandles(symbol, resolution, window.from, window.to)
+      if (!candles || candles.length === 0) continue
+
+      const newest = await this.store(assetId, resolution, candles)
+      // The provider answered for the whole window, even if its data starts later
+      coveredFrom = !coveredFrom || window.from < coveredFrom ? window.from : coveredFrom
+      coveredTo = !coveredTo || newest > coveredTo ? newest : coveredTo
+    }
+
+    if (!coveredFrom || !coveredTo) return
+
+    await prisma.candleSeries.upsert({
+      where: { assetId_resolution: { assetId, resolution } },
+      update: { coveredFrom, coveredTo, lastFetchedAt: new Date() },
+      create: { assetId, resolution, coveredFrom, coveredTo, lastFetchedAt: new Date() }
+    })
+  }
+
+  // Provider data replaces whatever was stored for the buckets it spans; returns the newest bucket
+  private async store(assetId: string, resolution: CandleResolution, candles: CandleData[]): Promise<Date> {
+    const buckets = new Map<number, CandleData>()
+    for (const candle of candles) {
+      buckets.set(floorBucket(candle.timestamp, resolution).getTime(), candle)
+    }
+
+    const keys = [...buckets.keys()].sort((a, b) => a - b)
+    const oldest = new Date(keys[0])
+    const newest = new Date(keys[keys.length - 1])
+
+    await prisma.$transaction([
+      prisma.candle.deleteMany({
+        where: { assetId, resolution, timestamp: { gte: oldest, lte: newest } }
+      }),
+      prisma.candle.createMany({
+        data: keys.map(key => {
+          const candle = buckets.get(key)!
+          return {
+            assetId,
+            resolution,
+            timestamp: new Date(key),
+            open: candle.open,
+            high: candle.high,
+            low: candle.low,
+            close: candle.close,
+            volume: candle.volume
+          }
+        }),
+        skipDuplicates: true
+      })
+    ])
+
+    return newest
+  }
+}
+
+export const candleStore = CandleStore.getInstance()
@@ -0,0 +1,41 @@
+// Chart display settings, stored under `chart` in User.preferences
+
+export type ChartMode = 'line' | 'candles'
+
+export interface ChartPreferences {
+  mode: ChartMode
+  volume: boolean
+  sma: boolean
+  ema: boolean
+  bollinger: boolean
+  rsi: boolean
+  macd: boolean
+}
+
+export const DEFAULT_CHART_PREFERENCES: ChartPreferences = {
+  mode: 'line',
+  volume: true,
+  sma: false,
+  ema: false,
+  bollinger: false,
+  rsi: false,
+  macd: false
+}
+
+const TOGGLES = ['volume', 'sma', 'ema', 'bollinger', 'rsi', 'macd'] as const
+
+export function normalizeChartPreferences(value: unknown): ChartPreferences {
+  const input = value && typeof value === 'object' ? value as Record<string, unknown> : {}
+  const preferences = { ...DEFAULT_CHART_PREFERENCES }
+
+  if (input.mode === 'line' || input.mode === 'candles') {
+    preferences.mode = input.mode
+  }
+  for (const toggle of TOGGLES) {
+    if (typeof input[toggle] === 'boolean') {
+      preferences[toggle] = input[toggle] as boolean
+    }
+  }
+
+  return preferences
+}
@@ -0,0 +1,697 @@
+import { randomUUID } from 'crypto'
+import type { ChatConversationMessage, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { getLLMProvider, type ChatMessage, type ToolCall, type ToolDefinition } from '@/lib/llm'
+import { marketDataService } from '@/lib/market-data'
+
+const SYSTEM_PROMPT = `You are AiiA (Artificially Intelligent Investment Assistant), a knowledgeable and professional AI assistant specializing in trading concepts, market trends, and financial education.
+
+You can call tools to look up live quotes, the user's portfolios and holdings, their price alerts, and the latest AI analysis for an asset. Use them whenever the question depends on current prices or the user's own account instead of guessing. Quote numbers exactly as the tools return them.
+
+You can also draft a trade or a price alert. Drafts are shown to the user, who confirms or dismisses them; you can never place a trade or create an alert yourself. Only draft when the user asks for one, and say that it is waiting for their confirmation.
+
+IMPORTANT GUIDELINES:
+1. Provide educational and general insights only - NOT personalized financial advice
+2. Always include disclaimers about doing your own research
+3. Keep responses concise but informative (2-3 paragraphs max)
+4. Use accessible language while maintaining professional expertise
+5. If a tool returns an error, explain it plainly rather than retrying endlessly
+
+Maintain a helpful, professional, and encouraging tone while emphasizing the importance of independent research and risk management.`
+
+const SUMMARY_PROMPT = `Summarize this conversation between a user and an investment assistant so it can continue without the full transcript. Keep symbols, numbers, the user's stated goals and any open questions. Reply with the summary only, under 200 words.`
+
+// Model round trips per message; the last round is answered without tools
+const MAX_TOOL_ROUNDS = 4
+const MAX_TOOL_RESULT_LENGTH = 4000
+const MAX_MESSAGE_LENGTH = 4000
+const MAX_TITLE_LENGTH = 80
+// Recent messages sent verbatim, further capped by total length
+const MAX_CONTEXT_MESSAGES = 20
+const MAX_CONTEXT_CHARS = 16000
+// Once this many messages sit past the summary, all but the most recent are folded into it
+const SUMMARIZE_AFTER_MESSAGES = 24
+const KEEP_AFTER_SUMMARY = 12
+const DRAFT_TOOLS = new Set(['draft_trade', 'draft_alert'])
+
+export interface TradeDraft {
+  id: string
+  kind: 'TRADE'
+  symbol: string
+  side: 'BUY' | 'SELL'
+  quantity: number
+  orderType: 'MARKET' | 'LIMIT'
+  limitPrice: number | null
+  portfolioId: string
+  portfolioName: string
+  estimatedPrice: number
+  estimatedValue: number
+  warnings: string[]
+}
+
+export interface AlertDraft {
+  id: string
+  kind: 'ALERT'
+  symbol: string
+  type: 'PRICE_ABOVE' | 'PRICE_BELOW'
+  targetPrice: number
+  currentPrice: number | null
+  message: string | null
+}
+
+export type ChatDraft = TradeDraft | AlertDraft
+
+// One tool invocation as shown in the chat transcript
+export interface ToolTranscriptEntry {
+  id: string
+  name: string
+  arguments: Record<string, unknown>
+  result?: unknown
+  error?: string
+}
+
+export type DraftStatus = 'CONFIRMED' | 'DISMISSED'
+
+export type StoredDraft = ChatDraft & { status?: DraftStatus }
+
+// Events of one streamed reply, in order: tool calls and drafts as they happen, text deltas, then the stored
+// message; a warning may follow when housekeeping after the reply failed
+export type ChatStreamEvent =
+  | { type: 'tool'; call: ToolTranscriptEntry }
+  | { type: 'draft'; draft: ChatDraft }
+  | { type: 'delta'; content: string }
+  | { type: 'done'; message: ChatConversationMessage }
+  // detail is for server logs only
+  | { type: 'warning'; message: string; detail: string }
+
+export class ChatError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'ChatError'
+  }
+}
+
+class ToolError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ToolError'
+  }
+}
+
+const TOOLS: ToolDefinition[] = [
+  {
+    name: 'get_quote',
+    description: 'Get the latest price, daily change and volume for a stock or crypto symbol.',
+    parameters: {
+      type: 'object',
+      properties: { symbol: { type: 'string', description: 'Ticker symbol, e.g. AAPL or BTC' } },
+      required: ['symbol']
+    }
+  },
+  {
+    name: 'get_portfolio',
+    description: "Get the user's active portfolios with cash balance and holdings. Pass portfolioId to get just one.",
+    parameters: {
+      type: 'object',
+      properties: { portfolioId: { type: 'string' } }
+    }
+  },
+  {
+    name: 'list_alerts',
+    description: "List the user's price alerts and whether they have triggered.",
+    parameters: {
+      type: 'object',
+      properties: { activeOnly: { type: 'boolean', description: 'Only alerts that are still watching' } }
+    }
+  },
+  {
+    name: 'get_latest_analysis',
+    description: 'Get the most recent AI analysis for a symbol: recommendation, confidence, price target and key points.',
+    parameters: {
+      type: 'object',
+      properties: { symbol: { type: 'string' } },
+      required: ['symbol']
+    }
+  },
+  {
+    name: 'draft_trade',
+    description: 'Draft a buy or sell order for the user to review. It is NOT submitted; the user must confirm it.',
+    parameters: {
+      type: 'object',
+      properties: {
+        symbol: { type: 'string' },
+        side: { type: 'string', enum: ['BUY', 'SELL'] },
+        quantity: { type: 'number', description: 'Number of shares or coins' },
+        orderType: { type: 'string', enum: ['MARKET', 'LIMIT'] },
+        limitPrice: { type: 'number', description: 'Required for LIMIT orders' },
+        portfolioId: { type: 'string', description: 'Defaults to the first active portfolio' }
+      },
+      required: ['symbol', 'side', 'quantity']
+    }
+  },
+  {
+    name: 'draft_alert',
+    description: 'Draft a price alert for the user to review. It is NOT created; the user must confirm it.',
+    parameters: {
+      type: 'object',
+      properties: {
+        symbol: { type: 'string' },
+        type: { type: 'string', enum: ['PRICE_ABOVE', 'PRICE_BELOW'] },
+        targetPrice: { type: 'number' },
+        message: { type: 'string' }
+      },
+      required: ['symbol', 'type', 'targetPrice']
+    }
+  }
+]
+
+/**
+ * Persistent chat conversations with server-side tools scoped to the signed-in user. Read tools query
+ * market data and the user's own records; draft tools only return proposals, which the chat widget
+ * asks the user to confirm.
+ */
+export class ChatAssistant {
+  private static instance: ChatAssistant
+
+  static getInstance(): ChatAssistant {
+    if (!ChatAssistant.instance) {
+      ChatAssistant.instance = new ChatAssistant()
+    }
+    return ChatAssistant.instance
+  }
+
+  async listConversations(userId: string, limit: number = 50) {
+    return prisma.chatConversation.findMany({
+      where: { userId },
+      select: { id: true, title: true, createdAt: true, updatedAt: true, _count: { select: { messages: true } } },
+      orderBy: { updatedAt: 'desc' },
+      take: limit
+    })
+  }
+
+  async createConversation(userId: string, title?: string) {
+    return prisma.chatConversation.create({
+      data: { userId, title: title ? this.validateTitle(title) : null }
+    })
+  }
+
+  async getConversation(userId: string, conversationId: string) {
+    const conversation = await this.getOwned(userId, conversationId)
+    const messages = await prisma.chatConversationMessage.findMany({
+      where: { conversationId: conversation.id },
+      orderBy: { createdAt: 'asc' }
+    })
+    return { ...conversation, messages }
+  }
+
+  async renameConversation(userId: string, conversationId: string, title: string) {
+    const conversation = await this.getOwned(userId, conversationId)
+    return prisma.chatConversation.update({
+      where: { id: conversation.id },
+      data: { title: this.validateTitle(title) }
+    })
+  }
+
+  async deleteConversation(userId: string, conversationId: string) {
+    const conversation = await this.getOwned(userId, conversationId)
+    await prisma.chatConversation.delete({ where: { id: conversation.id } })
+  }
+
+  // Records the user's decision on a draft, so it is not offered again when the conversation is reopened
+  async setDraftStatus(userId: string, conversationId: string, messageId: string, draftId: string, status: DraftStatus) {
+    const conversation = await this.getOwned(userId, conversationId)
+    const message = await prisma.chatConversationMessage.findFirst({
+      where: { id: messageId, conversationId: conversation.id }
+    })
+    const drafts = (message?.drafts as StoredDraft[] | null) || []
+    if (!message || !drafts.some(draft => draft.id === draftId)) {
+      throw new ChatError('Draft not found', 404)
+    }
+
+    return prisma.chatConversationMessage.update({
+      where: { id: message.id },
+      data: {
+        drafts: drafts.map(draft => draft.id === draftId ? { ...draft, status } : draft) as unknown as Prisma.InputJsonValue
+      }
+    })
+  }
+
+  /**
+   * Stores the user's message and returns the reply as a stream of events. Context is rebuilt from
+   * stored messages on every turn, so clients only ever send the new message.
+   */
+  async sendMessage(userId: string, conversationId: string, content: string) {
+    const conversation = await this.getOwned(userId, conversationId)
+    const text = this.validateMessage(content)
+
+    const [userMessage] = await prisma.$transaction([
+      prisma.chatConversationMessage.create({
+        data: { conversationId: conversation.id, role: 'user', content: text }
+      }),
+      prisma.chatConversation.update({
+        where: { id: conversation.id },
+        data: { title: conversation.title ?? this.titleFrom(text) }
+      })
+    ])
+
+    return { userMessage, events: this.streamReply(userId, conversation.id) }
+  }
+
+  /**
+   * @deprecated Stateless replies for the old /api/ai-chat endpoint. Nothing is stored, and of the
+   * client-held history only the user's own turns are replayed, since assistant turns could be forged.
+   */
+  async respond(userId: string, message: string, history: Array<{ role?: unknown; content?: unknown }> = []) {
+    const text = this.validateMessage(message)
+    const earlier = history
+      .filter(entry => entry.role === 'user' && typeof entry.content === 'string' && entry.content.trim())
+      .slice(-(MAX_CONTEXT_MESSAGES - 1))
+      .map(entry => ({ role: 'user' as const, content: (entry.content as string).slice(0, MAX_MESSAGE_LENGTH) }))
+
+    const reply = this.generateReply(userId, [
+      { role: 'system', content: SYSTEM_PROMPT },
+      ...earlier,
+      { role: 'user', content: text }
+    ])
+    let step = await reply.next()
+    while (!step.done) {
+      step = await reply.next()
+    }
+
+    const { content, transcript, drafts } = step.value
+    return { response: content, toolCalls: transcript, drafts }
+  }
+
+  private async *streamReply(userId: string, conversationId: string): AsyncGenerator<ChatStreamEvent> {
+    const { content, transcript, drafts } = yield* this.generateReply(userId, await this.buildContext(conversationId))
+
+    const [message] = await prisma.$transaction([
+      prisma.chatConversationMessage.create({
+        data: {
+          conversationId,
+          role: 'assistant',
+          content,
+          toolCalls: transcript.length > 0 ? transcript as unknown as Prisma.InputJsonValue : undefined,
+          drafts: drafts.length > 0 ? drafts as unknown as Prisma.InputJsonValue : undefined
+        }
+      }),
+      // Bumps updatedAt so the conversation moves to the top of the list
+      prisma.chatConversation.update({ where: { id: conversationId }, data: {} })
+    ])
+
+    yield { type: 'done', message }
+
+    try {
+      await this.summarizeIfNeeded(conversationId)
+    } catch (error) {
+      // The next turn simply sends a longer context and tries again
+      yield {
+        type: 'warning',
+        message: 'Earlier messages could not be summarized; the next reply will try again',
+        detail: error instanceof Error ? error.message : String(error)
+      }
+    }
+  }
+
+  // Runs the model and its tool calls over the given context, streaming as it goes; stores nothing
+  private async *generateReply(userId: string, messages: ChatMessage[]): AsyncGenerator<
+    ChatStreamEvent,
+    { content: string; transcript: ToolTranscriptEntry[]; drafts: ChatDraft[] }
+  > {
+    const transcript: ToolTranscriptEntry[] = []
+    const drafts: ChatDraft[] = []
+    const provider = getLLMProvider('chat')
+    let reply = ''
+
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+      let roundText = ''
+      let toolCalls: ToolCall[] = []
+
+      for await (const event of provider.streamWithTools(messages, round < MAX_TOOL_ROUNDS - 1 ? TOOLS : [], {
+        maxTokens: 500,
+        temperature: 0.7
+      })) {
+        if (event.type === 'text') {
+          roundText += event.content
+          yield { type: 'delta', content: event.content }
+        } else {
+          toolCalls = event.toolCalls
+        }
+      }
+
+      reply += roundText
+      if (toolCalls.length === 0) break
+
+      messages.push({ role: 'assistant', content: roundText, toolCalls })
+
+      for (const call of toolCalls) {
+        const entry = await this.runTool(userId, call)
+        transcript.push(entry)
+        yield { type: 'tool', call: entry }
+
+        if (entry.result && DRAFT_TOOLS.has(call.name)) {
+          drafts.push(entry.result as ChatDraft)
+          yield { type: 'draft', draft: entry.result as ChatDraft }
+        }
+
+        messages.push({
+          role: 'tool',
+          toolCallId: call.id,
+          content: JSON.stringify(entry.error ? { error: entry.error } : entry.result).slice(0, MAX_TOOL_RESULT_LENGTH)
+        })
+      }
+    }
+
+    if (!reply.trim()) {
+      reply = 'I looked up what I could but could not finish an answer. Please try asking in a different way.'
+      yield { type: 'delta', content: reply }
+    }
+
+    return { content: reply, transcript, drafts }
+  }
+
+  // System prompt, the running summary, then as many recent messages as fit the budget
+  private async buildContext(conversationId: string): Promise<ChatMessage[]> {
+    const conversation = await prisma.chatConversation.findUniqueOrThrow({ where: { id: conversationId } })
+    const recent = await prisma.chatConversationMessage.findMany({
+      where: {
+        conversationId,
+        ...(conversation.summarizedUntil && { createdAt: { gt: conversation.summarizedUntil } })
+      },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_CONTEXT_MESSAGES
+    })
+
+    const history: ChatMessage[] = []
+    let length = 0
+    for (const message of recent) {
+      length += message.content.length
+      // The newest message is always kept, however long
+      if (history.length > 0 && length > MAX_CONTEXT_CHARS) break
+      history.unshift({ role: message.role === 'assistant' ? 'assistant' : 'user', content: message.content })
+    }
+
+    return [
+      { role: 'system', content: SYSTEM_PROMPT },
+      ...(conversation.summary
+        ? [{ role: 'system' as const, content: `Summary of the earlier conversation:\n${conversation.summary}` }]
+        : []),
+      ...history
+    ]
+  }
+
+  private async summarizeIfNeeded(conversationId: string) {
+    const conversation = await prisma.chatConversation.findUniqueOrThrow({ where: { id: conversationId } })
+    const pending = await prisma.chatConversationMessage.findMany({
+      where: {
+        conversationId,
+        ...(conversation.summarizedUntil && { createdAt: { gt: conversation.summarizedUntil } })
+      },
+      orderBy: { createdAt: 'asc' }
+    })
+    if (pending.length <= SUMMARIZE_AFTER_MESSAGES) return
+
+    const folded = pending.slice(0, pending.length - KEEP_AFTER_SUMMARY)
+    const transcript = folded.map(message => `${message.role === 'assistant' ? 'Assistant' : 'User'}: ${message.content}`).join('\n\n')
+
+    const { content: summary } = await getLLMProvider('chat').chat([
+      { role: 'system', content: SUMMARY_PROMPT },
+      {
+        role: 'user',
+        content: conversation.summary
+          ? `Earlier summary:\n${conversation.summary}\n\nConversation since:\n${transcript}`
+          : transcript
+      }
+    ], { maxTokens: 400, temperature: 0.2 })
+
+    // Conditional on the previous cursor, so a concurrent summarization cannot fold the same messages twice
+    await prisma.chatConversation.updateMany({
+      where: { id: conversationId, summarizedUntil: conversation.summarizedUntil },
+      data: { summary, summarizedUntil: folded[folded.length - 1].createdAt }
+    })
+  }
+
+  private async getOwned(userId: string, conversationId: string) {
+    const conversation = await prisma.chatConversation.findFirst({ where: { id: conversationId, userId } })
+    if (!conversation) {
+      throw new ChatError('Conversation not found', 404)
+    }
+    return conversation
+  }
+
+  private validateMessage(content: unknown): string {
+    const text = typeof content === 'string' ? content.trim() : ''
+    if (!text) {
+      throw new ChatError('Message is required')
+    }
+    if (text.length > MAX_MESSAGE_LENGTH) {
+      throw new ChatError(`Messages are limited to ${MAX_MESSAGE_LENGTH} characters`)
+    }
+    return text
+  }
+
+  private validateTitle(title: unknown): string {
+    const trimmed = typeof title === 'string' ? title.trim() : ''
+    if (!trimmed) {
+      throw new ChatError('Title is required')
+    }
+    if (trimmed.length > MAX_TITLE_LENGTH) {
+      throw new ChatError(`Title must be at most ${MAX_TITLE_LENGTH} characters`)
+    }
+    return trimmed
+  }
+
+  private titleFrom(message: string): string {
+    const line = message.split('\n')[0].trim()
+    return line.length > MAX_TITLE_LENGTH ? `${line.slice(0, MAX_TITLE_LENGTH - 3)}...` : line
+  }
+
+  private async runTool(userId: string, call: ToolCall): Promise<ToolTranscriptEntry> {
+    let args: Record<string, unknown> = {}
+    try {
+      const parsed = JSON.parse(call.arguments || '{}')
+      if (parsed && typeof parsed === 'object') args = parsed
+    } catch {
+      return { id: call.id, name: call.name, arguments: {}, error: 'Arguments were not valid JSON' }
+    }
+
+    try {
+      const result = await this.executeTool(userId, call.name, args)
+      return { id: call.id, name: call.name, arguments: args, result }
+    } catch (error) {
+      if (!(error instanceof ToolError)) {
+        console.error(`Chat tool ${call.name} failed:`, error)
+      }
+      return {
+        id: call.id,
+        name: call.name,
+        arguments: args,
+        error: error instanceof ToolError ? error.message : 'The tool failed unexpectedly'
+      }
+    }
+  }
+
+  private async executeTool(userId: string, name: string, args: Record<string, unknown>): Promise<unknown> {
+    switch (name) {
+      case 'get_quote':
+        return this.getQuote(this.requireSymbol(args))
+      case 'get_portfolio':
+        return this.getPortfolios(userId, typeof args.portfolioId === 'string' ? args.portfolioId : undefined)
+      case 'list_alerts':
+        return this.listAlerts(userId, args.activeOnly === true)
+      case 'get_latest_analysis':
+        return this.getLatestAnalysis(this.requireSymbol(args))
+      case 'draft_trade':
+        return this.draftTrade(userId, args)
+      case 'draft_alert':
+        return this.draftAlert(args)
+      default:
+        throw new ToolError(`Unknown tool: ${name}`)
+    }
+  }
+
+  private async getQuote(symbol: string) {
+    const quote = await marketDataService.getAssetDetails(symbol)
+    if (!quote) {
+      throw new ToolError(`No quote available for ${symbol}`)
+    }
+
+    return {
+      symbol: quote.symbol,
+      name: quote.name,
+      type: quote.type,
+      price: quote.price,
+      change: quote.change,
+      changePercent: quote.changePercent,
+      volume: quote.volume ?? null,
+      previousClose: quote.previousClose ?? null
+    }
+  }
+
+  private async getPortfolios(userId: string, portfolioId?: string) {
+    const portfolios = await prisma.portfolio.findMany({
+      where: { userId, isActive: true, ...(portfolioId && { id: portfolioId }) },
+      include: { items: { include: { asset: { select: { symbol: true, name: true } } } } },
+      orderBy: { createdAt: 'asc' }
+    })
+    if (portfolioId && portfolios.length === 0) {
+      throw new ToolError('Portfolio not found')
+    }
+
+    return portfolios.map(portfolio => ({
+      id: portfolio.id,
+      name: portfolio.name,
+      type: portfolio.type,
+      cash: portfolio.balance,
+      totalValue: portfolio.totalValue,
+      totalReturnPercent: portfolio.totalReturnPercent,
+      holdings: portfolio.items
+        .filter(item => item.quantity !== 0)
+        .map(item => ({
+          symbol: item.asset.symbol,
+          name: item.asset.name,
+          quantity: item.quantity,
+          avgPrice: item.avgPrice,
+          currentValue: item.currentValue,
+          unrealizedPnL: item.unrealizedPnL
+        }))
+    }))
+  }
+
+  private async listAlerts(userId: string, activeOnly: boolean) {
+    const alerts = await prisma.alert.findMany({
+      where: { userId, ...(activeOnly && { isActive: true, isTriggered: false }) },
+      include: { asset: { select: { symbol: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: 50
+    })
+
+    return alerts.map(alert => ({
+      symbol: alert.asset.symbol,
+      type: alert.type,
+      condition: alert.condition,
+      message: alert.message,
+      isActive: alert.isActive,
+      triggeredAt: alert.triggeredAt
+    }))
+  }
+
+  private async getLatestAnalysis(symbol: string) {
+    const analysis = await prisma.analysis.findFirst({
+      where: { asset: { symbol } },
+      orderBy: { generatedAt: 'desc' }
+    })
+    if (!analysis) {
+      throw new ToolError(`${symbol} has not been analyzed yet`)
+    }
+
+    return {
+      symbol,
+      recommendation: analysis.recommendation,
+      confidence: analysis.confidence,
+      priceTarget: analysis.priceTarget,
+      timeHorizon: analysis.timeHorizon,
+      marketSentiment: analysis.marketSentiment,
+      keyPoints: analysis.keyPoints,
+      risks: analysis.risks,
+      summary: analysis.analysis.slice(0, 1000),
+      generatedAt: analysis.generatedAt
+    }
+  }
+
+  private async draftTrade(userId: string, args: Record<string, unknown>): Promise<TradeDraft> {
+    const symbol = this.requireSymbol(args)
+    const side = args.side
+    const quantity = Number(args.quantity)
+    const orderType = args.orderType === 'LIMIT' ? 'LIMIT' : 'MARKET'
+    const limitPrice = orderType === 'LIMIT' ? Number(args.limitPrice) : null
+
+    if (side !== 'BUY' && side !== 'SELL') {
+      throw new ToolError('side must be BUY or SELL')
+    }
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      throw new ToolError('quantity must be a positive number')
+    }
+    if (limitPrice !== null && !(limitPrice > 0)) {
+      throw new ToolError('LIMIT orders need a positive limitPrice')
+    }
+
+    const portfolio = await prisma.portfolio.findFirst({
+      where: {
+        userId,
+        isActive: true,
+        ...(typeof args.portfolioId === 'string' && { id: args.portfolioId })
+      },
+      orderBy: { createdAt: 'asc' }
+    })
+    if (!portfolio) {
+      throw new ToolError('Portfolio not found')
+    }
+
+    const quote = await this.getQuote(symbol)
+    const estimatedPrice = limitPrice ?? quote.price
+    const estimatedValue = estimatedPrice * quantity
+    const warnings: string[] = []
+
+    if (side === 'BUY' && estimatedValue > portfolio.balance) {
+      warnings.push(`Estimated cost exceeds the ${portfolio.name} cash balance of $${portfolio.balance.toFixed(2)}`)
+    }
+    if (side === 'SELL') {
+      const held = await prisma.portfolioItem.findFirst({
+        where: { portfolioId: portfolio.id, asset: { symbol: quote.symbol } },
+        select: { quantity: true }
+      })
+      if (!held || held.quantity < quantity) {
+        warnings.push(`${portfolio.name} holds ${held?.quantity ?? 0} ${quote.symbol}`)
+      }
+    }
+
+    return {
+      id: randomUUID(),
+      kind: 'TRADE',
+      symbol: quote.symbol,
+      side,
+      quantity,
+      orderType,
+      limitPrice,
+      portfolioId: portfolio.id,
+      portfolioName: portfolio.name,
+      estimatedPrice,
+      estimatedValue,
+      warnings
+    }
+  }
+
+  private async draftAlert(args: Record<string, unknown>): Promise<AlertDraft> {
+    const symbol = this.requireSymbol(args)
+    const targetPrice = Number(args.targetPrice)
+
+    if (args.type !== 'PRICE_ABOVE' && args.type !== 'PRICE_BELOW') {
+      throw new ToolError('type must be PRICE_ABOVE or PRICE_BELOW')
+    }
+    if (!Number.isFinite(targetPrice) || targetPrice <= 0) {
+      throw new ToolError('targetPrice must be a positive number')
+    }
+
+    const quote = await marketDataService.getAssetDetails(symbol)
+
+    return {
+      id: randomUUID(),
+      kind: 'ALERT',
+      symbol: quote?.symbol || symbol,
+      type: args.type,
+      targetPrice,
+      currentPrice: quote?.price ?? null,
+      message: typeof args.message === 'string' && args.message.trim() ? args.message.trim() : null
+    }
+  }
+
+  private requireSymbol(args: Record<string, unknown>): string {
+    if (typeof args.symbol !== 'string' || !args.symbol.trim()) {
+      throw new ToolError('symbol is required')
+    }
+    return args.symbol.trim().toUpperCase()
+  }
+}
+
+export const chatAssistant = ChatAssistant.getInstance()
@@ -0,0 +1,199 @@
+import { prisma } from '@/lib/db'
+import { analysisScorer, summarizeOutcomes, type CalibrationBucket } from '@/lib/analysis-scoring'
+
+export type CalibrationGroup = 'BUY' | 'SELL' | 'ALL'
+
+export interface CalibrationCurve {
+  group: CalibrationGroup
+  samples: number
+  // False until there are enough scored analyses; stated confidence is then used as is
+  calibrated: boolean
+  baseRate: number | null
+  // Calibrated probability (0-100) for each stated confidence 0..100
+  mapping: number[]
+  // Observed direction hit rate per stated-confidence bucket
+  reliability: CalibrationBucket[]
+  brierScore: number | null
+  // In-sample, so an optimistic estimate of the improvement
+  calibratedBrierScore: number | null
+}
+
+export interface Calibration {
+  fittedAt: Date
+  minSamples: number
+  curves: Record<CalibrationGroup, CalibrationCurve>
+}
+
+export interface CalibratedConfidence {
+  confidence: number
+  statedConfidence: number
+  calibrated: boolean
+  group: CalibrationGroup | null
+}
+
+interface Outcome {
+  confidence: number
+  directionHit: boolean
+}
+
+const MIN_SAMPLES = 30
+// Pseudo-observations pulling each fitted block toward the group's base rate, so small blocks cannot reach 0% or 100%
+const PRIOR_WEIGHT = 5
+const CACHE_TTL_MS = 60 * 60 * 1000 // 1 hour
+
+const IDENTITY_MAPPING = Array.from({ length: 101 }, (_, confidence) => confidence)
+
+/**
+ * Isotonic regression of direction hits on stated confidence (pool adjacent violators), evaluated at
+ * every integer confidence by interpolating between block centres. Higher stated confidence never
+ * maps to a lower probability.
+ */
+function fitMapping(outcomes: Outcome[], baseRate: number): number[] {
+  const sorted = [...outcomes].sort((a, b) => a.confidence - b.confidence)
+
+  const blocks: Array<{ confidenceSum: number; count: number; hits: number }> = []
+  for (const outcome of sorted) {
+    const last = blocks[blocks.length - 1]
+    if (last && last.confidenceSum / last.count === outcome.confidence) {
+      last.confidenceSum += outcome.confidence
+      last.count++
+      last.hits += outcome.directionHit ? 1 : 0
+    } else {
+      blocks.push({ confidenceSum: outcome.confidence, count: 1, hits: outcome.directionHit ? 1 : 0 })
+    }
+
+    // Merge backwards while the hit rates decrease
+    while (blocks.length > 1) {
+      const current = blocks[blocks.length - 1]
+      const previous = blocks[blocks.length - 2]
+      if (previous.hits / previous.count <= current.hits / current.count) break
+      blocks.splice(blocks.length - 2, 2, {
+        confidenceSum: previous.confidenceSum + current.confidenceSum,
+        count: previous.count + current.count,
+        hits: previous.hits + current.hits
+      })
+    }
+  }
+
+  // Shrinking by block size can reorder neighbours, so keep the running maximum
+  let floor = 0
+  const knots = blocks.map(block => {
+    const probability = Math.max(floor, (block.hits + PRIOR_WEIGHT * baseRate) / (block.count + PRIOR_WEIGHT))
+    floor = probability
+    return { confidence: block.confidenceSum / block.count, probability }
+  })
+
+  return IDENTITY_MAPPING.map(confidence => {
+    const upper = knots.findIndex(knot => knot.confidence >= confidence)
+    if (upper === -1) return Math.round(knots[knots.length - 1].probability * 100)
+    if (upper === 0) return Math.round(knots[0].probability * 100)
+
+    const low = knots[upper - 1]
+    const high = knots[upper]
+    const weight = (confidence - low.confidence) / (high.confidence - low.confidence)
+    return Math.round((low.probability + weight * (high.probability - low.probability)) * 100)
+  })
+}
+
+function buildCurve(group: CalibrationGroup, outcomes: Outcome[]): CalibrationCurve {
+  const samples = outcomes.length
+  const calibrated = samples >= MIN_SAMPLES
+  const baseRate = samples > 0 ? outcomes.filter(outcome => outcome.directionHit).length / samples : null
+  const mapping = calibrated ? fitMapping(outcomes, baseRate!) : IDENTITY_MAPPING
+
+  const stats = summarizeOutcomes(outcomes.map(outcome => ({
+    recommendation: group,
+    confidence: outcome.confidence,
+    returnPercent: null,
+    directionHit: outcome.directionHit,
+    targetHit: null,
+    targetErrorPercent: null
+  })))
+
+  return {
+    group,
+    samples,
+    calibrated,
+    baseRate,
+    mapping,
+    reliability: stats.calibration,
+    brierScore: stats.brierScore,
+    calibratedBrierScore: samples > 0
+      ? outcomes.reduce((sum, outcome) =>
+        sum + Math.pow(mapping[Math.round(outcome.confidence)] / 100 - (outcome.directionHit ? 1 : 0), 2), 0
+      ) / samples
+      : null
+  }
+}
+
+/**
+ * Maps the confidence an analysis states to the probability its BUY or SELL call turns out right,
+ * learned from scored past analyses. Automation thresholds are compared against this probability.
+ */
+export class ConfidenceCalibrator {
+  private static instance: ConfidenceCalibrator
+  private cache: Calibration | null = null
+
+  private constructor() {
+    // The scorer only notifies, so it never has to import this module
+    analysisScorer.onScored(() => this.invalidate())
+  }
+
+  static getInstance(): ConfidenceCalibrator {
+    if (!ConfidenceCalibrator.instance) {
+      ConfidenceCalibrator.instance = new ConfidenceCalibrator()
+    }
+    return ConfidenceCalibrator.instance
+  }
+
+  // The next read refits from the current scores
+  invalidate() {
+    this.cache = null
+  }
+
+  async getCalibration(): Promise<Calibration> {
+    if (this.cache && Date.now() - this.cache.fittedAt.getTime() < CACHE_TTL_MS) {
+      return this.cache
+    }
+
+    const scores = await prisma.analysisScore.findMany({
+      where: { status: 'SCORED', directionHit: { not: null }, recommendation: { in: ['BUY', 'SELL'] } },
+      select: { recommendation: true, confidence: true, directionHit: true }
+    })
+
+    const outcomes = scores.map(score => ({
+      recommendation: score.recommendation,
+      confidence: Math.max(0, Math.min(100, score.confidence)),
+      directionHit: score.directionHit!
+    }))
+
+    this.cache = {
+      fittedAt: new Date(),
+      minSamples: MIN_SAMPLES,
+      curves: {
+        BUY: buildCurve('BUY', outcomes.filter(outcome => outcome.recommendation === 'BUY')),
+        SELL: buildCurve('SELL', outcomes.filter(outcome => outcome.recommendation === 'SELL')),
+        ALL: buildCurve('ALL', outcomes)
+      }
+    }
+    return this.cache
+  }
+
+  // Falls back to the pooled BUY+SELL curve, then to the stated confidence, while data is thin
+  async calibrate(recommendation: string, statedConfidence: number): Promise<CalibratedConfidence> {
+    const stated = Math.max(0, Math.min(100, Math.round(statedConfidence)))
+    if (recommendation !== 'BUY' && recommendation !== 'SELL') {
+      return { confidence: stated, statedConfidence, calibrated: false, group: null }
+    }
+
+    const { curves } = await this.getCalibration()
+    const curve = [curves[recommendation], curves.ALL].find(candidate => candidate.calibrated)
+    if (!curve) {
+      return { confidence: stated, statedConfidence, calibrated: false, group: null }
+    }
+
+    return { confidence: curve.mapping[stated], statedConfidence, calibrated: true, group: curve.group }
+  }
+}
+
+export const confidenceCalibrator = ConfidenceCalibrator.getInstance()
@@ -1,559 +0,0 @@
-
-// Enhanced Market Data Service v2.0.0
-// Task B-006: API Rate Limit Optimization
-
-import axios from 'axios'
-import * as cheerio from 'cheerio'
-import { auditLogger } from './audit-logger'
-
-export interface AssetData {
-  symbol: string
-  name: string
-  price: number
-  change: number
-  changePercent: number
-  volume?: number
-  marketCap?: number
-  type: 'STOCK' | 'CRYPTO'
-  exchange?: string
-  logoUrl?: string
-  sector?: string
-  industry?: string
-  pe?: number
-  dividendYield?: number
-  week52High?: number
-  week52Low?: number
-  // Task E-026: Expanded Symbol Data
-  previousClose?: number
-  open?: number
-  bid?: number
-  ask?: number
-  dayRange?: string
-  week52Range?: string
-  avgVolume?: number
-  marketCapIntraday?: number
-  beta?: number
-  eps?: number
-  earningsDate?: string
-  forwardDividend?: number
-  forwardYield?: number
-  exDividendDate?: string
-  targetPrice?: number
-  lastUpdated?: Date
-}
-
-export interface MarketMoversData {
-  gainers: AssetData[]
-  losers: AssetData[]
-  lastUpdated: Date
-}
-
-export interface NewsItem {
-  title: string
-  url: string
-  source: string
-  publishedAt: string
-  sentiment?: 'positive' | 'negative' | 'neutral'
-}
-
-export interface EnhancedAssetData extends AssetData {
-  news: NewsItem[]
-  analystRatings?: {
-    rating: string
-    targetPrice?: number
-    recommendation: 'BUY' | 'SELL' | 'HOLD'
-  }[]
-}
-
-// Enhanced market data service with intelligent throttling and debounce
-export class EnhancedMarketDataService {
-  private static instance: EnhancedMarketDataService
-  private cache = new Map<string, { data: any; timestamp: number; ttl: number }>()
-  
-  // Optimized cache durations - Task B-006
-  private readonly CACHE_DURATIONS = {
-    intraday: 3 * 60 * 1000,      // 3 minutes for real-time data (optimized)
-    daily: 10 * 60 * 1000,        // 10 minutes for daily data (optimized)
-    historical: 45 * 60 * 1000,   // 45 minutes for historical data (optimized)
-    news: 8 * 60 * 1000,          // 8 minutes for news (optimized)
-    analysis: 20 * 60 * 1000,     // 20 minutes for analysis data (optimized)
-    search: 5 * 60 * 1000,        // 5 minutes for search results (optimized)
-    extended: 2 * 60 * 60 * 1000  // 2 hours for extended data (new)
-  }
-  
-  // Enhanced rate limiting with intelligent backoff
-  private rateLimits = new Map<string, { count: number; window: number; backoffUntil?: number }>()
-  private readonly RATE_LIMIT_WINDOW = 60 * 1000 // 1 minute
-  private pendingRequests = new Map<string, Promise<any>>()
-  
-  // Debounce mechanism
-  private debounceTimers = new Map<string, NodeJS.Timeout>()
-
-  static getInstance(): EnhancedMarketDataService {
-    if (!EnhancedMarketDataService.instance) {
-      EnhancedMarketDataService.instance = new EnhancedMarketDataService()
-    }
-    return EnhancedMarketDataService.instance
-  }
-
-  private getCachedData(key: string, cacheType: keyof typeof this.CACHE_DURATIONS = 'daily'): any | null {
-    const startTime = Date.now()
-    const cached = this.cache.get(key)
-    const ttl = this.CACHE_DURATIONS[cacheType]
-    
-    if (cached && Date.now() - cached.timestamp < ttl) {
-      const responseTime = Date.now() - startTime
-      auditLogger.logApiCall('cache', key, 'hit', responseTime, true)
-      console.log(`Enhanced cache hit for ${key}`)
-      return cached.data
-    }
-    
-    if (cached) {
-      this.cache.delete(key) // Remove stale cache
-    }
-    
-    const responseTime = Date.now() - startTime
-    auditLogger.logApiCall('cache', key, 'miss', responseTime, true)
-    return null
-  }
-
-  private setCachedData(key: string, data: any, cacheType: keyof typeof this.CACHE_DURATIONS = 'daily'): void {
-    const ttl = this.CACHE_DURATIONS[cacheType]
-    this.cache.set(key, { data, timestamp: Date.now(), ttl })
-    console.log(`Enhanced data cached for ${key} with TTL ${ttl}ms`)
-  }
-
-  // Enhanced rate limiting with intelligent backoff
-  private async checkRateLimit(apiName: string, maxCalls: number = 3): Promise<boolean> {
-    const now = Date.now()
-    const windowKey = `${apiName}_${Math.floor(now / this.RATE_LIMIT_WINDOW)}`
-    const current = this.rateLimits.get(windowKey) || { count: 0, window: now }
-    
-    // Check if we're in backoff period
-    if (current.backoffUntil && now < current.backoffUntil) {
-      console.warn(`API ${apiName} in backoff until ${new Date(current.backoffUntil)}`)
-      auditLogger.logApiCall(apiName, 'rate-limit', 'error', 0, false, 'Backoff period active')
-      return false
-    }
-    
-    if (current.count >= maxCalls) {
-      // Implement exponential backoff
-      const backoffPeriod = Math.min(30000 * Math.pow(2, current.count - maxCalls), 300000) // Max 5 minutes
-      current.backoffUntil = now + backoffPeriod
-      this.rateLimits.set(windowKey, current)
-      
-      console.warn(`Rate limit exceeded for ${apiName}, backing off for ${backoffPeriod}ms`)
-      auditLogger.logApiCall(apiName, 'rate-limit', 'error', 0, false, `Backoff: ${backoffPeriod}ms`)
-      return false
-    }
-    
-    current.count++
-    this.rateLimits.set(windowKey, current)
-    return true
-  }
-
-  // Debounce mechanism for rapid sequential requests
-  private async debounceRequest<T>(key: string, operation: () => Promise<T>, delay: number = 300): Promise<T> {
-    return new Promise((resolve, reject) => {
-      // Clear existing timer for this key
-      const existingTimer = this.debounceTimers.get(key)
-      if (existingTimer) {
-        clearTimeout(existingTimer)
-      }
-      
-      // Set new timer
-      const timer = setTimeout(async () => {
-        this.debounceTimers.delete(key)
-        try {
-          const result = await operation()
-          resolve(result)
-        } catch (error) {
-          reject(error)
-        }
-      }, delay)
-      
-      this.debounceTimers.set(key, timer)
-    })
-  }
-
-  // Request deduplication for concurrent identical requests
-  private async deduplicateRequest<T>(key: string, operation: () => Promise<T>): Promise<T> {
-    const existing = this.pendingRequests.get(key)
-    if (existing) {
-      console.log(`Deduplicating request for ${key}`)
-      return existing
-    }
-    
-    const promise = operation().finally(() => {
-      this.pendingRequests.delete(key)
-    })
-    
-    this.pendingRequests.set(key, promise)
-    return promise
-  }
-
-  async searchAssets(query: string): Promise<AssetData[]> {
-    const normalizedQuery = query.trim().toUpperCase()
-    const cacheKey = `search_${normalizedQuery}`
-    
-    // Check cache first
-    const cached = this.getCachedData(cacheKey, 'search')
-    if (cached) {
-      return cached
-    }
-
-    // Debounce rapid search requests
-    return this.debounceRequest(cacheKey, async () => {
-      return this.deduplicateRequest(cacheKey, async () => {
-        console.log(`Enhanced search for ${normalizedQuery}`)
-        const startTime = Date.now()
-        const results: AssetData[] = []
-
-        try {
-          // 1. Search stocks using Alpha Vantage with enhanced error handling
-          if (await this.checkRateLimit('alphavantage', 3)) {
-            try {
-              const stockResults = await this.searchStocksAlphaVantage(normalizedQuery)
-              results.push(...stockResults)
-              auditLogger.logApiCall('alphavantage', 'search', 'hit', Date.now() - startTime, true)
-            } catch (error: any) {
-              auditLogger.logApiCall('alphavantage', 'search', 'error', Date.now() - startTime, false, error.message)
-            }
-          }
-
-          // 2. Search crypto using Finnhub with enhanced error handling
-          if (await this.checkRateLimit('finnhub', 3)) {
-            try {
-              const cryptoResults = await this.searchCryptoFinnhub(normalizedQuery)
-              results.push(...cryptoResults)
-              auditLogger.logApiCall('finnhub', 'search', 'hit', Date.now() - startTime, true)
-            } catch (error: any) {
-              auditLogger.logApiCall('finnhub', 'search', 'error', Date.now() - startTime, false, error.message)
-            }
-          }
-
-          // 3. Enhanced fallback with more comprehensive data
-          if (results.length === 0) {
-            console.log(`Using enhanced fallback for ${normalizedQuery}`)
-            const fallbackResults = this.getEnhancedFallbackSearchResults(normalizedQuery)
-            results.push(...fallbackResults)
-            auditLogger.logApiCall('fallback', 'search', 'hit', Date.now() - startTime, true)
-          }
-
-          // Cache successful results with timestamp
-          if (results.length > 0) {
-            const enhancedResults = results.map(r => ({
-              ...r,
-              lastUpdated: new Date()
-            }))
-            this.setCachedData(cacheKey, enhancedResults, 'search')
-          }
-
-          return results.slice(0, 10)
-        } catch (error) {
-          console.error(`Enhanced search error for ${normalizedQuery}:`, error)
-          auditLogger.logApiCall('search', 'general', 'error', Date.now() - startTime, false, error instanceof Error ? error.message : 'Unknown error')
-          return this.getEnhancedFallbackSearchResults(normalizedQuery)
-        }
-      })
-    }, 500) // 500ms debounce for searches
-  }
-
-  private getEnhancedFallbackSearchResults(query: string): AssetData[] {
-    // Enhanced fallback with IBM and expanded data - addressing the original question
-    const fallbackAssets = [
-      // Technology sector
-      { symbol: 'AAPL', name: 'Apple Inc.', type: 'STOCK' as const, basePrice: 175, sector: 'Technology', previousClose: 174.50, open: 175.20, beta: 1.25, eps: 6.15, pe: 28.5 },
-      { symbol: 'GOOGL', name: 'Alphabet Inc.', type: 'STOCK' as const, basePrice: 142, sector: 'Technology', previousClose: 141.80, open: 142.10, beta: 1.05, eps: 5.80, pe: 24.5 },
-      { symbol: 'TSLA', name: 'Tesla, Inc.', type: 'STOCK' as const, basePrice: 248, sector: 'Automotive', previousClose: 247.50, open: 249.00, beta: 2.15, eps: 3.20, pe: 77.5 },
-      { symbol: 'NVDA', name: 'NVIDIA Corporation', type: 'STOCK' as const, basePrice: 178, sector: 'Technology', previousClose: 177.20, open: 178.50, beta: 1.65, eps: 2.48, pe: 71.8 },
-      { symbol: 'MSFT', name: 'Microsoft Corporation', type: 'STOCK' as const, basePrice: 420, sector: 'Technology', previousClose: 419.50, open: 420.30, beta: 0.95, eps: 11.05, pe: 38.0 },
-      { symbol: 'IBM', name: 'International Business Machines Corp.', type: 'STOCK' as const, basePrice: 145, sector: 'Technology', previousClose: 144.50, open: 145.20, beta: 0.85, eps: 6.63, pe: 21.9 }, // Added IBM!
-      // Traditional blue chips
-      { symbol: 'JNJ', name: 'Johnson & Johnson', type: 'STOCK' as const, basePrice: 162, sector: 'Healthcare', previousClose: 161.50, open: 162.30, beta: 0.65, eps: 6.20, pe: 26.1 },
-      { symbol: 'PG', name: 'Procter & Gamble Co.', type: 'STOCK' as const, basePrice: 155, sector: 'Consumer Goods', previousClose: 154.80, open: 155.40, beta: 0.55, eps: 5.15, pe: 30.1 },
-      { symbol: 'WMT', name: 'Walmart Inc.', type: 'STOCK' as const, basePrice: 165, sector: 'Retail', previousClose: 164.70, open: 165.10, beta: 0.45, eps: 6.29, pe: 26.2 },
-      // Financial sector  
-      { symbol: 'JPM', name: 'JPMorgan Chase & Co.', type: 'STOCK' as const, basePrice: 155, sector: 'Financial', previousClose: 154.50, open: 155.30, beta: 1.15, eps: 15.36, pe: 10.1 },
-      { symbol: 'BAC', name: 'Bank of America Corp.', type: 'STOCK' as const, basePrice: 32, sector: 'Financial', previousClose: 31.80, open: 32.10, beta: 1.25, eps: 3.19, pe: 10.0 },
-      // Crypto with expanded data
-      { symbol: 'BTC', name: 'Bitcoin', type: 'CRYPTO' as const, basePrice: 65000, sector: 'Cryptocurrency', previousClose: 64800, open: 65200, volume: 25000000000 },
-      { symbol: 'ETH', name: 'Ethereum', type: 'CRYPTO' as const, basePrice: 3200, sector: 'Cryptocurrency', previousClose: 3180, open: 3220, volume: 12000000000 },
-      { symbol: 'SHIB', name: 'Shiba Inu', type: 'CRYPTO' as const, basePrice: 0.000015, sector: 'Cryptocurrency', previousClose: 0.0000148, open: 0.0000152, volume: 500000000 },
-      { symbol: 'XMR', name: 'Monero', type: 'CRYPTO' as const, basePrice: 145, sector: 'Cryptocurrency', previousClose: 144.20, open: 145.80, volume: 85000000 }
-    ]
-
-    const matches = fallbackAssets
-      .filter(asset => 
-        asset.symbol.toLowerCase().includes(query.toLowerCase()) ||
-        asset.name.toLowerCase().includes(query.toLowerCase())
-      )
-      .slice(0, 8)
-
-    return matches.map(asset => {
-      // Generate realistic price variations
-      const priceVariation = (Math.random() - 0.5) * 0.06 // ±3% variation
-      const price = asset.basePrice * (1 + priceVariation)
-      const changePercent = (Math.random() - 0.5) * 6 // ±3% change
-      const change = price * (changePercent / 100)
-      
-      const result: AssetData = {
-        symbol: asset.symbol,
-        name: asset.name,
-        type: asset.type,
-        price: Math.round(price * 100) / 100,
-        change: Math.round(change * 100) / 100,
-        changePercent: Math.round(changePercent * 100) / 100,
-        volume: asset.volume || Math.floor(Math.random() * 50000000) + 1000000,
-        sector: asset.sector,
-        lastUpdated: new Date(),
-        // Enhanced data fields
-        previousClose: asset.previousClose,
-        open: asset.open,
-        beta: asset.beta,
-        eps: asset.eps,
-        pe: asset.pe
-      }
-      
-      // Add calculated fields
-      if (result.price && result.previousClose) {
-        const high = result.price * 1.02
-        const low = result.price * 0.98
-        result.dayRange = `${low.toFixed(2)} - ${high.toFixed(2)}`
-      }
-      
-      if (result.price) {
-        result.week52High = result.price * (1 + Math.random() * 0.3)
-        result.week52Low = result.price * (1 - Math.random() * 0.25)
-        result.week52Range = `${result.week52Low?.toFixed(2)} - ${result.week52High?.toFixed(2)}`
-      }
-
-      return result
-    })
-  }
-
-  private async searchStocksAlphaVantage(query: string): Promise<AssetData[]> {
-    try {
-      const response = await this.retryWithBackoff(async () => {
-        return axios.get('https://www.alphavantage.co/query', {
-          params: {
-            function: 'SYMBOL_SEARCH',
-            keywords: query,
-            apikey: process.env.ALPHADVANTAGE_API_KEY
-          },
-          timeout: 8000
-        })
-      })
-
-      const matches = response.data.bestMatches || []
-      const results: AssetData[] = []
-
-      for (const match of matches.slice(0, 4)) {
-        const priceData = await this.getStockPriceAlphaVantage(match['1. symbol'])
-        if (priceData && priceData.price !== undefined) {
-          results.push({
-            symbol: match['1. symbol'],
-            name: match['2. name'],
-            type: 'STOCK',
-            exchange: match['4. region'],
-            price: priceData.price,
-            change: priceData.change || 0,
-            changePercent: priceData.changePercent || 0,
-            volume: priceData.volume,
-            lastUpdated: new Date()
-          })
-        }
-      }
-
-      return results
-    } catch (error) {
-      console.error('Enhanced Alpha Vantage search error:', error)
-      return []
-    }
-  }
-
-  private async searchCryptoFinnhub(query: string): Promise<AssetData[]> {
-    try {
-      const response = await this.retryWithBackoff(async () => {
-        return axios.get('https://finnhub.io/api/v1/crypto/symbol', {
-          params: {
-            exchange: 'BINANCE',
-            token: process.env.FINNHUB_API_KEY
-          },
-          timeout: 8000
-        })
-      })
-
-      const cryptos = response.data || []
-      const filtered = cryptos
-        .filter((crypto: any) => 
-          crypto.symbol.toLowerCase().includes(query.toLowerCase()) ||
-          crypto.description.toLowerCase().includes(query.toLowerCase())
-        )
-        .slice(0, 4)
-
-      const results: AssetData[] = []
-      for (const crypto of filtered) {
-        const priceData = await this.getCryptoPriceFinnhub(crypto.symbol)
-        if (priceData && priceData.price !== undefined) {
-          results.push({
-            symbol: crypto.symbol.replace('BINANCE:', ''),
-            name: crypto.description,
-            type: 'CRYPTO',
-            price: priceData.price,
-            change: priceData.change || 0,
-            changePercent: priceData.changePercent || 0,
-            volume: priceData.volume,
-            lastUpdated: new Date()
-          })
-        }
-      }
-
-      return results
-    } catch (error) {
-      console.error('Enhanced Finnhub crypto search error:', error)
-      return []
-    }
-  }
-
-  private async retryWithBackoff<T>(
-    operation: () => Promise<T>, 
-    maxRetries: number = 2, 
-    baseDelay: number = 800
-  ): Promise<T> {
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        return await operation()
-      } catch (error: any) {
-        if (attempt === maxRetries - 1) throw error
-        
-        const delay = baseDelay * Math.pow(1.5, attempt) + Math.random() * 500
-        console.log(`Enhanced retry attempt ${attempt + 1} after ${delay}ms`)
-        await new Promise(resolve => setTimeout(resolve, delay))
-      }
-    }
-    throw new Error('Max retries exceeded')
-  }
-
-  private async getStockPriceAlphaVantage(symbol: string): Promise<Partial<AssetData> | null> {
-    try {
-      const response = await axios.get('https://www.alphavantage.co/query', {
-        params: {
-          function: 'GLOBAL_QUOTE',
-          symbol: symbol,
-          apikey: process.env.ALPHADVANTAGE_API_KEY
-        },
-        timeout: 8000
-      })
-
-      const quote = response.data['Global Quote']
-      if (!quote) return null
-
-      return {
-        price: parseFloat(quote['05. price']),
-        change: parseFloat(quote['09. change']),
-        changePercent: parseFloat(quote['10. change percent'].replace('%', '')),
-        volume: parseInt(quote['06. volume']),
-        previousClose: parseFloat(quote['08. previous close']),
-        open: parseFloat(quote['02. open']),
-        week52High: parseFloat(quote['03. high']),
-        week52Low: parseFloat(quote['04. low'])
-      }
-    } catch (error) {
-      console.error(`Enhanced error fetching ${symbol} price from Alpha Vantage:`, error)
-      return null
-    }
-  }
-
-  private async getCryptoPriceFinnhub(symbol: string): Promise<Partial<AssetData> | null> {
-    try {
-      const response = await axios.get('https://finnhub.io/api/v1/quote', {
-        params: {
-          symbol: symbol,
-          token: process.env.FINNHUB_API_KEY
-        },
-        timeout: 8000
-      })
-
-      const quote = response.data
-      if (!quote.c) return null
-
-      return {
-        price: quote.c,
-        change: quote.d,
-        changePercent: quote.dp,
-        volume: quote.v,
-        open: quote.o,
-        week52High: quote.h,
-        week52Low: quote.l,
-        previousClose: quote.pc
-      }
-    } catch (error) {
-      console.error(`Enhanced error fetching ${symbol} price from Finnhub:`, error)
-      return null
-    }
-  }
-
-  async getAssetDetails(symbol: string): Promise<AssetData | null> {
-    const cacheKey = `asset_${symbol}`
-    const cached = this.getCachedData(cacheKey, 'intraday')
-    if (cached) return cached
-
-    try {
-      // For now, use search as fallback for asset details
-      const searchResults = await this.searchAssets(symbol)
-      const exactMatch = searchResults.find(asset => 
-        asset.symbol.toUpperCase() === symbol.toUpperCase()
-      )
-      
-      if (exactMatch) {
-        // Add extended data simulation for exact matches
-        const enhancedAsset: AssetData = {
-          ...exactMatch,
-          // Simulate additional fields that might not be in search results
-          previousClose: exactMatch.price * (1 - exactMatch.changePercent / 100),
-          open: exactMatch.price * (0.99 + Math.random() * 0.02),
-          dayRange: `${(exactMatch.price * 0.98).toFixed(2)} - ${(exactMatch.price * 1.02).toFixed(2)}`,
-          avgVolume: exactMatch.volume ? exactMatch.volume * (0.8 + Math.random() * 0.4) : undefined,
-          marketCapIntraday: exactMatch.marketCap,
-          lastUpdated: new Date()
-        }
-        
-        this.setCachedData(cacheKey, enhancedAsset, 'intraday')
-        return enhancedAsset
-      }
-      
-      return null
-    } catch (error) {
-      console.error(`Error fetching asset details for ${symbol}:`, error)
-      return null
-    }
-  }
-
-  async getPriceHistory(symbol: string, interval: string): Promise<Array<{ timestamp: Date; price: number }>> {
-    const cacheKey = `history_${symbol}_${interval}`
-    const cached = this.getCachedData(cacheKey, 'historical')
-    if (cached) return cached
-
-    // Simulate price history for now
-    const asset = await this.getAssetDetails(symbol)
-    if (!asset) return []
-
-    const history: Array<{ timestamp: Date; price: number }> = []
-    const now = new Date()
-    const basePrice = asset.price
-    
-    // Generate realistic price history
-    for (let i = 30; i >= 0; i--) {
-      const timestamp = new Date(now.getTime() - i * 24 * 60 * 60 * 1000)
-      const variation = (Math.random() - 0.5) * 0.1 // ±5% daily variation
-      const price = basePrice * (1 + variation)
-      history.push({ timestamp, price })
-    }
-    
-    this.setCachedData(cacheKey, history, 'historical')
-    return history
-  }
-}
-
-export const enhancedMarketDataService = EnhancedMarketDataService.getInstance()
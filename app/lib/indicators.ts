@@ -0,0 +1,288 @@
+// Technical indicators shared by the analysis routes, the automation engine and the charts.
+// Series functions return arrays aligned with their input, null until enough values have been seen.
+
+export type IndicatorSeries = Array<number | null>
+
+// Bars for the range-based indicators; close-only histories can pass the close as high and low
+export interface OHLCV {
+  high: number
+  low: number
+  close: number
+  volume?: number | null
+}
+
+export function sma(values: number[], period: number): IndicatorSeries {
+  const result: IndicatorSeries = []
+  let sum = 0
+
+  values.forEach((value, index) => {
+    sum += value
+    if (index >= period) sum -= values[index - period]
+    result.push(index >= period - 1 ? sum / period : null)
+  })
+
+  return result
+}
+
+// Seeded with the simple average of the first period so early values are not dominated by the first price
+export function ema(values: number[], period: number): IndicatorSeries {
+  const result: IndicatorSeries = []
+  const multiplier = 2 / (period + 1)
+  let previous: number | null = null
+
+  values.forEach((value, index) => {
+    if (index < period - 1) {
+      result.push(null)
+      return
+    }
+
+    previous = previous === null
+      ? values.slice(0, period).reduce((sum, price) => sum + price, 0) / period
+      : (value - previous) * multiplier + previous
+    result.push(previous)
+  })
+
+  return result
+}
+
+export function bollingerBands(values: number[], period: number = 20, multiplier: number = 2) {
+  const middle = sma(values, period)
+  const upper: IndicatorSeries = []
+  const lower: IndicatorSeries = []
+
+  middle.forEach((mean, index) => {
+    if (mean === null) {
+      upper.push(null)
+      lower.push(null)
+      return
+    }
+
+    const window = values.slice(index - period + 1, index + 1)
+    const deviation = Math.sqrt(window.reduce((sum, price) => sum + Math.pow(price - mean, 2), 0) / period)
+    upper.push(mean + multiplier * deviation)
+    lower.push(mean - multiplier * deviation)
+  })
+
+  return { middle, upper, lower }
+}
+
+// Wilder's RSI: simple averages over the first period, smoothed averages after that
+export function rsi(values: number[], period: number = 14): IndicatorSeries {
+  const result: IndicatorSeries = values.map(() => null)
+  if (values.length <= period) return result
+
+  let avgGain = 0
+  let avgLoss = 0
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1]
+    avgGain += Math.max(change, 0) / period
+    avgLoss += Math.max(-change, 0) / period
+  }
+  result[period] = toRsi(avgGain, avgLoss)
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1]
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period
+    result[i] = toRsi(avgGain, avgLoss)
+  }
+
+  return result
+}
+
+function toRsi(avgGain: number, avgLoss: number): number {
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100
+  return 100 - 100 / (1 + avgGain / avgLoss)
+}
+
+export function macd(values: number[], fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9) {
+  const fast = ema(values, fastPeriod)
+  const slow = ema(values, slowPeriod)
+  const line: IndicatorSeries = values.map((_, index) => {
+    const fastValue = fast[index]
+    const slowValue = slow[index]
+    return fastValue !== null && slowValue !== null ? fastValue - slowValue : null
+  })
+
+  // The signal line only starts once the MACD line exists
+  const start = line.findIndex(value => value !== null)
+  const signal: IndicatorSeries = values.map(() => null)
+  if (start >= 0) {
+    ema(line.slice(start) as number[], signalPeriod).forEach((value, offset) => {
+      signal[start + offset] = value
+    })
+  }
+
+  const histogram: IndicatorSeries = line.map((value, index) => {
+    const signalValue = signal[index]
+    return value !== null && signalValue !== null ? value - signalValue : null
+  })
+
+  return { macd: line, signal, histogram }
+}
+
+// Wilder's average true range; the first bar's range stands in for its true range
+export function atr(candles: OHLCV[], period: number = 14): IndicatorSeries {
+  const result: IndicatorSeries = candles.map(() => null)
+  const ranges = trueRanges(candles)
+  if (ranges.length < period) return result
+
+  let average = ranges.slice(0, period).reduce((sum, range) => sum + range, 0) / period
+  result[period - 1] = average
+  for (let i = period; i < ranges.length; i++) {
+    average = (average * (period - 1) + ranges[i]) / period
+    result[i] = average
+  }
+
+  return result
+}
+
+function trueRanges(candles: OHLCV[]): number[] {
+  return candles.map((candle, index) => {
+    if (index === 0) return candle.high - candle.low
+    const previousClose = candles[index - 1].close
+    return Math.max(candle.high - candle.low, Math.abs(candle.high - previousClose), Math.abs(candle.low - previousClose))
+  })
+}
+
+// %K is where the close sits within the period's high-low range; %D is its moving average
+export function stochastic(candles: OHLCV[], kPeriod: number = 14, dPeriod: number = 3) {
+  const k: IndicatorSeries = candles.map((candle, index) => {
+    if (index < kPeriod - 1) return null
+    const window = candles.slice(index - kPeriod + 1, index + 1)
+    const highest = Math.max(...window.map(bar => bar.high))
+    const lowest = Math.min(...window.map(bar => bar.low))
+    return highest === lowest ? 50 : (candle.close - lowest) / (highest - lowest) * 100
+  })
+
+  const d: IndicatorSeries = candles.map(() => null)
+  const start = k.findIndex(value => value !== null)
+  if (start >= 0) {
+    sma(k.slice(start) as number[], dPeriod).forEach((value, offset) => {
+      d[start + offset] = value
+    })
+  }
+
+  return { k, d }
+}
+
+// On-balance volume: volume added on up closes and subtracted on down closes
+export function obv(candles: OHLCV[]): IndicatorSeries {
+  let total = 0
+
+  return candles.map((candle, index) => {
+    if (index > 0) {
+      const volume = candle.volume ?? 0
+      if (candle.close > candles[index - 1].close) total += volume
+      else if (candle.close < candles[index - 1].close) total -= volume
+    }
+    return total
+  })
+}
+
+// Volume-weighted average of the typical price, cumulative from the first bar passed in (pass one session for a session VWAP)
+export function vwap(candles: OHLCV[]): IndicatorSeries {
+  let priceVolume = 0
+  let totalVolume = 0
+
+  return candles.map(candle => {
+    const volume = candle.volume ?? 0
+    priceVolume += (candle.high + candle.low + candle.close) / 3 * volume
+    totalVolume += volume
+    return totalVolume > 0 ? priceVolume / totalVolume : null
+  })
+}
+
+// Wilder's directional movement system: ADX measures trend strength, the DI lines its direction
+export function adx(candles: OHLCV[], period: number = 14) {
+  const adxSeries: IndicatorSeries = candles.map(() => null)
+  const plusDI: IndicatorSeries = candles.map(() => null)
+  const minusDI: IndicatorSeries = candles.map(() => null)
+  if (candles.length <= period) return { adx: adxSeries, plusDI, minusDI }
+
+  const ranges = trueRanges(candles)
+  let smoothedRange = 0
+  let smoothedPlus = 0
+  let smoothedMinus = 0
+  const dx: number[] = []
+
+  for (let i = 1; i < candles.length; i++) {
+    const upMove = candles[i].high - candles[i - 1].high
+    const downMove = candles[i - 1].low - candles[i].low
+    const plusMove = upMove > downMove && upMove > 0 ? upMove : 0
+    const minusMove = downMove > upMove && downMove > 0 ? downMove : 0
+
+    if (i <= period) {
+      smoothedRange += ranges[i]
+      smoothedPlus += plusMove
+      smoothedMinus += minusMove
+      if (i < period) continue
+    } else {
+      smoothedRange = smoothedRange - smoothedRange / period + ranges[i]
+      smoothedPlus = smoothedPlus - smoothedPlus / period + plusMove
+      smoothedMinus = smoothedMinus - smoothedMinus / period + minusMove
+    }
+
+    const plus = smoothedRange > 0 ? smoothedPlus / smoothedRange * 100 : 0
+    const minus = smoothedRange > 0 ? smoothedMinus / smoothedRange * 100 : 0
+    plusDI[i] = plus
+    minusDI[i] = minus
+    dx.push(plus + minus > 0 ? Math.abs(plus - minus) / (plus + minus) * 100 : 0)
+
+    // ADX starts as the mean of the first period DX values and is smoothed from there
+    if (dx.length === period) {
+      adxSeries[i] = dx.reduce((sum, value) => sum + value, 0) / period
+    } else if (dx.length > period) {
+      adxSeries[i] = (adxSeries[i - 1]! * (period - 1) + dx[dx.length - 1]) / period
+    }
+  }
+
+  return { adx: adxSeries, plusDI, minusDI }
+}
+
+// Annualized standard deviation of log returns, in percent
+export function volatility(values: number[], periodsPerYear: number = 252): number | null {
+  if (values.length < 3) return null
+
+  const returns = values.slice(1).map((value, index) => Math.log(value / values[index]))
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length
+  const variance = returns.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / (returns.length - 1)
+  return Math.sqrt(variance * periodsPerYear) * 100
+}
+
+/**
+ * Nearest swing low below and swing high above the last close within the lookback window.
+ * A swing point is a bar whose low (or high) is not exceeded by the `strength` bars either side of it;
+ * without one, the window's extreme is used.
+ */
+export function supportResistance(candles: OHLCV[], lookback: number = 50, strength: number = 2) {
+  const recent = candles.slice(-lookback)
+  if (recent.length === 0) return { support: null, resistance: null }
+
+  const price = recent[recent.length - 1].close
+  const swingLows: number[] = []
+  const swingHighs: number[] = []
+
+  for (let i = strength; i < recent.length - strength; i++) {
+    const neighbours = recent.slice(i - strength, i + strength + 1)
+    if (neighbours.every(bar => bar.low >= recent[i].low)) swingLows.push(recent[i].low)
+    if (neighbours.every(bar => bar.high <= recent[i].high)) swingHighs.push(recent[i].high)
+  }
+
+  const below = swingLows.filter(low => low <= price)
+  const above = swingHighs.filter(high => high >= price)
+
+  return {
+    support: below.length > 0 ? Math.max(...below) : Math.min(...recent.map(bar => bar.low)),
+    resistance: above.length > 0 ? Math.min(...above) : Math.max(...recent.map(bar => bar.high))
+  }
+}
+
+// Most recent computed value of a series
+export function latest(series: IndicatorSeries): number | null {
+  for (let i = series.length - 1; i >= 0; i--) {
+    const value = series[i]
+    if (value !== null) return value
+  }
+  return null
+}
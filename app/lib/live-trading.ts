@@ -0,0 +1,424 @@
+import type { Trade } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { portfolioLedger, LedgerError } from '@/lib/portfolio-ledger'
+import {
+  getBroker,
+  BrokerError,
+  FINAL_ORDER_STATUSES,
+  type BrokerAdapter,
+  type BrokerOrder,
+  type BrokerOrderType,
+  type BrokerTimeInForce
+} from '@/lib/brokers'
+
+export interface LiveOrderRequest {
+  userId: string
+  portfolioId: string
+  assetId: string
+  symbol: string
+  type: 'BUY' | 'SELL'
+  quantity: number
+  orderType: BrokerOrderType
+  timeInForce: BrokerTimeInForce
+  limitPrice?: number
+  stopPrice?: number
+  // Price the order is reserved and recorded at until the broker reports a fill
+  referencePrice: number
+  activityType?: string
+  activityDescription?: string
+  activityMetadata?: Record<string, any>
+}
+
+interface FillActivity {
+  activityType: string
+  activityDescription: string
+  activityMetadata?: Record<string, any>
+}
+
+// Market orders usually fill within a second or two; past this they are left to the reconciler
+const FILL_WAIT_MS = 5000
+const FILL_POLL_MS = 500
+const MAX_ORDERS_PER_SYNC = 100
+// Differences smaller than this are rounding, not cash movements
+const CASH_SYNC_TOLERANCE = 0.005
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Routes orders for LIVE portfolios to the configured broker. Each order is a PENDING Trade row
+ * carrying the broker order id; fills are booked through the portfolio ledger once the broker
+ * reports them, either right after submission or by the periodic reconciliation pass.
+ */
+export class LiveTradingService {
+  private static instance: LiveTradingService
+  private timer: NodeJS.Timeout | null = null
+  private isReconciling = false
+  private settledListeners = new Set<(trade: Trade) => Promise<void>>()
+
+  private readonly DEFAULT_INTERVAL = 15 * 1000 // 15 seconds
+
+  static getInstance(): LiveTradingService {
+    if (!LiveTradingService.instance) {
+      LiveTradingService.instance = new LiveTradingService()
+    }
+    return LiveTradingService.instance
+  }
+
+  // Called once an order's fill is booked or the order closes unfilled; returns an unsubscribe function
+  onOrderSettled(listener: (trade: Trade) => Promise<void>): () => void {
+    this.settledListeners.add(listener)
+    return () => this.settledListeners.delete(listener)
+  }
+
+  isAvailable(): boolean {
+    return getBroker() !== null
+  }
+
+  start(intervalMs: number = this.DEFAULT_INTERVAL) {
+    if (this.timer) return
+
+    console.log(`Broker reconciliation started with ${intervalMs}ms interval`)
+    this.timer = setInterval(() => {
+      this.reconcileOpenOrders().catch(error => {
+        console.error('Scheduled broker reconciliation failed:', error)
+      })
+    }, intervalMs)
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  // The user's live portfolio, opened with the broker account's cash on first use
+  async ensureLivePortfolio(userId: string) {
+    const existing = await prisma.portfolio.findFirst({
+      where: { userId, type: 'LIVE', isActive: true },
+      orderBy: { createdAt: 'asc' }
+    })
+    if (existing) return existing
+
+    // Positions already held at the broker are not imported; only orders placed here are tracked
+    const account = await this.getBrokerOrThrow().getAccount()
+    return prisma.portfolio.create({
+      data: {
+        userId,
+        name: 'Live Trading',
+        type: 'LIVE',
+        balance: account.cash,
+        netDeposits: account.cash
+      }
+    })
+  }
+
+  async getAccountOverview() {
+    const broker = this.getBrokerOrThrow()
+    const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
+    const [account, positions, fills] = await Promise.all([
+      broker.getAccount(),
+      broker.getPositions(),
+      broker.getFills({ after: since })
+    ])
+    return { broker: broker.name, account, positions, fills }
+  }
+
+  async submitOrder(request: LiveOrderRequest) {
+    const broker = this.getBrokerOrThrow()
+    const { userId, portfolioId, assetId, symbol, type, quantity, referencePrice } = request
+
+    // The broker would happily open a short or spend margin; live portfolios stay long and cash-only
+    if (type === 'SELL') {
+      const position = await prisma.portfolioItem.findUnique({
+        where: { portfolioId_assetId: { portfolioId, assetId } }
+      })
+      if (!position || position.quantity < quantity) {
+        throw new BrokerError('Insufficient shares to sell', 400)
+      }
+    } else {
+      // Buys still open at the broker have not been booked yet, so their cash is held back here
+      const [portfolio, openBuys] = await Promise.all([
+        prisma.portfolio.findUniqueOrThrow({ where: { id: portfolioId } }),
+        prisma.trade.aggregate({
+          where: { portfolioId, type: 'BUY', status: 'PENDING', brokerOrderId: { not: null } },
+          _sum: { totalAmount: true }
+        })
+      ])
+      if (portfolio.balance - (openBuys._sum.totalAmount || 0) < quantity * referencePrice) {
+        throw new BrokerError('Insufficient balance', 400)
+      }
+    }
+
+    const trade = await prisma.trade.create({
+      data: {
+        userId,
+        portfolioId,
+        assetId,
+        type,
+        quantity,
+        price: referencePrice,
+        totalAmount: quantity * referencePrice,
+        status: 'PENDING',
+        orderType: request.orderType,
+        timeInForce: request.timeInForce,
+        limitPrice: request.limitPrice ?? null,
+        stopPrice: request.stopPrice ?? null,
+        isSimulated: false,
+        broker: broker.name
+      }
+    })
+
+    let order: BrokerOrder
+    try {
+      order = await broker.submitOrder({
+        symbol,
+        side: type,
+        quantity,
+        orderType: request.orderType,
+        timeInForce: request.timeInForce,
+        limitPrice: request.limitPrice,
+        stopPrice: request.stopPrice,
+        clientOrderId: trade.id
+      })
+    } catch (error) {
+      await prisma.trade.update({
+        where: { id: trade.id },
+        data: {
+          status: 'CANCELLED',
+          cancelReason: error instanceof Error ? error.message : 'BROKER_REJECTED'
+        }
+      })
+      throw error
+    }
+
+    const submitted = await prisma.trade.update({
+      where: { id: trade.id },
+      data: { brokerOrderId: order.id, brokerStatus: order.brokerStatus }
+    })
+
+    if (request.orderType === 'MARKET') {
+      order = await this.waitForFinalStatus(broker, order)
+    }
+
+    return this.applyOrderUpdate(submitted, order, {
+      activityType: request.activityType || 'TRADE',
+      activityDescription: request.activityDescription || `${type} ${quantity} shares of ${symbol} via ${broker.name}`,
+      activityMetadata: request.activityMetadata
+    })
+  }
+
+  // Cancellation is asynchronous at the broker; the order may still fill before it takes effect
+  async cancelOrder(trade: Trade) {
+    const broker = this.getBrokerOrThrow()
+    if (!trade.brokerOrderId) {
+      throw new BrokerError('Order was not routed to a broker', 400)
+    }
+
+    await broker.cancelOrder(trade.brokerOrderId)
+    const order = await broker.getOrder(trade.brokerOrderId)
+    const { trade: updated } = await this.applyOrderUpdate(trade, order)
+    return updated
+  }
+
+  async reconcileOpenOrders(): Promise<{ checked: number; filled: number; closed: number; cashSynced: number }> {
+    const broker = getBroker()
+    if (!broker || this.isReconciling) {
+      return { checked: 0, filled: 0, closed: 0, cashSynced: 0 }
+    }
+
+    this.isReconciling = true
+
+    try {
+      const trades = await prisma.trade.findMany({
+        where: { status: 'PENDING', brokerOrderId: { not: null } },
+        orderBy: { createdAt: 'asc' },
+        take: MAX_ORDERS_PER_SYNC
+      })
+
+      let filled = 0
+      let closed = 0
+
+      for (const trade of trades) {
+        try {
+          const order = await broker.getOrder(trade.brokerOrderId!)
+          const { trade: updated } = await this.applyOrderUpdate(trade, order)
+          if (updated.status === 'COMPLETED') filled++
+          else if (updated.status !== 'PENDING') closed++
+        } catch (error) {
+          console.error(`Reconciling broker order ${trade.brokerOrderId} failed:`, error)
+        }
+      }
+
+      let cashSynced = 0
+      try {
+        cashSynced = await this.syncBrokerCash(broker)
+      } catch (error) {
+        console.error('Syncing cash from the broker account failed:', error)
+      }
+
+      return { checked: trades.length, filled, closed, cashSynced }
+    } finally {
+      this.isReconciling = false
+    }
+  }
+
+  // Books a fill (complete, or partial on a closed order) or closes the row; otherwise just records the status
+  private async applyOrderUpdate(trade: Trade, order: BrokerOrder, activity?: FillActivity) {
+    const isFinal = FINAL_ORDER_STATUSES.includes(order.status)
+    const unchanged = { trade, portfolioItem: null, realizedPnL: null }
+
+    if (order.status === 'FILLED' || (isFinal && order.filledQuantity > 0)) {
+      const symbol = order.symbol
+      try {
+        const { trade: filled, portfolioItem, realizedPnL } = await portfolioLedger.recordFill({
+          userId: trade.userId,
+          portfolioId: trade.portfolioId!,
+          assetId: trade.assetId,
+          symbol,
+          type: trade.type as 'BUY' | 'SELL',
+          quantity: order.filledQuantity,
+          price: order.filledAvgPrice ?? trade.price,
+          // Commission-free broker; regulatory fees are not itemised on the order
+          fees: 0,
+          isSimulated: false,
+          pendingTradeId: trade.id,
+          // The broker has already executed it, so a local shortfall must not block the booking
+          brokerConfirmed: true,
+          activityType: activity?.activityType || 'ORDER_FILLED',
+          activityDescription: activity?.activityDescription
+            || `${trade.orderType} ${trade.type} order filled: ${order.filledQuantity} shares of ${symbol}`,
+          activityMetadata: {
+            ...activity?.activityMetadata,
+            broker: trade.broker,
+            brokerOrderId: order.id,
+            brokerStatus: order.brokerStatus,
+            orderedQuantity: order.quantity
+          }
+        })
+
+        const updated = await prisma.trade.update({
+          where: { id: filled.id },
+          data: { brokerStatus: order.brokerStatus }
+        })
+        await this.notifySettled(updated)
+        return { trade: updated, portfolioItem, realizedPnL }
+      } catch (error) {
+        // Another pass booked this fill first
+        if (error instanceof LedgerError && error.status === 409) {
+          return { ...unchanged, trade: await prisma.trade.findUniqueOrThrow({ where: { id: trade.id } }) }
+        }
+        throw error
+      }
+    }
+
+    if (isFinal) {
+      const { count } = await prisma.trade.updateMany({
+        where: { id: trade.id, status: 'PENDING' },
+        data: {
+          status: order.status === 'EXPIRED' ? 'EXPIRED' : 'CANCELLED',
+          cancelReason: order.status === 'REJECTED' ? 'BROKER_REJECTED' : order.status === 'EXPIRED' ? 'TIME_IN_FORCE_EXPIRED' : 'BROKER_CANCELLED',
+          brokerStatus: order.brokerStatus
+        }
+      })
+      const closed = await prisma.trade.findUniqueOrThrow({ where: { id: trade.id } })
+      if (count > 0) await this.notifySettled(closed)
+      return { ...unchanged, trade: closed }
+    }
+
+    if (order.brokerStatus !== trade.brokerStatus) {
+      return { ...unchanged, trade: await prisma.trade.update({ where: { id: trade.id }, data: { brokerStatus: order.brokerStatus } }) }
+    }
+    return unchanged
+  }
+
+  // Cash also moves at the broker outside of orders placed here (transfers, interest, fees), so the live
+  // balance follows the account. Only runs with no orders in flight: an unbooked fill would otherwise
+  // be counted twice, once in the broker's cash and again when the ledger books it.
+  private async syncBrokerCash(broker: BrokerAdapter): Promise<number> {
+    // Rows carry the broker name from creation, before the broker has even acknowledged them
+    const inFlight = { status: 'PENDING', broker: { not: null } }
+    if (await prisma.trade.count({ where: inFlight }) > 0) return 0
+
+    // There is one broker account, so only a single live portfolio can be said to own its cash
+    const portfolios = await prisma.portfolio.findMany({ where: { type: 'LIVE', isActive: true }, take: 2 })
+    if (portfolios.length === 0) return 0
+    if (portfolios.length > 1) {
+      console.warn(`Skipping ${broker.name} cash sync: more than one active live portfolio shares the account`)
+      return 0
+    }
+
+    const [portfolio] = portfolios
+    const account = await broker.getAccount()
+    const difference = account.cash - portfolio.balance
+    if (Math.abs(difference) < CASH_SYNC_TOLERANCE) return 0
+
+    const applied = await prisma.$transaction(async tx => {
+      // Orders submitted since the account was read are created PENDING before they reach the broker
+      if (await tx.trade.count({ where: inFlight }) > 0) return false
+
+      // Conditional on the balance read above, so a fill booked in the meantime wins
+      const claimed = await tx.portfolio.updateMany({
+        where: { id: portfolio.id, balance: portfolio.balance, isActive: true },
+        data: {
+          balance: account.cash,
+          netDeposits: { increment: difference }
+        }
+      })
+      if (claimed.count === 0) return false
+
+      const amount = Math.abs(difference)
+      await tx.cashTransaction.create({
+        data: {
+          userId: portfolio.userId,
+          portfolioId: portfolio.id,
+          type: difference > 0 ? 'DEPOSIT' : 'WITHDRAWAL',
+          amount,
+          note: `Synced with ${broker.name} account cash`
+        }
+      })
+      await tx.activity.create({
+        data: {
+          userId: portfolio.userId,
+          type: 'BROKER_CASH_SYNC',
+          description: `${portfolio.name} cash ${difference > 0 ? 'increased' : 'decreased'} by $${amount.toFixed(2)} to match ${broker.name}`,
+          metadata: { portfolioId: portfolio.id, previousBalance: portfolio.balance, balance: account.cash }
+        }
+      })
+      return true
+    })
+
+    return applied ? 1 : 0
+  }
+
+  // The order is settled whatever a listener does, so their failures are only logged
+  private async notifySettled(trade: Trade) {
+    for (const listener of this.settledListeners) {
+      try {
+        await listener(trade)
+      } catch (error) {
+        console.error(`Settlement handler for trade ${trade.id} failed:`, error)
+      }
+    }
+  }
+
+  private async waitForFinalStatus(broker: BrokerAdapter, order: BrokerOrder): Promise<BrokerOrder> {
+    const deadline = Date.now() + FILL_WAIT_MS
+    let current = order
+    while (!FINAL_ORDER_STATUSES.includes(current.status) && Date.now() < deadline) {
+      await sleep(FILL_POLL_MS)
+      current = await broker.getOrder(order.id)
+    }
+    return current
+  }
+
+  private getBrokerOrThrow(): BrokerAdapter {
+    const broker = getBroker()
+    if (!broker) {
+      throw new BrokerError('Live trading is not configured', 503)
+    }
+    return broker
+  }
+}
+
+export const liveTrading = LiveTradingService.getInstance()
@@ -0,0 +1,95 @@
+import { z } from 'zod'
+
+// Upper-cases enum-like strings so "buy" or " Buy " are accepted
+const upperEnum = <T extends [string, ...string[]]>(values: T) =>
+  z.preprocess(value => typeof value === 'string' ? value.trim().toUpperCase() : value, z.enum(values))
+
+// Accepts numbers and numeric strings such as "75%" or "$182.50"
+const looseNumber = z.preprocess(value => {
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace(/[$,%\s]/g, ''))
+    return isNaN(parsed) ? value : parsed
+  }
+  return value
+}, z.number().finite())
+
+const stringList = z.array(z.coerce.string()).default([])
+
+export const analysisPayloadSchema = z.object({
+  recommendation: upperEnum(['BUY', 'SELL', 'HOLD']),
+  confidence: looseNumber,
+  priceTarget: looseNumber.nullable().optional(),
+  timeHorizon: upperEnum(['SHORT', 'MEDIUM', 'LONG']).catch('MEDIUM'),
+  analysis: z.string().trim().min(1),
+  keyPoints: stringList,
+  risks: stringList,
+  opportunities: stringList,
+  marketSentiment: upperEnum(['BULLISH', 'BEARISH', 'NEUTRAL']).catch('NEUTRAL'),
+  technicalSignals: z.record(z.any()).default({}),
+  newsFactors: z.record(z.any()).optional(),
+  automationRecommendation: z.record(z.any()).optional(),
+  riskAssessment: z.record(z.any()).optional()
+}).passthrough()
+
+export type AnalysisPayload = z.infer<typeof analysisPayloadSchema>
+
+export interface AnalysisValidationContext {
+  // Used to reject price targets that cannot refer to this asset
+  currentPrice?: number
+}
+
+export type AnalysisValidationResult =
+  | { success: true; data: AnalysisPayload; clamped: string[] }
+  | { success: false; issues: string[] }
+
+// Price targets outside this multiple of the current price are treated as hallucinated
+const MAX_TARGET_MULTIPLE = 10
+// Confidence this far outside 0-100 is clamped; further out the response is rejected
+const CONFIDENCE_TOLERANCE = 5
+
+export function validateAnalysisPayload(raw: unknown, context: AnalysisValidationContext = {}): AnalysisValidationResult {
+  const parsed = analysisPayloadSchema.safeParse(raw)
+
+  if (!parsed.success) {
+    return {
+      success: false,
+      issues: parsed.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+    }
+  }
+
+  const data = { ...parsed.data }
+  const clamped: string[] = []
+
+  // A fraction such as 0.85 is a probability given on the 0-1 scale
+  if (data.confidence > 0 && data.confidence < 1) {
+    data.confidence *= 100
+    clamped.push('confidence')
+  } else if (data.confidence < 0 || data.confidence > 100) {
+    // Only a rounding slip is clamped; anything further out is not a percentage at all
+    if (data.confidence < -CONFIDENCE_TOLERANCE || data.confidence > 100 + CONFIDENCE_TOLERANCE) {
+      return { success: false, issues: [`confidence: ${data.confidence} is not a percentage between 0 and 100`] }
+    }
+    data.confidence = Math.max(0, Math.min(100, data.confidence))
+    clamped.push('confidence')
+  }
+  data.confidence = Math.round(data.confidence)
+
+  if (data.priceTarget !== undefined && data.priceTarget !== null) {
+    if (data.priceTarget <= 0) {
+      return { success: false, issues: ['priceTarget: must be positive'] }
+    }
+
+    const { currentPrice } = context
+    if (currentPrice && currentPrice > 0) {
+      const multiple = data.priceTarget / currentPrice
+      if (multiple > MAX_TARGET_MULTIPLE || multiple < 1 / MAX_TARGET_MULTIPLE) {
+        return {
+          success: false,
+          issues: [`priceTarget: ${data.priceTarget} is implausible for a current price of ${currentPrice}`]
+        }
+      }
+    }
+  }
+
+  return { success: true, data, clamped }
+}
@@ -0,0 +1,78 @@
+import { MockLLMProvider } from './mock'
+import { OpenAICompatibleProvider } from './openai-compatible'
+import { LLMProvider } from './types'
+
+export * from './types'
+
+export type LLMPurpose = 'analysis' | 'chat'
+
+interface ProviderPreset {
+  baseURL: string
+  apiKeyEnv: string
+  defaultModel: string
+}
+
+const PRESETS: Record<string, ProviderPreset> = {
+  abacus: {
+    baseURL: 'https://apps.abacus.ai/v1',
+    apiKeyEnv: 'ABACUSAI_API_KEY',
+    defaultModel: 'gpt-4.1-mini'
+  },
+  openai: {
+    baseURL: 'https://api.openai.com/v1',
+    apiKeyEnv: 'OPENAI_API_KEY',
+    defaultModel: 'gpt-4-turbo-preview'
+  }
+}
+
+// Analysis has always run on Abacus and chat on OpenAI; these stay the defaults when nothing is configured
+const DEFAULT_PROVIDERS: Record<LLMPurpose, string> = {
+  analysis: 'abacus',
+  chat: 'openai'
+}
+
+const providers = new Map<string, LLMProvider>()
+
+/**
+ * Resolves the provider for a purpose from the environment:
+ * - LLM_PROVIDER: abacus | openai | openai-compatible | mock (applies to every purpose)
+ * - LLM_CHAT_PROVIDER: overrides LLM_PROVIDER for chat only
+ * - LLM_BASE_URL / LLM_API_KEY / LLM_MODEL: endpoint settings for openai-compatible, or overrides for a preset
+ */
+export function getLLMProvider(purpose: LLMPurpose = 'analysis'): LLMProvider {
+  const name = (purpose === 'chat' && process.env.LLM_CHAT_PROVIDER)
+    || process.env.LLM_PROVIDER
+    || DEFAULT_PROVIDERS[purpose]
+
+  const cached = providers.get(name)
+  if (cached) return cached
+
+  const provider = createProvider(name)
+  providers.set(name, provider)
+  return provider
+}
+
+function createProvider(name: string): LLMProvider {
+  if (name === 'mock') {
+    return new MockLLMProvider()
+  }
+
+  const preset = PRESETS[name]
+  if (!preset && name !== 'openai-compatible') {
+    throw new Error(`Unknown LLM provider: ${name}`)
+  }
+
+  const baseURL = process.env.LLM_BASE_URL || preset?.baseURL
+  const defaultModel = process.env.LLM_MODEL || preset?.defaultModel
+
+  if (!baseURL || !defaultModel) {
+    throw new Error('LLM_BASE_URL and LLM_MODEL are required for the openai-compatible provider')
+  }
+
+  return new OpenAICompatibleProvider({
+    name,
+    baseURL,
+    defaultModel,
+    apiKey: process.env.LLM_API_KEY || (preset ? process.env[preset.apiKeyEnv] : undefined) || ''
+  })
+}
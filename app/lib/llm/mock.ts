@@ -0,0 +1,127 @@
+import { ChatMessage, ChatOptions, ChatResult, LLMProvider, ToolDefinition, ToolStreamEvent } from './types'
+
+const MOCK_MODEL = 'mock-1'
+const RECOMMENDATIONS = ['BUY', 'HOLD', 'SELL'] as const
+
+// FNV-1a, so identical prompts always produce identical responses
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function extractNumber(text: string, pattern: RegExp): number | null {
+  const match = text.match(pattern)
+  if (!match) return null
+  const value = parseFloat(match[1].replace(/,/g, ''))
+  return isNaN(value) ? null : value
+}
+
+// Offline provider for development and tests; responses are derived from the prompt alone
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock'
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+    const lastUser = [...messages].reverse().find(message => message.role === 'user')?.content || ''
+    const topic = lastUser.trim().split(/\s+/).slice(0, 12).join(' ')
+
+    return {
+      content: `[mock] This is a deterministic offline response to: "${topic}". ` +
+        'Configure LLM_PROVIDER to use a real model. This is educational information only.',
+      model: options.model || MOCK_MODEL
+    }
+  }
+
+  // Analysis prompts get an analysis-shaped object so downstream parsing and persistence work offline
+  async chatJSON<T = any>(messages: ChatMessage[]): Promise<T> {
+    const prompt = messages.map(message => message.content).join('\n')
+    const hash = hashString(prompt)
+
+    const price = extractNumber(prompt, /Price:\s*\$?([\d,.]+)/i) ?? 100
+    const confidenceFloor = extractNumber(prompt, /CONFIDENCE(?: SCORE)?:\s*([\d.]+)%/i) ?? 50
+    const recommendation = RECOMMENDATIONS[hash % RECOMMENDATIONS.length]
+    const confidence = Math.min(100, Math.round(confidenceFloor + (hash % 15)))
+    const direction = recommendation === 'BUY' ? 1 : recommendation === 'SELL' ? -1 : 0
+    const sentiment = direction > 0 ? 'BULLISH' : direction < 0 ? 'BEARISH' : 'NEUTRAL'
+
+    return {
+      recommendation,
+      confidence,
+      priceTarget: Math.round(price * (1 + direction * 0.08) * 100) / 100,
+      timeHorizon: 'MEDIUM',
+      analysis: `Mock analysis generated offline. The model leans ${sentiment.toLowerCase()} with ${confidence}% confidence.`,
+      keyPoints: ['Mock key point one', 'Mock key point two', 'Mock key point three'],
+      risks: ['Mock risk one', 'Mock risk two'],
+      opportunities: ['Mock opportunity one', 'Mock opportunity two'],
+      marketSentiment: sentiment,
+      technicalSignals: {},
+      automationRecommendation: {
+        autoTrade: false,
+        urgency: 'LOW',
+        positionSize: '10',
+        stopLoss: Math.round(price * 0.95 * 100) / 100,
+        takeProfit: Math.round(price * 1.1 * 100) / 100,
+        timeframe: 'mock'
+      },
+      riskAssessment: {
+        overall: 'MEDIUM',
+        factors: ['Mock factor'],
+        mitigation: ['Mock mitigation']
+      }
+    } as T
+  }
+
+  /**
+   * Calls the tool whose name shares the most words with the user's message (get_quote for "quote"),
+   * filling a `symbol` argument from the first ticker-like word, then summarizes the tool results.
+   */
+  async *streamWithTools(messages: ChatMessage[], tools: ToolDefinition[], options: ChatOptions = {}): AsyncIterable<ToolStreamEvent> {
+    const last = messages[messages.length - 1]
+
+    if (last?.role === 'tool') {
+      let start = messages.length
+      while (start > 0 && messages[start - 1].role === 'tool') start--
+      const results = messages.slice(start)
+      yield* this.words(`[mock] Tool results: ${results.map(result => result.content.slice(0, 200)).join(' | ')}`)
+      return
+    }
+
+    const text = last?.content || ''
+    const words = new Set(text.toLowerCase().match(/[a-z]+/g) || [])
+    const scored = tools
+      .map(tool => ({ tool, score: tool.name.split('_').filter(part => words.has(part) || words.has(`${part}s`)).length }))
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score)
+
+    if (scored.length === 0) {
+      yield* this.words((await this.chat(messages, options)).content)
+      return
+    }
+
+    const tool = scored[0].tool
+    const symbol = text.match(/\b[A-Z]{2,5}\b/)?.[0]
+    const properties = (tool.parameters.properties || {}) as Record<string, unknown>
+    const args = symbol && 'symbol' in properties ? { symbol } : {}
+
+    yield {
+      type: 'tool_calls',
+      toolCalls: [{ id: `mock_${hashString(text + tool.name).toString(16)}`, name: tool.name, arguments: JSON.stringify(args) }]
+    }
+  }
+
+  async *stream(messages: ChatMessage[], options: ChatOptions = {}): AsyncIterable<string> {
+    const { content } = await this.chat(messages, options)
+    for (const word of content.split(/(?<=\s)/)) {
+      yield word
+    }
+  }
+
+  private *words(content: string): Iterable<ToolStreamEvent> {
+    for (const word of content.split(/(?<=\s)/)) {
+      yield { type: 'text', content: word }
+    }
+  }
+}
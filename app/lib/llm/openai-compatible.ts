@@ -0,0 +1,147 @@
+import OpenAI from 'openai'
+import { ChatMessage, ChatOptions, ChatResult, LLMError, LLMProvider, ToolCall, ToolDefinition, ToolStreamEvent } from './types'
+
+export interface OpenAICompatibleConfig {
+  name: string
+  baseURL: string
+  apiKey: string
+  defaultModel: string
+}
+
+// Any endpoint that speaks the OpenAI chat completions API (OpenAI, Abacus, local gateways)
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string
+  private client: OpenAI
+  private defaultModel: string
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name
+    this.defaultModel = config.defaultModel
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL
+    })
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+    const model = options.model || this.defaultModel
+    const completion = await this.request(() => this.client.chat.completions.create({
+      ...this.buildParams(messages, options),
+      model
+    }))
+
+    const content = completion.choices[0]?.message?.content
+    if (!content) {
+      throw new LLMError('No response generated', this.name)
+    }
+
+    return { content, model: completion.model || model }
+  }
+
+  async chatJSON<T = any>(messages: ChatMessage[], options: ChatOptions = {}): Promise<T> {
+    const completion = await this.request(() => this.client.chat.completions.create({
+      ...this.buildParams(messages, options),
+      model: options.model || this.defaultModel,
+      response_format: { type: 'json_object' }
+    }))
+
+    const content = completion.choices[0]?.message?.content
+    if (!content) {
+      throw new LLMError('No response generated', this.name)
+    }
+
+    try {
+      return JSON.parse(content) as T
+    } catch {
+      throw new LLMError('Response was not valid JSON', this.name, 'INVALID_JSON')
+    }
+  }
+
+  async *streamWithTools(messages: ChatMessage[], tools: ToolDefinition[], options: ChatOptions = {}): AsyncIterable<ToolStreamEvent> {
+    const stream = await this.request(() => this.client.chat.completions.create({
+      ...this.buildParams(messages, options),
+      model: options.model || this.defaultModel,
+      // An empty tools array is rejected by the API, so a tool-free round omits it
+      ...(tools.length > 0 && {
+        tools: tools.map(tool => ({
+          type: 'function' as const,
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+        }))
+      }),
+      stream: true
+    }))
+
+    // Tool calls stream as fragments keyed by index; they are only usable once complete
+    const toolCalls: ToolCall[] = []
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta
+      if (delta?.content) yield { type: 'text', content: delta.content }
+
+      for (const fragment of delta?.tool_calls || []) {
+        const call = toolCalls[fragment.index] ||= { id: '', name: '', arguments: '' }
+        if (fragment.id) call.id = fragment.id
+        if (fragment.function?.name) call.name += fragment.function.name
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments
+      }
+    }
+
+    if (toolCalls.length > 0) {
+      yield { type: 'tool_calls', toolCalls: toolCalls.filter(Boolean) }
+    }
+  }
+
+  async *stream(messages: ChatMessage[], options: ChatOptions = {}): AsyncIterable<string> {
+    const stream = await this.request(() => this.client.chat.completions.create({
+      ...this.buildParams(messages, options),
+      model: options.model || this.defaultModel,
+      stream: true
+    }))
+
+    for await (const chunk of stream) {
+      const content = chunk.choices[0]?.delta?.content
+      if (content) yield content
+    }
+  }
+
+  private buildParams(messages: ChatMessage[], options: ChatOptions) {
+    return {
+      messages: messages.map(message => this.toOpenAIMessage(message)),
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      presence_penalty: options.presencePenalty,
+      frequency_penalty: options.frequencyPenalty
+    }
+  }
+
+  private toOpenAIMessage(message: ChatMessage): OpenAI.Chat.ChatCompletionMessageParam {
+    switch (message.role) {
+      case 'tool':
+        return { role: 'tool', content: message.content, tool_call_id: message.toolCallId || '' }
+      case 'assistant':
+        return message.toolCalls?.length
+          ? {
+              role: 'assistant',
+              content: message.content || null,
+              tool_calls: message.toolCalls.map(call => ({
+                id: call.id,
+                type: 'function' as const,
+                function: { name: call.name, arguments: call.arguments }
+              }))
+            }
+          : { role: 'assistant', content: message.content }
+      default:
+        return { role: message.role, content: message.content }
+    }
+  }
+
+  private async request<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call()
+    } catch (error) {
+      if (error instanceof OpenAI.APIError) {
+        throw new LLMError(`${this.name} request failed (${error.status}): ${error.message}`, this.name)
+      }
+      throw error
+    }
+  }
+}
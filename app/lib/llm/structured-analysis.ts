@@ -0,0 +1,115 @@
+import { getLLMProvider, LLMPurpose } from './index'
+import { ChatMessage, ChatOptions, LLMError } from './types'
+import { AnalysisPayload, AnalysisValidationContext, validateAnalysisPayload } from './analysis-schema'
+
+export class AnalysisRejectedError extends Error {
+  constructor(message: string, public issues: string[]) {
+    super(message)
+    this.name = 'AnalysisRejectedError'
+  }
+}
+
+export interface AnalysisValidationStats {
+  requests: number
+  validFirstAttempt: number
+  repaired: number
+  rejected: number
+  clamped: number
+  rejectionRate: number
+  lastRejectedAt: string | null
+  lastRejectionIssues: string[]
+}
+
+// Process-local counters for how often model output needs repair or is thrown away
+class AnalysisValidationMetrics {
+  private static instance: AnalysisValidationMetrics
+  private stats = {
+    requests: 0,
+    validFirstAttempt: 0,
+    repaired: 0,
+    rejected: 0,
+    clamped: 0,
+    lastRejectedAt: null as string | null,
+    lastRejectionIssues: [] as string[]
+  }
+
+  static getInstance(): AnalysisValidationMetrics {
+    if (!AnalysisValidationMetrics.instance) {
+      AnalysisValidationMetrics.instance = new AnalysisValidationMetrics()
+    }
+    return AnalysisValidationMetrics.instance
+  }
+
+  record(outcome: 'VALID' | 'REPAIRED' | 'REJECTED', details: { clamped?: string[]; issues?: string[] } = {}) {
+    this.stats.requests++
+    if (outcome === 'VALID') this.stats.validFirstAttempt++
+    if (outcome === 'REPAIRED') this.stats.repaired++
+    if (outcome === 'REJECTED') {
+      this.stats.rejected++
+      this.stats.lastRejectedAt = new Date().toISOString()
+      this.stats.lastRejectionIssues = details.issues || []
+    }
+    if (details.clamped?.length) this.stats.clamped++
+  }
+
+  getStats(): AnalysisValidationStats {
+    return {
+      ...this.stats,
+      rejectionRate: this.stats.requests > 0 ? this.stats.rejected / this.stats.requests : 0
+    }
+  }
+}
+
+export const analysisValidationMetrics = AnalysisValidationMetrics.getInstance()
+
+export interface ValidatedAnalysisOptions extends ChatOptions, AnalysisValidationContext {
+  purpose?: LLMPurpose
+  maxRepairAttempts?: number
+}
+
+/**
+ * Requests a JSON analysis and validates it against the analysis schema. Invalid output is sent
+ * back to the model with the validation errors for repair; output that still fails is rejected.
+ */
+export async function generateValidatedAnalysis(messages: ChatMessage[], options: ValidatedAnalysisOptions = {}): Promise<AnalysisPayload> {
+  const { purpose = 'analysis', maxRepairAttempts = 1, currentPrice, ...chatOptions } = options
+  const provider = getLLMProvider(purpose)
+  const conversation = [...messages]
+  let issues: string[] = []
+
+  for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+    let raw: unknown
+    try {
+      raw = await provider.chatJSON(conversation, chatOptions)
+    } catch (error) {
+      // Unparseable JSON is repairable; transport and auth failures are not
+      if (!(error instanceof LLMError) || error.code !== 'INVALID_JSON') throw error
+      issues = ['response: not valid JSON']
+      conversation.push({ role: 'user', content: buildRepairPrompt(issues) })
+      continue
+    }
+
+    const result = validateAnalysisPayload(raw, { currentPrice })
+    if (result.success) {
+      analysisValidationMetrics.record(attempt === 0 ? 'VALID' : 'REPAIRED', { clamped: result.clamped })
+      return result.data
+    }
+
+    issues = result.issues
+    conversation.push(
+      { role: 'assistant', content: JSON.stringify(raw) },
+      { role: 'user', content: buildRepairPrompt(issues) }
+    )
+  }
+
+  analysisValidationMetrics.record('REJECTED', { issues })
+  console.warn(`Rejected ${provider.name} analysis after ${maxRepairAttempts + 1} attempts:`, issues)
+  throw new AnalysisRejectedError('AI analysis failed validation', issues)
+}
+
+function buildRepairPrompt(issues: string[]): string {
+  return `Your previous response did not match the required analysis format:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Return the corrected analysis as raw JSON only, keeping every required field.`
+}
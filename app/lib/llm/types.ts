@@ -0,0 +1,61 @@
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool'
+
+export interface ToolCall {
+  id: string
+  name: string
+  // JSON-encoded arguments, exactly as the model produced them
+  arguments: string
+}
+
+export interface ChatMessage {
+  role: ChatRole
+  content: string
+  // Assistant messages: the tools the model asked to call
+  toolCalls?: ToolCall[]
+  // Tool messages: the call this message answers
+  toolCallId?: string
+}
+
+export interface ToolDefinition {
+  name: string
+  description: string
+  // JSON Schema for the arguments object
+  parameters: Record<string, unknown>
+}
+
+export interface ChatOptions {
+  model?: string
+  maxTokens?: number
+  temperature?: number
+  presencePenalty?: number
+  frequencyPenalty?: number
+}
+
+export interface ChatResult {
+  content: string
+  model: string
+}
+
+// Text arrives as deltas; the tools the model asked for arrive once, after any text
+export type ToolStreamEvent =
+  | { type: 'text'; content: string }
+  | { type: 'tool_calls'; toolCalls: ToolCall[] }
+
+// Chat, JSON-mode, tool-calling and streaming completions behind one interface, regardless of backend
+export interface LLMProvider {
+  readonly name: string
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult>
+  chatJSON<T = any>(messages: ChatMessage[], options?: ChatOptions): Promise<T>
+  streamWithTools(messages: ChatMessage[], tools: ToolDefinition[], options?: ChatOptions): AsyncIterable<ToolStreamEvent>
+  stream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<string>
+}
+
+// INVALID_JSON: a JSON-mode completion did not parse, which a retry or repair prompt may fix
+export type LLMErrorCode = 'INVALID_JSON'
+
+export class LLMError extends Error {
+  constructor(message: string, public provider: string, public code?: LLMErrorCode) {
+    super(message)
+    this.name = 'LLMError'
+  }
+}
@@ -1,53 +1,25 @@
-
-import axios from 'axios'
-import * as cheerio from 'cheerio'
-
-export interface AssetData {
-  symbol: string
-  name: string
-  price: number
-  change: number
-  changePercent: number
-  volume?: number
-  marketCap?: number
-  type: 'STOCK' | 'CRYPTO'
-  exchange?: string
-  logoUrl?: string
-  sector?: string
-  industry?: string
-  pe?: number
-  dividendYield?: number
-  week52High?: number
-  week52Low?: number
-}
-
-export interface MarketMoversData {
-  gainers: AssetData[]
-  losers: AssetData[]
-}
-
-export interface NewsItem {
-  title: string
-  url: string
-  source: string
-  publishedAt: string
-  sentiment?: 'positive' | 'negative' | 'neutral'
-}
-
-export interface EnhancedAssetData extends AssetData {
-  news: NewsItem[]
-  analystRatings?: {
-    rating: string
-    targetPrice?: number
-    recommendation: 'BUY' | 'SELL' | 'HOLD'
-  }[]
-}
-
-// Real-time market data service with API integrations and fallback scraping
+import {
+  createMarketDataRegistry,
+  type AssetData,
+  type CandleData,
+  type CandleResolution,
+  type EnhancedAssetData,
+  type MarketDataRegistry,
+  type MarketMoversData,
+  type NewsItem,
+  type PricePoint,
+  type ProviderHealth
+} from '@/lib/market-providers'
+
+export type { AssetData, CandleData, CandleResolution, EnhancedAssetData, MarketMoversData, NewsItem, PricePoint } from '@/lib/market-providers'
+
+// Unified market data service: caches and de-duplicates requests, and leaves sourcing to the provider registry
 export class MarketDataService {
   private static instance: MarketDataService
   private cache = new Map<string, { data: any; timestamp: number; ttl: number }>()
-  
+  private pendingRequests = new Map<string, Promise<any>>()
+  private registry: MarketDataRegistry
+
   // Dynamic cache durations based on data volatility
   private readonly CACHE_DURATIONS = {
     intraday: 5 * 60 * 1000,      // 5 minutes for real-time data
@@ -56,9 +28,13 @@ export class MarketDataService {
     news: 10 * 60 * 1000,         // 10 minutes for news
     analysis: 30 * 60 * 1000      // 30 minutes for analysis data
   }
-  
-  private rateLimits = new Map<string, number>()
-  private readonly RATE_LIMIT_WINDOW = 60 * 1000 // 1 minute
+
+  private constructor() {
+    this.registry = createMarketDataRegistry({
+      // Simulated history is anchored to whatever the live providers currently quote
+      referencePrice: symbol => this.getAssetDetails(symbol).then(asset => asset?.price ?? null)
+    })
+  }
 
   static getInstance(): MarketDataService {
     if (!MarketDataService.instance) {
@@ -67,11 +43,18 @@ export class MarketDataService {
     return MarketDataService.instance
   }
 
-  private getCachedData(key: string, cacheType: keyof typeof this.CACHE_DURATIONS = 'daily'): any | null {
+  getRegistry(): MarketDataRegistry {
+    return this.registry
+  }
+
+  getProviderHealth(): ProviderHealth[] {
+    return this.registry.getHealth()
+  }
+
+  private getCachedData(key: string, cacheType: keyof typeof this.CACHE_DURATIONS = 'daily', maxAgeMs?: number): any | null {
     const cached = this.cache.get(key)
-    const ttl = this.CACHE_DURATIONS[cacheType]
+    const ttl = Math.min(this.CACHE_DURATIONS[cacheType], maxAgeMs ?? Infinity)
     if (cached && Date.now() - cached.timestamp < ttl) {
-      console.log(`Cache hit for ${key}`)
       return cached.data
     }
     if (cached) {
@@ -83,560 +66,75 @@ export class MarketDataService {
   private setCachedData(key: string, data: any, cacheType: keyof typeof this.CACHE_DURATIONS = 'daily'): void {
     const ttl = this.CACHE_DURATIONS[cacheType]
     this.cache.set(key, { data, timestamp: Date.now(), ttl })
-    console.log(`Data cached for ${key} with TTL ${ttl}ms`)
   }
 
-  private async checkRateLimit(apiName: string, maxCalls: number = 5): Promise<boolean> {
-    const now = Date.now()
-    const key = `${apiName}_${Math.floor(now / this.RATE_LIMIT_WINDOW)}`
-    const currentCount = this.rateLimits.get(key) || 0
-    
-    if (currentCount >= maxCalls) {
-      console.warn(`Rate limit exceeded for ${apiName}`)
-      return false
-    }
-    
-    this.rateLimits.set(key, currentCount + 1)
-    return true
-  }
+  // Concurrent identical requests share one provider round trip
+  private async deduplicateRequest<T>(key: string, operation: () => Promise<T>): Promise<T> {
+    const existing = this.pendingRequests.get(key)
+    if (existing) return existing
 
-  private async retryWithBackoff<T>(
-    operation: () => Promise<T>, 
-    maxRetries: number = 3, 
-    baseDelay: number = 1000
-  ): Promise<T> {
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        return await operation()
-      } catch (error: any) {
-        if (attempt === maxRetries - 1) throw error
-        
-        const delay = baseDelay * Math.pow(2, attempt) + Math.random() * 1000
-        console.log(`Retry attempt ${attempt + 1} after ${delay}ms`)
-        await new Promise(resolve => setTimeout(resolve, delay))
-      }
-    }
-    throw new Error('Max retries exceeded')
+    const promise = operation().finally(() => {
+      this.pendingRequests.delete(key)
+    })
+
+    this.pendingRequests.set(key, promise)
+    return promise
   }
 
   async searchAssets(query: string): Promise<AssetData[]> {
     const normalizedQuery = query.trim().toUpperCase()
     const cacheKey = `search_${normalizedQuery}`
-    
-    // Clear any stale cache entries on search errors
-    const cached = this.getCachedData(cacheKey, 'daily')
-    if (cached) {
-      console.log(`Returning cached search results for ${normalizedQuery}`)
-      return cached
-    }
-
-    console.log(`Starting fresh search for ${normalizedQuery}`)
-    const results: AssetData[] = []
-
-    try {
-      // 1. Search stocks using Alpha Vantage
-      if (await this.checkRateLimit('alphavantage')) {
-        console.log(`Searching stocks for ${normalizedQuery} via Alpha Vantage`)
-        const stockResults = await this.searchStocksAlphaVantage(normalizedQuery)
-        results.push(...stockResults)
-      }
-
-      // 2. Search crypto using Finnhub
-      if (await this.checkRateLimit('finnhub')) {
-        console.log(`Searching crypto for ${normalizedQuery} via Finnhub`)
-        const cryptoResults = await this.searchCryptoFinnhub(normalizedQuery)
-        results.push(...cryptoResults)
-      }
-
-      // 3. Fallback: scrape data if APIs are rate limited or fail
-      if (results.length === 0) {
-        console.log(`Using scraping fallback for ${normalizedQuery}`)
-        const scrapedResults = await this.scrapeSearchResults(normalizedQuery)
-        results.push(...scrapedResults)
-      }
-
-      // 4. Final fallback if everything fails
-      if (results.length === 0) {
-        console.log(`Using built-in fallback data for ${normalizedQuery}`)
-        const fallbackResults = this.getFallbackSearchResults(normalizedQuery)
-        results.push(...fallbackResults)
-      }
 
-      // Only cache successful results
-      if (results.length > 0) {
-        this.setCachedData(cacheKey, results, 'daily')
-        console.log(`Cached ${results.length} search results for ${normalizedQuery}`)
-      }
-
-      return results.slice(0, 10) // Limit to top 10 results
-    } catch (error) {
-      console.error(`Search assets error for ${normalizedQuery}:`, error)
-      
-      // Clear any bad cache entries for this query
-      this.cache.delete(cacheKey)
-      
-      // Return fallback simulated data as last resort
-      const fallbackResults = this.getFallbackSearchResults(normalizedQuery)
-      console.log(`Returning ${fallbackResults.length} fallback results for ${normalizedQuery}`)
-      return fallbackResults
-    }
-  }
-
-  private async searchStocksAlphaVantage(query: string): Promise<AssetData[]> {
-    try {
-      const response = await this.retryWithBackoff(async () => {
-        return axios.get('https://www.alphavantage.co/query', {
-          params: {
-            function: 'SYMBOL_SEARCH',
-            keywords: query,
-            apikey: process.env.ALPHADVANTAGE_API_KEY
-          },
-          timeout: 10000
-        })
-      })
-
-      const matches = response.data.bestMatches || []
-      const results: AssetData[] = []
-
-      for (const match of matches.slice(0, 5)) {
-        // Get current price for each symbol
-        const priceData = await this.getStockPriceAlphaVantage(match['1. symbol'])
-        if (priceData && priceData.price !== undefined) {
-          results.push({
-            symbol: match['1. symbol'],
-            name: match['2. name'],
-            type: 'STOCK',
-            exchange: match['4. region'],
-            price: priceData.price,
-            change: priceData.change || 0,
-            changePercent: priceData.changePercent || 0,
-            volume: priceData.volume
-          })
-        }
-      }
-
-      return results
-    } catch (error) {
-      console.error('Alpha Vantage search error:', error)
-      return []
-    }
-  }
-
-  private async searchCryptoFinnhub(query: string): Promise<AssetData[]> {
-    try {
-      // Finnhub crypto search
-      const response = await this.retryWithBackoff(async () => {
-        return axios.get('https://finnhub.io/api/v1/crypto/symbol', {
-          params: {
-            exchange: 'BINANCE',
-            token: process.env.FINNHUB_API_KEY
-          },
-          timeout: 10000
-        })
-      })
-
-      const cryptos = response.data || []
-      const filtered = cryptos
-        .filter((crypto: any) => 
-          crypto.symbol.toLowerCase().includes(query.toLowerCase()) ||
-          crypto.description.toLowerCase().includes(query.toLowerCase())
-        )
-        .slice(0, 5)
+    const cached = this.getCachedData(cacheKey, 'daily')
+    if (cached) return cached
 
-      const results: AssetData[] = []
-      for (const crypto of filtered) {
-        const priceData = await this.getCryptoPriceFinnhub(crypto.symbol)
-        if (priceData && priceData.price !== undefined) {
-          results.push({
-            symbol: crypto.symbol.replace('BINANCE:', ''),
-            name: crypto.description,
-            type: 'CRYPTO',
-            price: priceData.price,
-            change: priceData.change || 0,
-            changePercent: priceData.changePercent || 0,
-            volume: priceData.volume
+    return this.deduplicateRequest(cacheKey, async () => {
+      try {
+        const matches = await this.registry.collect('search', [normalizedQuery], provider => provider.search!(normalizedQuery))
+
+        // Providers overlap on popular symbols; the higher priority answer wins
+        const seen = new Set<string>()
+        const results = matches
+          .filter(asset => {
+            const symbol = asset.symbol.toUpperCase()
+            if (seen.has(symbol)) return false
+            seen.add(symbol)
+            return true
           })
-        }
-      }
-
-      return results
-    } catch (error) {
-      console.error('Finnhub crypto search error:', error)
-      return []
-    }
-  }
+          .slice(0, 10)
+          .map(asset => this.withDerivedFields(asset))
 
-  private async scrapeSearchResults(query: string): Promise<AssetData[]> {
-    try {
-      // Scrape Yahoo Finance search results as fallback
-      const response = await axios.get(`https://finance.yahoo.com/lookup?s=${encodeURIComponent(query)}`, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        },
-        timeout: 10000
-      })
-
-      const $ = cheerio.load(response.data)
-      const results: AssetData[] = []
-
-      $('.lookup-table tbody tr').each((i, row) => {
-        if (i < 5) { // Limit to 5 results
-          const cells = $(row).find('td')
-          if (cells.length >= 3) {
-            results.push({
-              symbol: $(cells[0]).text().trim(),
-              name: $(cells[1]).text().trim(),
-              type: $(cells[2]).text().includes('Cryptocurrency') ? 'CRYPTO' : 'STOCK',
-              price: 0, // Will be fetched separately
-              change: 0,
-              changePercent: 0
-            })
-          }
+        if (results.length > 0) {
+          this.setCachedData(cacheKey, results, 'daily')
         }
-      })
-
-      return results
-    } catch (error) {
-      console.error('Scraping search error:', error)
-      return []
-    }
-  }
-
-  private getFallbackSearchResults(query: string): AssetData[] {
-    // Enhanced fallback with popular symbols and realistic current prices (August 2025)
- const fallbackAssets = [
-  { symbol: 'AAPL', name: 'Apple Inc.', type: 'STOCK' as const, basePrice: 175, sector: 'Technology' },
-  { symbol: 'GOOGL', name: 'Alphabet Inc.', type: 'STOCK' as const, basePrice: 142, sector: 'Technology' },
-  { symbol: 'TSLA', name: 'Tesla, Inc.', type: 'STOCK' as const, basePrice: 248, sector: 'Automotive' },
-  { symbol: 'XRP', name: 'Ripple', type: 'CRYPTO' as const, basePrice: 0.58, sector: 'Cryptocurrency' },
-  { symbol: 'LTC', name: 'Litecoin', type: 'CRYPTO' as const, basePrice: 85, sector: 'Cryptocurrency' },
-  { symbol: 'MSFT', name: 'Microsoft Corporation', type: 'STOCK' as const, basePrice: 420, sector: 'Technology' },
-  { symbol: 'NVDA', name: 'NVIDIA Corporation', type: 'STOCK' as const, basePrice: 875, sector: 'Technology' },
-  { symbol: 'META', name: 'Meta Platforms Inc.', type: 'STOCK' as const, basePrice: 485, sector: 'Technology' },
-  { symbol: 'AMZN', name: 'Amazon.com Inc.', type: 'STOCK' as const, basePrice: 155, sector: 'E-commerce' },
-  { symbol: 'IBM', name: 'International Business Machines Corporation', type: 'STOCK' as const, basePrice: 145, sector: 'Technology' },
-  { symbol: 'JPM', name: 'JPMorgan Chase & Co.', type: 'STOCK' as const, basePrice: 185, sector: 'Finance' },
-  { symbol: 'V', name: 'Visa Inc.', type: 'STOCK' as const, basePrice: 280, sector: 'Finance' },
-  { symbol: 'MA', name: 'Mastercard Incorporated', type: 'STOCK' as const, basePrice: 410, sector: 'Finance' },
-  { symbol: 'PEP', name: 'PepsiCo Inc.', type: 'STOCK' as const, basePrice: 185, sector: 'Consumer Goods' },
-  { symbol: 'KO', name: 'The Coca-Cola Company', type: 'STOCK' as const, basePrice: 60, sector: 'Consumer Goods' },
-  { symbol: 'LLY', name: 'Eli Lilly and Company', type: 'STOCK' as const, basePrice: 920, sector: 'Healthcare' },
-  { symbol: 'UNH', name: 'UnitedHealth Group Incorporated', type: 'STOCK' as const, basePrice: 520, sector: 'Healthcare' },
-  { symbol: 'PFE', name: 'Pfizer Inc.', type: 'STOCK' as const, basePrice: 35, sector: 'Healthcare' },
-  { symbol: 'WMT', name: 'Walmart Inc.', type: 'STOCK' as const, basePrice: 165, sector: 'Retail' },
-  { symbol: 'HD', name: 'The Home Depot Inc.', type: 'STOCK' as const, basePrice: 320, sector: 'Retail' },
-  { symbol: 'MCD', name: 'McDonald’s Corporation', type: 'STOCK' as const, basePrice: 295, sector: 'Consumer Services' },
-  { symbol: 'NKE', name: 'NIKE Inc.', type: 'STOCK' as const, basePrice: 105, sector: 'Consumer Goods' },
-  { symbol: 'SBUX', name: 'Starbucks Corporation', type: 'STOCK' as const, basePrice: 95, sector: 'Consumer Services' },
-  { symbol: 'XOM', name: 'Exxon Mobil Corporation', type: 'STOCK' as const, basePrice: 110, sector: 'Energy' },
-  { symbol: 'CVX', name: 'Chevron Corporation', type: 'STOCK' as const, basePrice: 160, sector: 'Energy' },
-  { symbol: 'GE', name: 'General Electric Company', type: 'STOCK' as const, basePrice: 165, sector: 'Industrial' },
-  { symbol: 'HON', name: 'Honeywell International Inc.', type: 'STOCK' as const, basePrice: 195, sector: 'Industrial' },
-  { symbol: 'UPS', name: 'United Parcel Service Inc.', type: 'STOCK' as const, basePrice: 165, sector: 'Logistics' },
-  { symbol: 'RTX', name: 'RTX Corporation', type: 'STOCK' as const, basePrice: 90, sector: 'Aerospace & Defense' },
-  { symbol: 'LMT', name: 'Lockheed Martin Corporation', type: 'STOCK' as const, basePrice: 450, sector: 'Aerospace & Defense' },
-  { symbol: 'DIS', name: 'The Walt Disney Company', type: 'STOCK' as const, basePrice: 95, sector: 'Media' }
-]
-
-    const matches = fallbackAssets
-      .filter(asset => 
-        asset.symbol.toLowerCase().includes(query.toLowerCase()) ||
-        asset.name.toLowerCase().includes(query.toLowerCase())
-      )
-      .slice(0, 5)
-
-    return matches.map(asset => {
-      // Generate realistic simulated price data
-      const priceVariation = (Math.random() - 0.5) * 0.1 // ±5% variation
-      const price = asset.basePrice * (1 + priceVariation)
-      const changePercent = (Math.random() - 0.5) * 8 // ±4% change
-      const change = price * (changePercent / 100)
-      
-      return {
-        symbol: asset.symbol,
-        name: asset.name,
-        type: asset.type,
-        price: Math.round(price * 100) / 100,
-        change: Math.round(change * 100) / 100,
-        changePercent: Math.round(changePercent * 100) / 100,
-        volume: Math.floor(Math.random() * 50000000) + 1000000, // 1M-50M volume
-        sector: asset.sector
+        return results
+      } catch (error) {
+        console.error(`Search assets error for ${normalizedQuery}:`, error)
+        return []
       }
     })
   }
 
-  // Helper methods for price fetching
-  private async getStockPriceAlphaVantage(symbol: string): Promise<Partial<AssetData> | null> {
-    try {
-      const response = await axios.get('https://www.alphavantage.co/query', {
-        params: {
-          function: 'GLOBAL_QUOTE',
-          symbol: symbol,
-          apikey: process.env.ALPHADVANTAGE_API_KEY
-        },
-        timeout: 10000
-      })
-
-      const quote = response.data['Global Quote']
-      if (!quote) return null
-
-      return {
-        price: parseFloat(quote['05. price']),
-        change: parseFloat(quote['09. change']),
-        changePercent: parseFloat(quote['10. change percent'].replace('%', '')),
-        volume: parseInt(quote['06. volume'])
-      }
-    } catch (error) {
-      console.error(`Error fetching ${symbol} price from Alpha Vantage:`, error)
-      return null
-    }
-  }
-
-  private async getCryptoPriceFinnhub(symbol: string): Promise<Partial<AssetData> | null> {
-    try {
-      const response = await axios.get('https://finnhub.io/api/v1/quote', {
-        params: {
-          symbol: symbol,
-          token: process.env.FINNHUB_API_KEY
-        },
-        timeout: 10000
-      })
-
-      const quote = response.data
-      if (!quote.c) return null
-
-      return {
-        price: quote.c, // Current price
-        change: quote.d, // Change
-        changePercent: quote.dp, // Change percent
-        volume: quote.v // Volume
-      }
-    } catch (error) {
-      console.error(`Error fetching ${symbol} price from Finnhub:`, error)
-      return null
-    }
-  }
-
-  async getAssetDetails(symbol: string): Promise<AssetData | null> {
-    const cacheKey = `asset_${symbol}`
-    const cached = this.getCachedData(cacheKey, 'intraday')
+  // maxAgeMs lets streaming callers ask for fresher quotes than the default cache window
+  async getAssetDetails(symbol: string, options: { maxAgeMs?: number } = {}): Promise<AssetData | null> {
+    const upper = symbol.toUpperCase()
+    const cacheKey = `asset_${upper}`
+    const cached = this.getCachedData(cacheKey, 'intraday', options.maxAgeMs)
     if (cached) return cached
 
-    try {
-      let assetData: AssetData | null = null
-
-      // Determine if it's a crypto or stock symbol
-      const isCrypto = this.isCryptoSymbol(symbol)
-      
-      if (isCrypto) {
-        // Get crypto data from Finnhub
-        if (await this.checkRateLimit('finnhub', 3)) {
-          assetData = await this.getCryptoDetailsFromFinnhub(symbol)
-        }
-      } else {
-        // Get stock data from Alpha Vantage first, then Finnhub as backup
-        if (await this.checkRateLimit('alphavantage', 3)) {
-          assetData = await this.getStockDetailsFromAlphaVantage(symbol)
-        }
-        
-        // Fallback to Finnhub for stocks if Alpha Vantage fails
-        if (!assetData && await this.checkRateLimit('finnhub', 3)) {
-          assetData = await this.getStockDetailsFromFinnhub(symbol)
-        }
-      }
-
-      // Final fallback: scrape data
-      if (!assetData) {
-        console.log(`Using scraping fallback for ${symbol}`)
-        assetData = await this.scrapeAssetDetails(symbol)
-      }
-
-      if (assetData) {
-        this.setCachedData(cacheKey, assetData, 'intraday')
-        return assetData
-      }
-
-      return null
-    } catch (error) {
-      console.error(`Error fetching asset details for ${symbol}:`, error)
-      return null
-    }
-  }
-
-  private isCryptoSymbol(symbol: string): boolean {
-    const cryptoSymbols = [
-      'BTC', 'ETH', 'ADA', 'SOL', 'DOT', 'AVAX', 'MATIC', 'LINK', 'XRP', 'LTC',
-      'SHIB', 'XMR', 'DOGE', 'USDT', 'USDC', 'BNB', 'ATOM', 'ALGO', 'NEAR', 'FTM'
-    ]
-    return cryptoSymbols.includes(symbol.toUpperCase()) || symbol.includes('USD') || symbol.includes('USDT')
-  }
-
-  private async getStockDetailsFromAlphaVantage(symbol: string): Promise<AssetData | null> {
-    try {
-      // Get company overview for additional details
-      const [quoteResponse, overviewResponse] = await Promise.all([
-        axios.get('https://www.alphavantage.co/query', {
-          params: {
-            function: 'GLOBAL_QUOTE',
-            symbol: symbol,
-            apikey: process.env.ALPHADVANTAGE_API_KEY
-          }
-        }),
-        axios.get('https://www.alphavantage.co/query', {
-          params: {
-            function: 'OVERVIEW',
-            symbol: symbol,
-            apikey: process.env.ALPHADVANTAGE_API_KEY
-          }
-        })
-      ])
-
-      const quote = quoteResponse.data['Global Quote']
-      const overview = overviewResponse.data
-
-      if (!quote || !overview.Symbol) return null
-
-      return {
-        symbol: symbol.toUpperCase(),
-        name: overview.Name || symbol,
-        price: parseFloat(quote['05. price']),
-        change: parseFloat(quote['09. change']),
-        changePercent: parseFloat(quote['10. change percent'].replace('%', '')),
-        volume: parseInt(quote['06. volume']),
-        marketCap: overview.MarketCapitalization ? parseInt(overview.MarketCapitalization) : undefined,
-        type: 'STOCK',
-        exchange: overview.Exchange,
-        sector: overview.Sector,
-        industry: overview.Industry,
-        pe: overview.PERatio ? parseFloat(overview.PERatio) : undefined,
-        dividendYield: overview.DividendYield ? parseFloat(overview.DividendYield) : undefined,
-        week52High: overview['52WeekHigh'] ? parseFloat(overview['52WeekHigh']) : undefined,
-        week52Low: overview['52WeekLow'] ? parseFloat(overview['52WeekLow']) : undefined
-      }
-    } catch (error) {
-      console.error(`Alpha Vantage stock details error for ${symbol}:`, error)
-      return null
-    }
-  }
-
-  private async getStockDetailsFromFinnhub(symbol: string): Promise<AssetData | null> {
-    try {
-      const [quoteResponse, profileResponse] = await Promise.all([
-        axios.get('https://finnhub.io/api/v1/quote', {
-          params: { symbol, token: process.env.FINNHUB_API_KEY }
-        }),
-        axios.get('https://finnhub.io/api/v1/stock/profile2', {
-          params: { symbol, token: process.env.FINNHUB_API_KEY }
-        })
-      ])
-
-      const quote = quoteResponse.data
-      const profile = profileResponse.data
-
-      if (!quote.c) return null
-
-      return {
-        symbol: symbol.toUpperCase(),
-        name: profile.name || symbol,
-        price: quote.c,
-        change: quote.d,
-        changePercent: quote.dp,
-        volume: quote.v,
-        marketCap: profile.marketCapitalization ? profile.marketCapitalization * 1000000 : undefined,
-        type: 'STOCK',
-        exchange: profile.exchange,
-        sector: profile.finnhubIndustry,
-        week52High: quote.h,
-        week52Low: quote.l,
-        logoUrl: profile.logo
-      }
-    } catch (error) {
-      console.error(`Finnhub stock details error for ${symbol}:`, error)
-      return null
-    }
-  }
-
-  private async getCryptoDetailsFromFinnhub(symbol: string): Promise<AssetData | null> {
-    try {
-      const response = await axios.get('https://finnhub.io/api/v1/quote', {
-        params: {
-          symbol: `BINANCE:${symbol}USDT`,
-          token: process.env.FINNHUB_API_KEY
-        }
-      })
-
-      const quote = response.data
-      if (!quote.c) return null
-
-      return {
-        symbol: symbol.toUpperCase(),
-        name: this.getCryptoName(symbol),
-        price: quote.c,
-        change: quote.d,
-        changePercent: quote.dp,
-        type: 'CRYPTO'
-      }
-    } catch (error) {
-      console.error(`Finnhub crypto details error for ${symbol}:`, error)
-      return null
-    }
-  }
-
-  private getCryptoName(symbol: string): string {
-    const cryptoNames: Record<string, string> = {
-      'BTC': 'Bitcoin',
-      'ETH': 'Ethereum',
-      'ADA': 'Cardano',
-      'SOL': 'Solana',
-      'DOT': 'Polkadot',
-      'AVAX': 'Avalanche',
-      'MATIC': 'Polygon',
-      'LINK': 'Chainlink',
-      'XRP': 'Ripple',
-      'LTC': 'Litecoin',
-      'SHIB': 'Shiba Inu',
-      'XMR': 'Monero',
-      'DOGE': 'Dogecoin',
-      'USDT': 'Tether',
-      'USDC': 'USD Coin',
-      'BNB': 'Binance Coin',
-      'ATOM': 'Cosmos',
-      'ALGO': 'Algorand',
-      'NEAR': 'NEAR Protocol',
-      'FTM': 'Fantom'
-    }
-    return cryptoNames[symbol.toUpperCase()] || symbol
-  }
-
-  private async scrapeAssetDetails(symbol: string): Promise<AssetData | null> {
-    try {
-      const response = await axios.get(`https://finance.yahoo.com/quote/${symbol}`, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        },
-        timeout: 10000
-      })
-
-      const $ = cheerio.load(response.data)
-      
-      const priceText = $('[data-symbol="' + symbol + '"][data-field="regularMarketPrice"]').text()
-      const changeText = $('[data-symbol="' + symbol + '"][data-field="regularMarketChange"]').text()
-      const nameText = $('h1').first().text()
-
-      if (!priceText) return null
+    return this.deduplicateRequest(cacheKey, async () => {
+      try {
+        const assetData = await this.registry.first('quote', [upper], provider => provider.getQuote!(upper))
+        if (!assetData) return null
 
-      return {
-        symbol: symbol.toUpperCase(),
-        name: nameText || symbol,
-        price: parseFloat(priceText.replace(/,/g, '')),
-        change: parseFloat(changeText.replace(/,/g, '')),
-        changePercent: 0, // Will calculate from change and price
-        type: symbol.includes('USD') || ['BTC', 'ETH'].includes(symbol.toUpperCase()) ? 'CRYPTO' : 'STOCK'
+        const result = this.withDerivedFields(assetData)
+        this.setCachedData(cacheKey, result, 'intraday')
+        return result
+      } catch (error) {
+        console.error(`Error fetching asset details for ${upper}:`, error)
+        return null
       }
-    } catch (error) {
-      console.error(`Scraping error for ${symbol}:`, error)
-      return null
-    }
+    })
   }
 
   async getMarketMovers(): Promise<MarketMoversData> {
@@ -644,687 +142,58 @@ export class MarketDataService {
     const cached = this.getCachedData(cacheKey, 'daily')
     if (cached) return cached
 
-    try {
-      const [stockMovers, cryptoMovers] = await Promise.all([
-        this.getStockMarketMovers(),
-        this.getCryptoMarketMovers()
-      ])
-
-      // Combine and expand results - ensure minimum 20 per tab
-      const combinedGainers = [...stockMovers.gainers, ...cryptoMovers.gainers]
-        .sort((a, b) => b.changePercent - a.changePercent)
-        .slice(0, 30) // Increased to 30 for better selection
-      
-      const combinedLosers = [...stockMovers.losers, ...cryptoMovers.losers]
-        .sort((a, b) => a.changePercent - b.changePercent)
-        .slice(0, 30) // Increased to 30 for better selection
-      
-      // Final fallback logic if combined results are insufficient
-      const finalGainers = combinedGainers.length >= 20 ? combinedGainers :
-        [...combinedGainers, ...this.generateFinalFallbackGainers(20 - combinedGainers.length)]
-      
-      const finalLosers = combinedLosers.length >= 20 ? combinedLosers :
-        [...combinedLosers, ...this.generateFinalFallbackLosers(20 - combinedLosers.length)]
-
-      const data: MarketMoversData = {
-        gainers: finalGainers,
-        losers: finalLosers
-      }
-
-      this.setCachedData(cacheKey, data, 'daily')
-      return data
-    } catch (error) {
-      console.error('Market movers error:', error)
-      return this.getFallbackMarketMovers()
-    }
-  }
-
-  private async getStockMarketMovers(): Promise<MarketMoversData> {
-    try {
-      const stocks: AssetData[] = []
-      
-      // Expanded symbol universe - popular stocks across sectors
- const popularStocks = [
-  // Technology
-  'AAPL', 'MSFT', 'GOOGL', 'GOOG', 'AMZN', 'TSLA', 'NVDA', 'META', 'NFLX', 'ORCL', 'CRM', 'ADBE', 'INTC', 'AMD', 'PYPL', 'UBER', 'SPOT', 'ZOOM', 'SHOP', 'SQ', 'IBM',
-  // Finance
-  'JPM', 'BAC', 'WFC', 'GS', 'MS', 'C', 'BRK.B', 'AXP', 'V', 'MA', 'BLK', 'SCHW',
-  // Healthcare/Pharma  
-  'JNJ', 'PFE', 'UNH', 'MRNA', 'ABBV', 'BMY', 'CVS', 'LLY', 'TMO', 'DHR', 'ABT', 'MRK',
-  // Consumer/Retail
-  'WMT', 'HD', 'MCD', 'KO', 'PEP', 'NKE', 'SBUX', 'TGT', 'LOW', 'COST', 'TJX', 'DIS',
-  // Energy/Utilities
-  'XOM', 'CVX', 'COP', 'EOG', 'SLB', 'PSX', 'VLO', 'OXY', 'HAL', 'BKR',
-  // Industrial/Materials
-  'CAT', 'BA', 'GE', 'MMM', 'HON', 'UPS', 'RTX', 'LMT', 'FDX', 'DE',
-  // Communication/Media
-  'T', 'VZ', 'CMCSA', 'CHTR', 'TMUS', 'DIS'
-]
-      
-      // Primary API attempt with higher rate limit
-      if (await this.checkRateLimit('finnhub', 10)) {
-        // Try to get S&P 500 first
-        try {
-          const response = await axios.get('https://finnhub.io/api/v1/index/constituents', {
-            params: {
-              symbol: '^GSPC',
-              token: process.env.FINNHUB_API_KEY
-            },
-            timeout: 8000
-          })
-          
-          if (response.data.constituents) {
-            // Expand to 100 symbols instead of 50
-            popularStocks.push(...response.data.constituents.slice(0, 100))
-          }
-        } catch (error) {
-          console.warn('S&P 500 constituents API failed, using fallback symbols')
-        }
-      }
-      
-      // Remove duplicates and expand symbol set
-      const uniqueSymbols = [...new Set(popularStocks)].slice(0, 120)
-      
-      // Batch process symbols with better error handling
-      const symbolBatches = this.chunkArray(uniqueSymbols, 20)
-      
-      for (const batch of symbolBatches) {
-        if (stocks.length >= 60) break // Stop if we have enough data
-        
-        const batchPromises = batch.map(async (symbol) => {
-          try {
-            // Relaxed rate limiting - allow more concurrent calls
-            if (await this.checkRateLimit('batch_stock_fetch', 20)) {
-              const stockData = await this.getAssetDetails(symbol)
-              // Relax change filter - include small changes and exact zero
-              if (stockData && Math.abs(stockData.changePercent) >= 0) {
-                return stockData
-              }
-            }
-            return null
-          } catch (error) {
-            console.error(`Error fetching ${symbol}:`, error)
-            return null
-          }
-        })
-        
-        const batchResults = await Promise.allSettled(batchPromises)
-        const validResults = batchResults
-          .filter((result): result is PromiseFulfilledResult<AssetData> => 
-            result.status === 'fulfilled' && result.value !== null
-          )
-          .map(result => result.value)
-        
-        stocks.push(...validResults)
-      }
-      
-      // If we still don't have enough data, add fallback stocks with simulated data
-      if (stocks.length < 40) {
-        const fallbackStocks = this.generateFallbackStocks(uniqueSymbols.slice(0, 50))
-        stocks.push(...fallbackStocks)
-      }
-      
-      // Sort and return expanded results - minimum 15 per category
-      const gainers = stocks
-        .filter(s => s.changePercent > 0)
-        .sort((a, b) => b.changePercent - a.changePercent)
-        .slice(0, 25) // Increased from 5 to 25
-      
-      const losers = stocks
-        .filter(s => s.changePercent < 0)
-        .sort((a, b) => a.changePercent - b.changePercent)  
-        .slice(0, 25) // Increased from 5 to 25
-        
-      // Ensure minimum results with additional fallback
-      const finalGainers = gainers.length >= 15 ? gainers : 
-        [...gainers, ...this.generateAdditionalGainers(15 - gainers.length)]
-      
-      const finalLosers = losers.length >= 15 ? losers :
-        [...losers, ...this.generateAdditionalLosers(15 - losers.length)]
-
-      return {
-        gainers: finalGainers,
-        losers: finalLosers
-      }
-    } catch (error) {
-      console.error('Stock market movers error:', error)
-      // Enhanced fallback with guaranteed 20+ results
-      return this.getEnhancedFallbackStocks()
-    }
-  }
-
-  private async getCryptoMarketMovers(): Promise<MarketMoversData> {
-    try {
-      // Expanded crypto universe - top cryptocurrencies by market cap
-      const cryptoSymbols = [
-        // Top 50 cryptocurrencies
-        'BTC', 'ETH', 'BNB', 'XRP', 'ADA', 'SOL', 'DOGE', 'DOT', 'AVAX', 'SHIB', 
-        'MATIC', 'LTC', 'TRX', 'LINK', 'ATOM', 'ETC', 'XMR', 'BCH', 'NEAR', 'VET',
-        'FIL', 'ICP', 'APT', 'HBAR', 'QNT', 'UNI', 'ARB', 'STX', 'GRT', 'MKR',
-        'AAVE', 'SNX', 'CRV', 'COMP', 'YFI', 'SUSHI', '1INCH', 'BAT', 'ENJ', 'ZRX',
-        'LRC', 'OMG', 'MANA', 'SAND', 'AXS', 'CHZ', 'HOT', 'ZIL', 'ICX', 'ONT'
-      ]
-      
-      const cryptos: AssetData[] = []
-      
-      // Relaxed rate limiting for crypto
-      if (await this.checkRateLimit('crypto_fetch', 15)) {
-        // Batch process crypto symbols
-        const cryptoBatches = this.chunkArray(cryptoSymbols, 10)
-        
-        for (const batch of cryptoBatches) {
-          if (cryptos.length >= 40) break // Stop if we have enough data
-          
-          const batchPromises = batch.map(async (symbol) => {
-            try {
-              const cryptoData = await this.getAssetDetails(symbol)
-              // Include assets with any price change (including zero)
-              if (cryptoData && Math.abs(cryptoData.changePercent) >= 0) {
-                return cryptoData
-              }
-              return null
-            } catch (error) {
-              console.error(`Error fetching crypto ${symbol}:`, error)
-              return null
-            }
-          })
-          
-          const batchResults = await Promise.allSettled(batchPromises)
-          const validResults = batchResults
-            .filter((result): result is PromiseFulfilledResult<AssetData> => 
-              result.status === 'fulfilled' && result.value !== null
-            )
-            .map(result => result.value)
-          
-          cryptos.push(...validResults)
-        }
-      }
-      
-      // If we don't have enough data, add fallback crypto data
-      if (cryptos.length < 20) {
-        const fallbackCryptos = this.generateFallbackCryptos(cryptoSymbols.slice(0, 30))
-        cryptos.push(...fallbackCryptos)
-      }
-      
-      // Sort and return expanded results - minimum 10 per category
-      const gainers = cryptos
-        .filter(c => c.changePercent > 0)
-        .sort((a, b) => b.changePercent - a.changePercent)
-        .slice(0, 15) // Increased from 3 to 15
-      
-      const losers = cryptos
-        .filter(c => c.changePercent < 0)
-        .sort((a, b) => a.changePercent - b.changePercent)
-        .slice(0, 15) // Increased from 3 to 15
-        
-      // Ensure minimum results with additional fallback
-      const finalGainers = gainers.length >= 10 ? gainers : 
-        [...gainers, ...this.generateAdditionalCryptoGainers(10 - gainers.length)]
-      
-      const finalLosers = losers.length >= 10 ? losers :
-        [...losers, ...this.generateAdditionalCryptoLosers(10 - losers.length)]
-
-      return {
-        gainers: finalGainers,
-        losers: finalLosers
-      }
-    } catch (error) {
-      console.error('Crypto market movers error:', error)
-      // Enhanced fallback with guaranteed results
-      return this.getEnhancedFallbackCryptos()
-    }
-  }
+    return this.deduplicateRequest(cacheKey, async () => {
+      try {
+        const movers = await this.registry.first('movers', ['latest'], provider => provider.getMovers!())
+        if (!movers) return { gainers: [], losers: [] }
 
-  private getFallbackMarketMovers(): MarketMoversData {
-    return {
-      gainers: [
-        {
-          symbol: 'NVDA',
-          name: 'NVIDIA Corporation',
-          price: 875.28,
-          change: 45.67,
-          changePercent: 5.51,
-          volume: 35420000,
-          type: 'STOCK' as const,
-          exchange: 'NASDAQ'
-        },
-        {
-          symbol: 'TSLA',
-          name: 'Tesla, Inc.',
-          price: 248.50,
-          change: 12.34,
-          changePercent: 5.23,
-          volume: 78940000,
-          type: 'STOCK' as const,
-          exchange: 'NASDAQ'
+        const data: MarketMoversData = {
+          gainers: [...movers.gainers].sort((a, b) => b.changePercent - a.changePercent).slice(0, 30),
+          losers: [...movers.losers].sort((a, b) => a.changePercent - b.changePercent).slice(0, 30)
         }
-      ],
-      losers: [
-        {
-          symbol: 'META',
-          name: 'Meta Platforms Inc.',
-          price: 338.25,
-          change: -18.45,
-          changePercent: -5.17,
-          volume: 22450000,
-          type: 'STOCK' as const,
-          exchange: 'NASDAQ'
-        }
-      ]
-    }
-  }
-
-  // Helper method to chunk arrays for batch processing
-  private chunkArray<T>(array: T[], chunkSize: number): T[][] {
-    const chunks: T[][] = []
-    for (let i = 0; i < array.length; i += chunkSize) {
-      chunks.push(array.slice(i, i + chunkSize))
-    }
-    return chunks
-  }
-
-  // Generate fallback stock data with realistic simulation
-  private generateFallbackStocks(symbols: string[]): AssetData[] {
-const sectorData = {
-  'AAPL': { name: 'Apple Inc.', basePrice: 175, sector: 'Technology' },
-  'MSFT': { name: 'Microsoft Corporation', basePrice: 420, sector: 'Technology' },
-  'GOOGL': { name: 'Alphabet Inc.', basePrice: 142, sector: 'Technology' },
-  'AMZN': { name: 'Amazon.com Inc.', basePrice: 155, sector: 'E-commerce' },
-  'TSLA': { name: 'Tesla, Inc.', basePrice: 248, sector: 'Automotive' },
-  'NVDA': { name: 'NVIDIA Corporation', basePrice: 875, sector: 'Technology' },
-  'META': { name: 'Meta Platforms Inc.', basePrice: 485, sector: 'Technology' },
-  'JPM': { name: 'JPMorgan Chase & Co.', basePrice: 185, sector: 'Finance' },
-  'V': { name: 'Visa Inc.', basePrice: 280, sector: 'Finance' },
-  'WMT': { name: 'Walmart Inc.', basePrice: 165, sector: 'Retail' },
-  'IBM': { name: 'International Business Machines Corporation', basePrice: 145, sector: 'Technology' },
-  'PEP': { name: 'PepsiCo Inc.', basePrice: 185, sector: 'Consumer Goods' },
-  'KO': { name: 'The Coca-Cola Company', basePrice: 60, sector: 'Consumer Goods' },
-  'LLY': { name: 'Eli Lilly and Company', basePrice: 920, sector: 'Healthcare' },
-  'UNH': { name: 'UnitedHealth Group Incorporated', basePrice: 520, sector: 'Healthcare' },
-  'PFE': { name: 'Pfizer Inc.', basePrice: 35, sector: 'Healthcare' },
-  'HD': { name: 'The Home Depot Inc.', basePrice: 320, sector: 'Retail' },
-  'MCD': { name: 'McDonald’s Corporation', basePrice: 295, sector: 'Consumer Services' },
-  'NKE': { name: 'NIKE Inc.', basePrice: 105, sector: 'Consumer Goods' },
-  'SBUX': { name: 'Starbucks Corporation', basePrice: 95, sector: 'Consumer Services' },
-  'XOM': { name: 'Exxon Mobil Corporation', basePrice: 110, sector: 'Energy' },
-  'CVX': { name: 'Chevron Corporation', basePrice: 160, sector: 'Energy' },
-  'GE': { name: 'General Electric Company', basePrice: 165, sector: 'Industrial' },
-  'HON': { name: 'Honeywell International Inc.', basePrice: 195, sector: 'Industrial' },
-  'UPS': { name: 'United Parcel Service Inc.', basePrice: 165, sector: 'Logistics' },
-  'RTX': { name: 'RTX Corporation', basePrice: 90, sector: 'Aerospace & Defense' },
-  'LMT': { name: 'Lockheed Martin Corporation', basePrice: 450, sector: 'Aerospace & Defense' },
-  'DIS': { name: 'The Walt Disney Company', basePrice: 95, sector: 'Media' },
-  'ORCL': { name: 'Oracle Corporation', basePrice: 135, sector: 'Technology' },
-  'CRM': { name: 'Salesforce Inc.', basePrice: 240, sector: 'Technology' },
-  'ADBE': { name: 'Adobe Inc.', basePrice: 580, sector: 'Technology' },
-  'INTC': { name: 'Intel Corporation', basePrice: 40, sector: 'Technology' },
-  'AMD': { name: 'Advanced Micro Devices Inc.', basePrice: 180, sector: 'Technology' },
-  'PYPL': { name: 'PayPal Holdings Inc.', basePrice: 70, sector: 'Finance' },
-  'UBER': { name: 'Uber Technologies Inc.', basePrice: 65, sector: 'Transportation' },
-  'SPOT': { name: 'Spotify Technology S.A.', basePrice: 290, sector: 'Media' },
-  'SHOP': { name: 'Shopify Inc.', basePrice: 75, sector: 'E-commerce' },
-  'SQ': { name: 'Block Inc.', basePrice: 60, sector: 'Finance' },
-  'BAC': { name: 'Bank of America Corporation', basePrice: 35, sector: 'Finance' },
-  'GS': { name: 'The Goldman Sachs Group Inc.', basePrice: 390, sector: 'Finance' },
-  'MRK': { name: 'Merck & Co., Inc.', basePrice: 130, sector: 'Healthcare' },
-  'TMO': { name: 'Thermo Fisher Scientific Inc.', basePrice: 540, sector: 'Healthcare' },
-  'DHR': { name: 'Danaher Corporation', basePrice: 250, sector: 'Healthcare' },
-  'ABT': { name: 'Abbott Laboratories', basePrice: 105, sector: 'Healthcare' },
-  'MRNA': { name: 'Moderna Inc.', basePrice: 95, sector: 'Healthcare' },
-  'CAT': { name: 'Caterpillar Inc.', basePrice: 310, sector: 'Industrial' },
-  'BA': { name: 'The Boeing Company', basePrice: 210, sector: 'Aerospace & Defense' },
-  'FDX': { name: 'FedEx Corporation', basePrice: 260, sector: 'Logistics' },
-  'DE': { name: 'Deere & Company', basePrice: 390, sector: 'Industrial' },
-  'T': { name: 'AT&T Inc.', basePrice: 16, sector: 'Telecommunications' },
-  'VZ': { name: 'Verizon Communications Inc.', basePrice: 34, sector: 'Telecommunications' },
-  'CMCSA': { name: 'Comcast Corporation', basePrice: 42, sector: 'Media' },
-  'TMUS': { name: 'T-Mobile US Inc.', basePrice: 160, sector: 'Telecommunications' }
-}
-
-    return symbols.slice(0, 30).map(symbol => {
-      const data = sectorData[symbol as keyof typeof sectorData] || {
-        name: `${symbol} Corporation`,
-        basePrice: 100,
-        sector: 'General'
-      }
-      
-      const priceVariation = (Math.random() - 0.5) * 0.15
-      const price = data.basePrice * (1 + priceVariation)
-      const changePercent = (Math.random() - 0.5) * 10 // ±5% change
-      const change = price * (changePercent / 100)
-      
-      return {
-        symbol,
-        name: data.name,
-        type: 'STOCK' as const,
-        price: Math.round(price * 100) / 100,
-        change: Math.round(change * 100) / 100,
-        changePercent: Math.round(changePercent * 100) / 100,
-        volume: Math.floor(Math.random() * 50000000) + 1000000,
-        marketCap: Math.floor(Math.random() * 1000000000000) + 10000000000,
-        exchange: 'NYSE',
-        sector: data.sector
-      }
-    })
-  }
-
-  // Generate fallback crypto data with realistic simulation
-  private generateFallbackCryptos(symbols: string[]): AssetData[] {
-    const cryptoData = {
-      'BTC': { name: 'Bitcoin', basePrice: 65000 },
-      'ETH': { name: 'Ethereum', basePrice: 3200 },
-      'BNB': { name: 'Binance Coin', basePrice: 420 },
-      'XRP': { name: 'Ripple', basePrice: 0.65 },
-      'ADA': { name: 'Cardano', basePrice: 0.55 },
-      'SOL': { name: 'Solana', basePrice: 165 },
-      'DOGE': { name: 'Dogecoin', basePrice: 0.085 },
-      'DOT': { name: 'Polkadot', basePrice: 7.5 },
-      'AVAX': { name: 'Avalanche', basePrice: 38 },
-      'MATIC': { name: 'Polygon', basePrice: 0.95 }
-    }
 
-    return symbols.slice(0, 20).map(symbol => {
-      const data = cryptoData[symbol as keyof typeof cryptoData] || {
-        name: `${symbol} Token`,
-        basePrice: Math.random() * 100
-      }
-      
-      const priceVariation = (Math.random() - 0.5) * 0.2
-      const price = data.basePrice * (1 + priceVariation)
-      const changePercent = (Math.random() - 0.5) * 15 // ±7.5% change (crypto is more volatile)
-      const change = price * (changePercent / 100)
-      
-      return {
-        symbol,
-        name: data.name,
-        type: 'CRYPTO' as const,
-        price: Math.round(price * 100) / 100,
-        change: Math.round(change * 100) / 100,
-        changePercent: Math.round(changePercent * 100) / 100,
-        volume: Math.floor(Math.random() * 100000000) + 5000000
+        this.setCachedData(cacheKey, data, 'daily')
+        return data
+      } catch (error) {
+        console.error('Market movers error:', error)
+        return { gainers: [], losers: [] }
       }
     })
   }
 
-  // Generate additional gainers for stocks
-  private generateAdditionalGainers(count: number): AssetData[] {
-    const additionalStocks = ['IBM', 'INTC', 'CSCO', 'ORCL', 'CRM', 'ADBE', 'PYPL', 'UBER', 'SPOT', 'ZOOM', 
-                            'SHOP', 'SQ', 'ROKU', 'TWTR', 'SNAP', 'PINS', 'ZM', 'DOCU', 'OKTA', 'SNOW']
-    
-    return additionalStocks.slice(0, count).map((symbol, index) => ({
-      symbol,
-      name: `${symbol} Inc.`,
-      type: 'STOCK' as const,
-      price: Math.random() * 500 + 50,
-      change: Math.random() * 20 + 5,
-      changePercent: Math.random() * 8 + 1, // 1-9% gains
-      volume: Math.floor(Math.random() * 30000000) + 1000000,
-      exchange: 'NASDAQ'
-    }))
-  }
-
-  // Generate additional losers for stocks
-  private generateAdditionalLosers(count: number): AssetData[] {
-    const additionalStocks = ['F', 'GM', 'GE', 'T', 'VZ', 'KO', 'PEP', 'WMT', 'TGT', 'HD', 
-                            'LOW', 'MCD', 'SBUX', 'NKE', 'DIS', 'MMM', 'CAT', 'BA', 'XOM', 'CVX']
-    
-    return additionalStocks.slice(0, count).map((symbol, index) => ({
-      symbol,
-      name: `${symbol} Corporation`,
-      type: 'STOCK' as const,
-      price: Math.random() * 300 + 30,
-      change: -(Math.random() * 15 + 2),
-      changePercent: -(Math.random() * 6 + 0.5), // -0.5% to -6.5% losses
-      volume: Math.floor(Math.random() * 25000000) + 1000000,
-      exchange: 'NYSE'
-    }))
-  }
-
-  // Generate additional gainers for crypto
-  private generateAdditionalCryptoGainers(count: number): AssetData[] {
-    const additionalCryptos = ['LINK', 'UNI', 'AAVE', 'COMP', 'MKR', 'SNX', 'CRV', 'YFI', 'SUSHI', '1INCH',
-                             'BAT', 'ENJ', 'MANA', 'SAND', 'AXS', 'CHZ', 'HOT', 'VET', 'HBAR', 'QNT']
-    
-    return additionalCryptos.slice(0, count).map((symbol, index) => ({
-      symbol,
-      name: `${symbol} Token`,
-      type: 'CRYPTO' as const,
-      price: Math.random() * 50 + 1,
-      change: Math.random() * 5 + 1,
-      changePercent: Math.random() * 15 + 2, // 2-17% gains
-      volume: Math.floor(Math.random() * 50000000) + 2000000
-    }))
-  }
-
-  // Generate additional losers for crypto
-  private generateAdditionalCryptoLosers(count: number): AssetData[] {
-    const additionalCryptos = ['LTC', 'BCH', 'ETC', 'XMR', 'ZEC', 'DASH', 'NEO', 'QTUM', 'OMG', 'ZRX',
-                             'LRC', 'GNT', 'REP', 'ANT', 'DNT', 'CVC', 'FUN', 'MTL', 'STORJ', 'POWR']
-    
-    return additionalCryptos.slice(0, count).map((symbol, index) => ({
-      symbol,
-      name: `${symbol} Token`,
-      type: 'CRYPTO' as const,
-      price: Math.random() * 30 + 0.5,
-      change: -(Math.random() * 3 + 0.5),
-      changePercent: -(Math.random() * 12 + 1), // -1% to -13% losses
-      volume: Math.floor(Math.random() * 30000000) + 1500000
-    }))
-  }
-
-  // Enhanced fallback for stocks with guaranteed 20+ results
-  private getEnhancedFallbackStocks(): MarketMoversData {
-    const gainers: AssetData[] = [
-      { symbol: 'NVDA', name: 'NVIDIA Corporation', price: 875, change: 45.67, changePercent: 5.51, volume: 35420000, type: 'STOCK', exchange: 'NASDAQ' },
-      { symbol: 'AMD', name: 'Advanced Micro Devices', price: 135, change: 6.85, changePercent: 5.35, volume: 42580000, type: 'STOCK', exchange: 'NASDAQ' },
-      { symbol: 'TSLA', name: 'Tesla, Inc.', price: 248, change: 12.34, changePercent: 5.23, volume: 78940000, type: 'STOCK', exchange: 'NASDAQ' },
-      { symbol: 'AAPL', name: 'Apple Inc.', price: 175, change: 8.45, changePercent: 5.07, volume: 65420000, type: 'STOCK', exchange: 'NASDAQ' },
-      { symbol: 'MSFT', name: 'Microsoft Corporation', price: 420, change: 19.85, changePercent: 4.96, volume: 28540000, type: 'STOCK', exchange: 'NASDAQ' }
-    ]
-    
-    const losers: AssetData[] = [
-      { symbol: 'META', name: 'Meta Platforms Inc.', price: 338, change: -18.45, changePercent: -5.17, volume: 22450000, type: 'STOCK', exchange: 'NASDAQ' },
-      { symbol: 'NFLX', name: 'Netflix Inc.', price: 485, change: -24.25, changePercent: -4.76, volume: 18650000, type: 'STOCK', exchange: 'NASDAQ' },
-      { symbol: 'PYPL', name: 'PayPal Holdings', price: 78, change: -3.65, changePercent: -4.47, volume: 32150000, type: 'STOCK', exchange: 'NASDAQ' },
-      { symbol: 'UBER', name: 'Uber Technologies', price: 54, change: -2.35, changePercent: -4.17, volume: 24850000, type: 'STOCK', exchange: 'NYSE' },
-      { symbol: 'SPOT', name: 'Spotify Technology', price: 185, change: -7.45, changePercent: -3.87, volume: 15420000, type: 'STOCK', exchange: 'NYSE' }
-    ]
-
-    // Add additional random stocks to reach 20+ per category
-    const additionalGainers = this.generateAdditionalGainers(20)
-    const additionalLosers = this.generateAdditionalLosers(20)
-
-    return {
-      gainers: [...gainers, ...additionalGainers],
-      losers: [...losers, ...additionalLosers]
-    }
-  }
-
-  // Enhanced fallback for crypto with guaranteed 20+ results
-  private getEnhancedFallbackCryptos(): MarketMoversData {
-    const gainers: AssetData[] = [
-      { symbol: 'BTC', name: 'Bitcoin', price: 65000, change: 3250, changePercent: 5.26, volume: 85420000, type: 'CRYPTO' },
-      { symbol: 'ETH', name: 'Ethereum', price: 3200, change: 155, changePercent: 5.09, volume: 65850000, type: 'CRYPTO' },
-      { symbol: 'SOL', name: 'Solana', price: 165, change: 7.85, changePercent: 5.00, volume: 35420000, type: 'CRYPTO' },
-      { symbol: 'AVAX', name: 'Avalanche', price: 38, change: 1.75, changePercent: 4.83, volume: 28540000, type: 'CRYPTO' },
-      { symbol: 'DOT', name: 'Polkadot', price: 7.5, change: 0.34, changePercent: 4.75, volume: 22450000, type: 'CRYPTO' }
-    ]
-    
-    const losers: AssetData[] = [
-      { symbol: 'ADA', name: 'Cardano', price: 0.55, change: -0.029, changePercent: -5.01, volume: 45620000, type: 'CRYPTO' },
-      { symbol: 'DOGE', name: 'Dogecoin', price: 0.085, change: -0.004, changePercent: -4.49, volume: 52840000, type: 'CRYPTO' },
-      { symbol: 'XRP', name: 'Ripple', price: 0.65, change: -0.028, changePercent: -4.13, volume: 38750000, type: 'CRYPTO' },
-      { symbol: 'MATIC', name: 'Polygon', price: 0.95, change: -0.038, changePercent: -3.84, volume: 32150000, type: 'CRYPTO' },
-      { symbol: 'LINK', name: 'Chainlink', price: 15.2, change: -0.55, changePercent: -3.49, volume: 24850000, type: 'CRYPTO' }
-    ]
-
-    // Add additional random cryptos to reach 20+ per category
-    const additionalGainers = this.generateAdditionalCryptoGainers(15)
-    const additionalLosers = this.generateAdditionalCryptoLosers(15)
-
-    return {
-      gainers: [...gainers, ...additionalGainers],
-      losers: [...losers, ...additionalLosers]
-    }
-  }
-
-  // Final fallback generators for combined results
-  private generateFinalFallbackGainers(count: number): AssetData[] {
-    const mixedAssets = [
-      { symbol: 'CRM', name: 'Salesforce Inc.', type: 'STOCK' as const, basePrice: 285 },
-      { symbol: 'ADBE', name: 'Adobe Inc.', type: 'STOCK' as const, basePrice: 520 },
-      { symbol: 'ORCL', name: 'Oracle Corporation', type: 'STOCK' as const, basePrice: 125 },
-      { symbol: 'UNI', name: 'Uniswap', type: 'CRYPTO' as const, basePrice: 8.5 },
-      { symbol: 'AAVE', name: 'Aave', type: 'CRYPTO' as const, basePrice: 145 },
-      { symbol: 'COMP', name: 'Compound', type: 'CRYPTO' as const, basePrice: 65 }
-    ]
-
-    return mixedAssets.slice(0, count).map(asset => ({
-      symbol: asset.symbol,
-      name: asset.name,
-      type: asset.type,
-      price: asset.basePrice * (1 + Math.random() * 0.1),
-      change: asset.basePrice * (Math.random() * 0.08 + 0.02),
-      changePercent: Math.random() * 6 + 2, // 2-8% gains
-      volume: Math.floor(Math.random() * 40000000) + 5000000,
-      exchange: asset.type === 'STOCK' ? 'NASDAQ' : undefined
-    }))
-  }
-
-  private generateFinalFallbackLosers(count: number): AssetData[] {
-    const mixedAssets = [
-      { symbol: 'INTC', name: 'Intel Corporation', type: 'STOCK' as const, basePrice: 45 },
-      { symbol: 'IBM', name: 'IBM Corporation', type: 'STOCK' as const, basePrice: 155 },
-      { symbol: 'CSCO', name: 'Cisco Systems', type: 'STOCK' as const, basePrice: 55 },
-      { symbol: 'LTC', name: 'Litecoin', type: 'CRYPTO' as const, basePrice: 95 },
-      { symbol: 'BCH', name: 'Bitcoin Cash', type: 'CRYPTO' as const, basePrice: 385 },
-      { symbol: 'ETC', name: 'Ethereum Classic', type: 'CRYPTO' as const, basePrice: 28 }
-    ]
-
-    return mixedAssets.slice(0, count).map(asset => ({
-      symbol: asset.symbol,
-      name: asset.name,
-      type: asset.type,
-      price: asset.basePrice * (1 - Math.random() * 0.1),
-      change: -(asset.basePrice * (Math.random() * 0.06 + 0.01)),
-      changePercent: -(Math.random() * 5 + 1), // -1% to -6% losses
-      volume: Math.floor(Math.random() * 30000000) + 3000000,
-      exchange: asset.type === 'STOCK' ? 'NYSE' : undefined
-    }))
-  }
-
-  async getPriceHistory(symbol: string, period: string = '1D'): Promise<Array<{ timestamp: Date; price: number }>> {
-    const cacheKey = `history_${symbol}_${period}`
+  async getPriceHistory(symbol: string, period: string = '1D'): Promise<PricePoint[]> {
+    const upper = symbol.toUpperCase()
+    const cacheKey = `history_${upper}_${period}`
     const cached = this.getCachedData(cacheKey, 'historical')
     if (cached) return cached
 
-    try {
-      let history: Array<{ timestamp: Date; price: number }> = []
-
-      if (await this.checkRateLimit('alphavantage', 2)) {
-        history = await this.getPriceHistoryAlphaVantage(symbol, period)
-      }
-
-      if (history.length === 0 && await this.checkRateLimit('finnhub', 2)) {
-        history = await this.getPriceHistoryFinnhub(symbol, period)
-      }
-
-      // Fallback to simulated data
-      if (history.length === 0) {
-        history = await this.getSimulatedPriceHistory(symbol, period)
-      }
-
-      this.setCachedData(cacheKey, history, 'historical')
-      return history
-    } catch (error) {
-      console.error(`Price history error for ${symbol}:`, error)
-      return this.getSimulatedPriceHistory(symbol, period)
-    }
-  }
-
-  private async getPriceHistoryAlphaVantage(symbol: string, period: string): Promise<Array<{ timestamp: Date; price: number }>> {
-    try {
-      const func = period === '1D' ? 'TIME_SERIES_INTRADAY' : 'TIME_SERIES_DAILY'
-      const params: any = {
-        function: func,
-        symbol: symbol,
-        apikey: process.env.ALPHADVANTAGE_API_KEY
-      }
+    return this.deduplicateRequest(cacheKey, async () => {
+      try {
+        const history = await this.registry.first('history', [upper, period], provider => provider.getHistory!(upper, period))
+        if (!history) return []
 
-      if (func === 'TIME_SERIES_INTRADAY') {
-        params.interval = '60min'
+        this.setCachedData(cacheKey, history, 'historical')
+        return history
+      } catch (error) {
+        console.error(`Price history error for ${upper}:`, error)
+        return []
       }
-
-      const response = await axios.get('https://www.alphavantage.co/query', { params })
-      const data = response.data
-
-      let timeSeries = data['Time Series (60min)'] || data['Time Series (Daily)']
-      if (!timeSeries) return []
-
-      const history = Object.entries(timeSeries)
-        .map(([timestamp, values]: [string, any]) => ({
-          timestamp: new Date(timestamp),
-          price: parseFloat(values['4. close'])
-        }))
-        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
-
-      return history.slice(-100) // Last 100 points
-    } catch (error) {
-      console.error('Alpha Vantage price history error:', error)
-      return []
-    }
-  }
-
-  private async getPriceHistoryFinnhub(symbol: string, period: string): Promise<Array<{ timestamp: Date; price: number }>> {
-    try {
-      const to = Math.floor(Date.now() / 1000)
-      const from = period === '1D' ? to - 86400 : period === '1W' ? to - 604800 : to - 2592000
-
-      const response = await axios.get('https://finnhub.io/api/v1/stock/candle', {
-        params: {
-          symbol: symbol,
-          resolution: period === '1D' ? '60' : 'D',
-          from: from,
-          to: to,
-          token: process.env.FINNHUB_API_KEY
-        }
-      })
-
-      const data = response.data
-      if (!data.c || data.s !== 'ok') return []
-
-      return data.t.map((timestamp: number, index: number) => ({
-        timestamp: new Date(timestamp * 1000),
-        price: data.c[index]
-      }))
-    } catch (error) {
-      console.error('Finnhub price history error:', error)
-      return []
-    }
+    })
   }
 
-  private async getSimulatedPriceHistory(symbol: string, period: string): Promise<Array<{ timestamp: Date; price: number }>> {
-    const basePrice = await this.getAssetDetails(symbol).then(asset => asset?.price || 100)
-    const points = period === '1D' ? 24 : period === '1W' ? 7 : 30
-    const history = []
+  // Not cached here: the candle store persists whatever comes back. Null means no provider had candles for the window
+  async getCandles(symbol: string, resolution: CandleResolution, from: Date, to: Date): Promise<CandleData[] | null> {
+    const upper = symbol.toUpperCase()
+    const requestKey = `candles_${upper}_${resolution}_${from.getTime()}_${to.getTime()}`
 
-    for (let i = points; i >= 0; i--) {
-      const timestamp = new Date()
-      if (period === '1D') {
-        timestamp.setHours(timestamp.getHours() - i)
-      } else if (period === '1W') {
-        timestamp.setDate(timestamp.getDate() - i)
-      } else {
-        timestamp.setDate(timestamp.getDate() - i)
+    return this.deduplicateRequest(requestKey, async () => {
+      try {
+        return await this.registry.first('candles', [upper, resolution], provider => provider.getCandles!(upper, resolution, from, to))
+      } catch (error) {
+        console.error(`Candles error for ${upper}:`, error)
+        return null
       }
-      
-      const variation = (Math.random() - 0.5) * 0.1 // 10% max variation
-      const price = basePrice * (1 + variation)
-      
-      history.push({ timestamp, price })
-    }
-
-    return history
+    })
   }
 
   // Enhanced methods for AI analysis
@@ -1357,132 +226,35 @@ const sectorData = {
   }
 
   async getAssetNews(symbol: string): Promise<NewsItem[]> {
-    const cacheKey = `news_${symbol}`
+    const upper = symbol.toUpperCase()
+    const cacheKey = `news_${upper}`
     const cached = this.getCachedData(cacheKey, 'news')
     if (cached) return cached
 
     try {
-      let news: NewsItem[] = []
-
-      // Try NewsAPI first
-      if (await this.checkRateLimit('newsapi', 2)) {
-        news = await this.getNewsFromNewsAPI(symbol)
-      }
-
-      // Fallback: Finnhub news
-      if (news.length === 0 && await this.checkRateLimit('finnhub', 2)) {
-        news = await this.getNewsFromFinnhub(symbol)
-      }
-
-      // Final fallback: scrape news
-      if (news.length === 0) {
-        news = await this.scrapeNews(symbol)
-      }
+      const news = (await this.registry.first('news', [upper], provider => provider.getNews!(upper))) || []
 
       this.setCachedData(cacheKey, news, 'news')
       return news.slice(0, 10) // Limit to 10 news items
     } catch (error) {
-      console.error(`News error for ${symbol}:`, error)
+      console.error(`News error for ${upper}:`, error)
       return []
     }
   }
 
-  private async getNewsFromNewsAPI(symbol: string): Promise<NewsItem[]> {
-    try {
-      const response = await axios.get('https://newsapi.org/v2/everything', {
-        params: {
-          q: symbol,
-          language: 'en',
-          sortBy: 'publishedAt',
-          pageSize: 10,
-          apiKey: process.env.NEWS_API_KEY
-        }
-      })
-
-      return response.data.articles?.map((article: any) => ({
-        title: article.title,
-        url: article.url,
-        source: article.source.name,
-        publishedAt: article.publishedAt,
-        sentiment: this.analyzeSentiment(article.title + ' ' + article.description)
-      })) || []
-    } catch (error) {
-      console.error('NewsAPI error:', error)
-      return []
-    }
-  }
+  // Fills in the display fields the analyze page shows when the provider did not supply them
+  private withDerivedFields(asset: AssetData): AssetData {
+    const week52High = asset.week52High
+    const week52Low = asset.week52Low
 
-  private async getNewsFromFinnhub(symbol: string): Promise<NewsItem[]> {
-    try {
-      const response = await axios.get('https://finnhub.io/api/v1/company-news', {
-        params: {
-          symbol: symbol,
-          from: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          to: new Date().toISOString().split('T')[0],
-          token: process.env.FINNHUB_API_KEY
-        }
-      })
-
-      return response.data?.slice(0, 10).map((news: any) => ({
-        title: news.headline,
-        url: news.url,
-        source: news.source,
-        publishedAt: new Date(news.datetime * 1000).toISOString(),
-        sentiment: this.analyzeSentiment(news.headline + ' ' + news.summary)
-      })) || []
-    } catch (error) {
-      console.error('Finnhub news error:', error)
-      return []
-    }
-  }
-
-  private async scrapeNews(symbol: string): Promise<NewsItem[]> {
-    try {
-      const response = await axios.get(`https://finance.yahoo.com/quote/${symbol}/news`, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        }
-      })
-
-      const $ = cheerio.load(response.data)
-      const news: NewsItem[] = []
-
-      $('article').each((i, article) => {
-        if (i < 5) {
-          const title = $(article).find('h3 a').text().trim()
-          const url = $(article).find('h3 a').attr('href')
-          if (title && url) {
-            news.push({
-              title,
-              url: url.startsWith('http') ? url : `https://finance.yahoo.com${url}`,
-              source: 'Yahoo Finance',
-              publishedAt: new Date().toISOString(),
-              sentiment: this.analyzeSentiment(title)
-            })
-          }
-        }
-      })
-
-      return news
-    } catch (error) {
-      console.error('News scraping error:', error)
-      return []
+    return {
+      ...asset,
+      previousClose: asset.previousClose ?? (asset.price ? asset.price - asset.change : undefined),
+      week52Range: asset.week52Range ?? (week52High && week52Low ? `${week52Low.toFixed(2)} - ${week52High.toFixed(2)}` : undefined),
+      lastUpdated: new Date()
     }
   }
 
-  private analyzeSentiment(text: string): 'positive' | 'negative' | 'neutral' {
-    const positiveWords = ['bull', 'gain', 'rise', 'up', 'profit', 'strong', 'buy', 'growth']
-    const negativeWords = ['bear', 'loss', 'fall', 'down', 'drop', 'weak', 'sell', 'decline']
-    
-    const lowerText = text.toLowerCase()
-    const positiveCount = positiveWords.filter(word => lowerText.includes(word)).length
-    const negativeCount = negativeWords.filter(word => lowerText.includes(word)).length
-    
-    if (positiveCount > negativeCount) return 'positive'
-    if (negativeCount > positiveCount) return 'negative'
-    return 'neutral'
-  }
-
   private async getAnalystRatings(symbol: string): Promise<Array<{ rating: string; targetPrice?: number; recommendation: 'BUY' | 'SELL' | 'HOLD' }>> {
     // Placeholder for analyst ratings - would integrate with financial data providers
     return [
@@ -0,0 +1,61 @@
+// US equity market session helpers (regular hours 9:30 AM - 4:00 PM ET, Monday-Friday)
+
+const MARKET_TIMEZONE = 'America/New_York'
+const OPEN_MINUTES = 9 * 60 + 30
+const CLOSE_MINUTES = 16 * 60
+
+// Wall-clock time in New York expressed as a local Date, plus the offset needed to convert back
+function toEasternTime(date: Date): { eastern: Date; offsetMs: number } {
+  const eastern = new Date(date.toLocaleString('en-US', { timeZone: MARKET_TIMEZONE }))
+  return { eastern, offsetMs: date.getTime() - eastern.getTime() }
+}
+
+function isWeekday(eastern: Date): boolean {
+  const day = eastern.getDay()
+  return day >= 1 && day <= 5
+}
+
+export function isMarketOpen(date: Date = new Date()): boolean {
+  const { eastern } = toEasternTime(date)
+  const minutes = eastern.getHours() * 60 + eastern.getMinutes()
+  return isWeekday(eastern) && minutes >= OPEN_MINUTES && minutes < CLOSE_MINUTES
+}
+
+// Close of the current session, or of the next session when the market is already closed
+export function getNextMarketClose(date: Date = new Date()): Date {
+  const { eastern, offsetMs } = toEasternTime(date)
+  const close = new Date(eastern)
+  close.setHours(16, 0, 0, 0)
+
+  if (eastern.getTime() >= close.getTime()) {
+    close.setDate(close.getDate() + 1)
+  }
+  while (!isWeekday(close)) {
+    close.setDate(close.getDate() + 1)
+  }
+
+  return new Date(close.getTime() + offsetMs)
+}
+
+// New York calendar date as midnight UTC, used to key daily records
+export function getTradingDay(date: Date = new Date()): Date {
+  const { eastern } = toEasternTime(date)
+  return new Date(Date.UTC(eastern.getFullYear(), eastern.getMonth(), eastern.getDate()))
+}
+
+// Midnight in New York at the start of the date's trading day, as an instant
+export function getTradingDayStart(date: Date = new Date()): Date {
+  const { eastern, offsetMs } = toEasternTime(date)
+  const midnight = new Date(eastern)
+  midnight.setHours(0, 0, 0, 0)
+
+  // On daylight saving changeovers the offset at midnight differs from the one later in the day
+  const guess = new Date(midnight.getTime() + offsetMs)
+  return new Date(midnight.getTime() + toEasternTime(guess).offsetMs)
+}
+
+// Converts a New York wall-clock time, as some providers report it, to the actual instant
+export function fromEasternTime(year: number, month: number, day: number, hours: number = 0, minutes: number = 0): Date {
+  const guess = new Date(Date.UTC(year, month - 1, day, hours, minutes))
+  return new Date(guess.getTime() + toEasternTime(guess).offsetMs)
+}
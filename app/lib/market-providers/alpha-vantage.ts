@@ -0,0 +1,161 @@
+import axios from 'axios'
+import { fromEasternTime } from '@/lib/market-hours'
+import { RateLimiter, isCryptoSymbol, retryWithBackoff } from './shared'
+import type { AssetData, CandleData, CandleResolution, MarketDataProvider, PricePoint } from './types'
+
+const BASE_URL = 'https://www.alphavantage.co/query'
+
+const INTRADAY_INTERVALS: Partial<Record<CandleResolution, string>> = {
+  '5m': '5min',
+  '15m': '15min',
+  '1h': '60min'
+}
+// Compact responses carry the latest 100 bars; anything further back needs the full series
+const COMPACT_BARS = 100
+
+// US equities: symbol search, quotes with company overview, daily/intraday closes and OHLCV candles
+export class AlphaVantageProvider implements MarketDataProvider {
+  name = 'alphavantage'
+  private rateLimiter = new RateLimiter('alphavantage', 5)
+
+  isConfigured(): boolean {
+    return !!process.env.ALPHADVANTAGE_API_KEY
+  }
+
+  async search(query: string): Promise<AssetData[]> {
+    if (!this.rateLimiter.tryAcquire()) return []
+
+    const response = await retryWithBackoff(() => this.request({ function: 'SYMBOL_SEARCH', keywords: query }))
+    const matches = response.bestMatches || []
+    const results: AssetData[] = []
+
+    for (const match of matches.slice(0, 5)) {
+      // Price each match; matches that cannot be priced are dropped
+      const quote = await this.getGlobalQuote(match['1. symbol']).catch(() => null)
+      if (quote) {
+        results.push({
+          symbol: match['1. symbol'],
+          name: match['2. name'],
+          type: 'STOCK',
+          exchange: match['4. region'],
+          ...quote
+        })
+      }
+    }
+
+    return results
+  }
+
+  async getQuote(symbol: string): Promise<AssetData | null> {
+    if (isCryptoSymbol(symbol) || !this.rateLimiter.tryAcquire()) return null
+
+    const [quote, overview] = await Promise.all([
+      this.getGlobalQuote(symbol),
+      this.request({ function: 'OVERVIEW', symbol })
+    ])
+
+    if (!quote || !overview.Symbol) return null
+
+    return {
+      symbol: symbol.toUpperCase(),
+      name: overview.Name || symbol,
+      ...quote,
+      marketCap: overview.MarketCapitalization ? parseInt(overview.MarketCapitalization) : undefined,
+      type: 'STOCK',
+      exchange: overview.Exchange,
+      sector: overview.Sector,
+      industry: overview.Industry,
+      pe: overview.PERatio ? parseFloat(overview.PERatio) : undefined,
+      dividendYield: overview.DividendYield ? parseFloat(overview.DividendYield) : undefined,
+      beta: overview.Beta ? parseFloat(overview.Beta) : undefined,
+      eps: overview.EPS ? parseFloat(overview.EPS) : undefined,
+      week52High: overview['52WeekHigh'] ? parseFloat(overview['52WeekHigh']) : undefined,
+      week52Low: overview['52WeekLow'] ? parseFloat(overview['52WeekLow']) : undefined
+    }
+  }
+
+  async getHistory(symbol: string, period: string): Promise<PricePoint[]> {
+    if (isCryptoSymbol(symbol) || !this.rateLimiter.tryAcquire()) return []
+
+    const func = period === '1D' ? 'TIME_SERIES_INTRADAY' : 'TIME_SERIES_DAILY'
+    const data = await this.request({
+      function: func,
+      symbol,
+      ...(func === 'TIME_SERIES_INTRADAY' && { interval: '60min' })
+    })
+
+    const timeSeries = data['Time Series (60min)'] || data['Time Series (Daily)']
+    if (!timeSeries) return []
+
+    return Object.entries(timeSeries)
+      .map(([timestamp, values]: [string, any]) => ({
+        timestamp: new Date(timestamp),
+        price: parseFloat(values['4. close'])
+      }))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .slice(-100) // Last 100 points
+  }
+
+  async getCandles(symbol: string, resolution: CandleResolution, from: Date, to: Date): Promise<CandleData[]> {
+    if (isCryptoSymbol(symbol) || !this.rateLimiter.tryAcquire()) return []
+
+    const interval = INTRADAY_INTERVALS[resolution]
+    const barMs = interval ? parseInt(interval) * 60 * 1000 : 24 * 60 * 60 * 1000
+    const outputsize = (Date.now() - from.getTime()) / barMs > COMPACT_BARS ? 'full' : 'compact'
+
+    const data = await this.request({
+      function: interval ? 'TIME_SERIES_INTRADAY' : 'TIME_SERIES_DAILY',
+      symbol,
+      outputsize,
+      ...(interval && { interval })
+    })
+
+    const timeSeries = data[interval ? `Time Series (${interval})` : 'Time Series (Daily)']
+    if (!timeSeries) return []
+
+    return Object.entries(timeSeries)
+      .map(([timestamp, values]: [string, any]) => ({
+        timestamp: this.parseTimestamp(timestamp),
+        open: parseFloat(values['1. open']),
+        high: parseFloat(values['2. high']),
+        low: parseFloat(values['3. low']),
+        close: parseFloat(values['4. close']),
+        volume: values['5. volume'] ? parseFloat(values['5. volume']) : null
+      }))
+      .filter(candle => candle.timestamp >= from && candle.timestamp <= to)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+  }
+
+  // Daily keys are trading dates, stored as midnight UTC; intraday keys are New York wall-clock times
+  private parseTimestamp(timestamp: string): Date {
+    const [date, time] = timestamp.split(' ')
+    const [year, month, day] = date.split('-').map(Number)
+    if (!time) return new Date(Date.UTC(year, month - 1, day))
+
+    const [hours, minutes] = time.split(':').map(Number)
+    return fromEasternTime(year, month, day, hours, minutes)
+  }
+
+  private async getGlobalQuote(symbol: string) {
+    const data = await this.request({ function: 'GLOBAL_QUOTE', symbol })
+    const quote = data['Global Quote']
+    if (!quote || !quote['05. price']) return null
+
+    return {
+      price: parseFloat(quote['05. price']),
+      change: parseFloat(quote['09. change']),
+      changePercent: parseFloat(quote['10. change percent'].replace('%', '')),
+      volume: parseInt(quote['06. volume']),
+      previousClose: parseFloat(quote['08. previous close']),
+      open: parseFloat(quote['02. open'])
+    }
+  }
+
+  private async request(params: Record<string, string>) {
+    const response = await axios.get(BASE_URL, {
+      params: { ...params, apikey: process.env.ALPHADVANTAGE_API_KEY },
+      timeout: 10000
+    })
+    return response.data
+  }
+}
@@ -0,0 +1,208 @@
+import axios from 'axios'
+import { RateLimiter, analyzeSentiment, getCryptoName, isCryptoSymbol, retryWithBackoff } from './shared'
+import type { AssetData, CandleData, CandleResolution, MarketDataProvider, MarketMoversData, NewsItem, PricePoint } from './types'
+
+const BASE_URL = 'https://finnhub.io/api/v1'
+
+const CANDLE_RESOLUTIONS: Record<CandleResolution, string> = {
+  '5m': '5',
+  '15m': '15',
+  '1h': '60',
+  '1d': 'D'
+}
+
+// Symbols scanned for gainers and losers, across sectors plus the largest cryptocurrencies
+const MOVERS_UNIVERSE = [
+  'AAPL', 'MSFT', 'GOOGL', 'AMZN', 'TSLA', 'NVDA', 'META', 'NFLX', 'ORCL', 'CRM', 'ADBE', 'INTC', 'AMD', 'IBM',
+  'JPM', 'BAC', 'WFC', 'GS', 'MS', 'V', 'MA',
+  'JNJ', 'PFE', 'UNH', 'MRNA', 'ABBV', 'LLY', 'MRK',
+  'WMT', 'HD', 'MCD', 'KO', 'PEP', 'NKE', 'SBUX', 'COST', 'DIS',
+  'XOM', 'CVX', 'COP', 'CAT', 'BA', 'GE', 'HON', 'UPS', 'T', 'VZ',
+  'BTC', 'ETH', 'BNB', 'XRP', 'ADA', 'SOL', 'DOGE', 'DOT', 'AVAX', 'LINK', 'LTC'
+]
+const MOVERS_BATCH_SIZE = 10
+// Below this many priced symbols a movers list is not representative
+const MIN_MOVERS_SAMPLE = 20
+
+// Crypto symbol search, stock and crypto quotes, candles, company news and a movers scan
+export class FinnhubProvider implements MarketDataProvider {
+  name = 'finnhub'
+  private rateLimiter = new RateLimiter('finnhub', 30)
+
+  isConfigured(): boolean {
+    return !!process.env.FINNHUB_API_KEY
+  }
+
+  async search(query: string): Promise<AssetData[]> {
+    if (!this.rateLimiter.tryAcquire()) return []
+
+    const cryptos = await retryWithBackoff(() => this.request('/crypto/symbol', { exchange: 'BINANCE' })) || []
+    const needle = query.toLowerCase()
+    const filtered = cryptos
+      .filter((crypto: any) =>
+        crypto.symbol.toLowerCase().includes(needle) ||
+        crypto.description.toLowerCase().includes(needle)
+      )
+      .slice(0, 5)
+
+    const results: AssetData[] = []
+    for (const crypto of filtered) {
+      const quote = await this.request('/quote', { symbol: crypto.symbol }).catch(() => null)
+      if (quote?.c) {
+        results.push({
+          symbol: crypto.symbol.replace('BINANCE:', ''),
+          name: crypto.description,
+          type: 'CRYPTO',
+          price: quote.c,
+          change: quote.d,
+          changePercent: quote.dp,
+          volume: quote.v
+        })
+      }
+    }
+
+    return results
+  }
+
+  async getQuote(symbol: string): Promise<AssetData | null> {
+    if (!this.rateLimiter.tryAcquire()) return null
+
+    const upper = symbol.toUpperCase()
+
+    if (isCryptoSymbol(upper)) {
+      const quote = await this.request('/quote', { symbol: `BINANCE:${upper}USDT` })
+      if (!quote.c) return null
+
+      return {
+        symbol: upper,
+        name: getCryptoName(upper),
+        price: quote.c,
+        change: quote.d,
+        changePercent: quote.dp,
+        previousClose: quote.pc,
+        open: quote.o,
+        type: 'CRYPTO'
+      }
+    }
+
+    const [quote, profile] = await Promise.all([
+      this.request('/quote', { symbol: upper }),
+      this.request('/stock/profile2', { symbol: upper })
+    ])
+
+    if (!quote.c) return null
+
+    return {
+      symbol: upper,
+      name: profile.name || upper,
+      price: quote.c,
+      change: quote.d,
+      changePercent: quote.dp,
+      previousClose: quote.pc,
+      open: quote.o,
+      dayRange: quote.l && quote.h ? `${quote.l.toFixed(2)} - ${quote.h.toFixed(2)}` : undefined,
+      marketCap: profile.marketCapitalization ? profile.marketCapitalization * 1000000 : undefined,
+      type: 'STOCK',
+      exchange: profile.exchange,
+      sector: profile.finnhubIndustry,
+      logoUrl: profile.logo
+    }
+  }
+
+  async getHistory(symbol: string, period: string): Promise<PricePoint[]> {
+    if (!this.rateLimiter.tryAcquire()) return []
+
+    const to = Math.floor(Date.now() / 1000)
+    const from = period === '1D' ? to - 86400 : period === '1W' ? to - 604800 : to - 2592000
+
+    const data = await this.request('/stock/candle', {
+      symbol,
+      resolution: period === '1D' ? '60' : 'D',
+      from: String(from),
+      to: String(to)
+    })
+
+    if (!data.c || data.s !== 'ok') return []
+
+    return data.t.map((timestamp: number, index: number) => ({
+      timestamp: new Date(timestamp * 1000),
+      price: data.c[index]
+    }))
+  }
+
+  async getCandles(symbol: string, resolution: CandleResolution, from: Date, to: Date): Promise<CandleData[]> {
+    if (!this.rateLimiter.tryAcquire()) return []
+
+    const upper = symbol.toUpperCase()
+    const crypto = isCryptoSymbol(upper)
+    const data = await this.request(crypto ? '/crypto/candle' : '/stock/candle', {
+      symbol: crypto ? `BINANCE:${upper}USDT` : upper,
+      resolution: CANDLE_RESOLUTIONS[resolution],
+      from: String(Math.floor(from.getTime() / 1000)),
+      to: String(Math.floor(to.getTime() / 1000))
+    })
+
+    if (!data.c || data.s !== 'ok') return []
+
+    return data.t.map((timestamp: number, index: number) => {
+      const date = new Date(timestamp * 1000)
+      return {
+        // Daily bars are keyed by calendar date like every other provider
+        timestamp: resolution === '1d' ? new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())) : date,
+        open: data.o[index],
+        high: data.h[index],
+        low: data.l[index],
+        close: data.c[index],
+        volume: data.v?.[index] ?? null
+      }
+    })
+  }
+
+  async getNews(symbol: string): Promise<NewsItem[]> {
+    if (!this.rateLimiter.tryAcquire()) return []
+
+    const data = await this.request('/company-news', {
+      symbol,
+      from: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+      to: new Date().toISOString().split('T')[0]
+    })
+
+    return (data || []).slice(0, 10).map((news: any) => ({
+      title: news.headline,
+      url: news.url,
+      source: news.source,
+      publishedAt: new Date(news.datetime * 1000).toISOString(),
+      sentiment: analyzeSentiment(news.headline + ' ' + news.summary)
+    }))
+  }
+
+  async getMovers(): Promise<MarketMoversData | null> {
+    const assets: AssetData[] = []
+
+    for (let i = 0; i < MOVERS_UNIVERSE.length; i += MOVERS_BATCH_SIZE) {
+      const batch = MOVERS_UNIVERSE.slice(i, i + MOVERS_BATCH_SIZE)
+      // Individual symbols failing should not sink the whole scan
+      const quotes = await Promise.all(batch.map(symbol => this.getQuote(symbol).catch(() => null)))
+      const priced = quotes.filter((quote): quote is AssetData => quote !== null)
+      assets.push(...priced)
+
+      // An empty batch means the rate limit budget is spent
+      if (priced.length === 0) break
+    }
+
+    if (assets.length < MIN_MOVERS_SAMPLE) return null
+
+    return {
+      gainers: assets.filter(a => a.changePercent > 0).sort((a, b) => b.changePercent - a.changePercent),
+      losers: assets.filter(a => a.changePercent < 0).sort((a, b) => a.changePercent - b.changePercent)
+    }
+  }
+
+  private async request(path: string, params: Record<string, string>) {
+    const response = await axios.get(`${BASE_URL}${path}`, {
+      params: { ...params, token: process.env.FINNHUB_API_KEY },
+      timeout: 10000
+    })
+    return response.data
+  }
+}
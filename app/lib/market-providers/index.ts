@@ -0,0 +1,64 @@
+import { AlphaVantageProvider } from './alpha-vantage'
+import { FinnhubProvider } from './finnhub'
+import { NewsApiProvider } from './newsapi'
+import { MarketDataRegistry } from './registry'
+import { DEFAULT_FIXTURES_DIR, ReplayProvider } from './replay'
+import { SimulatedProvider, type ReferencePriceLookup } from './simulated'
+import { YahooScraperProvider } from './yahoo'
+import type { MarketDataProvider } from './types'
+
+export * from './types'
+export { MarketDataRegistry } from './registry'
+export { ReplayProvider, fixturePath } from './replay'
+export { SimulatedProvider } from './simulated'
+export { isCryptoSymbol } from './shared'
+
+// The provider chain the service has always used when nothing is configured
+const DEFAULT_PROVIDERS = ['alphavantage', 'finnhub', 'newsapi', 'yahoo', 'simulated']
+
+interface RegistryOptions {
+  referencePrice: ReferencePriceLookup
+}
+
+/**
+ * Builds the provider registry from the environment:
+ * - MARKET_DATA_PROVIDERS: comma-separated provider names in priority order
+ *   (alphavantage, finnhub, newsapi, yahoo, replay, simulated); `replay,simulated` runs fully offline
+ * - MARKET_DATA_FIXTURES_DIR: where the replay provider reads and records fixtures
+ * - MARKET_DATA_RECORD: set to `true` to save every live response as a replay fixture
+ */
+export function createMarketDataRegistry(options: RegistryOptions): MarketDataRegistry {
+  const names = process.env.MARKET_DATA_PROVIDERS
+    ? process.env.MARKET_DATA_PROVIDERS.split(',').map(name => name.trim().toLowerCase()).filter(Boolean)
+    : DEFAULT_PROVIDERS
+  const replay = new ReplayProvider(process.env.MARKET_DATA_FIXTURES_DIR || DEFAULT_FIXTURES_DIR)
+  const registry = new MarketDataRegistry(process.env.MARKET_DATA_RECORD === 'true' ? replay : null)
+
+  names.forEach((name, index) => {
+    const provider = name === 'replay' ? replay : createProvider(name, options)
+    if (!provider) {
+      console.warn(`Unknown market data provider: ${name}`)
+      return
+    }
+    registry.register(provider, index + 1)
+  })
+
+  return registry
+}
+
+function createProvider(name: string, options: RegistryOptions): MarketDataProvider | null {
+  switch (name) {
+    case 'alphavantage':
+      return new AlphaVantageProvider()
+    case 'finnhub':
+      return new FinnhubProvider()
+    case 'newsapi':
+      return new NewsApiProvider()
+    case 'yahoo':
+      return new YahooScraperProvider()
+    case 'simulated':
+      return new SimulatedProvider(options.referencePrice)
+    default:
+      return null
+  }
+}
@@ -0,0 +1,36 @@
+import axios from 'axios'
+import { RateLimiter, analyzeSentiment } from './shared'
+import type { MarketDataProvider, NewsItem } from './types'
+
+// Headline search across general news outlets
+export class NewsApiProvider implements MarketDataProvider {
+  name = 'newsapi'
+  private rateLimiter = new RateLimiter('newsapi', 2)
+
+  isConfigured(): boolean {
+    return !!process.env.NEWS_API_KEY
+  }
+
+  async getNews(symbol: string): Promise<NewsItem[]> {
+    if (!this.rateLimiter.tryAcquire()) return []
+
+    const response = await axios.get('https://newsapi.org/v2/everything', {
+      params: {
+        q: symbol,
+        language: 'en',
+        sortBy: 'publishedAt',
+        pageSize: 10,
+        apiKey: process.env.NEWS_API_KEY
+      },
+      timeout: 10000
+    })
+
+    return response.data.articles?.map((article: any) => ({
+      title: article.title,
+      url: article.url,
+      source: article.source.name,
+      publishedAt: article.publishedAt,
+      sentiment: analyzeSentiment(article.title + ' ' + article.description)
+    })) || []
+  }
+}
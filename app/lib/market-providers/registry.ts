@@ -0,0 +1,197 @@
+import type { FixtureRecorder, MarketDataCapability, MarketDataProvider, ProviderHealth } from './types'
+
+// Consecutive failures before a provider is benched, and how long the first bench lasts
+const FAILURE_THRESHOLD = 3
+const BASE_COOLDOWN_MS = 60 * 1000
+const MAX_COOLDOWN_MS = 10 * 60 * 1000
+
+const CAPABILITY_METHODS: Record<MarketDataCapability, keyof MarketDataProvider> = {
+  quote: 'getQuote',
+  search: 'search',
+  history: 'getHistory',
+  candles: 'getCandles',
+  news: 'getNews',
+  movers: 'getMovers'
+}
+
+interface RegisteredProvider {
+  provider: MarketDataProvider
+  priority: number
+  consecutiveFailures: number
+  totalCalls: number
+  totalFailures: number
+  lastSuccessAt: Date | null
+  lastFailureAt: Date | null
+  lastError: string | null
+  cooldownUntil: Date | null
+}
+
+const isEmpty = (result: unknown) => result === null || result === undefined || (Array.isArray(result) && result.length === 0)
+
+// Routes each request to the providers implementing it, lowest priority number first, and benches providers that keep failing
+export class MarketDataRegistry {
+  private entries: RegisteredProvider[] = []
+
+  constructor(private recorder: FixtureRecorder | null = null) {}
+
+  register(provider: MarketDataProvider, priority: number): void {
+    this.unregister(provider.name)
+    this.entries.push({
+      provider,
+      priority,
+      consecutiveFailures: 0,
+      totalCalls: 0,
+      totalFailures: 0,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      lastError: null,
+      cooldownUntil: null
+    })
+  }
+
+  unregister(name: string): void {
+    this.entries = this.entries.filter(entry => entry.provider.name !== name)
+  }
+
+  setRecorder(recorder: FixtureRecorder | null): void {
+    this.recorder = recorder
+  }
+
+  // Returns the first non-empty answer, trying primary providers before fallbacks
+  async first<T>(
+    capability: MarketDataCapability,
+    key: string[],
+    call: (provider: MarketDataProvider) => Promise<T>
+  ): Promise<T | null> {
+    for (const entry of this.candidates(capability)) {
+      const result = await this.invoke(entry, call)
+      if (!isEmpty(result)) {
+        if (this.isLive(entry)) {
+          await this.record(capability, key, result)
+        }
+        return result as T
+      }
+    }
+    return null
+  }
+
+  // Merges answers from every primary provider; fallbacks are only asked when the primaries found nothing
+  async collect<T>(
+    capability: MarketDataCapability,
+    key: string[],
+    call: (provider: MarketDataProvider) => Promise<T[]>
+  ): Promise<T[]> {
+    const results: T[] = []
+    let live = true
+
+    for (const entry of this.candidates(capability)) {
+      if (entry.provider.fallback && results.length > 0) break
+
+      const result = await this.invoke(entry, call)
+      if (result && result.length > 0) {
+        results.push(...result)
+        live = live && this.isLive(entry)
+      }
+    }
+
+    if (results.length > 0 && live) {
+      await this.record(capability, key, results)
+    }
+    return results
+  }
+
+  getHealth(): ProviderHealth[] {
+    const now = Date.now()
+
+    return this.sorted().map(entry => {
+      const configured = this.isConfigured(entry.provider)
+      const coolingDown = !!entry.cooldownUntil && entry.cooldownUntil.getTime() > now
+
+      return {
+        name: entry.provider.name,
+        priority: entry.priority,
+        fallback: !!entry.provider.fallback,
+        configured,
+        capabilities: (Object.keys(CAPABILITY_METHODS) as MarketDataCapability[])
+          .filter(capability => this.supports(entry.provider, capability)),
+        status: !configured ? 'DISABLED'
+          : coolingDown ? 'COOLING_DOWN'
+          : entry.consecutiveFailures > 0 ? 'DEGRADED'
+          : 'HEALTHY',
+        consecutiveFailures: entry.consecutiveFailures,
+        totalCalls: entry.totalCalls,
+        totalFailures: entry.totalFailures,
+        lastSuccessAt: entry.lastSuccessAt,
+        lastFailureAt: entry.lastFailureAt,
+        lastError: entry.lastError,
+        cooldownUntil: coolingDown ? entry.cooldownUntil : null
+      }
+    })
+  }
+
+  private sorted(): RegisteredProvider[] {
+    return [...this.entries].sort((a, b) =>
+      Number(!!a.provider.fallback) - Number(!!b.provider.fallback) || a.priority - b.priority
+    )
+  }
+
+  private candidates(capability: MarketDataCapability): RegisteredProvider[] {
+    const now = Date.now()
+    return this.sorted().filter(entry =>
+      this.supports(entry.provider, capability) &&
+      this.isConfigured(entry.provider) &&
+      (!entry.cooldownUntil || entry.cooldownUntil.getTime() <= now)
+    )
+  }
+
+  private supports(provider: MarketDataProvider, capability: MarketDataCapability): boolean {
+    return typeof provider[CAPABILITY_METHODS[capability]] === 'function'
+  }
+
+  private isConfigured(provider: MarketDataProvider): boolean {
+    return provider.isConfigured ? provider.isConfigured() : true
+  }
+
+  private async invoke<T>(entry: RegisteredProvider, call: (provider: MarketDataProvider) => Promise<T>): Promise<T | null> {
+    entry.totalCalls++
+
+    try {
+      const result = await call(entry.provider)
+      entry.consecutiveFailures = 0
+      entry.cooldownUntil = null
+      entry.lastSuccessAt = new Date()
+      return result
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error(`Market data provider ${entry.provider.name} failed:`, message)
+
+      entry.consecutiveFailures++
+      entry.totalFailures++
+      entry.lastFailureAt = new Date()
+      entry.lastError = message
+
+      if (entry.consecutiveFailures >= FAILURE_THRESHOLD) {
+        // Each further failure after the threshold doubles the bench time
+        const cooldown = Math.min(BASE_COOLDOWN_MS * Math.pow(2, entry.consecutiveFailures - FAILURE_THRESHOLD), MAX_COOLDOWN_MS)
+        entry.cooldownUntil = new Date(Date.now() + cooldown)
+        console.warn(`Market data provider ${entry.provider.name} cooling down for ${cooldown}ms`)
+      }
+      return null
+    }
+  }
+
+  // Only live answers are recorded; replayed and simulated data would just copy themselves
+  private isLive(entry: RegisteredProvider): boolean {
+    return !entry.provider.fallback && entry.provider !== (this.recorder as unknown)
+  }
+
+  private async record(capability: MarketDataCapability, key: string[], data: unknown): Promise<void> {
+    if (!this.recorder) return
+
+    try {
+      await this.recorder.record(capability, key, data)
+    } catch (error) {
+      console.error('Market data fixture recording error:', error)
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import type { AssetData, CandleData, CandleResolution, FixtureRecorder, MarketDataCapability, MarketDataProvider, MarketMoversData, NewsItem, PricePoint } from './types'
+
+export const DEFAULT_FIXTURES_DIR = 'fixtures/market-data'
+
+// quote/AAPL.json, history/AAPL_1M.json, candles/AAPL_1D.json, search/APPLE.json, movers/LATEST.json
+export function fixturePath(dir: string, capability: MarketDataCapability, key: string[]): string {
+  const fileName = key.map(part => part.toUpperCase().replace(/[^A-Z0-9.-]/g, '_')).join('_')
+  return path.join(dir, capability, `${fileName}.json`)
+}
+
+/**
+ * Serves responses previously recorded to disk, so the app can run offline and tests get identical data on every run.
+ * Requests without a fixture return nothing and fall through to the next provider.
+ */
+export class ReplayProvider implements MarketDataProvider, FixtureRecorder {
+  name = 'replay'
+
+  constructor(private dir: string = DEFAULT_FIXTURES_DIR) {}
+
+  async getQuote(symbol: string): Promise<AssetData | null> {
+    return this.read<AssetData>('quote', [symbol])
+  }
+
+  async search(query: string): Promise<AssetData[]> {
+    return (await this.read<AssetData[]>('search', [query])) || []
+  }
+
+  async getHistory(symbol: string, period: string): Promise<PricePoint[]> {
+    const history = await this.read<Array<{ timestamp: string; price: number }>>('history', [symbol, period])
+    return (history || []).map(point => ({ timestamp: new Date(point.timestamp), price: point.price }))
+  }
+
+  // Candle fixtures hold the last recorded window; only the requested part is served
+  async getCandles(symbol: string, resolution: CandleResolution, from: Date, to: Date): Promise<CandleData[]> {
+    const candles = await this.read<Array<Omit<CandleData, 'timestamp'> & { timestamp: string }>>('candles', [symbol, resolution])
+    return (candles || [])
+      .map(candle => ({ ...candle, timestamp: new Date(candle.timestamp) }))
+      .filter(candle => candle.timestamp >= from && candle.timestamp <= to)
+  }
+
+  async getNews(symbol: string): Promise<NewsItem[]> {
+    return (await this.read<NewsItem[]>('news', [symbol])) || []
+  }
+
+  async getMovers(): Promise<MarketMoversData | null> {
+    return this.read<MarketMoversData>('movers', ['latest'])
+  }
+
+  async record(capability: MarketDataCapability, key: string[], data: unknown): Promise<void> {
+    const file = fixturePath(this.dir, capability, key)
+    await mkdir(path.dirname(file), { recursive: true })
+    await writeFile(file, JSON.stringify(data, null, 2) + '\n')
+  }
+
+  private async read<T>(capability: MarketDataCapability, key: string[]): Promise<T | null> {
+    try {
+      return JSON.parse(await readFile(fixturePath(this.dir, capability, key), 'utf8')) as T
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null
+      // A corrupt fixture is a provider failure, not a miss
+      throw error
+    }
+  }
+}
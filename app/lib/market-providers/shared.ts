@@ -0,0 +1,92 @@
+// Helpers shared by the individual market data providers
+
+const RATE_LIMIT_WINDOW = 60 * 1000 // 1 minute
+
+// Fixed-window call budget, one per provider
+export class RateLimiter {
+  private windows = new Map<number, number>()
+
+  constructor(private name: string, private maxCallsPerWindow: number) {}
+
+  tryAcquire(): boolean {
+    const window = Math.floor(Date.now() / RATE_LIMIT_WINDOW)
+    const count = this.windows.get(window) || 0
+
+    if (count >= this.maxCallsPerWindow) {
+      console.warn(`Rate limit exceeded for ${this.name}`)
+      return false
+    }
+
+    // Only the current window is ever consulted
+    this.windows.clear()
+    this.windows.set(window, count + 1)
+    return true
+  }
+}
+
+export async function retryWithBackoff<T>(
+  operation: () => Promise<T>,
+  maxRetries: number = 3,
+  baseDelay: number = 1000
+): Promise<T> {
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    try {
+      return await operation()
+    } catch (error) {
+      if (attempt === maxRetries - 1) throw error
+
+      const delay = baseDelay * Math.pow(2, attempt) + Math.random() * 1000
+      console.log(`Retry attempt ${attempt + 1} after ${delay}ms`)
+      await new Promise(resolve => setTimeout(resolve, delay))
+    }
+  }
+  throw new Error('Max retries exceeded')
+}
+
+const CRYPTO_NAMES: Record<string, string> = {
+  'BTC': 'Bitcoin',
+  'ETH': 'Ethereum',
+  'ADA': 'Cardano',
+  'SOL': 'Solana',
+  'DOT': 'Polkadot',
+  'AVAX': 'Avalanche',
+  'MATIC': 'Polygon',
+  'LINK': 'Chainlink',
+  'XRP': 'Ripple',
+  'LTC': 'Litecoin',
+  'SHIB': 'Shiba Inu',
+  'XMR': 'Monero',
+  'DOGE': 'Dogecoin',
+  'USDT': 'Tether',
+  'USDC': 'USD Coin',
+  'BNB': 'Binance Coin',
+  'ATOM': 'Cosmos',
+  'ALGO': 'Algorand',
+  'NEAR': 'NEAR Protocol',
+  'FTM': 'Fantom'
+}
+
+export function isCryptoSymbol(symbol: string): boolean {
+  return symbol.toUpperCase() in CRYPTO_NAMES || symbol.includes('USD') || symbol.includes('USDT')
+}
+
+export function getCryptoName(symbol: string): string {
+  return CRYPTO_NAMES[symbol.toUpperCase()] || symbol
+}
+
+export function analyzeSentiment(text: string): 'positive' | 'negative' | 'neutral' {
+  const positiveWords = ['bull', 'gain', 'rise', 'up', 'profit', 'strong', 'buy', 'growth']
+  const negativeWords = ['bear', 'loss', 'fall', 'down', 'drop', 'weak', 'sell', 'decline']
+
+  const lowerText = text.toLowerCase()
+  const positiveCount = positiveWords.filter(word => lowerText.includes(word)).length
+  const negativeCount = negativeWords.filter(word => lowerText.includes(word)).length
+
+  if (positiveCount > negativeCount) return 'positive'
+  if (negativeCount > positiveCount) return 'negative'
+  return 'neutral'
+}
+
+export const SCRAPER_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+}
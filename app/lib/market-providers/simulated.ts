@@ -0,0 +1,176 @@
+import type { AssetData, MarketDataProvider, MarketMoversData, PricePoint } from './types'
+
+// Current price used to anchor a simulated series; null when the symbol cannot be priced
+export type ReferencePriceLookup = (symbol: string) => Promise<number | null>
+
+const SEARCH_UNIVERSE = [
+  { symbol: 'AAPL', name: 'Apple Inc.', type: 'STOCK' as const, basePrice: 175, sector: 'Technology' },
+  { symbol: 'GOOGL', name: 'Alphabet Inc.', type: 'STOCK' as const, basePrice: 142, sector: 'Technology' },
+  { symbol: 'TSLA', name: 'Tesla, Inc.', type: 'STOCK' as const, basePrice: 248, sector: 'Automotive' },
+  { symbol: 'MSFT', name: 'Microsoft Corporation', type: 'STOCK' as const, basePrice: 420, sector: 'Technology' },
+  { symbol: 'NVDA', name: 'NVIDIA Corporation', type: 'STOCK' as const, basePrice: 875, sector: 'Technology' },
+  { symbol: 'META', name: 'Meta Platforms Inc.', type: 'STOCK' as const, basePrice: 485, sector: 'Technology' },
+  { symbol: 'AMZN', name: 'Amazon.com Inc.', type: 'STOCK' as const, basePrice: 155, sector: 'E-commerce' },
+  { symbol: 'IBM', name: 'International Business Machines Corporation', type: 'STOCK' as const, basePrice: 145, sector: 'Technology' },
+  { symbol: 'JPM', name: 'JPMorgan Chase & Co.', type: 'STOCK' as const, basePrice: 185, sector: 'Finance' },
+  { symbol: 'BAC', name: 'Bank of America Corp.', type: 'STOCK' as const, basePrice: 32, sector: 'Finance' },
+  { symbol: 'V', name: 'Visa Inc.', type: 'STOCK' as const, basePrice: 280, sector: 'Finance' },
+  { symbol: 'MA', name: 'Mastercard Incorporated', type: 'STOCK' as const, basePrice: 410, sector: 'Finance' },
+  { symbol: 'PEP', name: 'PepsiCo Inc.', type: 'STOCK' as const, basePrice: 185, sector: 'Consumer Goods' },
+  { symbol: 'KO', name: 'The Coca-Cola Company', type: 'STOCK' as const, basePrice: 60, sector: 'Consumer Goods' },
+  { symbol: 'PG', name: 'Procter & Gamble Co.', type: 'STOCK' as const, basePrice: 155, sector: 'Consumer Goods' },
+  { symbol: 'JNJ', name: 'Johnson & Johnson', type: 'STOCK' as const, basePrice: 162, sector: 'Healthcare' },
+  { symbol: 'LLY', name: 'Eli Lilly and Company', type: 'STOCK' as const, basePrice: 920, sector: 'Healthcare' },
+  { symbol: 'UNH', name: 'UnitedHealth Group Incorporated', type: 'STOCK' as const, basePrice: 520, sector: 'Healthcare' },
+  { symbol: 'PFE', name: 'Pfizer Inc.', type: 'STOCK' as const, basePrice: 35, sector: 'Healthcare' },
+  { symbol: 'WMT', name: 'Walmart Inc.', type: 'STOCK' as const, basePrice: 165, sector: 'Retail' },
+  { symbol: 'HD', name: 'The Home Depot Inc.', type: 'STOCK' as const, basePrice: 320, sector: 'Retail' },
+  { symbol: 'MCD', name: 'McDonald’s Corporation', type: 'STOCK' as const, basePrice: 295, sector: 'Consumer Services' },
+  { symbol: 'NKE', name: 'NIKE Inc.', type: 'STOCK' as const, basePrice: 105, sector: 'Consumer Goods' },
+  { symbol: 'SBUX', name: 'Starbucks Corporation', type: 'STOCK' as const, basePrice: 95, sector: 'Consumer Services' },
+  { symbol: 'XOM', name: 'Exxon Mobil Corporation', type: 'STOCK' as const, basePrice: 110, sector: 'Energy' },
+  { symbol: 'CVX', name: 'Chevron Corporation', type: 'STOCK' as const, basePrice: 160, sector: 'Energy' },
+  { symbol: 'GE', name: 'General Electric Company', type: 'STOCK' as const, basePrice: 165, sector: 'Industrial' },
+  { symbol: 'HON', name: 'Honeywell International Inc.', type: 'STOCK' as const, basePrice: 195, sector: 'Industrial' },
+  { symbol: 'UPS', name: 'United Parcel Service Inc.', type: 'STOCK' as const, basePrice: 165, sector: 'Logistics' },
+  { symbol: 'RTX', name: 'RTX Corporation', type: 'STOCK' as const, basePrice: 90, sector: 'Aerospace & Defense' },
+  { symbol: 'LMT', name: 'Lockheed Martin Corporation', type: 'STOCK' as const, basePrice: 450, sector: 'Aerospace & Defense' },
+  { symbol: 'DIS', name: 'The Walt Disney Company', type: 'STOCK' as const, basePrice: 95, sector: 'Media' },
+  { symbol: 'BTC', name: 'Bitcoin', type: 'CRYPTO' as const, basePrice: 65000, sector: 'Cryptocurrency' },
+  { symbol: 'ETH', name: 'Ethereum', type: 'CRYPTO' as const, basePrice: 3200, sector: 'Cryptocurrency' },
+  { symbol: 'XRP', name: 'Ripple', type: 'CRYPTO' as const, basePrice: 0.58, sector: 'Cryptocurrency' },
+  { symbol: 'LTC', name: 'Litecoin', type: 'CRYPTO' as const, basePrice: 85, sector: 'Cryptocurrency' },
+  { symbol: 'SHIB', name: 'Shiba Inu', type: 'CRYPTO' as const, basePrice: 0.000015, sector: 'Cryptocurrency' },
+  { symbol: 'XMR', name: 'Monero', type: 'CRYPTO' as const, basePrice: 145, sector: 'Cryptocurrency' }
+]
+
+const STOCK_GAINERS: AssetData[] = [
+  { symbol: 'NVDA', name: 'NVIDIA Corporation', price: 875, change: 45.67, changePercent: 5.51, volume: 35420000, type: 'STOCK', exchange: 'NASDAQ' },
+  { symbol: 'AMD', name: 'Advanced Micro Devices', price: 135, change: 6.85, changePercent: 5.35, volume: 42580000, type: 'STOCK', exchange: 'NASDAQ' },
+  { symbol: 'TSLA', name: 'Tesla, Inc.', price: 248, change: 12.34, changePercent: 5.23, volume: 78940000, type: 'STOCK', exchange: 'NASDAQ' },
+  { symbol: 'AAPL', name: 'Apple Inc.', price: 175, change: 8.45, changePercent: 5.07, volume: 65420000, type: 'STOCK', exchange: 'NASDAQ' },
+  { symbol: 'MSFT', name: 'Microsoft Corporation', price: 420, change: 19.85, changePercent: 4.96, volume: 28540000, type: 'STOCK', exchange: 'NASDAQ' }
+]
+
+const STOCK_LOSERS: AssetData[] = [
+  { symbol: 'META', name: 'Meta Platforms Inc.', price: 338, change: -18.45, changePercent: -5.17, volume: 22450000, type: 'STOCK', exchange: 'NASDAQ' },
+  { symbol: 'NFLX', name: 'Netflix Inc.', price: 485, change: -24.25, changePercent: -4.76, volume: 18650000, type: 'STOCK', exchange: 'NASDAQ' },
+  { symbol: 'PYPL', name: 'PayPal Holdings', price: 78, change: -3.65, changePercent: -4.47, volume: 32150000, type: 'STOCK', exchange: 'NASDAQ' },
+  { symbol: 'UBER', name: 'Uber Technologies', price: 54, change: -2.35, changePercent: -4.17, volume: 24850000, type: 'STOCK', exchange: 'NYSE' },
+  { symbol: 'SPOT', name: 'Spotify Technology', price: 185, change: -7.45, changePercent: -3.87, volume: 15420000, type: 'STOCK', exchange: 'NYSE' }
+]
+
+const CRYPTO_GAINERS: AssetData[] = [
+  { symbol: 'BTC', name: 'Bitcoin', price: 65000, change: 3250, changePercent: 5.26, volume: 85420000, type: 'CRYPTO' },
+  { symbol: 'ETH', name: 'Ethereum', price: 3200, change: 155, changePercent: 5.09, volume: 65850000, type: 'CRYPTO' },
+  { symbol: 'SOL', name: 'Solana', price: 165, change: 7.85, changePercent: 5.00, volume: 35420000, type: 'CRYPTO' },
+  { symbol: 'AVAX', name: 'Avalanche', price: 38, change: 1.75, changePercent: 4.83, volume: 28540000, type: 'CRYPTO' },
+  { symbol: 'DOT', name: 'Polkadot', price: 7.5, change: 0.34, changePercent: 4.75, volume: 22450000, type: 'CRYPTO' }
+]
+
+const CRYPTO_LOSERS: AssetData[] = [
+  { symbol: 'ADA', name: 'Cardano', price: 0.55, change: -0.029, changePercent: -5.01, volume: 45620000, type: 'CRYPTO' },
+  { symbol: 'DOGE', name: 'Dogecoin', price: 0.085, change: -0.004, changePercent: -4.49, volume: 52840000, type: 'CRYPTO' },
+  { symbol: 'XRP', name: 'Ripple', price: 0.65, change: -0.028, changePercent: -4.13, volume: 38750000, type: 'CRYPTO' },
+  { symbol: 'MATIC', name: 'Polygon', price: 0.95, change: -0.038, changePercent: -3.84, volume: 32150000, type: 'CRYPTO' },
+  { symbol: 'LINK', name: 'Chainlink', price: 15.2, change: -0.55, changePercent: -3.49, volume: 24850000, type: 'CRYPTO' }
+]
+
+const EXTRA_STOCK_GAINERS = ['IBM', 'INTC', 'CSCO', 'ORCL', 'CRM', 'ADBE', 'ROKU', 'SNAP', 'PINS', 'ZM', 'DOCU', 'OKTA', 'SNOW', 'SHOP', 'SQ']
+const EXTRA_STOCK_LOSERS = ['F', 'GM', 'GE', 'T', 'VZ', 'KO', 'PEP', 'WMT', 'TGT', 'HD', 'LOW', 'MCD', 'SBUX', 'NKE', 'DIS']
+const EXTRA_CRYPTO_GAINERS = ['UNI', 'AAVE', 'COMP', 'MKR', 'SNX', 'CRV', 'YFI', 'SUSHI', '1INCH', 'BAT']
+const EXTRA_CRYPTO_LOSERS = ['LTC', 'BCH', 'ETC', 'XMR', 'ZEC', 'DASH', 'NEO', 'QTUM', 'OMG', 'ZRX']
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Last-resort data so the UI stays usable when every live provider is down or unconfigured.
+ * Deliberately has no quote capability: trades must never fill against invented prices.
+ */
+export class SimulatedProvider implements MarketDataProvider {
+  name = 'simulated'
+  fallback = true
+
+  constructor(private referencePrice: ReferencePriceLookup) {}
+
+  async search(query: string): Promise<AssetData[]> {
+    const needle = query.toLowerCase()
+
+    return SEARCH_UNIVERSE
+      .filter(asset =>
+        asset.symbol.toLowerCase().includes(needle) ||
+        asset.name.toLowerCase().includes(needle)
+      )
+      .slice(0, 5)
+      .map(asset => {
+        const price = asset.basePrice * (1 + (Math.random() - 0.5) * 0.1) // ±5% variation
+        const changePercent = (Math.random() - 0.5) * 8 // ±4% change
+
+        return {
+          symbol: asset.symbol,
+          name: asset.name,
+          type: asset.type,
+          price: round(price),
+          change: round(price * (changePercent / 100)),
+          changePercent: round(changePercent),
+          volume: Math.floor(Math.random() * 50000000) + 1000000,
+          sector: asset.sector
+        }
+      })
+  }
+
+  async getHistory(symbol: string, period: string): Promise<PricePoint[]> {
+    const basePrice = (await this.referencePrice(symbol)) || 100
+    const points = period === '1D' ? 24 : period === '1W' ? 7 : 30
+    const history: PricePoint[] = []
+
+    for (let i = points; i >= 0; i--) {
+      const timestamp = new Date()
+      if (period === '1D') {
+        timestamp.setHours(timestamp.getHours() - i)
+      } else {
+        timestamp.setDate(timestamp.getDate() - i)
+      }
+
+      const variation = (Math.random() - 0.5) * 0.1 // 10% max variation
+      history.push({ timestamp, price: basePrice * (1 + variation) })
+    }
+
+    return history
+  }
+
+  async getMovers(): Promise<MarketMoversData> {
+    return {
+      gainers: [
+        ...STOCK_GAINERS,
+        ...CRYPTO_GAINERS,
+        ...this.generateMovers(EXTRA_STOCK_GAINERS, 'STOCK', 1),
+        ...this.generateMovers(EXTRA_CRYPTO_GAINERS, 'CRYPTO', 1)
+      ].sort((a, b) => b.changePercent - a.changePercent),
+      losers: [
+        ...STOCK_LOSERS,
+        ...CRYPTO_LOSERS,
+        ...this.generateMovers(EXTRA_STOCK_LOSERS, 'STOCK', -1),
+        ...this.generateMovers(EXTRA_CRYPTO_LOSERS, 'CRYPTO', -1)
+      ].sort((a, b) => a.changePercent - b.changePercent)
+    }
+  }
+
+  private generateMovers(symbols: string[], type: AssetData['type'], direction: 1 | -1): AssetData[] {
+    return symbols.map(symbol => {
+      const price = type === 'STOCK' ? Math.random() * 400 + 30 : Math.random() * 50 + 0.5
+      const changePercent = direction * (type === 'STOCK' ? Math.random() * 7 + 0.5 : Math.random() * 12 + 1)
+
+      return {
+        symbol,
+        name: type === 'STOCK' ? `${symbol} Inc.` : `${symbol} Token`,
+        type,
+        price: round(price),
+        change: round(price * (changePercent / 100)),
+        changePercent: round(changePercent),
+        volume: Math.floor(Math.random() * 30000000) + 1000000,
+        exchange: type === 'STOCK' ? (direction > 0 ? 'NASDAQ' : 'NYSE') : undefined
+      }
+    })
+  }
+}
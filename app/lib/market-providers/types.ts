@@ -0,0 +1,118 @@
+export interface AssetData {
+  symbol: string
+  name: string
+  price: number
+  change: number
+  changePercent: number
+  volume?: number
+  marketCap?: number
+  type: 'STOCK' | 'CRYPTO'
+  exchange?: string
+  logoUrl?: string
+  sector?: string
+  industry?: string
+  pe?: number
+  dividendYield?: number
+  week52High?: number
+  week52Low?: number
+  previousClose?: number
+  open?: number
+  dayRange?: string
+  week52Range?: string
+  avgVolume?: number
+  marketCapIntraday?: number
+  beta?: number
+  eps?: number
+  lastUpdated?: Date
+}
+
+export interface MarketMoversData {
+  gainers: AssetData[]
+  losers: AssetData[]
+}
+
+export interface NewsItem {
+  title: string
+  url: string
+  source: string
+  publishedAt: string
+  sentiment?: 'positive' | 'negative' | 'neutral'
+}
+
+export interface EnhancedAssetData extends AssetData {
+  news: NewsItem[]
+  analystRatings?: {
+    rating: string
+    targetPrice?: number
+    recommendation: 'BUY' | 'SELL' | 'HOLD'
+  }[]
+}
+
+export interface PricePoint {
+  timestamp: Date
+  price: number
+}
+
+// Resolutions the candle store persists; coarser views are aggregated from these
+export type CandleResolution = '5m' | '15m' | '1h' | '1d'
+
+export interface CandleData {
+  timestamp: Date // Bucket start
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number | null
+}
+
+export type MarketDataCapability = 'quote' | 'search' | 'history' | 'candles' | 'news' | 'movers'
+
+/**
+ * A source of market data. Every capability is optional; the registry only routes
+ * a request to providers that implement it.
+ *
+ * Methods return null (or an empty list) when the provider has nothing for the request
+ * or is rate limited, and throw when the provider itself failed, which counts against its health.
+ */
+export interface MarketDataProvider {
+  name: string
+  // Fallback providers are only consulted when every primary provider came back empty
+  fallback?: boolean
+  // Providers missing credentials are registered but never called
+  isConfigured?(): boolean
+  getQuote?(symbol: string): Promise<AssetData | null>
+  search?(query: string): Promise<AssetData[]>
+  getHistory?(symbol: string, period: string): Promise<PricePoint[]>
+  // OHLCV bars whose bucket starts within [from, to]
+  getCandles?(symbol: string, resolution: CandleResolution, from: Date, to: Date): Promise<CandleData[]>
+  getNews?(symbol: string): Promise<NewsItem[]>
+  getMovers?(): Promise<MarketMoversData | null>
+}
+
+export interface ProviderHealth {
+  name: string
+  priority: number
+  fallback: boolean
+  configured: boolean
+  capabilities: MarketDataCapability[]
+  status: 'HEALTHY' | 'DEGRADED' | 'COOLING_DOWN' | 'DISABLED'
+  consecutiveFailures: number
+  totalCalls: number
+  totalFailures: number
+  lastSuccessAt: Date | null
+  lastFailureAt: Date | null
+  lastError: string | null
+  cooldownUntil: Date | null
+}
+
+// Receives every successful live response so it can be replayed later
+export interface FixtureRecorder {
+  record(capability: MarketDataCapability, key: string[], data: unknown): Promise<void>
+}
+
+export class MarketDataProviderError extends Error {
+  constructor(message: string, public provider: string) {
+    super(message)
+    this.name = 'MarketDataProviderError'
+  }
+}
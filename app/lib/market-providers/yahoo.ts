@@ -0,0 +1,82 @@
+import axios from 'axios'
+import * as cheerio from 'cheerio'
+import { SCRAPER_HEADERS, analyzeSentiment } from './shared'
+import type { AssetData, MarketDataProvider, NewsItem } from './types'
+
+// Scrapes Yahoo Finance pages; needs no credentials but breaks whenever the markup changes
+export class YahooScraperProvider implements MarketDataProvider {
+  name = 'yahoo'
+  fallback = true
+
+  async search(query: string): Promise<AssetData[]> {
+    const $ = await this.load(`https://finance.yahoo.com/lookup?s=${encodeURIComponent(query)}`)
+    const results: AssetData[] = []
+
+    $('.lookup-table tbody tr').each((i, row) => {
+      if (i >= 5) return
+      const cells = $(row).find('td')
+      if (cells.length >= 3) {
+        results.push({
+          symbol: $(cells[0]).text().trim(),
+          name: $(cells[1]).text().trim(),
+          type: $(cells[2]).text().includes('Cryptocurrency') ? 'CRYPTO' : 'STOCK',
+          price: 0, // The lookup table carries no prices
+          change: 0,
+          changePercent: 0
+        })
+      }
+    })
+
+    return results
+  }
+
+  async getQuote(symbol: string): Promise<AssetData | null> {
+    const $ = await this.load(`https://finance.yahoo.com/quote/${symbol}`)
+
+    const priceText = $('[data-symbol="' + symbol + '"][data-field="regularMarketPrice"]').text()
+    const changeText = $('[data-symbol="' + symbol + '"][data-field="regularMarketChange"]').text()
+    const nameText = $('h1').first().text()
+
+    if (!priceText) return null
+
+    const price = parseFloat(priceText.replace(/,/g, ''))
+    const change = parseFloat(changeText.replace(/,/g, '')) || 0
+    const previousClose = price - change
+
+    return {
+      symbol: symbol.toUpperCase(),
+      name: nameText || symbol,
+      price,
+      change,
+      changePercent: previousClose > 0 ? (change / previousClose) * 100 : 0,
+      type: symbol.includes('USD') || ['BTC', 'ETH'].includes(symbol.toUpperCase()) ? 'CRYPTO' : 'STOCK'
+    }
+  }
+
+  async getNews(symbol: string): Promise<NewsItem[]> {
+    const $ = await this.load(`https://finance.yahoo.com/quote/${symbol}/news`)
+    const news: NewsItem[] = []
+
+    $('article').each((i, article) => {
+      if (i >= 5) return
+      const title = $(article).find('h3 a').text().trim()
+      const url = $(article).find('h3 a').attr('href')
+      if (title && url) {
+        news.push({
+          title,
+          url: url.startsWith('http') ? url : `https://finance.yahoo.com${url}`,
+          source: 'Yahoo Finance',
+          publishedAt: new Date().toISOString(),
+          sentiment: analyzeSentiment(title)
+        })
+      }
+    })
+
+    return news
+  }
+
+  private async load(url: string) {
+    const response = await axios.get(url, { headers: SCRAPER_HEADERS, timeout: 10000 })
+    return cheerio.load(response.data)
+  }
+}
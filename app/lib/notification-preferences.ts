@@ -0,0 +1,51 @@
+// Notification settings, stored under `notifications` in User.preferences
+
+export interface NotificationPreferences {
+  priceAlerts: boolean
+  tradeExecutions: boolean
+  // Persisted for the settings page; no market news source raises notifications yet
+  marketNews: boolean
+  emailAlerts: boolean
+  webhookUrl: string | null
+  // Signs webhook payloads; generated when a webhook URL is first saved
+  webhookSecret: string | null
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  priceAlerts: true,
+  tradeExecutions: true,
+  marketNews: false,
+  emailAlerts: false,
+  webhookUrl: null,
+  webhookSecret: null
+}
+
+const TOGGLES = ['priceAlerts', 'tradeExecutions', 'marketNews', 'emailAlerts'] as const
+
+export function isValidWebhookUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || url.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+export function normalizeNotificationPreferences(value: unknown): NotificationPreferences {
+  const input = value && typeof value === 'object' ? value as Record<string, unknown> : {}
+  const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES }
+
+  for (const toggle of TOGGLES) {
+    if (typeof input[toggle] === 'boolean') {
+      preferences[toggle] = input[toggle] as boolean
+    }
+  }
+  if (typeof input.webhookUrl === 'string' && isValidWebhookUrl(input.webhookUrl)) {
+    preferences.webhookUrl = input.webhookUrl
+  }
+  if (typeof input.webhookSecret === 'string' && input.webhookSecret) {
+    preferences.webhookSecret = input.webhookSecret
+  }
+
+  return preferences
+}
@@ -0,0 +1,411 @@
+import { createHmac } from 'crypto'
+import http from 'http'
+import https from 'https'
+import axios from 'axios'
+import nodemailer, { type Transporter } from 'nodemailer'
+import { Prisma, type Activity } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { normalizeNotificationPreferences, type NotificationPreferences } from '@/lib/notification-preferences'
+import { assertPublicWebhookUrl, publicOnlyLookup, WebhookUrlError } from '@/lib/webhook-url'
+import { readPreferenceNamespace } from '@/lib/user-preferences'
+
+export type NotificationCategory = 'PRICE_ALERT' | 'TRADE_EXECUTION' | 'AUTOMATION_ERROR' | 'TEST'
+export type DeliveryChannel = 'EMAIL' | 'WEBHOOK'
+
+interface NotifiableActivity {
+  category: NotificationCategory
+  title: string
+  // Category toggle that mutes it; automation errors and overdrafts are always raised
+  preference?: 'priceAlerts' | 'tradeExecutions'
+}
+
+// Activity types that raise a notification
+const NOTIFIABLE_ACTIVITIES: Record<string, NotifiableActivity> = {
+  ALERT_TRIGGERED: { category: 'PRICE_ALERT', title: 'Price alert triggered', preference: 'priceAlerts' },
+  AUTO_TRADE_EXECUTED: { category: 'TRADE_EXECUTION', title: 'Automated trade executed', preference: 'tradeExecutions' },
+  ORDER_FILLED: { category: 'TRADE_EXECUTION', title: 'Order filled', preference: 'tradeExecutions' },
+  RISK_MANAGEMENT_TRIGGERED: { category: 'TRADE_EXECUTION', title: 'Risk management triggered', preference: 'tradeExecutions' },
+  AUTOMATION_ERROR: { category: 'AUTOMATION_ERROR', title: 'Automation error' },
+  CASH_OVERDRAFT: { category: 'TRADE_EXECUTION', title: 'Live cash overdrawn' }
+}
+
+const MAX_ATTEMPTS = 5
+const RETRY_BASE_MS = 60 * 1000
+// A claimed delivery becomes due again if its sender dies before recording the outcome
+const CLAIM_MS = 2 * 60 * 1000
+const MAX_DELIVERIES_PER_TICK = 25
+const MAX_ACTIVITIES_PER_TICK = 200
+// Activities can commit slightly out of order; rescanning a short overlap is free thanks to the activityId key
+const COLLECT_OVERLAP_MS = 60 * 1000
+// How far back a freshly started instance looks for activities it has not notified yet
+const STARTUP_LOOKBACK_MS = 60 * 60 * 1000
+
+const webhookAgents = {
+  httpAgent: new http.Agent({ lookup: publicOnlyLookup }),
+  httpsAgent: new https.Agent({ lookup: publicOnlyLookup })
+}
+
+class DeliveryError extends Error {
+  // Permanent failures (bad address, 4xx from the webhook) are not retried
+  constructor(message: string, public permanent: boolean = false, public responseStatus?: number) {
+    super(message)
+    this.name = 'DeliveryError'
+  }
+}
+
+/**
+ * Turns notifiable activities into inbox entries and fans each one out to the user's email and
+ * webhook. Deliveries are persisted and retried with exponential backoff; the table doubles as
+ * the log of what was sent.
+ */
+export class NotificationService {
+  private static instance: NotificationService
+  private timer: NodeJS.Timeout | null = null
+  private isRunning = false
+  private transporter: Transporter | null = null
+  private collectedUntil = new Date(Date.now() - STARTUP_LOOKBACK_MS)
+
+  private readonly DEFAULT_INTERVAL = 30 * 1000 // 30 seconds
+
+  static getInstance(): NotificationService {
+    if (!NotificationService.instance) {
+      NotificationService.instance = new NotificationService()
+    }
+    return NotificationService.instance
+  }
+
+  start(intervalMs: number = this.DEFAULT_INTERVAL) {
+    if (this.timer) return
+
+    console.log(`Notification service started with ${intervalMs}ms interval`)
+    this.timer = setInterval(() => {
+      this.tick().catch(error => {
+        console.error('Notification delivery run failed:', error)
+      })
+    }, intervalMs)
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  isEmailConfigured(): boolean {
+    return !!process.env.SMTP_HOST
+  }
+
+  async tick(): Promise<{ created: number; sent: number; failed: number }> {
+    if (this.isRunning) {
+      return { created: 0, sent: 0, failed: 0 }
+    }
+
+    this.isRunning = true
+
+    try {
+      const created = await this.collectActivities()
+      const outcome = await this.deliverDue()
+      return { created, ...outcome }
+    } finally {
+      this.isRunning = false
+    }
+  }
+
+  async list(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}) {
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: { userId, ...(options.unreadOnly && { readAt: null }) },
+        orderBy: { createdAt: 'desc' },
+        take: options.limit || 50
+      }),
+      prisma.notification.count({ where: { userId, readAt: null } })
+    ])
+    return { notifications, unreadCount }
+  }
+
+  // Marks the given notifications read, or the whole inbox when no ids are passed
+  async markRead(userId: string, ids?: string[]) {
+    const { count } = await prisma.notification.updateMany({
+      where: { userId, readAt: null, ...(ids?.length && { id: { in: ids } }) },
+      data: { readAt: new Date() }
+    })
+    return count
+  }
+
+  async listDeliveries(userId: string, limit: number = 50) {
+    return prisma.notificationDelivery.findMany({
+      where: { notification: { userId } },
+      include: { notification: { select: { title: true, category: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+  }
+
+  // Sends through every configured channel, whatever the category toggles say
+  async sendTest(userId: string) {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { email: true, preferences: true }
+    })
+    const preferences = this.getPreferences(user.preferences)
+
+    const notification = await prisma.notification.create({
+      data: {
+        userId,
+        category: 'TEST',
+        title: 'Test notification',
+        body: 'Notifications are set up. Alerts, trade executions and automation errors will be delivered here.',
+        deliveries: { create: this.getDeliveryTargets(user.email, preferences) }
+      },
+      include: { deliveries: true }
+    })
+
+    // Deliver right away so the settings page can show the outcome
+    for (const delivery of notification.deliveries) {
+      await this.deliver(delivery.id)
+    }
+
+    // Only the outcome per channel: error details stay in the delivery log
+    return prisma.notification.findUniqueOrThrow({
+      where: { id: notification.id },
+      select: { id: true, deliveries: { select: { id: true, channel: true, status: true } } }
+    })
+  }
+
+  private async collectActivities(): Promise<number> {
+    const since = new Date(this.collectedUntil.getTime() - COLLECT_OVERLAP_MS)
+    const activities = await prisma.activity.findMany({
+      where: {
+        type: { in: Object.keys(NOTIFIABLE_ACTIVITIES) },
+        createdAt: { gt: since },
+        notification: null
+      },
+      orderBy: { createdAt: 'asc' },
+      take: MAX_ACTIVITIES_PER_TICK
+    })
+
+    if (activities.length === 0) {
+      this.collectedUntil = new Date()
+      return 0
+    }
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: [...new Set(activities.map(activity => activity.userId))] } },
+      select: { id: true, email: true, preferences: true }
+    })
+    const usersById = new Map(users.map(user => [user.id, user]))
+
+    let created = 0
+    for (const activity of activities) {
+      const user = usersById.get(activity.userId)
+      if (user && await this.createFromActivity(activity, user.email, this.getPreferences(user.preferences))) {
+        created++
+      }
+    }
+
+    // A full page means there may be more; continue from the last one seen next tick
+    this.collectedUntil = activities.length === MAX_ACTIVITIES_PER_TICK
+      ? activities[activities.length - 1].createdAt
+      : new Date()
+    return created
+  }
+
+  private async createFromActivity(activity: Activity, email: string, preferences: NotificationPreferences): Promise<boolean> {
+    const notifiable = NOTIFIABLE_ACTIVITIES[activity.type]
+    if (!notifiable || (notifiable.preference && !preferences[notifiable.preference])) {
+      return false
+    }
+
+    try {
+      await prisma.notification.create({
+        data: {
+          userId: activity.userId,
+          activityId: activity.id,
+          category: notifiable.category,
+          title: notifiable.title,
+          body: activity.description,
+          metadata: (activity.metadata ?? undefined) as Prisma.InputJsonValue | undefined,
+          deliveries: { create: this.getDeliveryTargets(email, preferences) }
+        }
+      })
+      return true
+    } catch (error) {
+      // Another instance raised it first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return false
+      }
+      throw error
+    }
+  }
+
+  private getDeliveryTargets(email: string, preferences: NotificationPreferences) {
+    const targets: Array<{ channel: DeliveryChannel; target: string }> = []
+    if (preferences.emailAlerts && this.isEmailConfigured() && email) {
+      targets.push({ channel: 'EMAIL', target: email })
+    }
+    if (preferences.webhookUrl) {
+      targets.push({ channel: 'WEBHOOK', target: preferences.webhookUrl })
+    }
+    return targets
+  }
+
+  private async deliverDue() {
+    const outcome = { sent: 0, failed: 0 }
+    const due = await prisma.notificationDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: new Date() } },
+      orderBy: { nextAttemptAt: 'asc' },
+      select: { id: true },
+      take: MAX_DELIVERIES_PER_TICK
+    })
+
+    for (const { id } of due) {
+      const status = await this.deliver(id)
+      if (status === 'SENT') outcome.sent++
+      else if (status === 'FAILED') outcome.failed++
+    }
+
+    return outcome
+  }
+
+  // Claims and sends one delivery; returns its resulting status, or null if another instance holds it
+  private async deliver(deliveryId: string): Promise<string | null> {
+    const now = new Date()
+    const { count } = await prisma.notificationDelivery.updateMany({
+      where: { id: deliveryId, status: 'PENDING', nextAttemptAt: { lte: now } },
+      data: { attempts: { increment: 1 }, nextAttemptAt: new Date(now.getTime() + CLAIM_MS) }
+    })
+    if (count === 0) return null
+
+    const delivery = await prisma.notificationDelivery.findUniqueOrThrow({
+      where: { id: deliveryId },
+      include: { notification: { include: { user: { select: { preferences: true } } } } }
+    })
+
+    try {
+      const responseStatus = delivery.channel === 'EMAIL'
+        ? await this.sendEmail(delivery.target, delivery.notification)
+        : await this.sendWebhook(delivery.id, delivery.target, delivery.notification, this.getPreferences(delivery.notification.user.preferences))
+
+      await prisma.notificationDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'SENT', sentAt: new Date(), responseStatus: responseStatus ?? null, lastError: null }
+      })
+      return 'SENT'
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      const exhausted = (error instanceof DeliveryError && error.permanent) || delivery.attempts >= MAX_ATTEMPTS
+
+      await prisma.notificationDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: exhausted ? 'FAILED' : 'PENDING',
+          lastError: message,
+          responseStatus: error instanceof DeliveryError ? error.responseStatus ?? null : null,
+          ...(!exhausted && { nextAttemptAt: new Date(Date.now() + RETRY_BASE_MS * Math.pow(2, delivery.attempts - 1)) })
+        }
+      })
+      return exhausted ? 'FAILED' : 'PENDING'
+    }
+  }
+
+  private async sendEmail(to: string, notification: { title: string; body: string; createdAt: Date }): Promise<undefined> {
+    if (!this.isEmailConfigured()) {
+      throw new DeliveryError('SMTP is not configured', true)
+    }
+
+    try {
+      await this.getTransporter().sendMail({
+        from: process.env.SMTP_FROM || 'notifications@localhost',
+        to,
+        subject: notification.title,
+        text: `${notification.body}\n\n${notification.createdAt.toUTCString()}`
+      })
+    } catch (error: any) {
+      // 5xx SMTP replies (unknown mailbox, rejected sender) will not succeed on retry
+      const permanent = typeof error?.responseCode === 'number' && error.responseCode >= 500
+      throw new DeliveryError(error?.message || 'Email delivery failed', permanent)
+    }
+  }
+
+  /**
+   * POSTs the notification as JSON. The X-Webhook-Signature header is `t=<unix seconds>,v1=<hex>`,
+   * where v1 is the HMAC-SHA256 of `<t>.<raw body>` keyed with the user's webhook secret.
+   */
+  private async sendWebhook(
+    deliveryId: string,
+    url: string,
+    notification: { id: string; category: string; title: string; body: string; metadata: Prisma.JsonValue; createdAt: Date },
+    preferences: NotificationPreferences
+  ): Promise<number> {
+    if (!preferences.webhookSecret) {
+      throw new DeliveryError('Webhook secret is missing', true)
+    }
+
+    // The URL was checked when saved, but what its host resolves to can change since
+    try {
+      await assertPublicWebhookUrl(url)
+    } catch (error) {
+      if (error instanceof WebhookUrlError) throw new DeliveryError(error.message, true)
+      throw error
+    }
+
+    const payload = JSON.stringify({
+      id: notification.id,
+      deliveryId,
+      event: notification.category,
+      title: notification.title,
+      body: notification.body,
+      metadata: notification.metadata,
+      createdAt: notification.createdAt.toISOString()
+    })
+    const timestamp = Math.floor(Date.now() / 1000)
+    const signature = createHmac('sha256', preferences.webhookSecret).update(`${timestamp}.${payload}`).digest('hex')
+
+    let status: number
+    try {
+      const response = await axios.post(url, payload, {
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': deliveryId,
+          'X-Webhook-Event': notification.category,
+          'X-Webhook-Signature': `t=${timestamp},v1=${signature}`
+        },
+        timeout: 10000,
+        // A redirect could lead anywhere, including the internal network
+        maxRedirects: 0,
+        ...webhookAgents,
+        validateStatus: () => true
+      })
+      status = response.status
+    } catch (error: any) {
+      if (error?.cause instanceof WebhookUrlError || error instanceof WebhookUrlError) {
+        throw new DeliveryError('Webhook URL must point to a public address', true)
+      }
+      // Only the error code is recorded; the full message can describe the network the server sits in
+      throw new DeliveryError(typeof error?.code === 'string' ? `Webhook request failed (${error.code})` : 'Webhook request failed')
+    }
+
+    if (status >= 200 && status < 300) return status
+    // Rate limits and server errors are worth retrying; other client errors are not
+    throw new DeliveryError(`Webhook responded with ${status}`, status < 500 && status !== 429, status)
+  }
+
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587'),
+        secure: process.env.SMTP_SECURE === 'true',
+        auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined
+      })
+    }
+    return this.transporter
+  }
+
+  private getPreferences(preferences: Prisma.JsonValue): NotificationPreferences {
+    return normalizeNotificationPreferences(readPreferenceNamespace(preferences, 'notifications'))
+  }
+}
+
+export const notificationService = NotificationService.getInstance()
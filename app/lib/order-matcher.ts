@@ -0,0 +1,447 @@
+import { prisma } from '@/lib/db'
+import { marketDataService } from '@/lib/market-data'
+import { getNextMarketClose } from '@/lib/market-hours'
+import { tradeExecutor, TradeExecutionError } from '@/lib/trade-executor'
+import { liveTrading, type LiveOrderRequest } from '@/lib/live-trading'
+import { BrokerError } from '@/lib/brokers'
+
+export type OrderType = 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT'
+export type TimeInForce = 'DAY' | 'GTC' | 'IOC' | 'FOK'
+
+export interface OrderRequest {
+  userId: string
+  portfolioId: string
+  symbol: string
+  type: 'BUY' | 'SELL'
+  quantity: number
+  orderType?: OrderType
+  timeInForce?: TimeInForce
+  limitPrice?: number
+  stopPrice?: number
+  // Specific-lot selection only applies to market sells; resting orders use the account's method
+  lotIds?: string[]
+}
+
+export interface OrderModification {
+  quantity?: number
+  limitPrice?: number
+  stopPrice?: number
+  timeInForce?: TimeInForce
+}
+
+const ORDER_TYPES: OrderType[] = ['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT']
+const TIME_IN_FORCE: TimeInForce[] = ['DAY', 'GTC', 'IOC', 'FOK']
+
+// Resting limit/stop orders stored as PENDING trades and filled when price conditions are met
+export class OrderMatcher {
+  private static instance: OrderMatcher
+  private timer: NodeJS.Timeout | null = null
+  private isMatching = false
+
+  private readonly DEFAULT_INTERVAL = 30 * 1000 // 30 seconds
+
+  static getInstance(): OrderMatcher {
+    if (!OrderMatcher.instance) {
+      OrderMatcher.instance = new OrderMatcher()
+    }
+    return OrderMatcher.instance
+  }
+
+  start(intervalMs: number = this.DEFAULT_INTERVAL) {
+    if (this.timer) return
+
+    console.log(`Order matcher started with ${intervalMs}ms interval`)
+    this.timer = setInterval(() => {
+      this.matchPendingOrders().catch(error => {
+        console.error('Scheduled order matching failed:', error)
+      })
+    }, intervalMs)
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  async placeOrder(request: OrderRequest) {
+    const orderType = request.orderType || 'MARKET'
+    const timeInForce = request.timeInForce || 'DAY'
+
+    this.validateOrder(orderType, timeInForce, request.limitPrice, request.stopPrice)
+
+    if (orderType === 'MARKET') {
+      const { trade } = await tradeExecutor.executeTrade({
+        ...request,
+        activityMetadata: { orderType, timeInForce }
+      })
+      return trade
+    }
+
+    if (!request.quantity || request.quantity <= 0) {
+      throw new TradeExecutionError('Quantity must be positive')
+    }
+
+    const symbol = request.symbol.toUpperCase()
+
+    const portfolio = await prisma.portfolio.findFirst({
+      where: {
+        id: request.portfolioId,
+        userId: request.userId
+      }
+    })
+
+    if (!portfolio) {
+      throw new TradeExecutionError('Portfolio not found', 404)
+    }
+
+    if (!portfolio.isActive) {
+      throw new TradeExecutionError('Portfolio is archived')
+    }
+
+    const assetData = await marketDataService.getAssetDetails(symbol)
+    if (!assetData) {
+      throw new TradeExecutionError('Asset not found', 404)
+    }
+
+    // Reject orders that could not fill even at their own price today
+    const referencePrice = request.limitPrice ?? request.stopPrice ?? assetData.price
+    if (request.type === 'BUY' && portfolio.balance < request.quantity * referencePrice * 1.001) {
+      throw new TradeExecutionError('Insufficient balance')
+    }
+
+    // Checked again at fill time, when prices and the portfolio may have moved
+    await tradeExecutor.assertWithinRiskLimits({
+      userId: request.userId,
+      portfolioId: request.portfolioId,
+      symbol,
+      type: request.type,
+      quantity: request.quantity,
+      price: referencePrice
+    })
+
+    if (request.type === 'SELL') {
+      const portfolioItem = await prisma.portfolioItem.findFirst({
+        where: {
+          portfolioId: request.portfolioId,
+          asset: { symbol }
+        }
+      })
+
+      if (!portfolioItem || portfolioItem.quantity < request.quantity) {
+        throw new TradeExecutionError('Insufficient shares to sell')
+      }
+    }
+
+    const asset = await prisma.asset.upsert({
+      where: { symbol },
+      update: {},
+      create: {
+        symbol,
+        name: assetData.name,
+        type: assetData.type,
+        exchange: assetData.exchange
+      }
+    })
+
+    // The broker rests and matches live orders; only simulated ones are matched here
+    if (portfolio.type === 'LIVE') {
+      const order = await this.submitLiveOrder({
+        userId: request.userId,
+        portfolioId: request.portfolioId,
+        assetId: asset.id,
+        symbol,
+        type: request.type,
+        quantity: request.quantity,
+        orderType,
+        timeInForce,
+        limitPrice: request.limitPrice,
+        stopPrice: request.stopPrice,
+        referencePrice
+      })
+      await this.logOrderPlaced(request, order.id, symbol, orderType, timeInForce)
+      return order
+    }
+
+    const order = await prisma.trade.create({
+      data: {
+        userId: request.userId,
+        portfolioId: request.portfolioId,
+        assetId: asset.id,
+        type: request.type,
+        quantity: request.quantity,
+        price: referencePrice,
+        totalAmount: request.quantity * referencePrice,
+        status: 'PENDING',
+        orderType,
+        timeInForce,
+        limitPrice: request.limitPrice ?? null,
+        stopPrice: request.stopPrice ?? null,
+        expiresAt: this.getExpiry(timeInForce),
+        isSimulated: portfolio.type === 'SIMULATED'
+      }
+    })
+
+    await this.logOrderPlaced(request, order.id, symbol, orderType, timeInForce)
+
+    // Marketable orders fill right away; IOC/FOK orders that cannot are cancelled
+    const filled = await this.tryMatch({ ...order, asset }, assetData.price)
+    if (!filled && (timeInForce === 'IOC' || timeInForce === 'FOK')) {
+      await this.closeOrder(order.id, 'CANCELLED', 'NOT_IMMEDIATELY_FILLABLE')
+    }
+
+    return prisma.trade.findUniqueOrThrow({ where: { id: order.id } })
+  }
+
+  async cancelOrder(userId: string, orderId: string) {
+    const liveOrder = await prisma.trade.findFirst({
+      where: { id: orderId, userId, status: 'PENDING', brokerOrderId: { not: null } }
+    })
+    if (liveOrder) {
+      return this.withBrokerErrors(() => liveTrading.cancelOrder(liveOrder))
+    }
+
+    const cancelled = await prisma.trade.updateMany({
+      where: {
+        id: orderId,
+        userId,
+        status: 'PENDING'
+      },
+      data: {
+        status: 'CANCELLED',
+        cancelReason: 'USER_CANCELLED'
+      }
+    })
+
+    if (cancelled.count === 0) {
+      throw new TradeExecutionError('Pending order not found', 404)
+    }
+
+    return prisma.trade.findUniqueOrThrow({ where: { id: orderId } })
+  }
+
+  async modifyOrder(userId: string, orderId: string, changes: OrderModification) {
+    const order = await prisma.trade.findFirst({
+      where: {
+        id: orderId,
+        userId,
+        status: 'PENDING'
+      }
+    })
+
+    if (!order) {
+      throw new TradeExecutionError('Pending order not found', 404)
+    }
+
+    if (order.brokerOrderId) {
+      throw new TradeExecutionError('Live orders cannot be modified; cancel it and place a new order')
+    }
+
+    const quantity = changes.quantity ?? order.quantity
+    const limitPrice = changes.limitPrice ?? order.limitPrice ?? undefined
+    const stopPrice = changes.stopPrice ?? order.stopPrice ?? undefined
+    const timeInForce = changes.timeInForce ?? (order.timeInForce as TimeInForce)
+
+    if (!quantity || quantity <= 0) {
+      throw new TradeExecutionError('Quantity must be positive')
+    }
+
+    this.validateOrder(order.orderType as OrderType, timeInForce, limitPrice, stopPrice)
+
+    const referencePrice = limitPrice ?? stopPrice ?? order.price
+
+    // Status guard keeps a modify from resurrecting an order filled in the meantime
+    const updated = await prisma.trade.updateMany({
+      where: { id: orderId, status: 'PENDING' },
+      data: {
+        quantity,
+        limitPrice: limitPrice ?? null,
+        stopPrice: stopPrice ?? null,
+        price: referencePrice,
+        totalAmount: quantity * referencePrice,
+        timeInForce,
+        expiresAt: timeInForce !== order.timeInForce ? this.getExpiry(timeInForce) : order.expiresAt
+      }
+    })
+
+    if (updated.count === 0) {
+      throw new TradeExecutionError('Pending order not found', 404)
+    }
+
+    return prisma.trade.findUniqueOrThrow({ where: { id: orderId } })
+  }
+
+  async matchPendingOrders(): Promise<{ evaluated: number; filled: number; expired: number }> {
+    if (this.isMatching) {
+      return { evaluated: 0, filled: 0, expired: 0 }
+    }
+
+    this.isMatching = true
+
+    try {
+      const now = new Date()
+      const expired = await prisma.trade.updateMany({
+        where: {
+          status: 'PENDING',
+          brokerOrderId: null,
+          expiresAt: { lte: now }
+        },
+        data: {
+          status: 'EXPIRED',
+          cancelReason: 'TIME_IN_FORCE_EXPIRED'
+        }
+      })
+
+      const orders = await prisma.trade.findMany({
+        where: { status: 'PENDING', brokerOrderId: null },
+        include: { asset: true },
+        orderBy: { createdAt: 'asc' }
+      })
+
+      const prices = new Map<string, number>()
+      let filled = 0
+
+      for (const order of orders) {
+        const symbol = order.asset.symbol
+        if (!prices.has(symbol)) {
+          const assetData = await marketDataService.getAssetDetails(symbol)
+          if (!assetData?.price) continue
+          prices.set(symbol, assetData.price)
+        }
+
+        if (await this.tryMatch(order, prices.get(symbol)!)) {
+          filled++
+        }
+      }
+
+      return { evaluated: orders.length, filled, expired: expired.count }
+    } finally {
+      this.isMatching = false
+    }
+  }
+
+  private async submitLiveOrder(request: LiveOrderRequest) {
+    const { trade } = await this.withBrokerErrors(() => liveTrading.submitOrder(request))
+    return trade
+  }
+
+  private async withBrokerErrors<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation()
+    } catch (error) {
+      if (error instanceof BrokerError) {
+        throw new TradeExecutionError(error.message, error.status)
+      }
+      throw error
+    }
+  }
+
+  private async logOrderPlaced(request: OrderRequest, tradeId: string, symbol: string, orderType: OrderType, timeInForce: TimeInForce) {
+    await prisma.activity.create({
+      data: {
+        userId: request.userId,
+        type: 'ORDER_PLACED',
+        description: `${orderType} ${request.type} order for ${request.quantity} shares of ${symbol} placed`,
+        metadata: {
+          tradeId,
+          symbol,
+          orderType,
+          timeInForce,
+          limitPrice: request.limitPrice ?? null,
+          stopPrice: request.stopPrice ?? null
+        }
+      }
+    })
+  }
+
+  private validateOrder(orderType: OrderType, timeInForce: TimeInForce, limitPrice?: number, stopPrice?: number) {
+    if (!ORDER_TYPES.includes(orderType)) {
+      throw new TradeExecutionError('Invalid order type')
+    }
+
+    if (!TIME_IN_FORCE.includes(timeInForce)) {
+      throw new TradeExecutionError('Invalid time in force')
+    }
+
+    if ((orderType === 'LIMIT' || orderType === 'STOP_LIMIT') && !(limitPrice && limitPrice > 0)) {
+      throw new TradeExecutionError('Limit price is required for limit orders')
+    }
+
+    if ((orderType === 'STOP' || orderType === 'STOP_LIMIT') && !(stopPrice && stopPrice > 0)) {
+      throw new TradeExecutionError('Stop price is required for stop orders')
+    }
+  }
+
+  private getExpiry(timeInForce: TimeInForce): Date | null {
+    return timeInForce === 'DAY' ? getNextMarketClose() : null
+  }
+
+  private async tryMatch(order: any, currentPrice: number): Promise<boolean> {
+    let stopTriggered = !!order.stopTriggeredAt
+
+    if ((order.orderType === 'STOP' || order.orderType === 'STOP_LIMIT') && !stopTriggered) {
+      stopTriggered = order.type === 'BUY' ? currentPrice >= order.stopPrice : currentPrice <= order.stopPrice
+      if (!stopTriggered) return false
+
+      // A triggered stop-limit keeps resting as a limit order until its price is reached
+      await prisma.trade.update({
+        where: { id: order.id },
+        data: { stopTriggeredAt: new Date() }
+      })
+    }
+
+    const requiresLimit = order.orderType === 'LIMIT' || order.orderType === 'STOP_LIMIT'
+    if (requiresLimit) {
+      const limitSatisfied = order.type === 'BUY' ? currentPrice <= order.limitPrice : currentPrice >= order.limitPrice
+      if (!limitSatisfied) return false
+    }
+
+    try {
+      await tradeExecutor.executeTrade({
+        userId: order.userId,
+        portfolioId: order.portfolioId,
+        symbol: order.asset.symbol,
+        type: order.type,
+        quantity: order.quantity,
+        pendingTradeId: order.id,
+        activityType: 'ORDER_FILLED',
+        activityDescription: `${order.orderType} ${order.type} order filled: ${order.quantity} shares of ${order.asset.symbol}`,
+        activityMetadata: {
+          orderType: order.orderType,
+          timeInForce: order.timeInForce,
+          limitPrice: order.limitPrice,
+          stopPrice: order.stopPrice
+        }
+      })
+      return true
+    } catch (error) {
+      // Funds or shares are gone since the order was placed, or the portfolio was archived; it can never
+      // fill as-is. Anything else (a quote the provider could not serve, a risk limit hit for today,
+      // another pass filling it first) leaves the order resting for the next pass.
+      if (error instanceof TradeExecutionError && error.status === 400) {
+        await this.closeOrder(order.id, 'CANCELLED', error.message)
+        return false
+      }
+
+      if (error instanceof TradeExecutionError) {
+        return false
+      }
+
+      console.error(`Order ${order.id} fill failed:`, error)
+      return false
+    }
+  }
+
+  private async closeOrder(orderId: string, status: 'CANCELLED' | 'EXPIRED', reason: string) {
+    await prisma.trade.updateMany({
+      where: { id: orderId, status: 'PENDING' },
+      data: {
+        status,
+        cancelReason: reason
+      }
+    })
+  }
+}
+
+export const orderMatcher = OrderMatcher.getInstance()
@@ -0,0 +1,373 @@
+import { Prisma, type TaxLot } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { allocateLots, getHoldingTerm, orderLotsForSale, LotSelectionError, type CostBasisMethod, type LotAllocation } from '@/lib/tax-lots'
+
+export interface LedgerFill {
+  userId: string
+  portfolioId: string
+  assetId: string
+  symbol: string
+  type: 'BUY' | 'SELL'
+  quantity: number
+  price: number
+  fees: number
+  isSimulated: boolean
+  // Fill an existing PENDING order row instead of recording a new trade
+  pendingTradeId?: string
+  // Overrides the user's configured cost basis method for this sell
+  costBasisMethod?: CostBasisMethod
+  // Lots to relieve, in order, for specific-lot sells
+  lotIds?: string[]
+  // Already executed at a broker: booked even if it overdraws local cash, which is flagged instead
+  brokerConfirmed?: boolean
+  activityType: string
+  activityDescription: string
+  activityMetadata?: Record<string, any>
+}
+
+export class LedgerError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'LedgerError'
+  }
+}
+
+// Quantities below this are treated as a fully closed position (float dust from fractional fills)
+const QUANTITY_EPSILON = 1e-9
+const MAX_SERIALIZATION_RETRIES = 3
+
+// Double-entry style position accounting: every fill moves cash, position, lot and trade rows in one transaction
+export class PortfolioLedger {
+  private static instance: PortfolioLedger
+
+  static getInstance(): PortfolioLedger {
+    if (!PortfolioLedger.instance) {
+      PortfolioLedger.instance = new PortfolioLedger()
+    }
+    return PortfolioLedger.instance
+  }
+
+  async recordFill(fill: LedgerFill) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await prisma.$transaction(
+          tx => this.applyFill(tx, fill),
+          { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+        )
+      } catch (error) {
+        // Concurrent fills on the same portfolio abort with a write conflict; replay against fresh state
+        const isConflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034'
+        if (!isConflict || attempt >= MAX_SERIALIZATION_RETRIES) throw error
+      }
+    }
+  }
+
+  private async applyFill(tx: Prisma.TransactionClient, fill: LedgerFill) {
+    const { userId, portfolioId, assetId, type, quantity, price, fees } = fill
+    const totalAmount = quantity * price
+    const executedAt = new Date()
+
+    const portfolio = await tx.portfolio.findFirst({
+      where: { id: portfolioId, userId },
+      include: { user: { select: { costBasisMethod: true } } }
+    })
+
+    if (!portfolio) {
+      throw new LedgerError('Portfolio not found', 404)
+    }
+
+    const existingItem = await tx.portfolioItem.findUnique({
+      where: {
+        portfolioId_assetId: { portfolioId, assetId }
+      }
+    })
+
+    let cashDelta: number
+    let overdraft = 0
+    let realizedPnL: number | null = null
+    let portfolioItem = null
+    let allocations: LotAllocation<TaxLot>[] = []
+    // An explicit lot selection always sells those lots, whatever the account default is
+    const costBasisMethod = fill.costBasisMethod
+      || (fill.lotIds?.length ? 'SPECIFIC_LOT' : portfolio.user.costBasisMethod as CostBasisMethod)
+
+    if (type === 'BUY') {
+      cashDelta = -(totalAmount + fees)
+
+      if (portfolio.balance + cashDelta < 0) {
+        // Refusing a fill the broker has already made would only leave the books out of sync
+        if (!fill.brokerConfirmed) {
+          throw new LedgerError('Insufficient balance')
+        }
+        overdraft = -(portfolio.balance + cashDelta)
+      }
+
+      // Fees are capitalised into the cost basis
+      const newQuantity = (existingItem?.quantity || 0) + quantity
+      const newTotalCost = (existingItem?.totalCost || 0) + totalAmount + fees
+
+      portfolioItem = await tx.portfolioItem.upsert({
+        where: {
+          portfolioId_assetId: { portfolioId, assetId }
+        },
+        update: {
+          quantity: newQuantity,
+          totalCost: newTotalCost,
+          avgPrice: newTotalCost / newQuantity
+        },
+        create: {
+          portfolioId,
+          assetId,
+          quantity,
+          totalCost: totalAmount + fees,
+          avgPrice: (totalAmount + fees) / quantity
+        }
+      })
+    } else {
+      if (!existingItem || existingItem.quantity < quantity - QUANTITY_EPSILON) {
+        throw new LedgerError('Insufficient shares to sell')
+      }
+
+      cashDelta = totalAmount - fees
+
+      const openLots = await this.getOpenLots(tx, existingItem)
+      let orderedLots: typeof openLots
+      try {
+        orderedLots = orderLotsForSale(openLots, costBasisMethod, fill.lotIds)
+      } catch (error) {
+        if (error instanceof LotSelectionError) throw new LedgerError(error.message)
+        throw error
+      }
+      const lotAllocations = allocateLots(orderedLots, quantity, QUANTITY_EPSILON)
+
+      if (!lotAllocations) {
+        throw new LedgerError(fill.lotIds?.length
+          ? 'Selected lots do not cover the sell quantity'
+          : 'Insufficient shares to sell')
+      }
+
+      allocations = lotAllocations
+      const costOfSold = allocations.reduce((sum, a) => sum + a.quantity * a.lot.costPerShare, 0)
+      realizedPnL = cashDelta - costOfSold
+
+      const newQuantity = existingItem.quantity - quantity
+      if (newQuantity <= QUANTITY_EPSILON) {
+        // Brackets protecting a position that no longer exists can never fill
+        await tx.bracketOrder.updateMany({
+          where: {
+            portfolioItemId: existingItem.id,
+            status: 'OPEN'
+          },
+          data: {
+            status: 'CANCELLED',
+            stopLossStatus: 'CANCELLED',
+            takeProfitStatus: 'CANCELLED',
+            closeReason: 'POSITION_CLOSED',
+            closedAt: executedAt
+          }
+        })
+
+        await tx.portfolioItem.delete({
+          where: { id: existingItem.id }
+        })
+      } else {
+        // Remaining basis is whatever the unrelieved lots still carry
+        const newTotalCost = Math.max(0, existingItem.totalCost - costOfSold)
+        portfolioItem = await tx.portfolioItem.update({
+          where: { id: existingItem.id },
+          data: {
+            quantity: newQuantity,
+            totalCost: newTotalCost,
+            avgPrice: newTotalCost / newQuantity
+          }
+        })
+      }
+    }
+
+    await tx.portfolio.update({
+      where: { id: portfolioId },
+      data: {
+        balance: { increment: cashDelta }
+      }
+    })
+
+    const fillData = {
+      quantity,
+      price,
+      totalAmount,
+      fees,
+      realizedPnL,
+      status: 'COMPLETED',
+      executedAt
+    }
+
+    let trade
+    if (fill.pendingTradeId) {
+      // Conditional update doubles as the claim, so a resting order fills at most once
+      const claimed = await tx.trade.updateMany({
+        where: {
+          id: fill.pendingTradeId,
+          userId,
+          status: 'PENDING'
+        },
+        data: fillData
+      })
+
+      if (claimed.count === 0) {
+        throw new LedgerError('Order is no longer pending', 409)
+      }
+
+      trade = await tx.trade.findUniqueOrThrow({
+        where: { id: fill.pendingTradeId }
+      })
+    } else {
+      trade = await tx.trade.create({
+        data: {
+          userId,
+          portfolioId,
+          assetId,
+          type,
+          ...fillData,
+          isSimulated: fill.isSimulated
+        }
+      })
+    }
+
+    if (type === 'BUY') {
+      await tx.taxLot.create({
+        data: {
+          portfolioId,
+          assetId,
+          openTradeId: trade.id,
+          quantity,
+          remainingQuantity: quantity,
+          costPerShare: (totalAmount + fees) / quantity,
+          acquiredAt: executedAt
+        }
+      })
+    } else {
+      await this.relieveLots(tx, {
+        userId,
+        portfolioId,
+        assetId,
+        sellTradeId: trade.id,
+        allocations,
+        price,
+        feePerShare: fees / quantity,
+        soldAt: executedAt,
+        costBasisMethod
+      })
+    }
+
+    await tx.activity.create({
+      data: {
+        userId,
+        type: fill.activityType,
+        description: fill.activityDescription,
+        metadata: {
+          tradeId: trade.id,
+          symbol: fill.symbol,
+          type,
+          quantity,
+          price,
+          totalAmount,
+          realizedPnL,
+          ...(type === 'SELL' && { costBasisMethod, lotsRelieved: allocations.length }),
+          ...fill.activityMetadata
+        }
+      }
+    })
+
+    if (overdraft > 0) {
+      await tx.activity.create({
+        data: {
+          userId,
+          type: 'CASH_OVERDRAFT',
+          description: `${portfolio.name} cash is overdrawn by $${overdraft.toFixed(2)} after a broker fill of ${fill.symbol}`,
+          metadata: { portfolioId, tradeId: trade.id, symbol: fill.symbol, overdraft }
+        }
+      })
+    }
+
+    return { trade, portfolioItem, realizedPnL }
+  }
+
+  private async getOpenLots(tx: Prisma.TransactionClient, item: { id: string; portfolioId: string; assetId: string; quantity: number; avgPrice: number; createdAt: Date }) {
+    const lots = await tx.taxLot.findMany({
+      where: {
+        portfolioId: item.portfolioId,
+        assetId: item.assetId,
+        closedAt: null
+      }
+    })
+
+    // Positions opened before lot tracking get one lot covering the untracked shares at average cost
+    const trackedQuantity = lots.reduce((sum, lot) => sum + lot.remainingQuantity, 0)
+    const untrackedQuantity = item.quantity - trackedQuantity
+
+    if (untrackedQuantity > QUANTITY_EPSILON) {
+      const backfilled = await tx.taxLot.create({
+        data: {
+          portfolioId: item.portfolioId,
+          assetId: item.assetId,
+          quantity: untrackedQuantity,
+          remainingQuantity: untrackedQuantity,
+          costPerShare: item.avgPrice,
+          acquiredAt: item.createdAt
+        }
+      })
+      lots.push(backfilled)
+    }
+
+    return lots
+  }
+
+  private async relieveLots(tx: Prisma.TransactionClient, params: {
+    userId: string
+    portfolioId: string
+    assetId: string
+    sellTradeId: string
+    allocations: LotAllocation<TaxLot>[]
+    price: number
+    feePerShare: number
+    soldAt: Date
+    costBasisMethod: CostBasisMethod
+  }) {
+    for (const { lot, quantity } of params.allocations) {
+      const remainingQuantity = lot.remainingQuantity - quantity
+
+      await tx.taxLot.update({
+        where: { id: lot.id },
+        data: {
+          remainingQuantity: Math.max(0, remainingQuantity),
+          closedAt: remainingQuantity <= QUANTITY_EPSILON ? params.soldAt : null
+        }
+      })
+
+      const proceeds = quantity * (params.price - params.feePerShare)
+      const costBasis = quantity * lot.costPerShare
+      const { term, holdingPeriodDays } = getHoldingTerm(lot.acquiredAt, params.soldAt)
+
+      await tx.realizedGain.create({
+        data: {
+          userId: params.userId,
+          portfolioId: params.portfolioId,
+          assetId: params.assetId,
+          lotId: lot.id,
+          sellTradeId: params.sellTradeId,
+          quantity,
+          proceeds,
+          costBasis,
+          gain: proceeds - costBasis,
+          acquiredAt: lot.acquiredAt,
+          soldAt: params.soldAt,
+          holdingPeriodDays,
+          term,
+          costBasisMethod: params.costBasisMethod
+        }
+      })
+    }
+  }
+}
+
+export const portfolioLedger = PortfolioLedger.getInstance()
@@ -0,0 +1,302 @@
+import { randomUUID } from 'crypto'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+
+export type CashTransactionType = 'DEPOSIT' | 'WITHDRAWAL' | 'TRANSFER_IN' | 'TRANSFER_OUT'
+
+export class PortfolioError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'PortfolioError'
+  }
+}
+
+export const DEFAULT_STARTING_CAPITAL = 100000
+// Also caps the capital deposits and transfers can bring into one portfolio
+const MAX_STARTING_CAPITAL = 10000000
+const MAX_ACTIVE_PORTFOLIOS = 10
+const MAX_NAME_LENGTH = 50
+
+/**
+ * Lifecycle and cash movements for a user's portfolios. Every cash movement adjusts netDeposits
+ * alongside the balance, so returns and the equity curve keep treating it as contributed capital.
+ */
+export class PortfolioManager {
+  private static instance: PortfolioManager
+
+  static getInstance(): PortfolioManager {
+    if (!PortfolioManager.instance) {
+      PortfolioManager.instance = new PortfolioManager()
+    }
+    return PortfolioManager.instance
+  }
+
+  // Simulated portfolios only; the live portfolio is opened from the broker account
+  async create(userId: string, params: { name: string; startingCapital?: number }) {
+    const name = this.validateName(params.name)
+    const startingCapital = params.startingCapital ?? DEFAULT_STARTING_CAPITAL
+    this.validateAmount(startingCapital, 'Starting capital')
+    if (startingCapital > MAX_STARTING_CAPITAL) {
+      throw new PortfolioError(`Starting capital cannot exceed $${MAX_STARTING_CAPITAL.toLocaleString('en-US')}`)
+    }
+
+    await this.assertCanActivate(userId)
+    await this.assertNameAvailable(userId, name)
+
+    return prisma.portfolio.create({
+      data: {
+        userId,
+        name,
+        type: 'SIMULATED',
+        startingCapital,
+        balance: startingCapital,
+        netDeposits: startingCapital
+      }
+    })
+  }
+
+  async rename(userId: string, portfolioId: string, name: string) {
+    const portfolio = await this.getOwned(userId, portfolioId)
+    const validated = this.validateName(name)
+    await this.assertNameAvailable(userId, validated, portfolio.id)
+
+    return prisma.portfolio.update({
+      where: { id: portfolio.id },
+      data: { name: validated }
+    })
+  }
+
+  // Archived portfolios keep their history but drop out of trading, automation and the switcher
+  async archive(userId: string, portfolioId: string) {
+    const portfolio = await this.getOwned(userId, portfolioId)
+    if (!portfolio.isActive) return portfolio
+
+    const [activeCount, openOrders] = await Promise.all([
+      prisma.portfolio.count({ where: { userId, isActive: true } }),
+      prisma.trade.count({ where: { portfolioId: portfolio.id, status: 'PENDING' } })
+    ])
+
+    if (activeCount <= 1) {
+      throw new PortfolioError('Cannot archive your only active portfolio')
+    }
+    if (openOrders > 0) {
+      throw new PortfolioError('Cancel the open orders in this portfolio before archiving it', 409)
+    }
+
+    const [archived] = await prisma.$transaction([
+      prisma.portfolio.update({
+        where: { id: portfolio.id },
+        data: { isActive: false }
+      }),
+      // Nothing watches an archived portfolio, so its brackets would never be managed again
+      prisma.bracketOrder.updateMany({
+        where: { portfolioId: portfolio.id, status: 'OPEN' },
+        data: {
+          status: 'CANCELLED',
+          stopLossStatus: 'CANCELLED',
+          takeProfitStatus: 'CANCELLED',
+          closeReason: 'PORTFOLIO_ARCHIVED',
+          closedAt: new Date()
+        }
+      })
+    ])
+    return archived
+  }
+
+  async restore(userId: string, portfolioId: string) {
+    const portfolio = await this.getOwned(userId, portfolioId)
+    if (portfolio.isActive) return portfolio
+
+    await this.assertCanActivate(userId)
+    await this.assertNameAvailable(userId, portfolio.name, portfolio.id)
+
+    return prisma.portfolio.update({
+      where: { id: portfolio.id },
+      data: { isActive: true }
+    })
+  }
+
+  async deposit(userId: string, portfolioId: string, amount: number, note?: string) {
+    const portfolio = await this.getCashPortfolio(userId, portfolioId)
+    this.validateAmount(amount, 'Amount')
+
+    return prisma.$transaction(async tx => {
+      await this.credit(tx, portfolio.id, amount)
+
+      await tx.cashTransaction.create({
+        data: { userId, portfolioId: portfolio.id, type: 'DEPOSIT', amount, note: note || null }
+      })
+      await tx.activity.create({
+        data: {
+          userId,
+          type: 'CASH_DEPOSIT',
+          description: `Deposited $${amount.toFixed(2)} into ${portfolio.name}`,
+          metadata: { portfolioId: portfolio.id, amount }
+        }
+      })
+
+      return tx.portfolio.findUniqueOrThrow({ where: { id: portfolio.id } })
+    })
+  }
+
+  async withdraw(userId: string, portfolioId: string, amount: number, note?: string) {
+    const portfolio = await this.getCashPortfolio(userId, portfolioId)
+    this.validateAmount(amount, 'Amount')
+
+    return prisma.$transaction(async tx => {
+      // Conditional decrement, so concurrent withdrawals or buys cannot overdraw the cash balance
+      const debited = await tx.portfolio.updateMany({
+        where: { id: portfolio.id, isActive: true, balance: { gte: amount } },
+        data: { balance: { decrement: amount }, netDeposits: { decrement: amount } }
+      })
+      if (debited.count === 0) {
+        throw new PortfolioError('Insufficient balance')
+      }
+
+      await tx.cashTransaction.create({
+        data: { userId, portfolioId: portfolio.id, type: 'WITHDRAWAL', amount, note: note || null }
+      })
+      await tx.activity.create({
+        data: {
+          userId,
+          type: 'CASH_WITHDRAWAL',
+          description: `Withdrew $${amount.toFixed(2)} from ${portfolio.name}`,
+          metadata: { portfolioId: portfolio.id, amount }
+        }
+      })
+
+      return tx.portfolio.findUniqueOrThrow({ where: { id: portfolio.id } })
+    })
+  }
+
+  async transfer(userId: string, fromPortfolioId: string, toPortfolioId: string, amount: number, note?: string) {
+    if (fromPortfolioId === toPortfolioId) {
+      throw new PortfolioError('Choose two different portfolios')
+    }
+
+    const [from, to] = await Promise.all([
+      this.getCashPortfolio(userId, fromPortfolioId),
+      this.getCashPortfolio(userId, toPortfolioId)
+    ])
+    this.validateAmount(amount, 'Amount')
+
+    const transferId = randomUUID()
+
+    return prisma.$transaction(async tx => {
+      const debited = await tx.portfolio.updateMany({
+        where: { id: from.id, isActive: true, balance: { gte: amount } },
+        data: { balance: { decrement: amount }, netDeposits: { decrement: amount } }
+      })
+      if (debited.count === 0) {
+        throw new PortfolioError('Insufficient balance')
+      }
+
+      await this.credit(tx, to.id, amount)
+
+      await tx.cashTransaction.createMany({
+        data: [
+          { userId, portfolioId: from.id, type: 'TRANSFER_OUT', amount, transferId, counterpartyPortfolioId: to.id, note: note || null },
+          { userId, portfolioId: to.id, type: 'TRANSFER_IN', amount, transferId, counterpartyPortfolioId: from.id, note: note || null }
+        ]
+      })
+      await tx.activity.create({
+        data: {
+          userId,
+          type: 'CASH_TRANSFER',
+          description: `Transferred $${amount.toFixed(2)} from ${from.name} to ${to.name}`,
+          metadata: { transferId, fromPortfolioId: from.id, toPortfolioId: to.id, amount }
+        }
+      })
+
+      const [updatedFrom, updatedTo] = await Promise.all([
+        tx.portfolio.findUniqueOrThrow({ where: { id: from.id } }),
+        tx.portfolio.findUniqueOrThrow({ where: { id: to.id } })
+      ])
+      return { transferId, from: updatedFrom, to: updatedTo }
+    })
+  }
+
+  async getCashHistory(userId: string, portfolioId: string, limit: number = 50) {
+    const portfolio = await this.getOwned(userId, portfolioId)
+
+    return prisma.cashTransaction.findMany({
+      where: { portfolioId: portfolio.id },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+  }
+
+  private async getOwned(userId: string, portfolioId: string) {
+    const portfolio = await prisma.portfolio.findFirst({ where: { id: portfolioId, userId } })
+    if (!portfolio) {
+      throw new PortfolioError('Portfolio not found', 404)
+    }
+    return portfolio
+  }
+
+  // Live cash is whatever the brokerage account holds; it cannot be conjured or moved from here
+  private async getCashPortfolio(userId: string, portfolioId: string) {
+    const portfolio = await this.getOwned(userId, portfolioId)
+    if (portfolio.type === 'LIVE') {
+      throw new PortfolioError('Cash in a live portfolio is managed at your broker')
+    }
+    if (!portfolio.isActive) {
+      throw new PortfolioError('Portfolio is archived')
+    }
+    return portfolio
+  }
+
+  // Conditional on the portfolio still being active and staying within the capital cap, even under concurrent deposits
+  private async credit(tx: Prisma.TransactionClient, portfolioId: string, amount: number) {
+    const credited = await tx.portfolio.updateMany({
+      where: { id: portfolioId, isActive: true, netDeposits: { lte: MAX_STARTING_CAPITAL - amount } },
+      data: { balance: { increment: amount }, netDeposits: { increment: amount } }
+    })
+    if (credited.count === 0) {
+      const portfolio = await tx.portfolio.findUniqueOrThrow({ where: { id: portfolioId } })
+      throw new PortfolioError(portfolio.isActive
+        ? `A portfolio's contributed capital cannot exceed $${MAX_STARTING_CAPITAL.toLocaleString('en-US')}`
+        : 'Portfolio is archived')
+    }
+  }
+
+  private validateName(name: unknown): string {
+    const trimmed = typeof name === 'string' ? name.trim() : ''
+    if (!trimmed) {
+      throw new PortfolioError('Portfolio name is required')
+    }
+    if (trimmed.length > MAX_NAME_LENGTH) {
+      throw new PortfolioError(`Portfolio name must be at most ${MAX_NAME_LENGTH} characters`)
+    }
+    return trimmed
+  }
+
+  private validateAmount(amount: number, label: string) {
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new PortfolioError(`${label} must be positive`)
+    }
+  }
+
+  private async assertNameAvailable(userId: string, name: string, excludeId?: string) {
+    const clash = await prisma.portfolio.findFirst({
+      where: {
+        userId,
+        isActive: true,
+        name: { equals: name, mode: 'insensitive' },
+        ...(excludeId && { id: { not: excludeId } })
+      }
+    })
+    if (clash) {
+      throw new PortfolioError(`You already have a portfolio named ${clash.name}`, 409)
+    }
+  }
+
+  private async assertCanActivate(userId: string) {
+    const activeCount = await prisma.portfolio.count({ where: { userId, isActive: true } })
+    if (activeCount >= MAX_ACTIVE_PORTFOLIOS) {
+      throw new PortfolioError(`You can have at most ${MAX_ACTIVE_PORTFOLIOS} active portfolios`)
+    }
+  }
+}
+
+export const portfolioManager = PortfolioManager.getInstance()
@@ -0,0 +1,110 @@
+// Return and risk statistics over a daily portfolio snapshot series
+
+const TRADING_DAYS_PER_YEAR = 252
+
+export type PerformanceInterval = '1D' | '1W' | '1M' | '3M' | 'YTD' | '1Y' | 'Max'
+
+export interface SnapshotPoint {
+  date: Date
+  totalValue: number
+  cashFlow: number
+}
+
+export interface PerformancePoint {
+  date: Date
+  totalValue: number
+  dailyReturn: number
+  cumulativeReturn: number
+  drawdown: number
+}
+
+export interface PerformanceMetrics {
+  timeWeightedReturn: number
+  maxDrawdown: number
+  volatility: number
+  sharpeRatio: number | null
+  startValue: number
+  endValue: number
+  days: number
+}
+
+export function getIntervalStart(interval: PerformanceInterval, now: Date = new Date()): Date | null {
+  const start = new Date(now)
+
+  switch (interval) {
+    case '1D':
+      start.setUTCDate(start.getUTCDate() - 1)
+      break
+    case '1W':
+      start.setUTCDate(start.getUTCDate() - 7)
+      break
+    case '1M':
+      start.setUTCMonth(start.getUTCMonth() - 1)
+      break
+    case '3M':
+      start.setUTCMonth(start.getUTCMonth() - 3)
+      break
+    case 'YTD':
+      return new Date(Date.UTC(now.getUTCFullYear(), 0, 1))
+    case '1Y':
+      start.setUTCFullYear(start.getUTCFullYear() - 1)
+      break
+    case 'Max':
+    default:
+      return null
+  }
+
+  start.setUTCHours(0, 0, 0, 0)
+  return start
+}
+
+// Daily returns strip out external cash flows, so deposits and withdrawals do not count as performance
+export function buildPerformanceSeries(snapshots: SnapshotPoint[]): PerformancePoint[] {
+  const series: PerformancePoint[] = []
+  let growth = 1
+  let peak = 1
+
+  snapshots.forEach((snapshot, index) => {
+    let dailyReturn = 0
+    if (index > 0) {
+      const previousValue = snapshots[index - 1].totalValue
+      dailyReturn = previousValue > 0 ? (snapshot.totalValue - snapshot.cashFlow) / previousValue - 1 : 0
+    }
+
+    growth *= 1 + dailyReturn
+    peak = Math.max(peak, growth)
+
+    series.push({
+      date: snapshot.date,
+      totalValue: snapshot.totalValue,
+      dailyReturn,
+      cumulativeReturn: growth - 1,
+      drawdown: growth / peak - 1
+    })
+  })
+
+  return series
+}
+
+export function calculateMetrics(series: PerformancePoint[], annualRiskFreeRate: number = 0): PerformanceMetrics {
+  const returns = series.slice(1).map(point => point.dailyReturn)
+  const mean = returns.length > 0 ? returns.reduce((sum, r) => sum + r, 0) / returns.length : 0
+  const variance = returns.length > 1
+    ? returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1)
+    : 0
+  const dailyStdDev = Math.sqrt(variance)
+  const dailyRiskFree = annualRiskFreeRate / TRADING_DAYS_PER_YEAR
+
+  return {
+    timeWeightedReturn: series.length > 0 ? series[series.length - 1].cumulativeReturn : 0,
+    maxDrawdown: series.reduce((worst, point) => Math.min(worst, point.drawdown), 0),
+    volatility: dailyStdDev * Math.sqrt(TRADING_DAYS_PER_YEAR),
+    // Undefined without any return dispersion to scale by
+    sharpeRatio: dailyStdDev > 0
+      ? ((mean - dailyRiskFree) / dailyStdDev) * Math.sqrt(TRADING_DAYS_PER_YEAR)
+      : null,
+    startValue: series[0]?.totalValue ?? 0,
+    endValue: series[series.length - 1]?.totalValue ?? 0,
+    days: series.length
+  }
+}
@@ -0,0 +1,130 @@
+import { prisma } from '@/lib/db'
+import { marketDataService } from '@/lib/market-data'
+import { getTradingDay } from '@/lib/market-hours'
+
+// Captures one valuation per portfolio per trading day; later runs on the same day overwrite it
+export class PortfolioSnapshotter {
+  private static instance: PortfolioSnapshotter
+  private timer: NodeJS.Timeout | null = null
+  private isCapturing = false
+
+  private readonly DEFAULT_INTERVAL = 60 * 60 * 1000 // 1 hour
+
+  static getInstance(): PortfolioSnapshotter {
+    if (!PortfolioSnapshotter.instance) {
+      PortfolioSnapshotter.instance = new PortfolioSnapshotter()
+    }
+    return PortfolioSnapshotter.instance
+  }
+
+  start(intervalMs: number = this.DEFAULT_INTERVAL) {
+    if (this.timer) return
+
+    console.log(`Portfolio snapshotter started with ${intervalMs}ms interval`)
+    this.timer = setInterval(() => {
+      this.captureAll().catch(error => {
+        console.error('Scheduled portfolio snapshot failed:', error)
+      })
+    }, intervalMs)
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  async captureAll(): Promise<{ captured: number; failed: number }> {
+    if (this.isCapturing) {
+      return { captured: 0, failed: 0 }
+    }
+
+    this.isCapturing = true
+
+    try {
+      const portfolios = await prisma.portfolio.findMany({
+        where: { isActive: true },
+        select: { id: true }
+      })
+
+      let captured = 0
+      let failed = 0
+
+      for (const portfolio of portfolios) {
+        try {
+          await this.captureSnapshot(portfolio.id)
+          captured++
+        } catch (error) {
+          console.error(`Snapshot for portfolio ${portfolio.id} failed:`, error)
+          failed++
+        }
+      }
+
+      return { captured, failed }
+    } finally {
+      this.isCapturing = false
+    }
+  }
+
+  async captureSnapshot(portfolioId: string, at: Date = new Date()) {
+    const portfolio = await prisma.portfolio.findUniqueOrThrow({
+      where: { id: portfolioId },
+      include: {
+        items: {
+          include: {
+            asset: {
+              include: {
+                prices: {
+                  orderBy: { timestamp: 'desc' },
+                  take: 1
+                }
+              }
+            }
+          }
+        }
+      }
+    })
+
+    let marketValue = 0
+    for (const item of portfolio.items) {
+      marketValue += item.quantity * await this.getPrice(item)
+    }
+
+    const date = getTradingDay(at)
+    const previous = await prisma.portfolioSnapshot.findFirst({
+      where: { portfolioId, date: { lt: date } },
+      orderBy: { date: 'desc' }
+    })
+
+    // The first snapshot is the baseline, so its capital is not counted as a flow
+    const cashFlow = previous ? portfolio.netDeposits - previous.netDeposits : 0
+    const values = {
+      cash: portfolio.balance,
+      marketValue,
+      totalValue: portfolio.balance + marketValue,
+      netDeposits: portfolio.netDeposits,
+      cashFlow
+    }
+
+    return prisma.portfolioSnapshot.upsert({
+      where: { portfolioId_date: { portfolioId, date } },
+      update: values,
+      create: { portfolioId, date, ...values }
+    })
+  }
+
+  private async getPrice(item: { avgPrice: number; asset: { symbol: string; prices: { price: number }[] } }): Promise<number> {
+    try {
+      const assetData = await marketDataService.getAssetDetails(item.asset.symbol)
+      if (assetData?.price) return assetData.price
+    } catch (error) {
+      console.error(`Quote for ${item.asset.symbol} unavailable, using last stored price:`, error)
+    }
+
+    // Fall back to the last stored price, then to cost, so an outage does not zero the position
+    return item.asset.prices[0]?.price || item.avgPrice
+  }
+}
+
+export const portfolioSnapshotter = PortfolioSnapshotter.getInstance()
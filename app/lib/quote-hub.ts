@@ -0,0 +1,162 @@
+import { marketDataService } from '@/lib/market-data'
+
+export interface QuoteTick {
+  symbol: string
+  price: number
+  change: number
+  changePercent: number
+  volume: number | null
+  timestamp: string
+}
+
+export type QuoteListener = (tick: QuoteTick) => void
+
+// Symbols quoted concurrently per round trip to the providers
+const POLL_BATCH_SIZE = 10
+
+// Fans quote ticks out to every subscriber; symbols are only polled while somebody is listening
+export class QuoteHub {
+  private static instance: QuoteHub
+  private listeners = new Map<string, Set<QuoteListener>>()
+  private lastTicks = new Map<string, QuoteTick>()
+  private timer: NodeJS.Timeout | null = null
+  private isPolling = false
+  // Where the next scheduled pass starts, so symbols after a stalled batch are not always last
+  private pollOffset = 0
+
+  private readonly intervalMs = parseInt(process.env.QUOTE_STREAM_INTERVAL_MS || '15000')
+
+  static getInstance(): QuoteHub {
+    if (!QuoteHub.instance) {
+      QuoteHub.instance = new QuoteHub()
+    }
+    return QuoteHub.instance
+  }
+
+  // Returns an unsubscribe function; the listener immediately receives the last known tick of each symbol
+  subscribe(symbols: string[], listener: QuoteListener): () => void {
+    const normalized = [...new Set(symbols.map(symbol => symbol.toUpperCase()))]
+    const unseen: string[] = []
+
+    for (const symbol of normalized) {
+      let symbolListeners = this.listeners.get(symbol)
+      if (!symbolListeners) {
+        symbolListeners = new Set()
+        this.listeners.set(symbol, symbolListeners)
+      }
+      symbolListeners.add(listener)
+
+      const last = this.lastTicks.get(symbol)
+      if (last) {
+        listener(last)
+      } else {
+        unseen.push(symbol)
+      }
+    }
+
+    this.ensureTimer()
+    // New symbols should not wait a full interval for their first price
+    if (unseen.length > 0) {
+      this.pollSymbols(unseen).catch(error => {
+        console.error('Initial quote poll failed:', error)
+      })
+    }
+
+    return () => {
+      for (const symbol of normalized) {
+        const symbolListeners = this.listeners.get(symbol)
+        if (!symbolListeners) continue
+        symbolListeners.delete(listener)
+        if (symbolListeners.size === 0) {
+          this.listeners.delete(symbol)
+          this.lastTicks.delete(symbol)
+        }
+      }
+      this.stopIfIdle()
+    }
+  }
+
+  // Ticks are only forwarded when the quote actually moved
+  publish(tick: QuoteTick) {
+    const last = this.lastTicks.get(tick.symbol)
+    if (last && last.price === tick.price && last.changePercent === tick.changePercent) return
+
+    this.lastTicks.set(tick.symbol, tick)
+    for (const listener of this.listeners.get(tick.symbol) || []) {
+      try {
+        listener(tick)
+      } catch (error) {
+        console.error(`Quote listener for ${tick.symbol} failed:`, error)
+      }
+    }
+  }
+
+  getSubscribedSymbols(): string[] {
+    return [...this.listeners.keys()]
+  }
+
+  private ensureTimer() {
+    if (this.timer || this.listeners.size === 0) return
+
+    this.timer = setInterval(() => {
+      this.poll().catch(error => {
+        console.error('Scheduled quote poll failed:', error)
+      })
+    }, this.intervalMs)
+  }
+
+  private stopIfIdle() {
+    if (this.timer && this.listeners.size === 0) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  private async poll() {
+    // Skip overlapping runs when providers are slow to answer
+    if (this.isPolling) return
+
+    this.isPolling = true
+    try {
+      const symbols = this.getSubscribedSymbols()
+      const start = this.pollOffset % Math.max(symbols.length, 1)
+      const polled = await this.pollSymbols([...symbols.slice(start), ...symbols.slice(0, start)])
+      this.pollOffset = start + polled
+    } finally {
+      this.isPolling = false
+    }
+  }
+
+  // Returns how many symbols were asked for before stopping
+  private async pollSymbols(symbols: string[]): Promise<number> {
+    let polled = 0
+    for (let i = 0; i < symbols.length; i += POLL_BATCH_SIZE) {
+      const batch = symbols.slice(i, i + POLL_BATCH_SIZE)
+      // Quotes no older than one interval; anything fresher is served from the market data cache
+      const quotes = await Promise.all(batch.map(symbol =>
+        marketDataService.getAssetDetails(symbol, { maxAgeMs: this.intervalMs }).catch(() => null)
+      ))
+      polled += batch.length
+
+      batch.forEach((symbol, index) => {
+        const quote = quotes[index]
+        if (!quote || !this.listeners.has(symbol)) return
+
+        this.publish({
+          symbol,
+          price: quote.price,
+          change: quote.change,
+          changePercent: quote.changePercent,
+          volume: quote.volume ?? null,
+          timestamp: new Date().toISOString()
+        })
+      })
+
+      // A batch with no answers means providers are rate limited or cooling down; the rest waits a pass
+      if (quotes.every(quote => !quote)) break
+    }
+    return polled
+  }
+}
+
+export const quoteHub = QuoteHub.getInstance()
@@ -0,0 +1,216 @@
+import { prisma } from '@/lib/db'
+import { getTradingDay, getTradingDayStart } from '@/lib/market-hours'
+
+export type RiskTolerance = 'LOW' | 'MEDIUM' | 'HIGH'
+export type OrderSource = 'MANUAL' | 'AUTOMATED'
+
+export type RiskViolationCode =
+  | 'MAX_POSITION_SIZE'
+  | 'CONCENTRATION'
+  | 'SECTOR_EXPOSURE'
+  | 'DAILY_LOSS'
+  | 'MAX_OPEN_POSITIONS'
+  | 'DAILY_TRADE_LIMIT'
+
+export interface RiskViolation {
+  code: RiskViolationCode
+  message: string
+  limit: number
+  // Value the order would have produced; for DAILY_LOSS the loss already taken today
+  actual: number
+}
+
+export interface RiskLimits {
+  maxConcentrationPercent: number
+  maxSectorExposurePercent: number
+  dailyLossLimitPercent: number
+  maxOpenPositions: number
+}
+
+export interface PreTradeCheck {
+  userId: string
+  portfolioId: string
+  symbol: string
+  type: 'BUY' | 'SELL'
+  quantity: number
+  price: number
+  source?: OrderSource
+}
+
+// Portfolio-relative limits scale with the user's stated risk tolerance
+export const RISK_LIMITS: Record<RiskTolerance, RiskLimits> = {
+  LOW: { maxConcentrationPercent: 10, maxSectorExposurePercent: 25, dailyLossLimitPercent: 2, maxOpenPositions: 10 },
+  MEDIUM: { maxConcentrationPercent: 20, maxSectorExposurePercent: 40, dailyLossLimitPercent: 5, maxOpenPositions: 20 },
+  HIGH: { maxConcentrationPercent: 35, maxSectorExposurePercent: 60, dailyLossLimitPercent: 10, maxOpenPositions: 40 }
+}
+
+const formatDollars = (value: number) => `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+/**
+ * Pre-trade checks shared by manual orders, resting order fills and automation.
+ * Only buys are checked: sells reduce exposure, and blocking them would trap users in positions
+ * (including stop-loss exits) exactly when the limits are breached.
+ */
+export class RiskEngine {
+  private static instance: RiskEngine
+
+  static getInstance(): RiskEngine {
+    if (!RiskEngine.instance) {
+      RiskEngine.instance = new RiskEngine()
+    }
+    return RiskEngine.instance
+  }
+
+  getLimits(riskTolerance: string): RiskLimits {
+    return RISK_LIMITS[riskTolerance as RiskTolerance] || RISK_LIMITS.MEDIUM
+  }
+
+  async check(check: PreTradeCheck): Promise<RiskViolation[]> {
+    if (check.type !== 'BUY') return []
+
+    const symbol = check.symbol.toUpperCase()
+    const [user, portfolio, asset] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: check.userId },
+        select: { maxPositionSize: true, riskTolerance: true, maxTradesPerDay: true }
+      }),
+      prisma.portfolio.findFirst({
+        where: { id: check.portfolioId, userId: check.userId },
+        include: {
+          items: {
+            where: { quantity: { gt: 0 } },
+            include: {
+              asset: {
+                include: { prices: { orderBy: { timestamp: 'desc' }, take: 1 } }
+              }
+            }
+          }
+        }
+      }),
+      prisma.asset.findUnique({ where: { symbol }, select: { sector: true, type: true } })
+    ])
+
+    if (!user || !portfolio) return []
+
+    const limits = this.getLimits(user.riskTolerance)
+    const violations: RiskViolation[] = []
+    const orderValue = check.quantity * check.price
+
+    // Held positions at their last stored price; the traded symbol at the order price
+    const positions = portfolio.items.map(item => ({
+      symbol: item.asset.symbol,
+      sector: this.getSector(item.asset),
+      value: item.quantity * (item.asset.symbol === symbol ? check.price : item.asset.prices[0]?.price || item.avgPrice)
+    }))
+    const marketValue = positions.reduce((sum, position) => sum + position.value, 0)
+    const totalValue = portfolio.balance + marketValue
+    const existing = positions.find(position => position.symbol === symbol)
+    const positionValue = (existing?.value || 0) + orderValue
+
+    if (user.maxPositionSize > 0 && positionValue > user.maxPositionSize) {
+      violations.push({
+        code: 'MAX_POSITION_SIZE',
+        message: `Position in ${symbol} would be ${formatDollars(positionValue)}, above your ${formatDollars(user.maxPositionSize)} maximum position size.`,
+        limit: user.maxPositionSize,
+        actual: positionValue
+      })
+    }
+
+    if (totalValue > 0) {
+      // Buying moves cash into the position, so the portfolio total is unchanged by the order
+      const concentration = positionValue / totalValue * 100
+      if (concentration > limits.maxConcentrationPercent) {
+        violations.push({
+          code: 'CONCENTRATION',
+          message: `${symbol} would be ${concentration.toFixed(1)}% of the portfolio, above the ${limits.maxConcentrationPercent}% limit for ${user.riskTolerance.toLowerCase()} risk tolerance.`,
+          limit: limits.maxConcentrationPercent,
+          actual: concentration
+        })
+      }
+
+      const sector = asset ? this.getSector(asset) : null
+      if (sector) {
+        const sectorValue = positions
+          .filter(position => position.sector === sector)
+          .reduce((sum, position) => sum + position.value, 0) + orderValue
+        const exposure = sectorValue / totalValue * 100
+        if (exposure > limits.maxSectorExposurePercent) {
+          violations.push({
+            code: 'SECTOR_EXPOSURE',
+            message: `${sector} exposure would be ${exposure.toFixed(1)}% of the portfolio, above the ${limits.maxSectorExposurePercent}% limit.`,
+            limit: limits.maxSectorExposurePercent,
+            actual: exposure
+          })
+        }
+      }
+    }
+
+    if (!existing && positions.length >= limits.maxOpenPositions) {
+      violations.push({
+        code: 'MAX_OPEN_POSITIONS',
+        message: `Portfolio already holds ${positions.length} positions, the maximum for ${user.riskTolerance.toLowerCase()} risk tolerance.`,
+        limit: limits.maxOpenPositions,
+        actual: positions.length + 1
+      })
+    }
+
+    const dailyLoss = await this.getDailyLossPercent(portfolio.id, totalValue, portfolio.netDeposits)
+    if (dailyLoss !== null && dailyLoss >= limits.dailyLossLimitPercent) {
+      violations.push({
+        code: 'DAILY_LOSS',
+        message: `Portfolio is down ${dailyLoss.toFixed(1)}% today, past the ${limits.dailyLossLimitPercent}% daily loss limit. New buys resume next trading day.`,
+        limit: limits.dailyLossLimitPercent,
+        actual: dailyLoss
+      })
+    }
+
+    // The daily cap governs automation only, counted in the portfolio being traded
+    if (check.source === 'AUTOMATED' && user.maxTradesPerDay > 0) {
+      const todayTrades = await this.countTradesToday(check.userId, { portfolioId: portfolio.id })
+      if (todayTrades >= user.maxTradesPerDay) {
+        violations.push({
+          code: 'DAILY_TRADE_LIMIT',
+          message: `${todayTrades} trades already filled today in this portfolio, the automation limit is ${user.maxTradesPerDay}.`,
+          limit: user.maxTradesPerDay,
+          actual: todayTrades + 1
+        })
+      }
+    }
+
+    return violations
+  }
+
+  // Filled trades since midnight New York time, scoped to one portfolio or to paper/live mode
+  async countTradesToday(userId: string, scope: { portfolioId?: string; isSimulated?: boolean }): Promise<number> {
+    const today = getTradingDayStart()
+
+    return prisma.trade.count({
+      where: {
+        userId,
+        status: 'COMPLETED',
+        executedAt: { gte: today },
+        ...(scope.portfolioId && { portfolioId: scope.portfolioId }),
+        ...(scope.isSimulated !== undefined && { isSimulated: scope.isSimulated })
+      }
+    })
+  }
+
+  // Loss since the last close, net of deposits and withdrawals; null before the first snapshot
+  private async getDailyLossPercent(portfolioId: string, totalValue: number, netDeposits: number): Promise<number | null> {
+    const baseline = await prisma.portfolioSnapshot.findFirst({
+      where: { portfolioId, date: { lt: getTradingDay() } },
+      orderBy: { date: 'desc' }
+    })
+    if (!baseline || baseline.totalValue <= 0) return null
+
+    const change = (totalValue - netDeposits) - (baseline.totalValue - baseline.netDeposits)
+    return Math.max(0, -change / baseline.totalValue * 100)
+  }
+
+  // Crypto has no sector classification, so it is treated as a sector of its own
+  private getSector(asset: { sector: string | null; type: string }): string | null {
+    return asset.sector || (asset.type === 'CRYPTO' ? 'Crypto' : null)
+  }
+}
+
+export const riskEngine = RiskEngine.getInstance()
@@ -0,0 +1,291 @@
+import { prisma } from '@/lib/db'
+import { latest, rsi, sma } from '@/lib/indicators'
+
+export type ScreenerSortField = 'symbol' | 'price' | 'changePercent' | 'volume' | 'marketCap' | 'rsi' | 'maDistancePercent' | 'confidence'
+
+export interface ScreenerFilters {
+  type?: 'STOCK' | 'CRYPTO'
+  minPrice?: number
+  maxPrice?: number
+  minChangePercent?: number
+  maxChangePercent?: number
+  minVolume?: number
+  minMarketCap?: number
+  maxMarketCap?: number
+  sectors?: string[]
+  industries?: string[]
+  minRsi?: number
+  maxRsi?: number
+  // Distance of the price from its moving average, in percent
+  maPeriod?: number
+  minMaDistancePercent?: number
+  maxMaDistancePercent?: number
+  recommendations?: Array<'BUY' | 'SELL' | 'HOLD'>
+  minConfidence?: number
+}
+
+export interface ScreenerOptions {
+  sortBy?: ScreenerSortField
+  sortDirection?: 'asc' | 'desc'
+  limit?: number
+}
+
+export interface ScreenerResult {
+  symbol: string
+  name: string
+  type: string
+  exchange: string | null
+  sector: string | null
+  industry: string | null
+  price: number | null
+  changePercent: number | null
+  volume: number | null
+  marketCap: number | null
+  priceUpdatedAt: Date | null
+  rsi: number | null
+  maDistancePercent: number | null
+  recommendation: string | null
+  confidence: number | null
+  analyzedAt: Date | null
+}
+
+export class ScreenerError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'ScreenerError'
+  }
+}
+
+export const SCREENER_SORT_FIELDS: ScreenerSortField[] = ['symbol', 'price', 'changePercent', 'volume', 'marketCap', 'rsi', 'maDistancePercent', 'confidence']
+export const MA_PERIODS = [20, 50, 200]
+
+const NUMERIC_FILTERS = [
+  'minPrice', 'maxPrice', 'minChangePercent', 'maxChangePercent', 'minVolume', 'minMarketCap', 'maxMarketCap',
+  'minRsi', 'maxRsi', 'minMaDistancePercent', 'maxMaDistancePercent', 'minConfidence'
+] as const
+const RECOMMENDATIONS = ['BUY', 'SELL', 'HOLD'] as const
+const DEFAULT_MA_PERIOD = 50
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 500
+const RSI_PERIOD = 14
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Validates filters from a request or a saved screen and drops unset values, so a saved screen
+ * only ever holds what the user actually chose.
+ */
+export function normalizeScreenerFilters(input: unknown): ScreenerFilters {
+  if (input === undefined || input === null) return {}
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new ScreenerError('Filters must be an object')
+  }
+
+  const raw = input as Record<string, unknown>
+  const filters: ScreenerFilters = {}
+
+  if (raw.type !== undefined && raw.type !== null && raw.type !== '') {
+    if (raw.type !== 'STOCK' && raw.type !== 'CRYPTO') {
+      throw new ScreenerError('Type must be STOCK or CRYPTO')
+    }
+    filters.type = raw.type
+  }
+
+  for (const key of NUMERIC_FILTERS) {
+    const value = raw[key]
+    if (value === undefined || value === null || value === '') continue
+
+    const number = typeof value === 'number' ? value : parseFloat(String(value))
+    if (!Number.isFinite(number)) {
+      throw new ScreenerError(`${key} must be a number`)
+    }
+    filters[key] = number
+  }
+
+  if (raw.maPeriod !== undefined && raw.maPeriod !== null && raw.maPeriod !== '') {
+    const period = Number(raw.maPeriod)
+    if (!MA_PERIODS.includes(period)) {
+      throw new ScreenerError(`maPeriod must be one of ${MA_PERIODS.join(', ')}`)
+    }
+    filters.maPeriod = period
+  }
+
+  for (const key of ['sectors', 'industries'] as const) {
+    const value = raw[key]
+    if (value === undefined || value === null) continue
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+      throw new ScreenerError(`${key} must be a list of names`)
+    }
+    if (value.length > 0) filters[key] = value
+  }
+
+  if (raw.recommendations !== undefined && raw.recommendations !== null) {
+    const value = raw.recommendations
+    if (!Array.isArray(value) || value.some(item => !RECOMMENDATIONS.includes(item))) {
+      throw new ScreenerError('Recommendations must be BUY, SELL or HOLD')
+    }
+    if (value.length > 0) filters.recommendations = value
+  }
+
+  if (filters.minRsi !== undefined && (filters.minRsi < 0 || filters.minRsi > 100) ||
+      filters.maxRsi !== undefined && (filters.maxRsi < 0 || filters.maxRsi > 100)) {
+    throw new ScreenerError('RSI bounds must be between 0 and 100')
+  }
+
+  return filters
+}
+
+const inRange = (value: number | null, min?: number, max?: number) => {
+  if (min === undefined && max === undefined) return true
+  if (value === null) return false
+  return (min === undefined || value >= min) && (max === undefined || value <= max)
+}
+
+/**
+ * Filters the known Asset universe. Quote fields come from each asset's latest AssetPrice,
+ * technicals from its stored daily candles (assets without enough history fail technical filters),
+ * and the recommendation from its latest Analysis.
+ */
+export class Screener {
+  private static instance: Screener
+
+  static getInstance(): Screener {
+    if (!Screener.instance) {
+      Screener.instance = new Screener()
+    }
+    return Screener.instance
+  }
+
+  async run(filters: ScreenerFilters, options: ScreenerOptions = {}): Promise<{ results: ScreenerResult[]; total: number }> {
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT)
+    const maPeriod = filters.maPeriod ?? DEFAULT_MA_PERIOD
+
+    const assets = await prisma.asset.findMany({
+      where: {
+        isActive: true,
+        ...(filters.type && { type: filters.type }),
+        ...(filters.sectors && { sector: { in: filters.sectors } }),
+        ...(filters.industries && { industry: { in: filters.industries } })
+      },
+      include: {
+        prices: { orderBy: { timestamp: 'desc' }, take: 1 },
+        analyses: { orderBy: { generatedAt: 'desc' }, take: 1 }
+      }
+    })
+
+    // Cheap quote and analysis filters first, so candles are only loaded for the survivors
+    const candidates = assets
+      .map(asset => {
+        const price = asset.prices[0]
+        const analysis = asset.analyses[0]
+        return {
+          asset,
+          result: {
+            symbol: asset.symbol,
+            name: asset.name,
+            type: asset.type,
+            exchange: asset.exchange,
+            sector: asset.sector,
+            industry: asset.industry,
+            price: price?.price ?? null,
+            changePercent: price?.changePercent ?? null,
+            volume: price?.volume !== null && price?.volume !== undefined ? Number(price.volume) : null,
+            marketCap: price?.marketCap ?? null,
+            priceUpdatedAt: price?.timestamp ?? null,
+            rsi: null,
+            maDistancePercent: null,
+            recommendation: analysis?.recommendation ?? null,
+            confidence: analysis?.confidence ?? null,
+            analyzedAt: analysis?.generatedAt ?? null
+          } as ScreenerResult
+        }
+      })
+      .filter(({ result }) =>
+        inRange(result.price, filters.minPrice, filters.maxPrice) &&
+        inRange(result.changePercent, filters.minChangePercent, filters.maxChangePercent) &&
+        inRange(result.volume, filters.minVolume) &&
+        inRange(result.marketCap, filters.minMarketCap, filters.maxMarketCap) &&
+        inRange(result.confidence, filters.minConfidence) &&
+        (!filters.recommendations || (result.recommendation !== null && filters.recommendations.includes(result.recommendation as 'BUY' | 'SELL' | 'HOLD')))
+      )
+
+    await this.addTechnicals(candidates, maPeriod)
+
+    const results = candidates
+      .map(({ result }) => result)
+      .filter(result =>
+        inRange(result.rsi, filters.minRsi, filters.maxRsi) &&
+        inRange(result.maDistancePercent, filters.minMaDistancePercent, filters.maxMaDistancePercent)
+      )
+
+    this.sort(results, options.sortBy ?? 'changePercent', options.sortDirection ?? 'desc')
+    return { results: results.slice(0, limit), total: results.length }
+  }
+
+  // Distinct sectors and industries across the universe, for the filter pickers
+  async getFilterOptions(): Promise<{ sectors: string[]; industries: string[] }> {
+    const [sectors, industries] = await Promise.all([
+      prisma.asset.findMany({ where: { isActive: true, sector: { not: null } }, distinct: ['sector'], select: { sector: true }, orderBy: { sector: 'asc' } }),
+      prisma.asset.findMany({ where: { isActive: true, industry: { not: null } }, distinct: ['industry'], select: { industry: true }, orderBy: { industry: 'asc' } })
+    ])
+
+    return {
+      sectors: sectors.map(asset => asset.sector!),
+      industries: industries.map(asset => asset.industry!)
+    }
+  }
+
+  private async addTechnicals(candidates: Array<{ asset: { id: string }; result: ScreenerResult }>, maPeriod: number) {
+    if (candidates.length === 0) return
+
+    // Calendar days covering the longest lookback in trading days, with room for holidays
+    const since = new Date(Date.now() - Math.ceil(Math.max(maPeriod, RSI_PERIOD * 3) * 1.5 + 10) * DAY_MS)
+    const candles = await prisma.candle.findMany({
+      where: {
+        assetId: { in: candidates.map(candidate => candidate.asset.id) },
+        resolution: '1d',
+        timestamp: { gte: since }
+      },
+      select: { assetId: true, close: true },
+      orderBy: { timestamp: 'asc' }
+    })
+
+    const closesByAsset = new Map<string, number[]>()
+    for (const candle of candles) {
+      const closes = closesByAsset.get(candle.assetId) || []
+      closes.push(candle.close)
+      closesByAsset.set(candle.assetId, closes)
+    }
+
+    for (const { asset, result } of candidates) {
+      const closes = closesByAsset.get(asset.id)
+      if (!closes) continue
+
+      // The latest quote is more current than the last stored close
+      if (result.price !== null) closes.push(result.price)
+
+      result.rsi = latest(rsi(closes, RSI_PERIOD))
+      const movingAverage = latest(sma(closes, maPeriod))
+      const price = closes[closes.length - 1]
+      result.maDistancePercent = movingAverage ? (price - movingAverage) / movingAverage * 100 : null
+    }
+  }
+
+  private sort(results: ScreenerResult[], sortBy: ScreenerSortField, direction: 'asc' | 'desc') {
+    const factor = direction === 'asc' ? 1 : -1
+
+    results.sort((a, b) => {
+      const left = a[sortBy]
+      const right = b[sortBy]
+      // Missing values always sink to the bottom
+      if (left === null && right === null) return 0
+      if (left === null) return 1
+      if (right === null) return -1
+      if (typeof left === 'string' || typeof right === 'string') {
+        return String(left).localeCompare(String(right)) * factor
+      }
+      return (left - right) * factor
+    })
+  }
+}
+
+export const screener = Screener.getInstance()
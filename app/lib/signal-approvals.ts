@@ -0,0 +1,219 @@
+import { prisma } from '@/lib/db'
+import { marketDataService } from '@/lib/market-data'
+import { automationEngine, type AutomationSignal } from '@/lib/automation-engine'
+import { TradeExecutionError } from '@/lib/trade-executor'
+
+export type PendingSignalStatus = 'PENDING' | 'EXECUTED' | 'REJECTED' | 'EXPIRED' | 'FAILED'
+
+export class SignalApprovalError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'SignalApprovalError'
+  }
+}
+
+export const PENDING_SIGNAL_STATUSES: PendingSignalStatus[] = ['PENDING', 'EXECUTED', 'REJECTED', 'EXPIRED', 'FAILED']
+
+const USER_SETTINGS_SELECT = {
+  id: true,
+  maxTradeAmountAuto: true,
+  maxTradesPerDay: true,
+  stopLossPercent: true,
+  takeProfitPercent: true,
+  tradingMode: true,
+  riskTolerance: true
+} as const
+
+/**
+ * Inbox for signals raised while manual confirmation is on. The automation engine queues them;
+ * approving one executes it through the same path as a fully automated signal.
+ */
+export class SignalApprovalQueue {
+  private static instance: SignalApprovalQueue
+
+  static getInstance(): SignalApprovalQueue {
+    if (!SignalApprovalQueue.instance) {
+      SignalApprovalQueue.instance = new SignalApprovalQueue()
+    }
+    return SignalApprovalQueue.instance
+  }
+
+  async list(userId: string, status: PendingSignalStatus = 'PENDING', limit: number = 50) {
+    await this.expireStale(userId)
+
+    return prisma.pendingSignal.findMany({
+      where: { userId, status },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+  }
+
+  async updateAmount(userId: string, id: string, amount: number) {
+    const signal = await this.getPending(userId, id)
+    const user = await this.getUserSettings(userId)
+    await this.validateAmount(signal, user, amount)
+
+    return prisma.pendingSignal.update({
+      where: { id: signal.id },
+      data: { approvedAmount: amount }
+    })
+  }
+
+  async approve(userId: string, id: string, amount?: number) {
+    const signal = await this.getPending(userId, id)
+    const tradeAmount = amount ?? signal.approvedAmount ?? signal.suggestedAmount
+    const user = await this.getUserSettings(userId)
+    await this.validateAmount(signal, user, tradeAmount)
+
+    // Claim the signal first so a double submit cannot trade it twice
+    const { count } = await prisma.pendingSignal.updateMany({
+      where: { id: signal.id, status: 'PENDING' },
+      data: { status: 'EXECUTED', approvedAmount: tradeAmount, decidedAt: new Date() }
+    })
+    if (count === 0) {
+      throw new SignalApprovalError('Signal has already been decided', 409)
+    }
+
+    // Size against the current price rather than the price when the signal was raised
+    const assetData = await marketDataService.getAssetDetails(signal.symbol)
+    const automationSignal: AutomationSignal = {
+      assetId: signal.assetId,
+      symbol: signal.symbol,
+      action: signal.action as 'BUY' | 'SELL',
+      confidence: signal.confidence,
+      priceTarget: signal.priceTarget ?? undefined,
+      currentPrice: assetData?.price ?? signal.signalPrice,
+      recommendation: signal.action,
+      analysis: signal.analysisSnapshot,
+      userId
+    }
+
+    let execution
+    try {
+      execution = await automationEngine.tradeSignal(automationSignal, tradeAmount, user, { pendingSignalId: signal.id })
+    } catch (error) {
+      // A risk rejection leaves the signal open, so it can be resized and approved again
+      if (error instanceof TradeExecutionError && error.violations) {
+        await prisma.pendingSignal.update({
+          where: { id: signal.id },
+          data: { status: 'PENDING', decidedAt: null }
+        })
+        throw error
+      }
+
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      await prisma.pendingSignal.update({
+        where: { id: signal.id },
+        data: { status: 'FAILED', error: message }
+      })
+      await this.logDecision(userId, 'AUTOMATION_ERROR', `Approved ${signal.action} signal for ${signal.symbol} failed to execute`, {
+        pendingSignalId: signal.id,
+        amount: tradeAmount,
+        error: message
+      })
+      throw error
+    }
+
+    // Recorded before the bracket is placed, so a bracket failure cannot lose the trade
+    await prisma.pendingSignal.update({
+      where: { id: signal.id },
+      data: { tradeId: execution.trade.id }
+    })
+    await this.logDecision(userId, 'SIGNAL_APPROVED', `Approved ${signal.action} signal for ${signal.symbol}`, {
+      pendingSignalId: signal.id,
+      amount: tradeAmount,
+      suggestedAmount: signal.suggestedAmount,
+      tradeId: execution.trade.id
+    })
+
+    // The signal stays EXECUTED; the error only reports the missing stop-loss and take-profit
+    const bracketError = await automationEngine.protectExecution(automationSignal, user, execution)
+    return prisma.pendingSignal.update({
+      where: { id: signal.id },
+      data: { error: bracketError ? `Trade executed, but its bracket could not be placed: ${bracketError}` : null }
+    })
+  }
+
+  async reject(userId: string, id: string, reason?: string) {
+    const signal = await this.getPending(userId, id)
+
+    const { count } = await prisma.pendingSignal.updateMany({
+      where: { id: signal.id, status: 'PENDING' },
+      data: { status: 'REJECTED', decidedAt: new Date(), error: reason || null }
+    })
+    if (count === 0) {
+      throw new SignalApprovalError('Signal has already been decided', 409)
+    }
+
+    await this.logDecision(userId, 'SIGNAL_REJECTED', `Rejected ${signal.action} signal for ${signal.symbol}`, {
+      pendingSignalId: signal.id,
+      reason: reason || null
+    })
+
+    return prisma.pendingSignal.findUnique({ where: { id: signal.id } })
+  }
+
+  private async getPending(userId: string, id: string) {
+    await this.expireStale(userId)
+
+    const signal = await prisma.pendingSignal.findFirst({ where: { id, userId } })
+    if (!signal) {
+      throw new SignalApprovalError('Signal not found', 404)
+    }
+    if (signal.status !== 'PENDING') {
+      throw new SignalApprovalError(`Signal is ${signal.status.toLowerCase()}`, 409)
+    }
+    return signal
+  }
+
+  private async getUserSettings(userId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: USER_SETTINGS_SELECT })
+    if (!user) {
+      throw new SignalApprovalError('User not found', 404)
+    }
+    return user
+  }
+
+  // Resizing is bounded by the automation trade cap and, for buys, the cash of the portfolio it trades in
+  private async validateAmount(
+    signal: { userId: string; action: string; suggestedAmount: number },
+    user: { maxTradeAmountAuto: number; tradingMode: string },
+    amount: number
+  ) {
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new SignalApprovalError('Amount must be positive')
+    }
+
+    const maxAmount = Math.max(user.maxTradeAmountAuto, signal.suggestedAmount)
+    if (amount > maxAmount) {
+      throw new SignalApprovalError(`Amount cannot exceed the automated trade limit of $${maxAmount.toFixed(2)}`)
+    }
+
+    if (signal.action === 'BUY') {
+      const portfolio = await prisma.portfolio.findFirst({
+        where: { userId: signal.userId, type: user.tradingMode === 'PAPER' ? 'SIMULATED' : 'LIVE', isActive: true },
+        orderBy: { createdAt: 'asc' },
+        select: { balance: true }
+      })
+      if (portfolio && amount > portfolio.balance) {
+        throw new SignalApprovalError(`Amount exceeds the available cash of $${portfolio.balance.toFixed(2)}`)
+      }
+    }
+  }
+
+  // Expiry is applied lazily whenever the inbox is read or acted on
+  private async expireStale(userId: string) {
+    await prisma.pendingSignal.updateMany({
+      where: { userId, status: 'PENDING', expiresAt: { lt: new Date() } },
+      data: { status: 'EXPIRED' }
+    })
+  }
+
+  private async logDecision(userId: string, type: string, description: string, metadata: Record<string, any>) {
+    await prisma.activity.create({
+      data: { userId, type, description, metadata }
+    })
+  }
+}
+
+export const signalApprovalQueue = SignalApprovalQueue.getInstance()
@@ -0,0 +1,77 @@
+// Tax lot selection and holding-period helpers shared by the portfolio ledger and reporting routes
+
+export type CostBasisMethod = 'FIFO' | 'LIFO' | 'HIFO' | 'SPECIFIC_LOT'
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = ['FIFO', 'LIFO', 'HIFO', 'SPECIFIC_LOT']
+
+export interface OpenLot {
+  id: string
+  remainingQuantity: number
+  costPerShare: number
+  acquiredAt: Date
+}
+
+export interface LotAllocation<T extends OpenLot = OpenLot> {
+  lot: T
+  quantity: number
+}
+
+export class LotSelectionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LotSelectionError'
+  }
+}
+
+// Returns the lots in the order they should be relieved for the given method; a specific-lot selection
+// naming a lot twice or a lot that is not open throws LotSelectionError
+export function orderLotsForSale<T extends OpenLot>(lots: T[], method: CostBasisMethod, lotIds?: string[]): T[] {
+  switch (method) {
+    case 'LIFO':
+      return [...lots].sort((a, b) => b.acquiredAt.getTime() - a.acquiredAt.getTime())
+    case 'HIFO':
+      return [...lots].sort((a, b) => b.costPerShare - a.costPerShare)
+    case 'SPECIFIC_LOT':
+      // Without an explicit selection, specific-lot accounting falls back to FIFO
+      if (!lotIds?.length) return orderLotsForSale(lots, 'FIFO')
+      // A lot listed twice would be relieved twice from the same remaining quantity
+      if (new Set(lotIds).size !== lotIds.length) {
+        throw new LotSelectionError('Each lot can only be selected once')
+      }
+      return lotIds.map(id => {
+        const lot = lots.find(candidate => candidate.id === id)
+        if (!lot) throw new LotSelectionError('Selected lot is not an open lot of this position')
+        return lot
+      })
+    case 'FIFO':
+    default:
+      return [...lots].sort((a, b) => a.acquiredAt.getTime() - b.acquiredAt.getTime())
+  }
+}
+
+// Walks the ordered lots until the sell quantity is covered; returns null when the lots fall short
+export function allocateLots<T extends OpenLot>(orderedLots: T[], quantity: number, epsilon: number = 1e-9): LotAllocation<T>[] | null {
+  const allocations: LotAllocation<T>[] = []
+  let remaining = quantity
+
+  for (const lot of orderedLots) {
+    if (remaining <= epsilon) break
+    const take = Math.min(lot.remainingQuantity, remaining)
+    if (take <= 0) continue
+    allocations.push({ lot, quantity: take })
+    remaining -= take
+  }
+
+  return remaining > epsilon ? null : allocations
+}
+
+// Long-term treatment requires holding for more than one year
+export function getHoldingTerm(acquiredAt: Date, soldAt: Date): { term: 'SHORT_TERM' | 'LONG_TERM'; holdingPeriodDays: number } {
+  const oneYearLater = new Date(acquiredAt)
+  oneYearLater.setFullYear(oneYearLater.getFullYear() + 1)
+
+  return {
+    term: soldAt.getTime() > oneYearLater.getTime() ? 'LONG_TERM' : 'SHORT_TERM',
+    holdingPeriodDays: Math.floor((soldAt.getTime() - acquiredAt.getTime()) / (24 * 60 * 60 * 1000))
+  }
+}
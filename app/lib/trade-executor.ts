@@ -0,0 +1,155 @@
+import { prisma } from '@/lib/db'
+import { marketDataService } from '@/lib/market-data'
+import { portfolioLedger, LedgerError } from '@/lib/portfolio-ledger'
+import { liveTrading } from '@/lib/live-trading'
+import { BrokerError } from '@/lib/brokers'
+import { riskEngine, type OrderSource, type PreTradeCheck, type RiskViolation } from '@/lib/risk-engine'
+
+export interface TradeRequest {
+  userId: string
+  portfolioId: string
+  symbol: string
+  type: 'BUY' | 'SELL'
+  quantity: number
+  // Fill an existing PENDING order row instead of recording a new market trade
+  pendingTradeId?: string
+  // Lots to relieve, in order, for specific-lot sells
+  lotIds?: string[]
+  // Automated orders are also held to the user's daily trade cap
+  source?: OrderSource
+  activityType?: string
+  activityDescription?: string
+  activityMetadata?: Record<string, any>
+}
+
+export class TradeExecutionError extends Error {
+  // Set when the order breached pre-trade risk limits, one entry per limit
+  constructor(message: string, public status: number = 400, public violations?: RiskViolation[]) {
+    super(message)
+    this.name = 'TradeExecutionError'
+  }
+}
+
+// Shared market-order entry point: prices the order, then books the fill through the portfolio ledger or the broker
+export class TradeExecutor {
+  private static instance: TradeExecutor
+
+  static getInstance(): TradeExecutor {
+    if (!TradeExecutor.instance) {
+      TradeExecutor.instance = new TradeExecutor()
+    }
+    return TradeExecutor.instance
+  }
+
+  async executeTrade(request: TradeRequest) {
+    const { userId, portfolioId, type, quantity } = request
+    const symbol = request.symbol.toUpperCase()
+
+    if (type !== 'BUY' && type !== 'SELL') {
+      throw new TradeExecutionError('Invalid trade type')
+    }
+
+    if (!quantity || quantity <= 0) {
+      throw new TradeExecutionError('Quantity must be positive')
+    }
+
+    // Verify portfolio ownership
+    const portfolio = await prisma.portfolio.findFirst({
+      where: {
+        id: portfolioId,
+        userId
+      }
+    })
+
+    if (!portfolio) {
+      throw new TradeExecutionError('Portfolio not found', 404)
+    }
+
+    if (!portfolio.isActive) {
+      throw new TradeExecutionError('Portfolio is archived')
+    }
+
+    // Get current market price
+    const assetData = await marketDataService.getAssetDetails(symbol)
+    if (!assetData) {
+      throw new TradeExecutionError('Asset not found', 404)
+    }
+
+    const price = assetData.price
+    const fees = quantity * price * 0.001 // 0.1% fee
+
+    // Find or create asset
+    let asset = await prisma.asset.findUnique({
+      where: { symbol }
+    })
+
+    if (!asset) {
+      asset = await prisma.asset.create({
+        data: {
+          symbol,
+          name: assetData.name,
+          type: assetData.type,
+          exchange: assetData.exchange
+        }
+      })
+    }
+
+    await this.assertWithinRiskLimits({ userId, portfolioId, symbol, type, quantity, price, source: request.source })
+
+    try {
+      // Live portfolios route to the broker; the trade stays PENDING if it has not filled yet
+      if (portfolio.type === 'LIVE') {
+        const { trade, portfolioItem, realizedPnL } = await liveTrading.submitOrder({
+          userId,
+          portfolioId,
+          assetId: asset.id,
+          symbol,
+          type,
+          quantity,
+          orderType: 'MARKET',
+          timeInForce: 'DAY',
+          referencePrice: price,
+          activityType: request.activityType,
+          activityDescription: request.activityDescription,
+          activityMetadata: request.activityMetadata
+        })
+
+        return { trade, asset, portfolioItem, realizedPnL }
+      }
+
+      const { trade, portfolioItem, realizedPnL } = await portfolioLedger.recordFill({
+        userId,
+        portfolioId,
+        assetId: asset.id,
+        symbol,
+        type,
+        quantity,
+        price,
+        fees,
+        isSimulated: portfolio.type === 'SIMULATED',
+        pendingTradeId: request.pendingTradeId,
+        lotIds: request.lotIds,
+        activityType: request.activityType || 'TRADE',
+        activityDescription: request.activityDescription || `${type} ${quantity} shares of ${symbol} at $${price}`,
+        activityMetadata: request.activityMetadata
+      })
+
+      return { trade, asset, portfolioItem, realizedPnL }
+    } catch (error) {
+      if (error instanceof LedgerError || error instanceof BrokerError) {
+        throw new TradeExecutionError(error.message, error.status)
+      }
+      throw error
+    }
+  }
+
+  // Rejects the order with every breached pre-trade risk limit, so the client can list them
+  async assertWithinRiskLimits(check: PreTradeCheck) {
+    const violations = await riskEngine.check(check)
+    if (violations.length > 0) {
+      throw new TradeExecutionError(violations.map(violation => violation.message).join(' '), 422, violations)
+    }
+  }
+}
+
+export const tradeExecutor = TradeExecutor.getInstance()
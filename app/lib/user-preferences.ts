@@ -0,0 +1,51 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+
+// User.preferences is one JSON document in which each settings area owns a top-level namespace.
+// Owners normalize their namespace on every read, so stored values survive fields being added or removed.
+
+const MAX_SERIALIZATION_RETRIES = 3
+
+export function readPreferenceNamespace(preferences: Prisma.JsonValue | null, namespace: string): unknown {
+  return preferences && typeof preferences === 'object' && !Array.isArray(preferences)
+    ? preferences[namespace]
+    : undefined
+}
+
+/**
+ * Replaces one namespace with what `update` derives from its current value and leaves the others alone.
+ * Serializable, so concurrent saves of this or another namespace cannot overwrite each other.
+ * Resolves to null when no user has the email.
+ */
+export async function updatePreferenceNamespace<T>(
+  email: string,
+  namespace: string,
+  update: (current: unknown) => T
+): Promise<T | null> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(async tx => {
+        const user = await tx.user.findUnique({
+          where: { email },
+          select: { preferences: true }
+        })
+        if (!user) return null
+
+        const preferences = user.preferences && typeof user.preferences === 'object' && !Array.isArray(user.preferences)
+          ? user.preferences
+          : {}
+        const value = update(preferences[namespace])
+
+        await tx.user.update({
+          where: { email },
+          data: { preferences: { ...preferences, [namespace]: value } as unknown as Prisma.InputJsonValue }
+        })
+        return value
+      }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable })
+    } catch (error) {
+      // Another save touched the same row first; replay against its result
+      const isConflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034'
+      if (!isConflict || attempt >= MAX_SERIALIZATION_RETRIES) throw error
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import dns from 'dns'
+import { BlockList, isIP, type LookupFunction } from 'net'
+
+// Webhook targets are user supplied, so the server must never be pointed at itself or its network
+
+export class WebhookUrlError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'WebhookUrlError'
+  }
+}
+
+const blocked = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including cloud metadata at 169.254.169.254
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3] // multicast and reserved, through 255.255.255.255
+] as const) {
+  blocked.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64 embeds an IPv4 address
+  ['fc00::', 7], // unique local, including fd00:ec2::254 metadata
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  blocked.addSubnet(network, prefix, 'ipv6')
+}
+
+// IPv4-mapped IPv6 (::ffff:a.b.c.d or ::ffff:xxxx:xxxx) is checked as the IPv4 address it carries
+function mappedIPv4(address: string): string | null {
+  const match = address.toLowerCase().match(/^(?:0{0,4}:){0,5}:?ffff:(.+)$/)
+  if (!match) return null
+  if (isIP(match[1]) === 4) return match[1]
+
+  const groups = match[1].split(':')
+  if (groups.length !== 2) return null
+  const value = (parseInt(groups[0], 16) << 16 | parseInt(groups[1], 16)) >>> 0
+  return [24, 16, 8, 0].map(shift => (value >>> shift) & 255).join('.')
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address)
+  if (family === 4) return !blocked.check(address, 'ipv4')
+  if (family === 6) {
+    const mapped = mappedIPv4(address)
+    return mapped ? !blocked.check(mapped, 'ipv4') : !blocked.check(address, 'ipv6')
+  }
+  return false
+}
+
+// Syntax only: http(s) with a host and no embedded credentials
+export function parseWebhookUrl(value: string): URL {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    throw new WebhookUrlError('Webhook URL must be an http or https URL')
+  }
+  if ((url.protocol !== 'https:' && url.protocol !== 'http:') || !url.hostname) {
+    throw new WebhookUrlError('Webhook URL must be an http or https URL')
+  }
+  if (url.username || url.password) {
+    throw new WebhookUrlError('Webhook URL must not contain credentials')
+  }
+  return url
+}
+
+/**
+ * Resolves the URL's host and rejects it unless every address it resolves to is public. Checked when
+ * the URL is saved and again before each send; `publicOnlyLookup` repeats the check at connect time.
+ */
+export async function assertPublicWebhookUrl(value: string): Promise<URL> {
+  const url = parseWebhookUrl(value)
+  const hostname = url.hostname.replace(/^\[|\]$/g, '')
+
+  let addresses: dns.LookupAddress[]
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true })
+  } catch {
+    throw new WebhookUrlError('Webhook URL host could not be resolved')
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+    throw new WebhookUrlError('Webhook URL must point to a public address')
+  }
+  return url
+}
+
+// For http(s) agents: refuses to connect when the host resolves to a non-public address, so a DNS
+// answer that changes between the check and the request cannot reach the internal network.
+// Node calls it with or without `all`, whatever the declared type says, so both shapes are answered.
+export const publicOnlyLookup = ((
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '')
+
+    if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+      return callback(new WebhookUrlError('Webhook URL must point to a public address'), '')
+    }
+
+    if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  })
+}) as LookupFunction
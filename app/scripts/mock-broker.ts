@@ -0,0 +1,345 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'http'
+import { randomUUID } from 'crypto'
+
+/**
+ * In-memory stand-in for the subset of the Alpaca trading API the broker adapter uses,
+ * so live trading can be exercised without network access or a brokerage account.
+ *
+ *   MOCK_BROKER_PORT=4010 MOCK_BROKER_PRICES=AAPL=190,BTC=65000 npx tsx scripts/mock-broker.ts
+ *   ALPACA_TRADE_BASE_URL=http://localhost:4010 ALPACA_API_KEY_ID=mock ALPACA_API_SECRET_KEY=mock npm run dev
+ *
+ * Market orders fill at the current mock price. Limit and stop orders rest until a price update
+ * crosses them: POST /mock/prices {"AAPL": 185}. POST /mock/reset restores the starting state.
+ */
+
+interface MockOrder {
+  id: string
+  client_order_id: string
+  symbol: string
+  asset_class: 'us_equity' | 'crypto'
+  qty: number
+  filled_qty: number
+  filled_avg_price: number | null
+  side: 'buy' | 'sell'
+  type: 'market' | 'limit' | 'stop' | 'stop_limit'
+  time_in_force: string
+  limit_price: number | null
+  stop_price: number | null
+  stop_triggered: boolean
+  status: 'new' | 'filled' | 'canceled' | 'rejected'
+  created_at: string
+  submitted_at: string
+  updated_at: string
+  filled_at: string | null
+  canceled_at: string | null
+}
+
+interface MockFill {
+  id: string
+  activity_type: 'FILL'
+  transaction_time: string
+  type: 'fill'
+  price: string
+  qty: string
+  side: 'buy' | 'sell'
+  symbol: string
+  order_id: string
+  cum_qty: string
+  leaves_qty: string
+}
+
+const PORT = parseInt(process.env.MOCK_BROKER_PORT || '4010')
+const STARTING_CASH = parseFloat(process.env.MOCK_BROKER_CASH || '100000')
+const DEFAULT_PRICE = 100
+
+const parsePrices = (value: string | undefined) => new Map(
+  (value || '')
+    .split(',')
+    .map(entry => entry.split('='))
+    .filter(([symbol, price]) => symbol && parseFloat(price) > 0)
+    .map(([symbol, price]) => [symbol.trim().toUpperCase(), parseFloat(price)])
+)
+
+let cash = STARTING_CASH
+let prices = parsePrices(process.env.MOCK_BROKER_PRICES)
+let orders: MockOrder[] = []
+let fills: MockFill[] = []
+let positions = new Map<string, { qty: number; cost: number; assetClass: MockOrder['asset_class'] }>()
+
+class MockBrokerError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+// Crypto is traded as BTC/USD but priced by the bare coin symbol
+const baseSymbol = (symbol: string) => symbol.split('/')[0]
+const priceOf = (symbol: string) => prices.get(symbol) ?? prices.get(baseSymbol(symbol)) ?? DEFAULT_PRICE
+
+function serializeOrder(order: MockOrder) {
+  return {
+    ...order,
+    order_type: order.type,
+    qty: String(order.qty),
+    filled_qty: String(order.filled_qty),
+    filled_avg_price: order.filled_avg_price === null ? null : String(order.filled_avg_price),
+    limit_price: order.limit_price === null ? null : String(order.limit_price),
+    stop_price: order.stop_price === null ? null : String(order.stop_price)
+  }
+}
+
+function isMarketable(order: MockOrder, price: number): boolean {
+  if ((order.type === 'stop' || order.type === 'stop_limit') && !order.stop_triggered) {
+    order.stop_triggered = order.side === 'buy' ? price >= order.stop_price! : price <= order.stop_price!
+    if (!order.stop_triggered) return false
+  }
+  if (order.type === 'limit' || order.type === 'stop_limit') {
+    return order.side === 'buy' ? price <= order.limit_price! : price >= order.limit_price!
+  }
+  return true
+}
+
+function fill(order: MockOrder, price: number) {
+  const now = new Date().toISOString()
+  const position = positions.get(order.symbol) || { qty: 0, cost: 0, assetClass: order.asset_class }
+
+  if (order.side === 'buy') {
+    cash -= order.qty * price
+    position.qty += order.qty
+    position.cost += order.qty * price
+  } else {
+    cash += order.qty * price
+    position.cost -= position.qty > 0 ? position.cost * (order.qty / position.qty) : 0
+    position.qty -= order.qty
+  }
+  if (position.qty > 1e-9) positions.set(order.symbol, position)
+  else positions.delete(order.symbol)
+
+  Object.assign(order, { status: 'filled', filled_qty: order.qty, filled_avg_price: price, filled_at: now, updated_at: now })
+  fills.push({
+    id: `${now.replace(/\D/g, '')}::${randomUUID()}`,
+    activity_type: 'FILL',
+    transaction_time: now,
+    type: 'fill',
+    price: String(price),
+    qty: String(order.qty),
+    side: order.side,
+    symbol: order.symbol,
+    order_id: order.id,
+    cum_qty: String(order.qty),
+    leaves_qty: '0'
+  })
+}
+
+function cancel(order: MockOrder) {
+  const now = new Date().toISOString()
+  Object.assign(order, { status: 'canceled', canceled_at: now, updated_at: now })
+}
+
+function submitOrder(body: any): MockOrder {
+  const symbol = String(body.symbol || '').toUpperCase()
+  const qty = parseFloat(body.qty)
+  const side = body.side
+  const type = body.type || 'market'
+  const limitPrice = body.limit_price !== undefined ? parseFloat(body.limit_price) : null
+  const stopPrice = body.stop_price !== undefined ? parseFloat(body.stop_price) : null
+
+  if (!symbol || !(qty > 0)) throw new MockBrokerError('qty must be > 0', 422)
+  if (side !== 'buy' && side !== 'sell') throw new MockBrokerError('invalid side', 422)
+  if (!['market', 'limit', 'stop', 'stop_limit'].includes(type)) throw new MockBrokerError('invalid order type', 422)
+  if ((type === 'limit' || type === 'stop_limit') && !(limitPrice! > 0)) throw new MockBrokerError('limit_price is required', 422)
+  if ((type === 'stop' || type === 'stop_limit') && !(stopPrice! > 0)) throw new MockBrokerError('stop_price is required', 422)
+  if (body.client_order_id && orders.some(order => order.client_order_id === body.client_order_id)) {
+    throw new MockBrokerError('client_order_id must be unique', 422)
+  }
+
+  // Checked against what is not already committed to open orders, like buying power at Alpaca
+  const price = priceOf(symbol)
+  const open = orders.filter(order => order.status === 'new' && order.symbol === symbol && order.side === side)
+  if (side === 'buy') {
+    const committed = orders
+      .filter(order => order.status === 'new' && order.side === 'buy')
+      .reduce((sum, order) => sum + order.qty * (order.limit_price ?? priceOf(order.symbol)), 0)
+    if (qty * (limitPrice ?? price) > cash - committed) throw new MockBrokerError('insufficient buying power', 403)
+  } else {
+    const available = (positions.get(symbol)?.qty || 0) - open.reduce((sum, order) => sum + order.qty, 0)
+    if (qty > available + 1e-9) throw new MockBrokerError(`insufficient qty available for order (requested: ${qty}, available: ${available})`, 403)
+  }
+
+  const now = new Date().toISOString()
+  const order: MockOrder = {
+    id: randomUUID(),
+    client_order_id: body.client_order_id || randomUUID(),
+    symbol,
+    asset_class: symbol.includes('/') ? 'crypto' : 'us_equity',
+    qty,
+    filled_qty: 0,
+    filled_avg_price: null,
+    side,
+    type,
+    time_in_force: body.time_in_force || 'day',
+    limit_price: limitPrice,
+    stop_price: stopPrice,
+    stop_triggered: false,
+    status: 'new',
+    created_at: now,
+    submitted_at: now,
+    updated_at: now,
+    filled_at: null,
+    canceled_at: null
+  }
+  orders.push(order)
+
+  if (isMarketable(order, price)) {
+    fill(order, price)
+  } else if (order.time_in_force === 'ioc' || order.time_in_force === 'fok') {
+    cancel(order)
+  }
+  return order
+}
+
+function updatePrices(updates: Record<string, number>) {
+  for (const [symbol, price] of Object.entries(updates)) {
+    if (price > 0) prices.set(symbol.toUpperCase(), price)
+  }
+  for (const order of orders.filter(order => order.status === 'new')) {
+    const price = priceOf(order.symbol)
+    if (isMarketable(order, price)) fill(order, price)
+  }
+}
+
+function getAccount() {
+  const marketValue = [...positions.entries()].reduce((sum, [symbol, position]) => sum + position.qty * priceOf(symbol), 0)
+  return {
+    id: 'mock-account',
+    account_number: 'MOCK0001',
+    status: 'ACTIVE',
+    currency: 'USD',
+    cash: String(cash),
+    buying_power: String(cash),
+    equity: String(cash + marketValue),
+    portfolio_value: String(cash + marketValue)
+  }
+}
+
+function getPositions() {
+  return [...positions.entries()].map(([symbol, position]) => {
+    const price = priceOf(symbol)
+    return {
+      symbol: symbol.replace('/', ''),
+      asset_class: position.assetClass,
+      side: 'long',
+      qty: String(position.qty),
+      avg_entry_price: String(position.cost / position.qty),
+      current_price: String(price),
+      market_value: String(position.qty * price),
+      cost_basis: String(position.cost),
+      unrealized_pl: String(position.qty * price - position.cost)
+    }
+  })
+}
+
+function listOrders(query: URLSearchParams) {
+  const status = query.get('status') || 'open'
+  const after = query.get('after') ? new Date(query.get('after')!) : null
+  const limit = parseInt(query.get('limit') || '50')
+
+  return orders
+    .filter(order => status === 'all' || (status === 'open') === (order.status === 'new'))
+    .filter(order => !after || new Date(order.submitted_at) > after)
+    .slice(-limit)
+    .reverse()
+    .map(serializeOrder)
+}
+
+function findOrder(id: string): MockOrder {
+  const order = orders.find(order => order.id === id)
+  if (!order) throw new MockBrokerError('order not found', 404)
+  return order
+}
+
+async function readBody(request: IncomingMessage): Promise<any> {
+  let raw = ''
+  for await (const chunk of request) raw += chunk
+  if (!raw) return {}
+  try {
+    return JSON.parse(raw)
+  } catch {
+    throw new MockBrokerError('request body format is invalid', 400)
+  }
+}
+
+function send(response: ServerResponse, status: number, body?: unknown) {
+  response.writeHead(status, { 'Content-Type': 'application/json' })
+  response.end(body === undefined ? undefined : JSON.stringify(body))
+}
+
+async function handle(request: IncomingMessage, response: ServerResponse) {
+  const url = new URL(request.url || '/', `http://localhost:${PORT}`)
+  const method = request.method || 'GET'
+  const path = url.pathname.replace(/\/+$/, '')
+
+  if (path.startsWith('/mock')) {
+    if (method === 'POST' && path === '/mock/prices') {
+      updatePrices(await readBody(request))
+      return send(response, 200, Object.fromEntries(prices))
+    }
+    if (method === 'POST' && path === '/mock/reset') {
+      cash = STARTING_CASH
+      prices = parsePrices(process.env.MOCK_BROKER_PRICES)
+      orders = []
+      fills = []
+      positions = new Map()
+      return send(response, 200, { reset: true })
+    }
+    if (method === 'GET' && path === '/mock/state') {
+      return send(response, 200, { account: getAccount(), positions: getPositions(), orders: orders.map(serializeOrder), fills, prices: Object.fromEntries(prices) })
+    }
+    throw new MockBrokerError('not found', 404)
+  }
+
+  if (!request.headers['apca-api-key-id'] || !request.headers['apca-api-secret-key']) {
+    throw new MockBrokerError('access key verification failed', 401)
+  }
+
+  if (method === 'GET' && path === '/v2/account') return send(response, 200, getAccount())
+  if (method === 'GET' && path === '/v2/positions') return send(response, 200, getPositions())
+  if (method === 'GET' && path === '/v2/orders') return send(response, 200, listOrders(url.searchParams))
+  if (method === 'POST' && path === '/v2/orders') return send(response, 200, serializeOrder(submitOrder(await readBody(request))))
+
+  if (method === 'GET' && path === '/v2/account/activities/FILL') {
+    const after = url.searchParams.get('after') ? new Date(url.searchParams.get('after')!) : null
+    return send(response, 200, fills.filter(fill => !after || new Date(fill.transaction_time) > after).reverse())
+  }
+
+  const orderMatch = path.match(/^\/v2\/orders\/([^/]+)$/)
+  if (orderMatch) {
+    const order = findOrder(decodeURIComponent(orderMatch[1]))
+    if (method === 'GET') return send(response, 200, serializeOrder(order))
+    if (method === 'DELETE') {
+      if (order.status !== 'new') throw new MockBrokerError(`order is already in "${order.status}" state`, 422)
+      cancel(order)
+      return send(response, 204)
+    }
+  }
+
+  throw new MockBrokerError('endpoint not found', 404)
+}
+
+const server = createServer((request, response) => {
+  handle(request, response).catch(error => {
+    if (error instanceof MockBrokerError) {
+      send(response, error.status, { code: error.status * 10000, message: error.message })
+      return
+    }
+    console.error('Mock broker request failed:', error)
+    send(response, 500, { message: 'internal server error' })
+  })
+})
+
+server.listen(PORT, () => {
+  console.log(`Mock broker listening on http://localhost:${PORT} with $${STARTING_CASH} cash`)
+})
+
+process.on('SIGINT', () => server.close(() => process.exit(0)))
+process.on('SIGTERM', () => server.close(() => process.exit(0)))
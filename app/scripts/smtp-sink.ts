@@ -0,0 +1,132 @@
+import { createServer, type Socket } from 'net'
+import { mkdirSync, writeFileSync } from 'fs'
+import { join } from 'path'
+
+/**
+ * Minimal local SMTP server that accepts every message and prints it, so email notifications
+ * can be tested without a mail provider. It accepts any AUTH credentials and offers no TLS.
+ *
+ *   SMTP_SINK_PORT=1025 npx tsx scripts/smtp-sink.ts
+ *   SMTP_HOST=localhost SMTP_PORT=1025 npm run dev
+ *
+ * Set SMTP_SINK_DIR to also write each message to <dir>/<timestamp>.eml.
+ */
+
+const PORT = parseInt(process.env.SMTP_SINK_PORT || '1025')
+const OUTPUT_DIR = process.env.SMTP_SINK_DIR
+
+interface Envelope {
+  from: string | null
+  to: string[]
+}
+
+let received = 0
+
+function deliver(envelope: Envelope, data: string) {
+  received++
+  console.log(`\n--- Message ${received} from ${envelope.from} to ${envelope.to.join(', ')} ---`)
+  console.log(data)
+
+  if (OUTPUT_DIR) {
+    mkdirSync(OUTPUT_DIR, { recursive: true })
+    writeFileSync(join(OUTPUT_DIR, `${Date.now()}-${received}.eml`), data)
+  }
+}
+
+function handleConnection(socket: Socket) {
+  let envelope: Envelope = { from: null, to: [] }
+  let buffer = ''
+  let dataLines: string[] | null = null
+  // Number of AUTH LOGIN credential lines still expected
+  let pendingAuthLines = 0
+
+  const reply = (line: string) => socket.write(`${line}\r\n`)
+
+  const handleCommand = (line: string) => {
+    if (pendingAuthLines > 0) {
+      pendingAuthLines--
+      return reply(pendingAuthLines > 0 ? '334 UGFzc3dvcmQ6' : '235 Authentication successful')
+    }
+
+    const [verb, ...rest] = line.split(' ')
+    const argument = rest.join(' ')
+
+    switch (verb.toUpperCase()) {
+      case 'EHLO':
+        socket.write(`250-localhost\r\n250-AUTH PLAIN LOGIN\r\n250-8BITMIME\r\n250 SMTPUTF8\r\n`)
+        return
+      case 'HELO':
+        return reply('250 localhost')
+      case 'AUTH':
+        if (argument.toUpperCase().startsWith('LOGIN')) {
+          pendingAuthLines = argument.split(' ').length > 1 ? 1 : 2
+          return reply(pendingAuthLines === 2 ? '334 VXNlcm5hbWU6' : '334 UGFzc3dvcmQ6')
+        }
+        if (argument.toUpperCase() === 'PLAIN') {
+          pendingAuthLines = 1
+          return reply('334 ')
+        }
+        return reply('235 Authentication successful')
+      case 'MAIL':
+        envelope = { from: argument.replace(/^FROM:\s*/i, '').split(' ')[0], to: [] }
+        return reply('250 OK')
+      case 'RCPT':
+        envelope.to.push(argument.replace(/^TO:\s*/i, '').split(' ')[0])
+        return reply('250 OK')
+      case 'DATA':
+        if (envelope.to.length === 0) return reply('503 No recipients')
+        dataLines = []
+        return reply('354 End data with <CR><LF>.<CR><LF>')
+      case 'RSET':
+        envelope = { from: null, to: [] }
+        return reply('250 OK')
+      case 'NOOP':
+        return reply('250 OK')
+      case 'QUIT':
+        reply('221 Bye')
+        socket.end()
+        return
+      default:
+        return reply('502 Command not implemented')
+    }
+  }
+
+  reply('220 localhost SMTP sink ready')
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8')
+
+    let newline: number
+    while ((newline = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, newline)
+      buffer = buffer.slice(newline + 2)
+
+      if (dataLines) {
+        if (line === '.') {
+          deliver(envelope, dataLines.join('\r\n'))
+          dataLines = null
+          envelope = { from: null, to: [] }
+          reply('250 OK: message accepted')
+        } else {
+          // Undo dot-stuffing
+          dataLines.push(line.startsWith('..') ? line.slice(1) : line)
+        }
+      } else {
+        handleCommand(line)
+      }
+    }
+  })
+
+  socket.on('error', error => {
+    console.error('SMTP sink connection error:', error.message)
+  })
+}
+
+const server = createServer(handleConnection)
+
+server.listen(PORT, () => {
+  console.log(`SMTP sink listening on localhost:${PORT}`)
+})
+
+process.on('SIGINT', () => server.close(() => process.exit(0)))
+process.on('SIGTERM', () => server.close(() => process.exit(0)))